@@ -94,6 +94,7 @@ export async function POST(request: NextRequest) {
           repo: node.repo || null,
           metadata: node.metadata ? JSON.stringify(node.metadata) : null,
           sql_content: null,
+          compiled_sql: null,
           layout_x: null,
           layout_y: null,
           layout_layer: null,
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getNodeById, getCitationsForNode } from "@/lib/db";
-import { extractColumnLineage } from "@/lib/parsers/sqlParser";
-import { readFileSync, existsSync } from "fs";
-import { join } from "path";
+import { getNodeById, getColumnEdgesForNode } from "@/lib/db";
+
+interface ColumnLineageSource {
+  sourceTable: string;
+  sourceColumn: string;
+  transform: string;
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -18,57 +21,41 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Node not found" }, { status: 404 });
     }
 
-    const metadata = dbNode.metadata ? JSON.parse(dbNode.metadata) : {};
-    const filePath = metadata.filePath;
-
-    if (!filePath) {
-      return NextResponse.json({
-        nodeId,
-        column,
-        lineage: [],
-        message: "No source file available for this node",
+    // Column edges are computed during indexing, so this works in static mode too
+    const incoming = getColumnEdgesForNode(nodeId).filter((e) => e.to_node === nodeId);
+    const lineage: Record<string, ColumnLineageSource[]> = {};
+    for (const edge of incoming) {
+      if (!lineage[edge.to_column]) lineage[edge.to_column] = [];
+      lineage[edge.to_column].push({
+        sourceTable: edge.from_node,
+        sourceColumn: edge.from_column,
+        transform: edge.transform,
       });
     }
 
-    // Try to find the SQL file
-    const dbtPath = process.env.RIPPLING_DBT_PATH?.replace("~", process.env.HOME || "") || "";
-    const fullPath = filePath.startsWith("/") ? filePath : join(dbtPath, filePath);
-
-    if (!existsSync(fullPath)) {
+    // If specific column requested, filter
+    if (column) {
       return NextResponse.json({
         nodeId,
         column,
-        lineage: [],
-        message: "Source file not found",
+        lineage: lineage[column.toLowerCase()] ?? [],
       });
     }
 
-    const sql = readFileSync(fullPath, "utf-8");
-    const columnLineage = extractColumnLineage(sql);
-
-    // If specific column requested, filter
-    if (column) {
-      const sources = columnLineage.get(column) || columnLineage.get(column.toUpperCase()) || [];
+    if (incoming.length === 0) {
       return NextResponse.json({
         nodeId,
-        column,
-        lineage: sources,
+        lineage: {},
+        message: "No column lineage for this node",
       });
     }
 
-    // Return all column lineage
-    const allLineage: Record<string, { sourceTable: string; sourceColumn: string }[]> = {};
-    for (const [col, sources] of columnLineage) {
-      allLineage[col] = sources;
-    }
-
     return NextResponse.json({
       nodeId,
-      lineage: allLineage,
+      lineage,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
     return NextResponse.json({ error: message }, { status: 500 });
   }
 }
-
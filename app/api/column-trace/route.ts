@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getNodeById, getColumnEdges, getEdges } from "@/lib/db";
+import { traceColumn, getNodePairKey } from "@/lib/graph/columnTrace";
+import type {
+  GraphNode,
+  GraphEdge,
+  NodeMetadata,
+  EdgeMetadata,
+  ColumnEdge,
+  ColumnTraceDirection,
+  ColumnTraceResponse,
+} from "@/lib/types";
+
+const DIRECTIONS: ColumnTraceDirection[] = ["upstream", "downstream", "both"];
+const DEFAULT_DEPTH = 10;
+const MAX_DEPTH = 50;
+
+/**
+ * Trace a column through column-level lineage, e.g. a mart column back to the
+ * raw field it comes from and forward to the reverse ETL fields it's synced to.
+ *
+ * Query parameters: nodeId, column, direction (upstream | downstream | both,
+ * default both), depth (hops per direction, default 10)
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const nodeId = searchParams.get("nodeId");
+  const column = searchParams.get("column");
+  const direction = (searchParams.get("direction") || "both") as ColumnTraceDirection;
+  const depth = parseInt(searchParams.get("depth") || String(DEFAULT_DEPTH), 10);
+
+  if (!nodeId || !column) {
+    return NextResponse.json({ error: "nodeId and column are required" }, { status: 400 });
+  }
+  if (!DIRECTIONS.includes(direction)) {
+    return NextResponse.json({ error: `direction must be one of ${DIRECTIONS.join(", ")}` }, { status: 400 });
+  }
+  if (isNaN(depth) || depth < 1 || depth > MAX_DEPTH) {
+    return NextResponse.json({ error: `depth must be between 1 and ${MAX_DEPTH}` }, { status: 400 });
+  }
+
+  try {
+    if (!getNodeById(nodeId)) {
+      return NextResponse.json({ error: "Node not found" }, { status: 404 });
+    }
+
+    // Column edges are computed during indexing, so this works in static mode too
+    const columnEdges: ColumnEdge[] = getColumnEdges().map((e) => ({
+      fromNode: e.from_node,
+      fromColumn: e.from_column,
+      toNode: e.to_node,
+      toColumn: e.to_column,
+      transform: e.transform as ColumnEdge["transform"],
+    }));
+    const trace = traceColumn(columnEdges, nodeId, column, direction, depth);
+
+    const nodeIds = [...new Set(trace.hops.map((h) => h.nodeId))];
+    const nodes: GraphNode[] = nodeIds
+      .map((id) => getNodeById(id))
+      .filter((n): n is NonNullable<typeof n> => !!n)
+      .map((n) => ({
+        id: n.id,
+        name: n.name,
+        type: n.type as GraphNode["type"],
+        subtype: n.subtype as GraphNode["subtype"],
+        groupId: n.group_id || undefined,
+        repo: n.repo || undefined,
+        metadata: n.metadata ? (JSON.parse(n.metadata) as NodeMetadata) : undefined,
+      }));
+
+    // Graph edges between the node pairs a column hop crosses
+    const tracedPairs = new Set(trace.edges.map((e) => getNodePairKey(e.fromNode, e.toNode)));
+    const graphEdges: GraphEdge[] = getEdges()
+      .filter((e) => tracedPairs.has(getNodePairKey(e.from_node, e.to_node)))
+      .map((e) => ({
+        id: e.id,
+        from: e.from_node,
+        to: e.to_node,
+        type: e.type as GraphEdge["type"],
+        metadata: e.metadata ? (JSON.parse(e.metadata) as EdgeMetadata) : undefined,
+      }));
+
+    const response: ColumnTraceResponse = { ...trace, nodes, graphEdges };
+    return NextResponse.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
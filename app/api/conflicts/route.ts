@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getConflicts,
+  getConflictResolutions,
+  saveConflictResolution,
+  deleteConflictResolution,
+  getNodeById,
+  isStaticMode,
+  dbConflictResolutionToDomain,
+} from "@/lib/db";
+import {
+  LINK_EDGE_TYPES,
+  type GraphNode,
+  type EdgeType,
+  type ConflictInfo,
+  type ConflictResolutionAction,
+} from "@/lib/types";
+
+const ACTIONS: ConflictResolutionAction[] = ["merge", "keep_separate", "link"];
+
+/**
+ * List the conflicts found by the last index with their resolutions, plus
+ * the nodes they involve.
+ *
+ * Query parameters: status (open | resolved, default both)
+ */
+export async function GET(request: NextRequest) {
+  const status = request.nextUrl.searchParams.get("status");
+  if (status && status !== "open" && status !== "resolved") {
+    return NextResponse.json({ error: "status must be open or resolved" }, { status: 400 });
+  }
+
+  try {
+    const resolutions = new Map(getConflictResolutions().map((r) => [r.conflict_id, dbConflictResolutionToDomain(r)]));
+    const allConflicts: ConflictInfo[] = getConflicts().map((c) => ({
+      id: c.id,
+      type: c.type as ConflictInfo["type"],
+      nodeIds: JSON.parse(c.node_ids),
+      message: c.message,
+      confidence: c.confidence ?? undefined,
+      detectedAt: c.detected_at,
+      resolution: resolutions.get(c.id),
+    }));
+    const conflicts = allConflicts.filter((c) => !status || (status === "resolved") === !!c.resolution);
+
+    // Merged nodes are gone from the graph, so only nodes still in it are listed
+    const nodeIds = [...new Set(conflicts.flatMap((c) => c.nodeIds))];
+    const nodes: GraphNode[] = nodeIds
+      .map((id) => getNodeById(id))
+      .filter((n): n is NonNullable<typeof n> => !!n)
+      .map((n) => ({
+        id: n.id,
+        name: n.name,
+        type: n.type as GraphNode["type"],
+        subtype: n.subtype as GraphNode["subtype"],
+        repo: n.repo || undefined,
+      }));
+
+    const resolvedCount = allConflicts.filter((c) => c.resolution).length;
+    return NextResponse.json({
+      conflicts,
+      nodes,
+      counts: { open: allConflicts.length - resolvedCount, resolved: resolvedCount },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * Resolve a conflict. Resolutions are stored and applied on every index from
+ * the next one on, so they survive rebuilds.
+ *
+ * Request body: { conflictId, action: merge | keep_separate | link, note?,
+ *   targetId (merge), from, to, edgeType (link) }
+ */
+export async function POST(request: NextRequest) {
+  if (isStaticMode()) {
+    return NextResponse.json(
+      { error: "Conflict review is not available in production. Run locally with npm run dev." },
+      { status: 405 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { conflictId, action, targetId, from, to, edgeType, note } = body as {
+      conflictId?: string;
+      action?: ConflictResolutionAction;
+      targetId?: string;
+      from?: string;
+      to?: string;
+      edgeType?: EdgeType;
+      note?: string;
+    };
+
+    if (!conflictId || !action) {
+      return NextResponse.json({ error: "conflictId and action are required" }, { status: 400 });
+    }
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `action must be one of ${ACTIONS.join(", ")}` }, { status: 400 });
+    }
+
+    const conflict = getConflicts().find((c) => c.id === conflictId);
+    if (!conflict) {
+      return NextResponse.json({ error: "Conflict not found" }, { status: 404 });
+    }
+    const nodeIds: string[] = JSON.parse(conflict.node_ids);
+
+    if (action === "merge" && (!targetId || !nodeIds.includes(targetId))) {
+      return NextResponse.json({ error: "merge needs a targetId from the conflict's nodes" }, { status: 400 });
+    }
+    if (action === "link") {
+      if (!from || !to || from === to || !nodeIds.includes(from) || !nodeIds.includes(to)) {
+        return NextResponse.json({ error: "link needs two different conflict nodes as from and to" }, { status: 400 });
+      }
+      if (!edgeType || !LINK_EDGE_TYPES.includes(edgeType)) {
+        return NextResponse.json({ error: `edgeType must be one of ${LINK_EDGE_TYPES.join(", ")}` }, { status: 400 });
+      }
+    }
+
+    const saved = saveConflictResolution({
+      conflict_id: conflictId,
+      action,
+      node_ids: conflict.node_ids,
+      target_id: action === "merge" ? targetId! : null,
+      from_node: action === "link" ? from! : null,
+      to_node: action === "link" ? to! : null,
+      edge_type: action === "link" ? edgeType! : null,
+      note: note || null,
+    });
+
+    return NextResponse.json({ resolution: dbConflictResolutionToDomain(saved) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * Reopen a conflict by deleting its resolution (takes effect on the next index).
+ *
+ * Query parameters: conflictId
+ */
+export async function DELETE(request: NextRequest) {
+  if (isStaticMode()) {
+    return NextResponse.json(
+      { error: "Conflict review is not available in production. Run locally with npm run dev." },
+      { status: 405 }
+    );
+  }
+
+  const conflictId = request.nextUrl.searchParams.get("conflictId");
+  if (!conflictId) {
+    return NextResponse.json({ error: "conflictId is required" }, { status: 400 });
+  }
+
+  try {
+    if (!deleteConflictResolution(conflictId)) {
+      return NextResponse.json({ error: "No resolution for this conflict" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
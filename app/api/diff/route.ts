@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getGraphSnapshot, getGraphSnapshots, type DbGraphSnapshot } from "@/lib/db";
+import { diffGraphs } from "@/lib/graph/diff";
+import type { GraphDiff, GraphNode, GraphEdge, GraphSnapshotInfo } from "@/lib/types";
+
+function toSnapshotInfo(snapshot: DbGraphSnapshot): GraphSnapshotInfo {
+  return {
+    jobId: snapshot.job_id,
+    version: snapshot.version,
+    nodeCount: snapshot.node_count,
+    edgeCount: snapshot.edge_count,
+    createdAt: snapshot.created_at,
+  };
+}
+
+/**
+ * Diff two graph snapshots.
+ * `from` and `to` accept a job ID or snapshot version. When omitted, `to`
+ * defaults to the latest snapshot and `from` to the one before `to`.
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  let fromRef = searchParams.get("from");
+  let toRef = searchParams.get("to");
+
+  try {
+    if (!fromRef || !toRef) {
+      const versions = getGraphSnapshots().map((s) => s.version); // Newest first
+      toRef = toRef || (versions[0] !== undefined ? String(versions[0]) : null);
+      if (!fromRef && toRef) {
+        const toVersion = getGraphSnapshot(toRef)?.version;
+        const previous = versions.find((v) => toVersion !== undefined && v < toVersion);
+        fromRef = previous !== undefined ? String(previous) : null;
+      }
+    }
+
+    if (!fromRef || !toRef) {
+      return NextResponse.json(
+        { error: "At least two graph snapshots are needed to compute a diff" },
+        { status: 404 }
+      );
+    }
+
+    const fromSnapshot = getGraphSnapshot(fromRef);
+    if (!fromSnapshot) {
+      return NextResponse.json({ error: `Snapshot not found: ${fromRef}` }, { status: 404 });
+    }
+    const toSnapshot = getGraphSnapshot(toRef);
+    if (!toSnapshot) {
+      return NextResponse.json({ error: `Snapshot not found: ${toRef}` }, { status: 404 });
+    }
+
+    const { nodes, edges } = diffGraphs(
+      JSON.parse(fromSnapshot.nodes) as GraphNode[],
+      JSON.parse(fromSnapshot.edges) as GraphEdge[],
+      JSON.parse(toSnapshot.nodes) as GraphNode[],
+      JSON.parse(toSnapshot.edges) as GraphEdge[]
+    );
+
+    const diff: GraphDiff = {
+      from: toSnapshotInfo(fromSnapshot),
+      to: toSnapshotInfo(toSnapshot),
+      nodes,
+      edges,
+    };
+
+    return NextResponse.json({
+      ...diff,
+      summary: {
+        nodesAdded: nodes.added.length,
+        nodesRemoved: nodes.removed.length,
+        nodesModified: nodes.modified.length,
+        edgesAdded: edges.added.length,
+        edgesRemoved: edges.removed.length,
+        edgesModified: edges.modified.length,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getDb,
+  isStaticMode,
+  getNodes,
+  getEdges,
+  insertNode,
+  insertEdges,
+  insertCitations,
+  clearLineageCache,
+  DbNode,
+  DbEdge,
+  DbCitation,
+} from "@/lib/db";
+import {
+  parseHightouchConfig,
+  normalizeHightouchResponse,
+  validateHightouchConfig,
+} from "@/lib/indexer/hightouchParser";
+import type { GraphNode } from "@/lib/types";
+
+/**
+ * POST /api/hightouch
+ * 
+ * Upload a Hightouch export to create reverse ETL sync and destination nodes,
+ * with the same loop-back detection as /api/census.
+ * 
+ * Request body: { syncs, models, destinations } from the Hightouch API
+ * (/api/v1/syncs, /api/v1/models, /api/v1/destinations)
+ * 
+ * Example:
+ * curl -X POST http://localhost:3000/api/hightouch \
+ *   -H "Content-Type: application/json" \
+ *   -d @hightouch.json
+ */
+export async function POST(request: NextRequest) {
+  // Disable in production (static mode)
+  if (isStaticMode()) {
+    return NextResponse.json(
+      { error: "Hightouch import is not available in production. Run locally with npm run dev." },
+      { status: 405 }
+    );
+  }
+
+  try {
+    // Parse request body
+    const body = await request.json();
+
+    // Validate Hightouch export structure
+    const validation = validateHightouchConfig(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: `Invalid Hightouch export: ${validation.error}` },
+        { status: 400 }
+      );
+    }
+
+    // Normalize the response format
+    const config = normalizeHightouchResponse(body);
+
+    // Initialize database and get existing nodes
+    getDb();
+    const dbNodes = getNodes();
+    const existingEdges = getEdges();
+
+    // Convert DB nodes to GraphNodes for the parser
+    const graphNodes: GraphNode[] = dbNodes.map((n: DbNode) => ({
+      id: n.id,
+      name: n.name,
+      type: n.type as GraphNode["type"],
+      subtype: n.subtype as GraphNode["subtype"],
+      repo: n.repo || undefined,
+      metadata: n.metadata ? JSON.parse(n.metadata) : undefined,
+    }));
+
+    // Parse Hightouch export
+    const result = parseHightouchConfig(config, graphNodes);
+
+    // Track what we're adding
+    const existingEdgeKeys = new Set(existingEdges.map((e: DbEdge) => `${e.from_node}|${e.to_node}`));
+    const existingNodeIds = new Set(dbNodes.map((n: DbNode) => n.id));
+
+    // Add Hightouch sync and destination nodes that don't exist yet
+    let hightouchNodesAdded = 0;
+    for (const node of result.nodes) {
+      if (!existingNodeIds.has(node.id)) {
+        const dbNode: Omit<DbNode, "created_at"> = {
+          id: node.id,
+          name: node.name,
+          type: node.type,
+          subtype: node.subtype || null,
+          group_id: null,
+          repo: node.repo || null,
+          metadata: node.metadata ? JSON.stringify(node.metadata) : null,
+          sql_content: null,
+          compiled_sql: null,
+          layout_x: null,
+          layout_y: null,
+          layout_layer: null,
+          semantic_layer: node.semanticLayer || null,
+          importance_score: null,
+        };
+        insertNode(dbNode);
+        existingNodeIds.add(node.id);
+        hightouchNodesAdded++;
+      }
+    }
+
+    // Filter out edges that already exist
+    const newEdges: DbEdge[] = [];
+    for (const edge of result.edges) {
+      const key = `${edge.from}|${edge.to}`;
+      if (!existingEdgeKeys.has(key)) {
+        newEdges.push({
+          id: edge.id,
+          from_node: edge.from,
+          to_node: edge.to,
+          type: edge.type,
+          metadata: edge.metadata ? JSON.stringify(edge.metadata) : null,
+        });
+        existingEdgeKeys.add(key);
+      }
+    }
+
+    // Insert new edges
+    if (newEdges.length > 0) {
+      insertEdges(newEdges);
+    }
+
+    // Insert citations
+    if (result.citations.length > 0) {
+      const dbCitations: DbCitation[] = result.citations.map(c => ({
+        id: c.id,
+        node_id: c.nodeId || null,
+        edge_id: c.edgeId || null,
+        file_path: c.filePath,
+        start_line: c.startLine || null,
+        end_line: c.endLine || null,
+        snippet: c.snippet || null,
+      }));
+      insertCitations(dbCitations);
+    }
+
+    // Clear lineage cache since graph structure changed
+    if (newEdges.length > 0) {
+      clearLineageCache();
+    }
+
+    return NextResponse.json({
+      success: true,
+      stats: {
+        syncsProcessed: result.stats.syncsProcessed,
+        matchedSources: result.stats.matchedSources.length,
+        edgesCreated: newEdges.length,
+        loopBacksDetected: result.stats.loopBacksDetected,
+        hightouchNodesCreated: hightouchNodesAdded,
+        matchedSourceDetails: result.stats.matchedSources.slice(0, 10), // First 10 for quick view
+        unmatchedSources: result.stats.unmatchedSources,
+        unmatchedDestinations: result.stats.unmatchedDestinations,
+      },
+      message: newEdges.length > 0
+        ? `Created ${newEdges.length} reverse ETL edges from ${result.stats.syncsProcessed} Hightouch syncs (${result.stats.matchedSources.length} matched)`
+        : `No new edges created (${result.stats.syncsProcessed} syncs processed, ${result.stats.matchedSources.length} matched, ${result.stats.unmatchedSources.length} unmatched)`,
+    });
+
+  } catch (error) {
+    console.error("Hightouch import error:", error);
+    const message = error instanceof Error ? error.message : String(error);
+    return NextResponse.json(
+      { error: `Failed to import Hightouch export: ${message}` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/hightouch
+ * 
+ * Get instructions for importing a Hightouch export.
+ */
+export async function GET() {
+  return NextResponse.json({
+    description: "Hightouch Reverse ETL Import",
+    autoLoadBehavior: "The indexer automatically loads Hightouch data from data/hightouch.json if present. If the file is missing, Hightouch integration is skipped.",
+    instructions: [
+      "1. Create a Hightouch API key under Settings > API keys",
+      "2. Fetch syncs, models and destinations: curl -H 'Authorization: Bearer YOUR_KEY' https://api.hightouch.com/api/v1/syncs (and /models, /destinations)",
+      "3. Combine the responses into one file: { \"syncs\": ..., \"models\": ..., \"destinations\": ... }",
+      "4. Either: save to data/hightouch.json for auto-loading, or POST to this endpoint for one-time import",
+    ],
+    expectedFormat: {
+      syncs: [
+        {
+          id: 101,
+          slug: "leads-to-salesforce",
+          modelId: 1,
+          destinationId: 2,
+          schedule: { type: "interval", schedule: { interval: { quantity: 1, unit: "hour" } } },
+          configuration: { object: "Lead", mode: "upsert" },
+        },
+      ],
+      models: [
+        {
+          id: 1,
+          name: "mart_growth__lsw_lead_data",
+          queryType: "table",
+          table: { name: "core_growth.mart_growth__lsw_lead_data" },
+        },
+      ],
+      destinations: [
+        {
+          id: 2,
+          name: "Salesforce Production",
+          type: "salesforce",
+        },
+      ],
+    },
+  });
+}
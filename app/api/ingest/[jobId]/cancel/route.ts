@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, isStaticMode, requestJobCancel } from "@/lib/db";
+
+const ACTIVE_STATUSES = ["pending", "running", "waiting_for_input"];
+
+/**
+ * Ask a running job to stop. The indexer checks for the request between
+ * and within stages, then marks the job cancelled (it can be resumed later).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  if (isStaticMode()) {
+    return NextResponse.json(
+      { error: "Indexing is not available in production. Run locally with npm run dev." },
+      { status: 405 }
+    );
+  }
+
+  const { jobId } = await params;
+
+  try {
+    const job = getJob(jobId);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    if (!ACTIVE_STATUSES.includes(job.status)) {
+      return NextResponse.json(
+        { error: `Job is ${job.status}; only running jobs can be cancelled` },
+        { status: 409 }
+      );
+    }
+
+    requestJobCancel(jobId);
+
+    return NextResponse.json({ success: true, jobId });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
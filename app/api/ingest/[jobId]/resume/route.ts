@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, getLatestJob, isStaticMode, resetJobForResume } from "@/lib/db";
+import { Indexer, type JobCheckpoint } from "@/lib/indexer";
+import type { IndexingStage } from "@/lib/types";
+
+/**
+ * Resume a failed or cancelled job from its first incomplete stage,
+ * using the config and checkpoint saved with the job.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  if (isStaticMode()) {
+    return NextResponse.json(
+      { error: "Indexing is not available in production. Run locally with npm run dev." },
+      { status: 405 }
+    );
+  }
+
+  const { jobId } = await params;
+
+  try {
+    const job = getJob(jobId);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    if (job.status !== "failed" && job.status !== "cancelled") {
+      return NextResponse.json(
+        { error: `Job is ${job.status}; only failed or cancelled jobs can be resumed` },
+        { status: 409 }
+      );
+    }
+
+    if (!job.checkpoint) {
+      return NextResponse.json(
+        { error: "Job has no checkpoint to resume from; start a new index instead" },
+        { status: 409 }
+      );
+    }
+
+    // Resuming an older job would overwrite the graph built by a newer one
+    if (getLatestJob()?.id !== jobId) {
+      return NextResponse.json(
+        { error: "A newer indexing job exists; only the latest job can be resumed" },
+        { status: 409 }
+      );
+    }
+
+    const checkpoint = JSON.parse(job.checkpoint) as JobCheckpoint;
+    const stages: IndexingStage[] = job.stages ? JSON.parse(job.stages) : [];
+    const resumeFrom = stages.find((s) => !checkpoint.completedStages.includes(s.id))?.id ?? null;
+
+    resetJobForResume(jobId);
+
+    // Same as /api/ingest: let the response go out before the indexer starts
+    const indexer = new Indexer(jobId, checkpoint.config);
+    setImmediate(() => {
+      indexer.run().catch((error) => {
+        console.error("Resumed indexing failed:", error);
+      });
+    });
+
+    return NextResponse.json({ jobId, resumeFrom });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -3,7 +3,7 @@ import { v4 as uuid } from "uuid";
 import { createJob, getDb, isStaticMode } from "@/lib/db";
 import { Indexer, IndexerConfig } from "@/lib/indexer";
 
-export async function POST() {
+export async function POST(request: Request) {
   // Disable indexing in production (static mode)
   if (isStaticMode()) {
     return NextResponse.json(
@@ -12,6 +12,15 @@ export async function POST() {
     );
   }
 
+  // Optional body: { incremental: true } re-indexes only inputs that changed
+  let incremental = false;
+  try {
+    const body = await request.json();
+    incremental = body?.incremental === true;
+  } catch {
+    // No body - default to a full rebuild
+  }
+
   // Initialize database
   getDb();
 
@@ -22,6 +31,7 @@ export async function POST() {
     dbtPath: process.env.RIPPLING_DBT_PATH || "~/Documents/GitHub/rippling-dbt",
     airflowPath: process.env.AIRFLOW_DAGS_PATH || "~/Documents/GitHub/airflow-dags",
     snowflakeEnabled: true, // Enables Snowflake metadata enrichment and table discovery
+    incremental,
   };
 
   // Expand ~ to home directory
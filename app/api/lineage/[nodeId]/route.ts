@@ -109,6 +109,7 @@ export async function GET(
   const downstreamDepth = parseInt(searchParams.get("downstreamDepth") || "2", 10);
   const flowId = searchParams.get("flowId") || null;
   const focusId = searchParams.get("focusId") || null; // For stretching exploration
+  const includeObserved = searchParams.get("observed") !== "false"; // Observed edges from query history
 
   try {
     // Verify anchor node exists
@@ -117,9 +118,10 @@ export async function GET(
       return NextResponse.json({ error: "Anchor node not found" }, { status: 404 });
     }
 
-    // Include focusId in cache key
+    // Include focusId and the observed-edge filter in cache key
     const cacheKey = generateLineageCacheKey(decodedId, upstreamDepth, downstreamDepth, flowId) + 
-      (focusId ? `:focus:${focusId}` : "");
+      (focusId ? `:focus:${focusId}` : "") +
+      (includeObserved ? "" : ":no-observed");
     const cached = getLineageCache(cacheKey);
     
     if (cached) {
@@ -150,13 +152,15 @@ export async function GET(
       layoutLayer: n.layout_layer ?? undefined,
     }));
 
-    const allEdges: GraphEdge[] = dbEdges.map((e) => ({
-      id: e.id,
-      from: e.from_node,
-      to: e.to_node,
-      type: e.type as GraphEdge["type"],
-      metadata: e.metadata ? (JSON.parse(e.metadata) as EdgeMetadata) : undefined,
-    }));
+    const allEdges: GraphEdge[] = dbEdges
+      .filter((e) => includeObserved || e.type !== "observed")
+      .map((e) => ({
+        id: e.id,
+        from: e.from_node,
+        to: e.to_node,
+        type: e.type as GraphEdge["type"],
+        metadata: e.metadata ? (JSON.parse(e.metadata) as EdgeMetadata) : undefined,
+      }));
 
     const flows: GraphFlow[] = dbFlows.map((f) => ({
       id: f.id,
@@ -34,6 +34,8 @@ export async function GET(
       groupId: dbNode.group_id || undefined,
       repo: dbNode.repo || undefined,
       metadata: dbNode.metadata ? (JSON.parse(dbNode.metadata) as NodeMetadata) : undefined,
+      sqlContent: dbNode.sql_content || undefined,
+      compiledSql: dbNode.compiled_sql || undefined,
       layoutX: dbNode.layout_x ?? undefined,
       layoutY: dbNode.layout_y ?? undefined,
       layoutLayer: dbNode.layout_layer ?? undefined,
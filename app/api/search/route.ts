@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { searchNodes, getNodes, isStaticMode, DbNode } from "@/lib/db";
+import { getTestCoverage, TEST_COVERAGE_LEVELS, type TestCoverageLevel } from "@/lib/graph/testCoverage";
 import type { GraphNode, NodeMetadata } from "@/lib/types";
 
 // Only import getDb when not in static mode
@@ -13,13 +14,26 @@ export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const query = searchParams.get("q");
   const limit = parseInt(searchParams.get("limit") || "50", 10);
+  // Optional dbt test coverage filter: untested | partial | covered
+  const coverage = searchParams.get("coverage") as TestCoverageLevel | null;
+  // Optional sensitive data filter: only nodes flagged as containing PII
+  const sensitive = searchParams.get("sensitive") === "true";
+  const filtered = !!coverage || sensitive;
+
+  if (coverage && !TEST_COVERAGE_LEVELS.includes(coverage)) {
+    return NextResponse.json(
+      { error: `coverage must be one of: ${TEST_COVERAGE_LEVELS.join(", ")}` },
+      { status: 400 }
+    );
+  }
 
   try {
     let dbNodes: DbNode[];
 
     if (query && query.length >= 2) {
-      // Use FTS search for main results (works in both modes)
-      dbNodes = searchNodes(`${query}*`, limit);
+      // Use FTS search for main results (works in both modes). Over-fetch
+      // when filtering so the filters still fill the page.
+      dbNodes = searchNodes(`${query}*`, filtered ? limit * 10 : limit);
       
       // FTS5 has issues matching external nodes (case sensitivity, tokenization)
       // Supplement with additional search on external nodes to ensure they appear
@@ -57,11 +71,11 @@ export async function GET(request: NextRequest) {
         }
       }
     } else {
-      // Return all nodes if no query
-      dbNodes = getNodes().slice(0, limit);
+      // Return all nodes if no query (the filters are applied below)
+      dbNodes = filtered ? getNodes() : getNodes().slice(0, limit);
     }
 
-    const nodes: GraphNode[] = dbNodes.map((n) => ({
+    let nodes: GraphNode[] = dbNodes.map((n) => ({
       id: n.id,
       name: n.name,
       type: n.type as GraphNode["type"],
@@ -71,6 +85,16 @@ export async function GET(request: NextRequest) {
       metadata: n.metadata ? (JSON.parse(n.metadata) as NodeMetadata) : undefined,
     }));
 
+    if (coverage) {
+      nodes = nodes.filter((node) => getTestCoverage(node)?.level === coverage);
+    }
+    if (sensitive) {
+      nodes = nodes.filter((node) => node.metadata?.containsPii);
+    }
+    if (filtered) {
+      nodes = nodes.slice(0, limit);
+    }
+
     return NextResponse.json({ nodes, total: nodes.length });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { getGraphSnapshots } from "@/lib/db";
+import type { GraphSnapshotInfo } from "@/lib/types";
+
+export async function GET() {
+  try {
+    const snapshots: GraphSnapshotInfo[] = getGraphSnapshots().map((s) => ({
+      jobId: s.job_id,
+      version: s.version,
+      nodeCount: s.node_count,
+      edgeCount: s.edge_count,
+      createdAt: s.created_at,
+    }));
+
+    return NextResponse.json({ snapshots });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { connect, getSchemas, disconnect } from "@/lib/snowflake/client";
+import { connect, getSchemas, disconnect } from "@/lib/snowflake";
 import { getSnowflakeConfig, hasSnowflakeCredentials } from "@/lib/indexer/snowflakeMetadata";
 
 export async function GET() {
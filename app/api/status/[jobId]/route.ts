@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getJob, getActivityLog, getUsageStats, getSkippedStages, getWaitingData } from "@/lib/db";
-import { INDEXING_STAGES } from "@/lib/types";
+import type { IndexingStage } from "@/lib/types";
 
 export async function GET(
   request: NextRequest,
@@ -13,16 +13,17 @@ export async function GET(
     return NextResponse.json({ error: "Job not found" }, { status: 404 });
   }
 
+  // Stage plan recorded by the indexer (source parsers vary per install)
+  const stages: IndexingStage[] = job.stages ? JSON.parse(job.stages) : [];
+  const stageInfo = stages.find((s) => s.id === job.stage);
+
   // Calculate overall progress based on stage
   let overallProgress = 0;
   if (job.status === "completed") {
     overallProgress = 100;
-  } else if (job.stage) {
-    const stageInfo = INDEXING_STAGES.find((s) => s.id === job.stage);
-    if (stageInfo) {
-      const stageRange = stageInfo.endPct - stageInfo.startPct;
-      overallProgress = stageInfo.startPct + (stageRange * job.stage_progress) / 100;
-    }
+  } else if (stageInfo) {
+    const stageRange = stageInfo.endPct - stageInfo.startPct;
+    overallProgress = stageInfo.startPct + (stageRange * job.stage_progress) / 100;
   }
 
   // Get activity log (last 15 entries for UI)
@@ -41,14 +42,18 @@ export async function GET(
     id: job.id,
     status: job.status,
     stage: job.stage,
-    stageName: INDEXING_STAGES.find((s) => s.id === job.stage)?.name,
+    stageName: stageInfo?.name,
     stageProgress: job.stage_progress,
     overallProgress: Math.round(overallProgress),
     message: job.message,
     error: job.error,
     activityLog,
     usageStats,
+    stages,
     skippedStages,
+    cancelRequested: job.cancel_requested === 1,
+    // Failed/cancelled jobs with a checkpoint can continue via /api/ingest/{jobId}/resume
+    resumable: (job.status === "failed" || job.status === "cancelled") && !!job.checkpoint,
     waitingFor: waitingData?.waitingFor,
     waitingData: waitingData?.data,
     startedAt: job.started_at,
@@ -8,6 +8,7 @@ import DepthControl from "@/components/DepthControl";
 import OrientationHeader from "@/components/OrientationHeader";
 import EditFlowModal from "@/components/EditFlowModal";
 import CreateFlowModal from "@/components/CreateFlowModal";
+import ConflictReviewModal from "@/components/ConflictReviewModal";
 import PipelineChat from "@/components/PipelineChat";
 import {
   getCachedExplanation,
@@ -15,8 +16,12 @@ import {
   getCachedRelationalExplanation,
   setCachedRelationalExplanation,
 } from "@/lib/client/explanationCache";
-import type { GraphNode, GraphEdge, GraphFlow, ProposedAction, ChatContext } from "@/lib/types";
-import type { GraphExplorerRef, VisibleNode } from "@/components/GraphExplorer";
+import { buildDiffStatusMaps, overlayRemovedElements } from "@/lib/graph/diff";
+import { getTestCoverage, type TestCoverageLevel } from "@/lib/graph/testCoverage";
+import { describeSchedule, describeSyncFrequency } from "@/lib/graph/schedule";
+import { buildColumnTraceMaps, overlayColumnTrace } from "@/lib/graph/columnTrace";
+import type { GraphNode, GraphEdge, GraphFlow, ProposedAction, ChatContext, GraphDiff, GraphSnapshotInfo, DiffStatus, NodeChange, DbtRunInfo, GovernanceTag, ColumnTraceResponse } from "@/lib/types";
+import type { GraphExplorerRef, VisibleNode, RunOverlayMode } from "@/components/GraphExplorer";
 import type { VisibilityReason } from "@/lib/graph/visibility";
 
 // Dynamically import GraphExplorer to avoid SSR issues with Cytoscape
@@ -120,6 +125,493 @@ function MarkdownContent({ content, nodes, onNodeClick }: MarkdownContentProps)
   return <div className="text-sm text-white/80 leading-relaxed">{rendered}</div>;
 }
 
+// Side panel summary of how a node changed since the compared snapshot
+interface NodeDiffSectionProps {
+  status: DiffStatus;
+  change?: NodeChange;
+  fromVersion: number;
+}
+
+function formatMetadataValue(value: unknown): string {
+  if (value === undefined) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function SqlChangeDetails({ label, sqlChange }: { label: string; sqlChange: { before?: string; after?: string } }) {
+  return (
+    <details className="text-xs">
+      <summary className="cursor-pointer text-white/60">{label}</summary>
+      <div className="mt-2 space-y-2">
+        <pre className="max-h-40 overflow-auto p-2 rounded bg-red-500/10 text-red-200/80 whitespace-pre-wrap">
+          {sqlChange.before || "(none)"}
+        </pre>
+        <pre className="max-h-40 overflow-auto p-2 rounded bg-green-500/10 text-green-200/80 whitespace-pre-wrap">
+          {sqlChange.after || "(none)"}
+        </pre>
+      </div>
+    </details>
+  );
+}
+
+function NodeDiffSection({ status, change, fromVersion }: NodeDiffSectionProps) {
+  const styles: Record<DiffStatus, string> = {
+    added: "bg-green-500/10 border-green-500/20 text-green-300",
+    removed: "bg-red-500/10 border-red-500/20 text-red-300",
+    modified: "bg-yellow-500/10 border-yellow-500/20 text-yellow-300",
+  };
+
+  return (
+    <div className={`border rounded-lg p-3 text-sm space-y-2 ${styles[status]}`}>
+      <div className="font-medium">
+        {status === "added" && `Added since v${fromVersion}`}
+        {status === "removed" && `Removed since v${fromVersion}`}
+        {status === "modified" && `Modified since v${fromVersion}`}
+      </div>
+      {change && (
+        <>
+          {change.changedFields.filter((f) => f !== "metadata" && f !== "sqlContent" && f !== "compiledSql").length > 0 && (
+            <div className="text-xs text-white/60">
+              Changed: {change.changedFields.filter((f) => f !== "metadata" && f !== "sqlContent" && f !== "compiledSql").join(", ")}
+            </div>
+          )}
+          {change.metadataChanges.length > 0 && (
+            <div className="space-y-1">
+              {change.metadataChanges.map((m) => (
+                <div key={m.key} className="text-xs font-mono break-all">
+                  <span className="text-white/60">{m.key}:</span>{" "}
+                  <span className="text-red-300/80 line-through">{formatMetadataValue(m.before)}</span>{" "}
+                  <span className="text-green-300/80">{formatMetadataValue(m.after)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {change.sqlChange && <SqlChangeDetails label="SQL changed" sqlChange={change.sqlChange} />}
+          {change.compiledSqlChange && (
+            <SqlChangeDetails label="Compiled SQL changed" sqlChange={change.compiledSqlChange} />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+function formatRunDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+function runStatusClass(status: string): string {
+  if (status === "success" || status === "pass") return "text-green-400";
+  if (status === "warn") return "text-yellow-400";
+  if (status === "skipped") return "text-white/40";
+  return "text-red-400";
+}
+
+// Side panel history of a node's recent dbt runs (newest first)
+function RecentRunsSection({ runs }: { runs: DbtRunInfo[] }) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-white/60 mb-2">Recent runs ({runs.length})</h3>
+      <div className="space-y-1 max-h-60 overflow-y-auto text-xs">
+        {runs.map((run) => (
+          <div
+            key={run.invocationId ?? run.completedAt}
+            className="flex items-center justify-between gap-2 py-1 px-2 hover:bg-white/5 rounded"
+            title={run.message || undefined}
+          >
+            <span className={`font-medium ${runStatusClass(run.status)}`}>{run.status}</span>
+            <span className="text-white/50 flex-1 truncate">{new Date(run.completedAt).toLocaleString()}</span>
+            <span className="text-white/60 font-mono">{formatRunDuration(run.executionTime)}</span>
+            {run.rowsAffected !== undefined && (
+              <span className="text-white/40 font-mono">{run.rowsAffected.toLocaleString()} rows</span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Side panel coverage badge and list of the dbt tests covering a node
+const COVERAGE_STYLES: Record<TestCoverageLevel, { label: string; className: string }> = {
+  untested: { label: "Untested", className: "bg-red-500/20 text-red-300" },
+  partial: { label: "Partly tested", className: "bg-yellow-500/20 text-yellow-300" },
+  covered: { label: "PK tested", className: "bg-green-500/20 text-green-300" },
+};
+
+function TestsSection({ node }: { node: GraphNode }) {
+  const coverage = getTestCoverage(node);
+  if (!coverage) return null;
+
+  const tests = node.metadata?.tests ?? [];
+  const style = COVERAGE_STYLES[coverage.level];
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-white/60 mb-2 flex items-center gap-2">
+        Tests ({coverage.testCount})
+        <span className={`text-xs px-2 py-0.5 rounded font-normal ${style.className}`}>{style.label}</span>
+        {coverage.totalColumns > 0 && (
+          <span className="text-xs text-white/40 font-normal">
+            {coverage.testedColumns}/{coverage.totalColumns} columns tested
+          </span>
+        )}
+      </h3>
+      {tests.length > 0 ? (
+        <div className="space-y-1 max-h-40 overflow-y-auto text-xs font-mono">
+          {tests.map((test) => (
+            <div key={test.name} className="flex justify-between gap-2 py-1 px-2 hover:bg-white/5 rounded" title={test.name}>
+              <span className="text-white/80 truncate">
+                {test.type}
+                {test.references && <span className="text-white/40"> → {test.references}{test.referencedColumn ? `.${test.referencedColumn}` : ""}</span>}
+              </span>
+              <span className="text-white/40 flex-shrink-0">
+                {test.column ?? "model"}
+                {test.severity === "warn" && " (warn)"}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-white/40 italic">No dbt tests cover this node.</p>
+      )}
+    </div>
+  );
+}
+
+// Side panel definition of a semantic model, metric or saved query
+function SemanticSection({ node }: { node: GraphNode }) {
+  const metadata = node.metadata;
+  if (!metadata) return null;
+
+  const rows: Array<{ label: string; items: Array<{ name: string; detail?: string; title?: string }> }> = [
+    {
+      label: "Entities",
+      items: (metadata.entities ?? []).map((e) => ({ name: e.name, detail: e.type, title: e.expr ?? e.description })),
+    },
+    {
+      label: "Dimensions",
+      items: (metadata.dimensions ?? []).map((d) => ({
+        name: d.name,
+        detail: d.timeGranularity ? `${d.type} (${d.timeGranularity})` : d.type,
+        title: d.expr ?? d.description,
+      })),
+    },
+    {
+      label: "Measures",
+      items: (metadata.measures ?? []).map((m) => ({ name: m.name, detail: m.agg, title: m.expr ?? m.description })),
+    },
+    { label: "Metrics", items: (metadata.metrics ?? []).map((name) => ({ name })) },
+    { label: "Group by", items: (metadata.groupBy ?? []).map((name) => ({ name })) },
+  ].filter((row) => row.items.length > 0);
+
+  const hasMetricInfo = Boolean(metadata.metricType || metadata.metricExpression || metadata.metricFilter);
+  if (rows.length === 0 && !hasMetricInfo) return null;
+
+  return (
+    <div className="space-y-3">
+      {hasMetricInfo && (
+        <div className="text-xs space-y-1">
+          {metadata.metricType && (
+            <div>
+              <span className="text-white/40">Type:</span> <span className="text-pink-300">{metadata.metricType}</span>
+            </div>
+          )}
+          {metadata.metricExpression && (
+            <div className="font-mono break-all">
+              <span className="text-white/40">Expr:</span> <span className="text-white/80">{metadata.metricExpression}</span>
+            </div>
+          )}
+          {metadata.metricFilter && (
+            <div className="font-mono break-all">
+              <span className="text-white/40">Where:</span> <span className="text-white/80">{metadata.metricFilter}</span>
+            </div>
+          )}
+        </div>
+      )}
+      {rows.map((row) => (
+        <div key={row.label}>
+          <h3 className="text-sm font-medium text-white/60 mb-2">
+            {row.label} ({row.items.length})
+          </h3>
+          <div className="space-y-1 max-h-40 overflow-y-auto font-mono text-xs">
+            {row.items.map((item) => (
+              <div
+                key={item.name}
+                className="flex justify-between py-1 px-2 hover:bg-white/5 rounded"
+                title={item.title || undefined}
+              >
+                <span className="text-white/80">{item.name}</span>
+                {item.detail && <span className="text-white/40">{item.detail}</span>}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Side panel Airflow orchestration: a DAG's schedule and tasks, or the DAGs that build a table
+function OrchestrationSection({ node }: { node: GraphNode }) {
+  const metadata = node.metadata;
+  if (!metadata) return null;
+
+  if (node.type === "dag") {
+    const tasks = metadata.tasks ?? [];
+    return (
+      <div className="space-y-3">
+        <div className="text-xs space-y-1">
+          <div>
+            <span className="text-white/40">Schedule:</span>{" "}
+            <span className="text-sky-300">{metadata.schedule ? describeSchedule(metadata.schedule) : "none"}</span>
+            {metadata.schedule && describeSchedule(metadata.schedule) !== metadata.schedule && (
+              <span className="text-white/40 font-mono"> ({metadata.schedule})</span>
+            )}
+          </div>
+          {metadata.owner && (
+            <div>
+              <span className="text-white/40">Owner:</span> <span className="text-white/80">{metadata.owner}</span>
+            </div>
+          )}
+          {metadata.tags && metadata.tags.length > 0 && (
+            <div>
+              <span className="text-white/40">Tags:</span> <span className="text-white/80">{metadata.tags.join(", ")}</span>
+            </div>
+          )}
+        </div>
+        <div>
+          <h3 className="text-sm font-medium text-white/60 mb-2">Tasks ({tasks.length})</h3>
+          <div className="space-y-1 max-h-60 overflow-y-auto font-mono text-xs">
+            {tasks.map((task) => (
+              <div
+                key={task.taskId}
+                className="py-1 px-2 hover:bg-white/5 rounded"
+                title={task.sqlPaths?.join("\n")}
+              >
+                <div className="flex justify-between gap-2">
+                  <span className="text-white/80 truncate">{task.taskId}</span>
+                  <span className="text-white/40 flex-shrink-0">{task.operator}</span>
+                </div>
+                {task.upstreamTasks.length > 0 && (
+                  <div className="text-white/40 truncate">after {task.upstreamTasks.join(", ")}</div>
+                )}
+                {task.writes && task.writes.length > 0 && (
+                  <div className="text-sky-300/80 truncate">writes {task.writes.join(", ")}</div>
+                )}
+                {task.dbtCommands?.map((command) => (
+                  <div key={command} className="text-orange-300/80 truncate" title={command}>{command}</div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!metadata.dagIds || metadata.dagIds.length === 0) return null;
+
+  return (
+    <div className="text-xs" title={metadata.schedule}>
+      <span className="text-white/40">Refreshed</span>{" "}
+      {metadata.schedule && <span className="text-white/80">{describeSchedule(metadata.schedule)} </span>}
+      <span className="text-white/40">by {metadata.dagIds.length > 1 ? "DAGs" : "DAG"}</span>{" "}
+      <span className="text-sky-300 font-mono">{metadata.dagIds.join(", ")}</span>
+    </div>
+  );
+}
+
+// Side panel Fivetran connector: sync settings and the tables it lands
+function IngestionSection({ node }: { node: GraphNode }) {
+  const metadata = node.metadata;
+  if (node.subtype !== "fivetran_source" || !metadata) return null;
+
+  const landedTables = metadata.landedTables ?? [];
+  return (
+    <div className="space-y-3">
+      <div className="text-xs space-y-1">
+        <div>
+          <span className="text-white/40">Syncs:</span>{" "}
+          {metadata.paused ? (
+            <span className="text-amber-300">paused</span>
+          ) : (
+            <span className="text-teal-300">
+              {metadata.syncFrequencyMinutes ? describeSyncFrequency(metadata.syncFrequencyMinutes) : "manually"}
+            </span>
+          )}
+        </div>
+        {metadata.lastSyncAt && (
+          <div>
+            <span className="text-white/40">Last sync:</span>{" "}
+            <span className="text-white/80">{new Date(metadata.lastSyncAt).toLocaleString()}</span>
+          </div>
+        )}
+      </div>
+      {landedTables.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-white/60 mb-2">Landed tables ({landedTables.length})</h3>
+          <div className="space-y-1 max-h-40 overflow-y-auto font-mono text-xs">
+            {landedTables.map((table) => (
+              <div key={table} className="py-1 px-2 hover:bg-white/5 rounded text-white/80 truncate">{table}</div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ObservedUsageSection({ node, edges, nodes }: { node: GraphNode; edges: GraphEdge[]; nodes: GraphNode[] }) {
+  const metadata = node.metadata;
+  const observedEdges = edges
+    .filter((e) => e.type === "observed" && (e.from === node.id || e.to === node.id))
+    .sort((a, b) => (b.metadata?.queryCount ?? 0) - (a.metadata?.queryCount ?? 0));
+  if (metadata?.observedReadCount === undefined && observedEdges.length === 0) return null;
+
+  const nameOf = (id: string) => nodes.find((n) => n.id === id)?.name ?? id;
+  return (
+    <div className="space-y-3">
+      {metadata?.observedReadCount !== undefined && (
+        <div className="text-xs space-y-1">
+          <div>
+            <span className="text-white/40">Observed reads:</span>{" "}
+            <span className="text-white/80">{metadata.observedReadCount.toLocaleString()}</span>
+            {metadata.unused && (
+              <span className="ml-2 px-1.5 py-0.5 rounded bg-orange-500/20 text-orange-300">unused</span>
+            )}
+          </div>
+          {metadata.lastReadAt && (
+            <div>
+              <span className="text-white/40">Last read:</span>{" "}
+              <span className="text-white/80">{new Date(metadata.lastReadAt).toLocaleString()}</span>
+            </div>
+          )}
+        </div>
+      )}
+      {observedEdges.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-white/60 mb-2">Observed in query history ({observedEdges.length})</h3>
+          <div className="space-y-1 max-h-48 overflow-y-auto text-xs">
+            {observedEdges.map((edge) => {
+              const other = edge.from === node.id ? edge.to : edge.from;
+              const who = [...(edge.metadata?.users ?? []), ...(edge.metadata?.roles ?? [])];
+              return (
+                <div key={edge.id} className="py-1 px-2 hover:bg-white/5 rounded">
+                  <div className="text-white/80 truncate">
+                    <span className="text-orange-300">{edge.metadata?.observedAccess === "write" ? "writes" : "reads"}</span>{" "}
+                    {edge.from === node.id ? "→" : "←"} {nameOf(other)}
+                  </div>
+                  <div className="text-white/40 truncate">
+                    {edge.metadata?.queryCount ?? 0} queries
+                    {edge.metadata?.lastSeenAt && `, last ${new Date(edge.metadata.lastSeenAt).toLocaleDateString()}`}
+                    {who.length > 0 && ` · ${who.join(", ")}`}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// "SEMANTIC_CATEGORY: EMAIL" for SNOWFLAKE.CORE.SEMANTIC_CATEGORY = 'EMAIL'
+function governanceTagLabel(tag: GovernanceTag): string {
+  const name = tag.name.split(".").pop() ?? tag.name;
+  return tag.value ? `${name}: ${tag.value}` : name;
+}
+
+// Side panel Snowflake governance: object tags, policies and PII columns
+function GovernanceSection({ node }: { node: GraphNode }) {
+  const metadata = node.metadata;
+  const tags = metadata?.snowflakeTags ?? [];
+  const policies = metadata?.policies ?? [];
+  const piiColumns = metadata?.piiColumns ?? [];
+  if (!metadata?.containsPii && tags.length === 0 && policies.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-white/60">Governance</h3>
+      <div className="flex flex-wrap gap-1 text-xs">
+        {metadata?.containsPii && (
+          <span className="px-1.5 py-0.5 rounded bg-rose-500/20 text-rose-300">contains PII</span>
+        )}
+        {tags.map((tag) => (
+          <span key={`${tag.name}=${tag.value}`} className="px-1.5 py-0.5 rounded bg-sky-500/20 text-sky-300" title={tag.name}>
+            {governanceTagLabel(tag)}
+          </span>
+        ))}
+        {policies.map((policy) => (
+          <span
+            key={`${policy.name}:${policy.column ?? ""}`}
+            className="px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-300"
+            title={policy.name}
+          >
+            {policy.kind === "ROW_ACCESS_POLICY" ? "row access" : policy.kind === "MASKING_POLICY" ? "masked" : policy.kind.toLowerCase()}
+            {": "}
+            {policy.column ?? policy.name.split(".").pop()}
+          </span>
+        ))}
+      </div>
+      {piiColumns.length > 0 && (
+        <div className="text-xs">
+          <span className="text-white/40">PII columns:</span>{" "}
+          <span className="text-white/80 font-mono">{piiColumns.join(", ")}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Side panel SQL, switchable between the source file and dbt's compiled output
+function SqlSection({ node }: { node: GraphNode }) {
+  // Compiled by default; the node's SQL arrives after the panel first opens
+  const [compiledChoice, setShowCompiled] = useState<boolean | null>(null);
+  const showCompiled = compiledChoice ?? !!node.compiledSql;
+  const sql = (showCompiled && node.compiledSql) || node.sqlContent || node.compiledSql;
+  if (!node.sqlContent && !node.compiledSql) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-white/60 mb-2 flex items-center justify-between gap-2">
+        SQL
+        {node.sqlContent && node.compiledSql && (
+          <span className="flex text-xs font-normal rounded border border-white/10 overflow-hidden">
+            {([false, true] as const).map((compiled) => (
+              <button
+                key={String(compiled)}
+                onClick={() => setShowCompiled(compiled)}
+                className={`px-2 py-0.5 transition-colors ${
+                  showCompiled === compiled ? "bg-white/15 text-white" : "text-white/50 hover:text-white"
+                }`}
+              >
+                {compiled ? "Compiled" : "Raw"}
+              </button>
+            ))}
+          </span>
+        )}
+      </h3>
+      <pre className="max-h-72 overflow-auto text-xs font-mono text-white/80 bg-black/30 rounded-lg p-2 whitespace-pre">
+        {sql}
+      </pre>
+    </div>
+  );
+}
+
 interface SmartLayerName {
   layer: number;
   name: string;
@@ -180,6 +672,28 @@ function ExplorerContent() {
   const [toast, setToast] = useState<{ message: string; type: "success" | "error" } | null>(null);
   const [editFlowModalOpen, setEditFlowModalOpen] = useState(false);
   const [createFlowModalOpen, setCreateFlowModalOpen] = useState(false);
+  const [conflictModalOpen, setConflictModalOpen] = useState(false);
+  const [conflictCounts, setConflictCounts] = useState({ open: 0, resolved: 0 });
+
+  // Diff mode: compare the current graph against an earlier snapshot
+  const [snapshots, setSnapshots] = useState<GraphSnapshotInfo[]>([]);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<GraphDiff | null>(null);
+
+  // Run overlay: color nodes by their last dbt run (from run_results.json)
+  const [runOverlay, setRunOverlay] = useState<RunOverlayMode | null>(null);
+  const hasRunResults = useMemo(() => allNodes.some((n) => n.metadata?.lastRunStatus), [allNodes]);
+
+  // Observed edges from Snowflake query history can be hidden to see code-only lineage
+  const [showObserved, setShowObserved] = useState(true);
+  const hasObserved = useMemo(
+    () => allNodes.some((n) => n.subtype === "query_consumer" || n.metadata?.observedReadCount !== undefined),
+    [allNodes]
+  );
+
+  // Column trace mode: a side panel column's path through column-level lineage
+  const [columnTrace, setColumnTrace] = useState<ColumnTraceResponse | null>(null);
+  const columnTraceMaps = useMemo(() => (columnTrace ? buildColumnTraceMaps(columnTrace) : null), [columnTrace]);
 
   // Show toast notification
   const showToast = useCallback((message: string, type: "success" | "error" = "success") => {
@@ -261,6 +775,86 @@ function ExplorerContent() {
     loadInitialData();
   }, [searchParams]);
 
+  // Load snapshot history for diff mode (newest first)
+  useEffect(() => {
+    fetch("/api/snapshots")
+      .then((res) => res.json())
+      .then((data) => setSnapshots(data.snapshots || []))
+      .catch((err) => console.error("Failed to load snapshots:", err));
+  }, []);
+
+  // Load conflict counts for the review button
+  useEffect(() => {
+    fetch("/api/conflicts?status=open")
+      .then((res) => res.json())
+      .then((data) => data.counts && setConflictCounts(data.counts))
+      .catch((err) => console.error("Failed to load conflicts:", err));
+  }, []);
+
+  // Fetch the diff from the selected snapshot to the latest one
+  useEffect(() => {
+    if (compareVersion === null || snapshots.length === 0) {
+      setDiff(null);
+      return;
+    }
+
+    async function fetchDiff() {
+      try {
+        const params = new URLSearchParams({
+          from: String(compareVersion),
+          to: String(snapshots[0].version),
+        });
+        const res = await fetch(`/api/diff?${params}`);
+        if (!res.ok) throw new Error("Failed to load diff");
+
+        const data: GraphDiff = await res.json();
+        setDiff(data);
+      } catch (err) {
+        console.error("Failed to fetch diff:", err);
+        showToast("Failed to load diff", "error");
+        setCompareVersion(null);
+      }
+    }
+    fetchDiff();
+  }, [compareVersion, snapshots, showToast]);
+
+  const diffStatus = useMemo(() => (diff ? buildDiffStatusMaps(diff) : null), [diff]);
+
+  // Lineage with removed nodes/edges from the diff drawn back in, plus any
+  // traced column's path outside the visible lineage
+  const displayedGraph = useMemo(() => {
+    if (!lineageData) return null;
+    const graph = diff
+      ? overlayRemovedElements(lineageData.nodes, lineageData.edges, diff)
+      : { nodes: lineageData.nodes, edges: lineageData.edges };
+    return columnTrace ? overlayColumnTrace(graph.nodes, graph.edges, columnTrace) : graph;
+  }, [lineageData, diff, columnTrace]);
+
+  // Trace a column (selecting the traced column again ends the trace)
+  const handleTraceColumn = useCallback(async (nodeId: string, column: string) => {
+    if (columnTrace?.nodeId === nodeId && columnTrace.column === column) {
+      setColumnTrace(null);
+      return;
+    }
+
+    try {
+      const params = new URLSearchParams({ nodeId, column });
+      const res = await fetch(`/api/column-trace?${params}`);
+      if (!res.ok) throw new Error("Failed to trace column");
+
+      const data: ColumnTraceResponse = await res.json();
+      if (data.edges.length === 0) {
+        showToast(`No column lineage for ${column}`, "error");
+        setColumnTrace(null);
+        return;
+      }
+      setColumnTrace(data);
+    } catch (err) {
+      console.error("Failed to trace column:", err);
+      showToast("Failed to trace column", "error");
+    }
+  }, [columnTrace, showToast]);
+
   // Fetch lineage when anchor/focus/flow/depth changes
   useEffect(() => {
     if (!anchorId) {
@@ -279,6 +873,7 @@ function ExplorerContent() {
         if (focusId && focusId !== anchorId) {
           params.set("focusId", focusId);
         }
+        if (!showObserved) params.set("observed", "false");
 
         const res = await fetch(`/api/lineage/${encodeURIComponent(anchorId!)}?${params}`);
         if (!res.ok) throw new Error("Failed to load lineage");
@@ -291,7 +886,7 @@ function ExplorerContent() {
       }
     }
     fetchLineage();
-  }, [anchorId, focusId, flowId, upstreamDepth, downstreamDepth, showToast]);
+  }, [anchorId, focusId, flowId, upstreamDepth, downstreamDepth, showObserved, showToast]);
 
   // Handle node selection from search - sets a new origin anchor
   const handleSelectAnchor = useCallback((node: GraphNode) => {
@@ -382,6 +977,18 @@ function ExplorerContent() {
       return;
     }
 
+    // Removed nodes only exist in the compared snapshot, so there's nothing to fetch
+    if (diff && diffStatus?.nodes.get(node.id) === "removed") {
+      setSidePanel({
+        node,
+        upstream: [],
+        downstream: [],
+        isLoadingExplanation: false,
+        visibilityReason: `Removed since v${diff.from.version}`,
+      });
+      return;
+    }
+
     // Get visibility reason if available
     const visibilityReason = lineageData?.visibilityReasons[node.id]?.description;
     const nodeLayer = lineageData?.layers[node.id]?.layer;
@@ -511,7 +1118,7 @@ function ExplorerContent() {
         })
         .finally(() => clearTimeout(relTimeoutId));
     }
-  }, [lineageData, anchorId]);
+  }, [lineageData, anchorId, diff, diffStatus]);
 
   // Clear anchor and focus
   const handleClearAnchor = useCallback(() => {
@@ -644,6 +1251,7 @@ function ExplorerContent() {
       switch (e.key) {
         case "Escape":
           setSidePanel(null);
+          setColumnTrace(null);
           break;
         case "/":
           e.preventDefault();
@@ -716,6 +1324,17 @@ function ExplorerContent() {
         onCreated={handleFlowCreated}
       />
 
+      {/* Conflict Review Modal */}
+      <ConflictReviewModal
+        isOpen={conflictModalOpen}
+        onClose={() => setConflictModalOpen(false)}
+        onSelectNode={(nodeId) => {
+          const node = allNodes.find((n) => n.id === nodeId);
+          if (node) handleSelectAnchor(node);
+        }}
+        onCountsChange={setConflictCounts}
+      />
+
       {/* Header */}
       <header className="border-b border-white/10 bg-[#0a0a0f]/80 backdrop-blur-sm z-10">
         <div className="px-4 py-3 flex items-center justify-between">
@@ -785,6 +1404,74 @@ function ExplorerContent() {
               </svg>
               New Flow
             </button>
+
+            {/* Diff mode: compare against an earlier snapshot */}
+            {snapshots.length > 1 && (
+              <select
+                value={compareVersion ?? ""}
+                onChange={(e) => setCompareVersion(e.target.value ? Number(e.target.value) : null)}
+                className="px-3 py-2 text-sm bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+                title="Highlight changes since an earlier index"
+              >
+                <option value="">No diff</option>
+                {snapshots.slice(1).map((snapshot) => (
+                  <option key={snapshot.jobId} value={snapshot.version}>
+                    Changes since v{snapshot.version} ({new Date(snapshot.createdAt.replace(" ", "T") + "Z").toLocaleString()})
+                  </option>
+                ))}
+              </select>
+            )}
+            {diff && (
+              <div className="text-xs text-white/50">
+                <span className="text-green-400">+{diff.nodes.added.length}</span>{" "}
+                <span className="text-red-400">-{diff.nodes.removed.length}</span>{" "}
+                <span className="text-yellow-400">~{diff.nodes.modified.length}</span> nodes
+              </div>
+            )}
+
+            {/* Run overlay: last dbt run status or duration */}
+            {hasRunResults && (
+              <select
+                value={runOverlay ?? ""}
+                onChange={(e) => setRunOverlay((e.target.value || null) as RunOverlayMode | null)}
+                className="px-3 py-2 text-sm bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+                title="Color nodes by their last dbt run"
+              >
+                <option value="">No run overlay</option>
+                <option value="status">Last run status</option>
+                <option value="duration">Last run duration</option>
+              </select>
+            )}
+
+            {/* Cross-repo linker conflicts awaiting review */}
+            {conflictCounts.open + conflictCounts.resolved > 0 && (
+              <button
+                onClick={() => setConflictModalOpen(true)}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg transition-colors text-white/80"
+                title="Review ambiguous cross-repo matches"
+              >
+                Conflicts
+                {conflictCounts.open > 0 && (
+                  <span className="px-1.5 rounded bg-rose-500/20 text-rose-300 text-xs">{conflictCounts.open}</span>
+                )}
+              </button>
+            )}
+
+            {/* Observed lineage from query history */}
+            {hasObserved && (
+              <label
+                className="flex items-center gap-2 px-3 py-2 text-sm bg-white/5 border border-white/10 rounded-lg text-white/80 cursor-pointer"
+                title="Show edges observed in Snowflake query history"
+              >
+                <input
+                  type="checkbox"
+                  checked={showObserved}
+                  onChange={(e) => setShowObserved(e.target.checked)}
+                  className="accent-orange-500"
+                />
+                Observed
+              </label>
+            )}
           </div>
 
           <div className="flex items-center gap-4">
@@ -819,14 +1506,17 @@ function ExplorerContent() {
       <div className="flex-1 flex overflow-hidden">
         {/* Graph */}
         <div className="flex-1 min-w-0 relative overflow-hidden">
-          {lineageData ? (
+          {lineageData && displayedGraph ? (
             <GraphExplorer
               ref={graphRef}
-              nodes={lineageData.nodes}
-              edges={lineageData.edges}
+              nodes={displayedGraph.nodes}
+              edges={displayedGraph.edges}
               anchorId={anchorId}
               layerRange={lineageData.stats.layerRange}
               smartLayerNames={lineageData.smartLayerNames}
+              diffStatus={diffStatus}
+              runOverlay={runOverlay}
+              columnTrace={columnTraceMaps}
               onNodeSelect={handleNodeClick}
             />
           ) : (
@@ -885,8 +1575,17 @@ function ExplorerContent() {
                 </button>
               </div>
 
+              {/* Changes since the compared snapshot */}
+              {diff && diffStatus?.nodes.has(sidePanel.node.id) && (
+                <NodeDiffSection
+                  status={diffStatus.nodes.get(sidePanel.node.id)!}
+                  change={diff.nodes.modified.find((c) => c.id === sidePanel.node.id)}
+                  fromVersion={diff.from.version}
+                />
+              )}
+
               {/* Set as Anchor button */}
-              {sidePanel.node.id !== anchorId && (
+              {sidePanel.node.id !== anchorId && diffStatus?.nodes.get(sidePanel.node.id) !== "removed" && (
                 <button
                   onClick={() => handleSelectAnchor(sidePanel.node)}
                   className="w-full px-3 py-2 text-sm bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/30 rounded-lg transition-colors flex items-center justify-center gap-2"
@@ -987,26 +1686,109 @@ function ExplorerContent() {
                 </div>
               )}
 
+              {/* Recent dbt runs */}
+              {sidePanel.node.metadata?.recentRuns && sidePanel.node.metadata.recentRuns.length > 0 && (
+                <RecentRunsSection runs={sidePanel.node.metadata.recentRuns} />
+              )}
+
+              {/* Airflow DAG schedule and tasks */}
+              <OrchestrationSection node={sidePanel.node} />
+
+              {/* Fivetran connector sync settings and landed tables */}
+              <IngestionSection node={sidePanel.node} />
+
+              {/* Reads and observed edges from Snowflake query history */}
+              <ObservedUsageSection
+                node={sidePanel.node}
+                edges={lineageData?.edges ?? []}
+                nodes={lineageData?.nodes ?? []}
+              />
+
+              {/* Snowflake tags, masking/row access policies and PII */}
+              <GovernanceSection node={sidePanel.node} />
+
+              {/* Semantic layer definition (semantic models, metrics, saved queries) */}
+              <SemanticSection node={sidePanel.node} />
+
+              {/* dbt tests and coverage */}
+              <TestsSection node={sidePanel.node} />
+
+              {/* Table stats (from dbt catalog.json) */}
+              {(sidePanel.node.metadata?.rowCount !== undefined || sidePanel.node.metadata?.bytes !== undefined) && (
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-white/50">
+                  {sidePanel.node.metadata.rowCount !== undefined && (
+                    <span>{sidePanel.node.metadata.rowCount.toLocaleString()} rows</span>
+                  )}
+                  {sidePanel.node.metadata.bytes !== undefined && (
+                    <span>{formatBytes(sidePanel.node.metadata.bytes)}</span>
+                  )}
+                  {sidePanel.node.metadata.statsUpdatedAt && (
+                    <span>Updated {new Date(sidePanel.node.metadata.statsUpdatedAt).toLocaleString()}</span>
+                  )}
+                </div>
+              )}
+
               {/* Columns */}
               {sidePanel.node.metadata?.columns && sidePanel.node.metadata.columns.length > 0 && (
                 <div>
                   <h3 className="text-sm font-medium text-white/60 mb-2">
                     Columns ({sidePanel.node.metadata.columns.length})
                   </h3>
+                  {columnTrace && (
+                    <div className="mb-2 flex items-center justify-between gap-2 text-xs bg-cyan-500/10 border border-cyan-500/20 rounded-lg px-2 py-1.5">
+                      <span className="text-cyan-300 min-w-0 break-all">
+                        Tracing <span className="font-mono">{columnTrace.column}</span>:{" "}
+                        {columnTrace.hops.filter((h) => h.depth < 0).length} upstream,{" "}
+                        {columnTrace.hops.filter((h) => h.depth > 0).length} downstream
+                        {columnTrace.truncated && ` (stopped at ${columnTrace.depth} hops)`}
+                      </span>
+                      <button
+                        onClick={() => setColumnTrace(null)}
+                        className="text-white/50 hover:text-white shrink-0"
+                      >
+                        Clear
+                      </button>
+                    </div>
+                  )}
                   <div className="space-y-1 max-h-60 overflow-y-auto font-mono text-xs">
                     {sidePanel.node.metadata.columns.map((col, index) => (
-                      <div
+                      <button
                         key={`${col.name}-${index}`}
-                        className="flex justify-between py-1 px-2 hover:bg-white/5 rounded"
-                        title={col.description || undefined}
+                        onClick={() => handleTraceColumn(sidePanel.node.id, col.name)}
+                        className={`w-full text-left flex justify-between py-1 px-2 rounded transition-colors ${
+                          columnTrace?.nodeId === sidePanel.node.id && columnTrace.column === col.name
+                            ? "bg-cyan-500/20"
+                            : "hover:bg-white/5"
+                        }`}
+                        title={
+                          [col.description, ...(col.tags ?? []).map(governanceTagLabel), "Click to trace this column"]
+                            .filter(Boolean)
+                            .join("\n")
+                        }
                       >
-                        <span className="text-white/80">{col.name}</span>
+                        <span className="text-white/80 flex items-center gap-1 min-w-0">
+                          <span className="truncate">{col.name}</span>
+                          {col.pii && (
+                            <span className="px-1 rounded bg-rose-500/20 text-rose-300 text-[10px] shrink-0">PII</span>
+                          )}
+                          {col.maskingPolicy && (
+                            <span
+                              className="px-1 rounded bg-amber-500/20 text-amber-300 text-[10px] shrink-0"
+                              title={col.maskingPolicy}
+                            >
+                              masked
+                            </span>
+                          )}
+                        </span>
                         <span className="text-white/40">{col.type}</span>
-                      </div>
+                      </button>
                     ))}
                   </div>
                 </div>
               )}
+
+              {/* SQL */}
+              <SqlSection key={sidePanel.node.id} node={sidePanel.node} />
             </div>
           </div>
         )}
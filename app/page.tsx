@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { INDEXING_STAGES } from "@/lib/types";
+import type { IndexingStage } from "@/lib/types";
 
 interface ActivityLogEntry {
   timestamp: string;
@@ -17,7 +17,7 @@ interface UsageStats {
 
 interface JobStatus {
   id: string;
-  status: "pending" | "running" | "completed" | "failed" | "waiting_for_input";
+  status: "pending" | "running" | "completed" | "failed" | "cancelled" | "waiting_for_input";
   stage?: string;
   stageName?: string;
   stageProgress: number;
@@ -26,7 +26,10 @@ interface JobStatus {
   error?: string;
   activityLog?: ActivityLogEntry[];
   usageStats?: UsageStats | null;
+  stages?: IndexingStage[];
   skippedStages?: string[];
+  cancelRequested?: boolean;
+  resumable?: boolean;
   waitingFor?: string;
   waitingData?: { schemas?: string[] };
 }
@@ -48,6 +51,7 @@ export default function Home() {
   const [jobStatus, setJobStatus] = useState<JobStatus | null>(null);
   const [graphStats, setGraphStats] = useState<GraphStats | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
   const [showResetConfirm, setShowResetConfirm] = useState(false);
   const [isResetting, setIsResetting] = useState(false);
   const [existingData, setExistingData] = useState<{ nodes: number; edges: number } | null>(null);
@@ -141,13 +145,17 @@ export default function Home() {
     }
   }, []);
 
-  async function startIndexing() {
+  async function startIndexing(incremental = false) {
     setIsLoading(true);
     setJobStatus(null);
     setGraphStats(null);
 
     try {
-      const res = await fetch("/api/ingest", { method: "POST" });
+      const res = await fetch("/api/ingest", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ incremental }),
+      });
       const json = await res.json();
       setJobId(json.jobId);
       pollStatus(json.jobId);
@@ -158,8 +166,45 @@ export default function Home() {
     }
   }
 
+  async function resumeIndexing() {
+    if (!jobId) return;
+    setIsLoading(true);
+
+    try {
+      const res = await fetch(`/api/ingest/${jobId}/resume`, { method: "POST" });
+      if (!res.ok) {
+        const error = await res.json();
+        console.error("Failed to resume indexing:", error);
+        return;
+      }
+      pollStatus(jobId);
+    } catch (error) {
+      console.error("Failed to resume indexing:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function cancelIndexing() {
+    if (!jobId) return;
+    setIsCancelling(true);
+
+    try {
+      const res = await fetch(`/api/ingest/${jobId}/cancel`, { method: "POST" });
+      if (!res.ok) {
+        const error = await res.json();
+        console.error("Failed to cancel indexing:", error);
+      }
+    } catch (error) {
+      console.error("Failed to cancel indexing:", error);
+    } finally {
+      setIsCancelling(false);
+    }
+  }
+
+  const stages = jobStatus?.stages ?? [];
   const currentStageIndex = jobStatus?.stage
-    ? INDEXING_STAGES.findIndex((s) => s.id === jobStatus.stage)
+    ? stages.findIndex((s) => s.id === jobStatus.stage)
     : -1;
 
   // Format relative time for activity log
@@ -359,8 +404,9 @@ export default function Home() {
                 {!isStaticMode && (
                   <>
                     <button
-                      onClick={startIndexing}
+                      onClick={() => startIndexing(true)}
                       disabled={isLoading}
+                      title="Re-index only the inputs that changed since the last build"
                       className="px-8 py-4 rounded-xl bg-white/10 hover:bg-white/20 transition-colors font-semibold text-lg disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                     >
                       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -386,7 +432,7 @@ export default function Home() {
               </div>
             ) : (
               <button
-                onClick={startIndexing}
+                onClick={() => startIndexing()}
                 disabled={isLoading}
                 className="px-8 py-4 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-black font-semibold text-lg hover:from-emerald-400 hover:to-cyan-400 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-emerald-500/20"
               >
@@ -454,30 +500,65 @@ export default function Home() {
           <div className="space-y-8">
             <div className="text-center space-y-2">
               <h2 className="text-2xl font-semibold">
-                {jobStatus.status === "failed" ? "Indexing Failed" : "Building Graph..."}
+                {jobStatus.status === "failed"
+                  ? "Indexing Failed"
+                  : jobStatus.status === "cancelled"
+                  ? "Indexing Cancelled"
+                  : jobStatus.cancelRequested
+                  ? "Cancelling..."
+                  : "Building Graph..."}
               </h2>
               {jobStatus.message && (
                 <p className="text-white/60">{jobStatus.message}</p>
               )}
             </div>
 
-            {jobStatus.status === "failed" ? (
-              <div className="p-6 rounded-xl bg-red-500/10 border border-red-500/30">
-                <p className="text-red-400 font-mono text-sm">{jobStatus.error}</p>
-                <button
-                  onClick={startIndexing}
-                  className="mt-4 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
-                >
-                  Retry
-                </button>
+            {jobStatus.status === "failed" || jobStatus.status === "cancelled" ? (
+              <div className={`p-6 rounded-xl ${
+                jobStatus.status === "failed"
+                  ? "bg-red-500/10 border border-red-500/30"
+                  : "bg-amber-500/10 border border-amber-500/30"
+              }`}>
+                {jobStatus.error && (
+                  <p className="text-red-400 font-mono text-sm">{jobStatus.error}</p>
+                )}
+                <div className="mt-4 flex gap-3">
+                  {jobStatus.resumable && (
+                    <button
+                      onClick={resumeIndexing}
+                      disabled={isLoading}
+                      title="Continue from the first stage that didn't complete"
+                      className="px-4 py-2 rounded-lg bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isLoading ? "Resuming..." : "Resume"}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => startIndexing()}
+                    disabled={isLoading}
+                    className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {jobStatus.resumable ? "Rebuild from Scratch" : "Retry"}
+                  </button>
+                </div>
               </div>
             ) : (
               <div className="space-y-6">
                 {/* Overall Progress Bar */}
                 <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
+                  <div className="flex justify-between items-center text-sm">
                     <span className="text-white/60">Overall Progress</span>
-                    <span className="font-mono">{jobStatus.overallProgress}%</span>
+                    <div className="flex items-center gap-3">
+                      <span className="font-mono">{jobStatus.overallProgress}%</span>
+                      <button
+                        onClick={cancelIndexing}
+                        disabled={isCancelling || jobStatus.cancelRequested}
+                        title="Stop after the current step; the job can be resumed later"
+                        className="px-3 py-1 rounded-lg text-xs bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {jobStatus.cancelRequested ? "Cancelling..." : "Cancel"}
+                      </button>
+                    </div>
                   </div>
                   <div className="h-2 bg-white/10 rounded-full overflow-hidden">
                     <div
@@ -489,7 +570,7 @@ export default function Home() {
 
                 {/* Stage List */}
                 <div className="space-y-2">
-                  {INDEXING_STAGES.map((stage, index) => {
+                  {stages.map((stage, index) => {
                     const isActive = stage.id === jobStatus.stage;
                     const isComplete = currentStageIndex > index;
                     const isPending = currentStageIndex < index;
@@ -657,7 +738,7 @@ export default function Home() {
               {!isStaticMode && (
                 <>
                   <button
-                    onClick={startIndexing}
+                    onClick={() => startIndexing()}
                     className="px-8 py-4 rounded-xl bg-white/10 hover:bg-white/20 transition-colors font-semibold"
                   >
                     Re-index
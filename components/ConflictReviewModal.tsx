@@ -0,0 +1,338 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  LINK_EDGE_TYPES,
+  type GraphNode,
+  type EdgeType,
+  type ConflictInfo,
+  type ConflictResolution,
+  type ConflictResolutionAction,
+} from "@/lib/types";
+
+interface ConflictReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelectNode: (nodeId: string) => void;
+  onCountsChange?: (counts: { open: number; resolved: number }) => void;
+}
+
+type StatusFilter = "open" | "resolved";
+
+// Conflict type badges
+const typeStyles: Record<ConflictInfo["type"], { label: string; className: string }> = {
+  duplicate_name: { label: "Duplicate name", className: "bg-amber-500/20 text-amber-300 border-amber-500/30" },
+  schema_mismatch: { label: "Schema mismatch", className: "bg-orange-500/20 text-orange-300 border-orange-500/30" },
+  type_mismatch: { label: "Type mismatch", className: "bg-orange-500/20 text-orange-300 border-orange-500/30" },
+  low_confidence: { label: "Low confidence", className: "bg-rose-500/20 text-rose-300 border-rose-500/30" },
+  ambiguous_match: { label: "Ambiguous", className: "bg-purple-500/20 text-purple-300 border-purple-500/30" },
+};
+
+function describeResolution(resolution: ConflictResolution): string {
+  if (resolution.action === "merge") return `Merged into ${resolution.targetId}`;
+  if (resolution.action === "link") return `Linked ${resolution.from} → ${resolution.to} (${resolution.edgeType})`;
+  return "Kept separate";
+}
+
+interface ConflictCardProps {
+  conflict: ConflictInfo;
+  nodes: Map<string, GraphNode>;
+  isSaving: boolean;
+  onResolve: (conflict: ConflictInfo, resolution: Omit<ConflictResolution, "conflictId" | "nodeIds">) => void;
+  onReopen: (conflict: ConflictInfo) => void;
+  onSelectNode: (nodeId: string) => void;
+}
+
+function ConflictCard({ conflict, nodes, isSaving, onResolve, onReopen, onSelectNode }: ConflictCardProps) {
+  const [action, setAction] = useState<ConflictResolutionAction | null>(null);
+  const [targetId, setTargetId] = useState(conflict.nodeIds[0]);
+  // Scored matches list the dbt model first, so the default link runs dbt → Airflow
+  const [from, setFrom] = useState(conflict.nodeIds[0]);
+  const [to, setTo] = useState(conflict.nodeIds[1] ?? conflict.nodeIds[0]);
+  const [edgeType, setEdgeType] = useState<EdgeType>("materialization");
+  const [note, setNote] = useState("");
+  const style = typeStyles[conflict.type];
+
+  const nodeLabel = (id: string) => {
+    const node = nodes.get(id);
+    return node ? `${node.name}${node.repo ? ` (${node.repo})` : ""}` : id;
+  };
+
+  const handleSave = () => {
+    if (action === "merge") onResolve(conflict, { action, targetId, note: note || undefined });
+    else if (action === "link") onResolve(conflict, { action, from, to, edgeType, note: note || undefined });
+    else if (action === "keep_separate") onResolve(conflict, { action, note: note || undefined });
+  };
+
+  const selectClassName =
+    "px-2 py-1 text-xs bg-white/5 border border-white/10 rounded text-white focus:outline-none focus:border-white/30 max-w-full";
+
+  return (
+    <div className="p-3 bg-white/5 border border-white/10 rounded-lg space-y-2">
+      <div className="flex items-center gap-2 text-xs">
+        <span className={`px-1.5 py-0.5 rounded font-medium border ${style.className}`}>{style.label}</span>
+        {conflict.confidence !== undefined && (
+          <span className="text-white/40">confidence {conflict.confidence.toFixed(2)}</span>
+        )}
+      </div>
+      <p className="text-sm text-white/80 break-words">{conflict.message}</p>
+
+      <div className="space-y-1">
+        {conflict.nodeIds.map((id) => (
+          <button
+            key={id}
+            onClick={() => onSelectNode(id)}
+            disabled={!nodes.has(id)}
+            className="block w-full text-left text-xs font-mono text-cyan-300 hover:text-cyan-200 disabled:text-white/40 truncate"
+            title={nodes.has(id) ? `Show ${id} in the graph` : `${id} is no longer in the graph`}
+          >
+            {id}
+          </button>
+        ))}
+      </div>
+
+      {conflict.resolution ? (
+        <div className="flex items-center justify-between gap-2 pt-1">
+          <div className="text-xs text-emerald-300 min-w-0 break-words">
+            {describeResolution(conflict.resolution)}
+            {conflict.resolution.note && <span className="text-white/40"> · {conflict.resolution.note}</span>}
+          </div>
+          <button
+            onClick={() => onReopen(conflict)}
+            disabled={isSaving}
+            className="text-xs text-white/50 hover:text-white shrink-0 disabled:opacity-50"
+          >
+            Reopen
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2 pt-1">
+          <div className="flex gap-2 text-xs">
+            {(["merge", "keep_separate", "link"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setAction(action === option ? null : option)}
+                className={`px-2 py-1 rounded border transition-colors ${
+                  action === option
+                    ? "bg-cyan-500/20 border-cyan-500/40 text-cyan-200"
+                    : "bg-white/5 border-white/10 text-white/70 hover:bg-white/10"
+                }`}
+              >
+                {option === "merge" ? "Merge" : option === "link" ? "Link" : "Keep separate"}
+              </button>
+            ))}
+          </div>
+
+          {action === "merge" && (
+            <label className="flex items-center gap-2 text-xs text-white/60">
+              Keep
+              <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={selectClassName}>
+                {conflict.nodeIds.map((id) => (
+                  <option key={id} value={id}>{nodeLabel(id)}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {action === "link" && (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-white/60">
+              <select value={from} onChange={(e) => setFrom(e.target.value)} className={selectClassName}>
+                {conflict.nodeIds.map((id) => (
+                  <option key={id} value={id}>{nodeLabel(id)}</option>
+                ))}
+              </select>
+              →
+              <select value={to} onChange={(e) => setTo(e.target.value)} className={selectClassName}>
+                {conflict.nodeIds.map((id) => (
+                  <option key={id} value={id}>{nodeLabel(id)}</option>
+                ))}
+              </select>
+              <select value={edgeType} onChange={(e) => setEdgeType(e.target.value as EdgeType)} className={selectClassName}>
+                {LINK_EDGE_TYPES.map((type) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {action && (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Note (optional)"
+                className="flex-1 px-2 py-1 text-xs bg-white/10 border border-white/10 rounded placeholder-white/40 focus:outline-none focus:border-white/30"
+              />
+              <button
+                onClick={handleSave}
+                disabled={isSaving || (action === "link" && from === to)}
+                className="px-3 py-1 bg-gradient-to-r from-emerald-500 to-cyan-500 text-black text-xs font-medium rounded hover:from-emerald-400 hover:to-cyan-400 transition-all disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ConflictReviewModal({
+  isOpen,
+  onClose,
+  onSelectNode,
+  onCountsChange,
+}: ConflictReviewModalProps) {
+  const [status, setStatus] = useState<StatusFilter>("open");
+  const [conflicts, setConflicts] = useState<ConflictInfo[]>([]);
+  const [nodes, setNodes] = useState<Map<string, GraphNode>>(new Map());
+  const [counts, setCounts] = useState({ open: 0, resolved: 0 });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchConflicts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/conflicts?status=${status}`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to load conflicts");
+      }
+      setConflicts(data.conflicts);
+      setNodes(new Map((data.nodes as GraphNode[]).map((n) => [n.id, n])));
+      setCounts(data.counts);
+      onCountsChange?.(data.counts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, onCountsChange]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchConflicts();
+    }
+  }, [isOpen, fetchConflicts]);
+
+  const handleResolve = async (
+    conflict: ConflictInfo,
+    resolution: Omit<ConflictResolution, "conflictId" | "nodeIds">
+  ) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/conflicts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ conflictId: conflict.id, ...resolution }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to save resolution");
+      }
+      await fetchConflicts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReopen = async (conflict: ConflictInfo) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/conflicts?conflictId=${encodeURIComponent(conflict.id)}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to reopen conflict");
+      }
+      await fetchConflicts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-[#1a1a2e] border border-white/10 rounded-xl w-full max-w-2xl shadow-xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="px-6 py-4 border-b border-white/10 flex items-center justify-between flex-shrink-0">
+          <h2 className="text-lg font-semibold">Lineage Conflicts</h2>
+          <button
+            onClick={handleClose}
+            className="p-1 hover:bg-white/10 rounded transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-6 pt-4 flex items-center justify-between gap-4 flex-shrink-0">
+          <div className="flex text-sm rounded-lg border border-white/10 overflow-hidden">
+            {(["open", "resolved"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setStatus(option)}
+                className={`px-3 py-1.5 transition-colors ${
+                  status === option ? "bg-white/15 text-white" : "text-white/50 hover:text-white"
+                }`}
+              >
+                {option === "open" ? "Open" : "Resolved"} ({counts[option]})
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-white/40 text-right">
+            Resolutions are applied on the next index and kept across rebuilds
+          </p>
+        </div>
+
+        <div className="p-6 space-y-3 overflow-y-auto flex-1">
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">
+              {error}
+            </div>
+          )}
+
+          {isLoading && conflicts.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <div className="w-5 h-5 border-2 border-white/20 border-t-white/60 rounded-full animate-spin" />
+            </div>
+          ) : conflicts.length === 0 ? (
+            <p className="text-sm text-white/40 italic text-center py-8">
+              {status === "open" ? "No open conflicts." : "No resolved conflicts yet."}
+            </p>
+          ) : (
+            conflicts.map((conflict) => (
+              <ConflictCard
+                key={conflict.id}
+                conflict={conflict}
+                nodes={nodes}
+                isSaving={isSaving}
+                onResolve={handleResolve}
+                onReopen={handleReopen}
+                onSelectNode={(nodeId) => {
+                  onSelectNode(nodeId);
+                  handleClose();
+                }}
+              />
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
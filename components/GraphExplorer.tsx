@@ -13,6 +13,8 @@ import cytoscape, { Core, NodeSingular } from "cytoscape";
 import type { GraphNode, GraphEdge } from "@/lib/types";
 import type { VisibilityReason } from "@/lib/graph/visibility";
 import type { SmartLayerName } from "@/lib/graph/layout";
+import { getEdgeKey, type DiffStatusMaps } from "@/lib/graph/diff";
+import { getNodePairKey, type ColumnTraceMaps } from "@/lib/graph/columnTrace";
 
 // Layout constants for computing positions client-side
 const CLIENT_LAYOUT_CONFIG = {
@@ -37,6 +39,9 @@ export interface GraphExplorerRef {
   centerOnAnchor: () => void;
 }
 
+// Run overlay: color nodes by their last dbt run
+export type RunOverlayMode = "status" | "duration";
+
 export interface VisibleNode extends GraphNode {
   visibilityReason: VisibilityReason;
   relativeLayer: number;
@@ -48,6 +53,9 @@ interface GraphExplorerProps {
   anchorId?: string | null;
   layerRange: { min: number; max: number };
   smartLayerNames?: Record<number, SmartLayerName>;  // Smart layer names from API
+  diffStatus?: DiffStatusMaps | null;  // Diff mode: color elements by change status
+  runOverlay?: RunOverlayMode | null;  // Color nodes by last dbt run status or duration
+  columnTrace?: ColumnTraceMaps | null;  // Column trace mode: highlight the traced column's path
   onNodeSelect?: (node: GraphNode | null) => void;
   onNodeDoubleClick?: (node: GraphNode) => void;
 }
@@ -60,8 +68,78 @@ const NODE_COLORS: Record<string, { bg: string; border: string; text: string }>
   table: { bg: "#1e4035", border: "#10b981", text: "#6ee7b7" },
   view: { bg: "#3b1e5f", border: "#8b5cf6", text: "#c4b5fd" },
   external: { bg: "#5f3b1e", border: "#f59e0b", text: "#fcd34d" },
+  semantic_model: { bg: "#134e4a", border: "#14b8a6", text: "#99f6e4" },
+  metric: { bg: "#500724", border: "#ec4899", text: "#f9a8d4" },
+  saved_query: { bg: "#500724", border: "#ec4899", text: "#f9a8d4" },
+  dag: { bg: "#0c4a6e", border: "#0ea5e9", text: "#7dd3fc" },
+};
+
+// Diff mode colors (added/removed/modified since the compared snapshot)
+const DIFF_COLORS = {
+  added: { bg: "#14532d", border: "#22c55e" },
+  removed: { bg: "#450a0a", border: "#ef4444" },
+  modified: { bg: "#422006", border: "#eab308" },
 };
 
+// Column trace path
+const COLUMN_TRACE_COLOR = "#22d3ee";
+
+// Run overlay colors by last run status (test-style statuses fold into these)
+const RUN_STATUS_COLORS = {
+  success: { bg: "#14532d", border: "#22c55e", label: "Success" },
+  warn: { bg: "#422006", border: "#eab308", label: "Warning" },
+  error: { bg: "#450a0a", border: "#ef4444", label: "Error" },
+  skipped: { bg: "#27272a", border: "#71717a", label: "Skipped" },
+};
+
+// Run overlay buckets by last run execution time (seconds)
+const RUN_DURATION_BUCKETS = [
+  { maxSeconds: 10, bg: "#14532d", border: "#22c55e", label: "< 10s" },
+  { maxSeconds: 60, bg: "#1a2e2e", border: "#22d3ee", label: "10s – 1m" },
+  { maxSeconds: 300, bg: "#422006", border: "#eab308", label: "1m – 5m" },
+  { maxSeconds: Infinity, bg: "#450a0a", border: "#ef4444", label: "≥ 5m" },
+];
+
+function getRunStatusKey(status?: string): keyof typeof RUN_STATUS_COLORS | undefined {
+  switch (status) {
+    case "success":
+    case "pass":
+      return "success";
+    case "warn":
+      return "warn";
+    case "error":
+    case "fail":
+    case "runtime error":
+      return "error";
+    case "skipped":
+      return "skipped";
+    default:
+      return undefined;
+  }
+}
+
+function getRunDurationBucket(seconds?: number): number | undefined {
+  if (seconds === undefined) return undefined;
+  return RUN_DURATION_BUCKETS.findIndex((bucket) => seconds < bucket.maxSeconds);
+}
+
+function getRunOverlayClass(node: GraphNode, mode?: RunOverlayMode | null): string {
+  if (mode === "status") {
+    const key = getRunStatusKey(node.metadata?.lastRunStatus);
+    return key ? ` run-status-${key}` : "";
+  }
+  if (mode === "duration") {
+    const bucket = getRunDurationBucket(node.metadata?.lastRunExecutionTime);
+    return bucket !== undefined ? ` run-duration-${bucket}` : "";
+  }
+  return "";
+}
+
+function formatRunDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
 // Semantic colors based on layer position
 const LAYER_COLORS: Record<string, { bg: string; border: string }> = {
   source: { bg: "#1e3a5f", border: "#3b82f6" },      // Blue - sources
@@ -105,6 +183,9 @@ const GraphExplorer = forwardRef<GraphExplorerRef, GraphExplorerProps>(
       anchorId,
       layerRange,
       smartLayerNames,
+      diffStatus,
+      runOverlay,
+      columnTrace,
       onNodeSelect,
       onNodeDoubleClick,
     },
@@ -322,12 +403,16 @@ const GraphExplorer = forwardRef<GraphExplorerRef, GraphExplorerProps>(
         const colors = NODE_COLORS[node.type] || NODE_COLORS.model;
         const isAnchor = node.id === anchorId;
         
-        // Break label at __ for multi-line display
-        const label = node.name.replace(/__/g, '\n');
+        // Break label at __ for multi-line display; traced nodes also name the traced column(s)
+        const tracedColumns = columnTrace?.nodes.get(node.id);
+        const label = node.name.replace(/__/g, '\n') + (tracedColumns ? `\n· ${tracedColumns.join(", ")}` : "");
+        const traceClass = columnTrace ? (tracedColumns ? " column-trace-node" : " column-trace-dimmed") : "";
         
         // Use stable position from cache, fallback to server position
         const pos = stablePositions.get(node.id) || { x: node.layoutX ?? 0, y: node.layoutY ?? 0 };
 
+        const nodeDiff = diffStatus?.nodes.get(node.id);
+
         elements.push({
           data: {
             id: node.id,
@@ -336,13 +421,16 @@ const GraphExplorer = forwardRef<GraphExplorerRef, GraphExplorerProps>(
             subtype: node.subtype,
             relativeLayer: node.relativeLayer,
             isAnchor,
+            diffStatus: nodeDiff,
+            runStatus: node.metadata?.lastRunStatus,
+            runDuration: node.metadata?.lastRunExecutionTime,
             ...colors,
           },
           position: {
             x: pos.x,
             y: pos.y,
           },
-          classes: `node-${node.type}${isAnchor ? " anchor-node" : ""}`,
+          classes: `node-${node.type}${isAnchor ? " anchor-node" : ""}${node.metadata?.unused ? " unused-node" : ""}${node.metadata?.containsPii ? " pii-node" : ""}${nodeDiff ? ` diff-${nodeDiff}` : ""}${getRunOverlayClass(node, runOverlay)}${traceClass}`,
         });
       }
 
@@ -351,6 +439,10 @@ const GraphExplorer = forwardRef<GraphExplorerRef, GraphExplorerProps>(
 
       for (const edge of edges) {
         if (allNodeIds.has(edge.from) && allNodeIds.has(edge.to)) {
+          const edgeDiff = diffStatus?.edges.get(getEdgeKey(edge));
+          const traceClass = columnTrace
+            ? (columnTrace.edges.has(getNodePairKey(edge.from, edge.to)) ? " column-trace-edge" : " column-trace-dimmed")
+            : "";
           elements.push({
             data: {
               id: edge.id,
@@ -358,13 +450,13 @@ const GraphExplorer = forwardRef<GraphExplorerRef, GraphExplorerProps>(
               target: edge.to,
               edgeType: edge.type,
             },
-            classes: `edge-${edge.type}`,
+            classes: `edge-${edge.type}${edgeDiff ? ` diff-${edgeDiff}` : ""}${traceClass}`,
           });
         }
       }
 
       return elements;
-    }, [nodes, edges, anchorId, stablePositions]);
+    }, [nodes, edges, anchorId, stablePositions, diffStatus, runOverlay, columnTrace]);
 
     // Draw swimlane backgrounds
     const drawSwimlanes = useCallback(() => {
@@ -547,6 +639,161 @@ const GraphExplorer = forwardRef<GraphExplorerRef, GraphExplorerProps>(
               "line-style": "dashed",
             },
           },
+          {
+            selector: "edge.edge-orchestrates",
+            style: {
+              "line-color": "#0ea5e9",
+              "target-arrow-color": "#0ea5e9",
+              "line-style": "dashed",
+            },
+          },
+          {
+            selector: "edge.edge-ingestion",
+            style: {
+              "line-color": "#14b8a6",
+              "target-arrow-color": "#14b8a6",
+              "line-style": "dashed",
+            },
+          },
+          // Observed in Snowflake query history rather than found in code
+          {
+            selector: "edge.edge-observed",
+            style: {
+              "line-color": "#f97316",
+              "target-arrow-color": "#f97316",
+              "line-style": "dotted",
+              width: 2,
+            },
+          },
+          {
+            selector: "edge.edge-semantic_model, edge.edge-metric_input",
+            style: {
+              "line-color": "#ec4899",
+              "target-arrow-color": "#ec4899",
+            },
+          },
+          {
+            selector: "edge.edge-foreign_key",
+            style: {
+              "line-color": "#64748b",
+              "target-arrow-color": "#64748b",
+              "target-arrow-shape": "tee",
+              "line-style": "dotted",
+            },
+          },
+          // No reads in the query history window
+          {
+            selector: "node.unused-node",
+            style: {
+              "border-style": "dashed",
+              opacity: 0.6,
+            },
+          },
+          // Snowflake tags, classification or masking mark it as holding PII
+          {
+            selector: "node.pii-node",
+            style: {
+              "outline-color": "#f43f5e",
+              "outline-width": 2,
+              "outline-offset": 2,
+              "outline-style": "dashed",
+            },
+          },
+          // Diff mode - added/removed/modified since the compared snapshot
+          {
+            selector: "node.diff-added",
+            style: {
+              "background-color": DIFF_COLORS.added.bg,
+              "border-color": DIFF_COLORS.added.border,
+              "border-width": 3,
+            },
+          },
+          {
+            selector: "node.diff-removed",
+            style: {
+              "background-color": DIFF_COLORS.removed.bg,
+              "border-color": DIFF_COLORS.removed.border,
+              "border-width": 3,
+              "border-style": "dashed",
+              opacity: 0.7,
+            },
+          },
+          {
+            selector: "node.diff-modified",
+            style: {
+              "border-color": DIFF_COLORS.modified.border,
+              "border-width": 3,
+            },
+          },
+          {
+            selector: "edge.diff-added",
+            style: {
+              "line-color": DIFF_COLORS.added.border,
+              "target-arrow-color": DIFF_COLORS.added.border,
+              width: 2.5,
+              opacity: 0.9,
+            },
+          },
+          {
+            selector: "edge.diff-removed",
+            style: {
+              "line-color": DIFF_COLORS.removed.border,
+              "target-arrow-color": DIFF_COLORS.removed.border,
+              "line-style": "dashed",
+              width: 2.5,
+              opacity: 0.9,
+            },
+          },
+          {
+            selector: "edge.diff-modified",
+            style: {
+              "line-color": DIFF_COLORS.modified.border,
+              "target-arrow-color": DIFF_COLORS.modified.border,
+              width: 2.5,
+              opacity: 0.9,
+            },
+          },
+          // Run overlay - last dbt run status or duration
+          ...Object.entries(RUN_STATUS_COLORS).map(([key, colors]) => ({
+            selector: `node.run-status-${key}`,
+            style: {
+              "background-color": colors.bg,
+              "border-color": colors.border,
+              "border-width": 3,
+            },
+          })),
+          ...RUN_DURATION_BUCKETS.map((bucket, index) => ({
+            selector: `node.run-duration-${index}`,
+            style: {
+              "background-color": bucket.bg,
+              "border-color": bucket.border,
+              "border-width": 3,
+            },
+          })),
+          // Column trace mode - the traced column's path stands out, everything else fades
+          {
+            selector: "node.column-trace-node",
+            style: {
+              "border-color": COLUMN_TRACE_COLOR,
+              "border-width": 3,
+            },
+          },
+          {
+            selector: "edge.column-trace-edge",
+            style: {
+              "line-color": COLUMN_TRACE_COLOR,
+              "target-arrow-color": COLUMN_TRACE_COLOR,
+              "line-style": "solid",
+              width: 3,
+              opacity: 1,
+            },
+          },
+          {
+            selector: ".column-trace-dimmed",
+            style: {
+              opacity: 0.15,
+            },
+          },
           // Selected/viewed node - red with glow (but not anchor)
           {
             selector: "node:selected:not(.anchor-node)",
@@ -650,6 +897,16 @@ const GraphExplorer = forwardRef<GraphExplorerRef, GraphExplorerProps>(
           const layerName = smartName?.name || getLayerName(data.relativeLayer);
           content += `<br/>Layer: ${layerName} (${data.relativeLayer})`;
         }
+        if (data.diffStatus) {
+          const diffColor = DIFF_COLORS[data.diffStatus as keyof typeof DIFF_COLORS].border;
+          content += `<br/><span style="color: ${diffColor}">${data.diffStatus}</span>`;
+        }
+        if (data.runStatus) {
+          const statusKey = getRunStatusKey(data.runStatus);
+          const statusColor = statusKey ? RUN_STATUS_COLORS[statusKey].border : "inherit";
+          content += `<br/>Last run: <span style="color: ${statusColor}">${data.runStatus}</span>`;
+          if (data.runDuration !== undefined) content += ` in ${formatRunDuration(data.runDuration)}`;
+        }
 
         tooltip.innerHTML = content;
         tooltip.style.display = "block";
@@ -758,9 +1015,13 @@ const GraphExplorer = forwardRef<GraphExplorerRef, GraphExplorerProps>(
         }
       }
       
+      const edgesToUpdate: cytoscape.ElementDefinition[] = [];
+
       for (const [id, el] of newEdgeMap) {
         if (!currentEdgeIds.has(id)) {
           edgesToAdd.push(el);
+        } else {
+          edgesToUpdate.push(el);
         }
       }
       
@@ -783,6 +1044,17 @@ const GraphExplorer = forwardRef<GraphExplorerRef, GraphExplorerProps>(
           if (node.length > 0 && el.position) {
             node.position(el.position);
           }
+          // Diff status can change without the element set changing
+          if (node.length > 0) {
+            node.data("diffStatus", el.data.diffStatus);
+            node.data("runStatus", el.data.runStatus);
+            node.data("runDuration", el.data.runDuration);
+            node.data("label", el.data.label);
+            node.classes(el.classes as string);
+          }
+        }
+        for (const el of edgesToUpdate) {
+          cy.getElementById(el.data.id as string).classes(el.classes as string);
         }
       });
       
@@ -948,6 +1220,18 @@ const GraphExplorer = forwardRef<GraphExplorerRef, GraphExplorerProps>(
             <div className="w-3 h-3 rounded" style={{ backgroundColor: NODE_COLORS.external.border }} />
             <span className="text-white/70">External</span>
           </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded" style={{ backgroundColor: NODE_COLORS.semantic_model.border }} />
+            <span className="text-white/70">Semantic Model</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded" style={{ backgroundColor: NODE_COLORS.metric.border }} />
+            <span className="text-white/70">Metric / Saved Query</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded" style={{ backgroundColor: NODE_COLORS.dag.border }} />
+            <span className="text-white/70">Airflow DAG</span>
+          </div>
           <div className="border-t border-white/10 my-2" />
           <div className="flex items-center gap-2">
             <div 
@@ -971,6 +1255,76 @@ const GraphExplorer = forwardRef<GraphExplorerRef, GraphExplorerProps>(
             />
             <span className="text-red-300">Selected</span>
           </div>
+          {(edges.some((e) => e.type === "observed") || nodes.some((n) => n.metadata?.unused)) && (
+            <>
+              <div className="border-t border-white/10 my-2" />
+              <div className="flex items-center gap-2">
+                <div className="w-3 border-t-2 border-dotted" style={{ borderColor: "#f97316" }} />
+                <span className="text-white/70">Observed (query history)</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded border-2 border-dashed border-white/40 opacity-60" />
+                <span className="text-white/70">Unused</span>
+              </div>
+            </>
+          )}
+          {nodes.some((n) => n.metadata?.containsPii) && (
+            <>
+              <div className="border-t border-white/10 my-2" />
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded outline-2 outline-dashed outline-offset-1" style={{ outlineColor: "#f43f5e" }} />
+                <span className="text-white/70">Contains PII</span>
+              </div>
+            </>
+          )}
+          {diffStatus && (
+            <>
+              <div className="border-t border-white/10 my-2" />
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded" style={{ backgroundColor: DIFF_COLORS.added.border }} />
+                <span className="text-white/70">Added</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded border-2 border-dashed" style={{ borderColor: DIFF_COLORS.removed.border }} />
+                <span className="text-white/70">Removed</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded" style={{ backgroundColor: DIFF_COLORS.modified.border }} />
+                <span className="text-white/70">Modified</span>
+              </div>
+            </>
+          )}
+          {columnTrace && (
+            <>
+              <div className="border-t border-white/10 my-2" />
+              <div className="flex items-center gap-2">
+                <div className="w-3 border-t-2" style={{ borderColor: COLUMN_TRACE_COLOR }} />
+                <span className="text-white/70">Column trace</span>
+              </div>
+            </>
+          )}
+          {runOverlay === "status" && (
+            <>
+              <div className="border-t border-white/10 my-2" />
+              {Object.entries(RUN_STATUS_COLORS).map(([key, colors]) => (
+                <div key={key} className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded" style={{ backgroundColor: colors.border }} />
+                  <span className="text-white/70">{colors.label}</span>
+                </div>
+              ))}
+            </>
+          )}
+          {runOverlay === "duration" && (
+            <>
+              <div className="border-t border-white/10 my-2" />
+              {RUN_DURATION_BUCKETS.map((bucket) => (
+                <div key={bucket.label} className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded" style={{ backgroundColor: bucket.border }} />
+                  <span className="text-white/70">{bucket.label}</span>
+                </div>
+              ))}
+            </>
+          )}
         </div>
 
         {/* Keyboard shortcuts hint */}
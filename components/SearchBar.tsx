@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef, forwardRef, useImperativeHandle } from "react";
 import type { GraphNode } from "@/lib/types";
+import type { TestCoverageLevel } from "@/lib/graph/testCoverage";
 
 interface SearchBarProps {
   onSelect: (node: GraphNode) => void;
@@ -12,6 +13,10 @@ const SearchBar = forwardRef<HTMLInputElement, SearchBarProps>(function SearchBa
   ref
 ) {
   const [query, setQuery] = useState("");
+  // dbt test coverage filter; with a filter set, an empty query lists matching nodes
+  const [coverage, setCoverage] = useState<TestCoverageLevel | "">("");
+  // Sensitive data facet: only nodes with PII tags, classification or masking
+  const [sensitive, setSensitive] = useState(false);
   const [results, setResults] = useState<GraphNode[]>([]);
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -24,14 +29,18 @@ const SearchBar = forwardRef<HTMLInputElement, SearchBarProps>(function SearchBa
 
   useEffect(() => {
     const handler = setTimeout(async () => {
-      if (query.length < 2) {
+      if (query.length < 2 && !coverage && !sensitive) {
         setResults([]);
         return;
       }
 
       setIsLoading(true);
       try {
-        const res = await fetch(`/api/search?q=${encodeURIComponent(query)}&limit=20`);
+        const params = new URLSearchParams({ limit: "20" });
+        if (query.length >= 2) params.set("q", query);
+        if (coverage) params.set("coverage", coverage);
+        if (sensitive) params.set("sensitive", "true");
+        const res = await fetch(`/api/search?${params}`);
         const data = await res.json();
         setResults(data.nodes || []);
         setIsOpen(true);
@@ -44,7 +53,7 @@ const SearchBar = forwardRef<HTMLInputElement, SearchBarProps>(function SearchBa
     }, 300);
 
     return () => clearTimeout(handler);
-  }, [query]);
+  }, [query, coverage, sensitive]);
 
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -95,11 +104,34 @@ const SearchBar = forwardRef<HTMLInputElement, SearchBarProps>(function SearchBa
           type="text"
           value={query}
           onChange={(e) => setQuery(e.target.value)}
-          onFocus={() => query.length >= 2 && setIsOpen(true)}
+          onFocus={() => (query.length >= 2 || coverage || sensitive) && setIsOpen(true)}
           onKeyDown={handleKeyDown}
           placeholder="Search tables... (/)"
-          className="w-64 pl-10 pr-4 py-2 bg-white/10 border border-white/10 rounded-lg text-sm placeholder-white/40 focus:outline-none focus:border-white/30 focus:bg-white/15 transition-colors"
+          className="w-72 pl-10 pr-36 py-2 bg-white/10 border border-white/10 rounded-lg text-sm placeholder-white/40 focus:outline-none focus:border-white/30 focus:bg-white/15 transition-colors"
         />
+        <div className="absolute right-9 top-1/2 -translate-y-1/2 flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => setSensitive((prev) => !prev)}
+            className={`px-1.5 py-0.5 rounded text-[10px] font-medium transition-colors ${
+              sensitive ? "bg-rose-500/30 text-rose-200" : "text-white/40 hover:text-white/70"
+            }`}
+            title="Only show nodes containing PII (Snowflake tags, classification or masking policies)"
+          >
+            PII
+          </button>
+          <select
+            value={coverage}
+            onChange={(e) => setCoverage(e.target.value as TestCoverageLevel | "")}
+            className="bg-transparent text-xs text-white/50 focus:outline-none"
+            title="Filter by dbt test coverage"
+          >
+            <option value="">All</option>
+            <option value="untested">Untested</option>
+            <option value="partial">Partly tested</option>
+            <option value="covered">PK tested</option>
+          </select>
+        </div>
         {isLoading && (
           <div className="absolute right-3 top-1/2 -translate-y-1/2">
             <div className="w-4 h-4 border-2 border-white/20 border-t-white/60 rounded-full animate-spin" />
@@ -137,6 +169,11 @@ const SearchBar = forwardRef<HTMLInputElement, SearchBarProps>(function SearchBa
                     {node.type}
                   </span>
                   <span className="font-medium text-white truncate">{node.name}</span>
+                  {node.metadata?.containsPii && (
+                    <span className="ml-auto text-[10px] px-1.5 py-0.5 rounded bg-rose-500/20 text-rose-300 shrink-0">
+                      PII
+                    </span>
+                  )}
                 </div>
                 <div className="text-xs text-white/50 truncate mt-0.5">{node.id}</div>
               </button>
@@ -148,9 +185,9 @@ const SearchBar = forwardRef<HTMLInputElement, SearchBarProps>(function SearchBa
         </div>
       )}
 
-      {isOpen && query.length >= 2 && results.length === 0 && !isLoading && (
+      {isOpen && (query.length >= 2 || coverage || sensitive) && results.length === 0 && !isLoading && (
         <div className="absolute top-full left-0 mt-2 w-80 bg-[#1a1a2e] border border-white/10 rounded-xl shadow-xl z-50 p-4 text-center text-white/50 text-sm">
-          No results found for "{query}"
+          {query.length >= 2 ? `No results found for "${query}"` : "No nodes match these filters"}
         </div>
       )}
     </div>
@@ -236,11 +236,8 @@ export function getNodeDetails(nodeId: string): NodeDetails | null {
   const metadata = dbNode.metadata ? JSON.parse(dbNode.metadata) : {};
   const explanation = getExplanation(nodeId);
 
-  // Get SQL content from database (stored during ingestion)
-  let sql: string | undefined;
-  if (dbNode.sql_content) {
-    sql = dbNode.sql_content;
-  }
+  // Get SQL content from database (stored during ingestion), compiled when available
+  const sql = dbNode.compiled_sql || dbNode.sql_content || undefined;
 
   // Get upstream/downstream counts
   let upstreamCount = 0;
@@ -432,7 +429,9 @@ export function searchByColumn(
 
 /**
  * Search within SQL content to find models that implement specific logic.
- * Uses FTS on sql_content column for efficient pattern matching when available,
+ * Searches both raw and dbt-compiled SQL, so table names that only appear
+ * after ref()/source() rendering are found too; snippets prefer compiled SQL.
+ * Uses FTS on the SQL columns for efficient pattern matching when available,
  * falls back to in-memory search in static mode.
  */
 export function searchSqlContent(
@@ -459,21 +458,28 @@ export function searchSqlContent(
     }
   };
 
+  // Compiled SQL if it contains the pattern, else raw SQL if it does, else whichever exists
+  const getMatchedSql = (node: DbNode): string | null => {
+    const candidates = [node.compiled_sql, node.sql_content].filter((sql): sql is string => !!sql);
+    return candidates.find((sql) => sql.toLowerCase().includes(patternLower)) ?? candidates[0] ?? null;
+  };
+
   // In static mode, search in-memory
   if (isStaticMode() || !getDb) {
     const allNodes = getNodes();
     
     for (const node of allNodes) {
       if (results.length >= limit) break;
-      if (!node.sql_content) continue;
+      const sql = getMatchedSql(node);
+      if (!sql) continue;
       
-      if (node.sql_content.toLowerCase().includes(patternLower)) {
+      if (sql.toLowerCase().includes(patternLower)) {
         results.push({
           nodeId: node.id,
           nodeName: node.name,
           nodeType: node.type,
           semanticLayer: node.semantic_layer || undefined,
-          matchSnippet: extractSnippet(node.sql_content),
+          matchSnippet: extractSnippet(sql),
         });
       }
     }
@@ -498,24 +504,25 @@ export function searchSqlContent(
   }
 
   try {
-    // Use FTS to search in sql_content
+    // Use FTS to search in sql_content and compiled_sql
     const rows = db.prepare(`
       SELECT DISTINCT nodes.* FROM nodes_fts
       JOIN nodes ON nodes_fts.id = nodes.id
-      WHERE nodes_fts.sql_content MATCH ?
-      AND nodes.sql_content IS NOT NULL
+      WHERE nodes_fts MATCH ?
+      AND (nodes.sql_content IS NOT NULL OR nodes.compiled_sql IS NOT NULL)
       LIMIT ?
-    `).all(cleanPattern, limit * 2) as DbNode[];
+    `).all(`{sql_content compiled_sql} : (${cleanPattern})`, limit * 2) as DbNode[];
 
     for (const row of rows) {
-      if (!row.sql_content) continue;
+      const sql = getMatchedSql(row);
+      if (!sql) continue;
       
       results.push({
         nodeId: row.id,
         nodeName: row.name,
         nodeType: row.type,
         semanticLayer: row.semantic_layer || undefined,
-        matchSnippet: extractSnippet(row.sql_content),
+        matchSnippet: extractSnippet(sql),
       });
 
       if (results.length >= limit) break;
@@ -525,19 +532,20 @@ export function searchSqlContent(
     const likePattern = `%${pattern}%`;
     const rows = db.prepare(`
       SELECT * FROM nodes 
-      WHERE sql_content LIKE ? 
+      WHERE sql_content LIKE ? OR compiled_sql LIKE ?
       LIMIT ?
-    `).all(likePattern, limit) as DbNode[];
+    `).all(likePattern, likePattern, limit) as DbNode[];
 
     for (const row of rows) {
-      if (!row.sql_content) continue;
+      const sql = getMatchedSql(row);
+      if (!sql) continue;
       
       results.push({
         nodeId: row.id,
         nodeName: row.name,
         nodeType: row.type,
         semanticLayer: row.semantic_layer || undefined,
-        matchSnippet: extractSnippet(row.sql_content),
+        matchSnippet: extractSnippet(sql),
       });
     }
   }
@@ -617,7 +625,7 @@ export const TOOL_DEFINITIONS = [
           },
           type: {
             type: "string",
-            enum: ["table", "view", "model", "source", "seed", "external"],
+            enum: ["table", "view", "model", "source", "seed", "external", "semantic_model", "metric", "saved_query", "dag"],
             description: "Optional filter by node type",
           },
           limit: {
@@ -9,6 +9,7 @@ const USE_STATIC_MODE =
 
 // Import both implementations
 import * as staticAdapter from "./static-adapter";
+import type { IndexingStage, GraphNode, GraphEdge, ConflictResolution } from "../types";
 
 // Define a common adapter interface type
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -27,6 +28,7 @@ export interface DbNode {
   repo: string | null;
   metadata: string | null;
   sql_content: string | null;
+  compiled_sql: string | null;
   layout_x: number | null;
   layout_y: number | null;
   layout_layer: number | null;
@@ -61,6 +63,15 @@ export interface DbEdge {
   metadata: string | null;
 }
 
+export interface DbColumnEdge {
+  id: string;
+  from_node: string;
+  from_column: string;
+  to_node: string;
+  to_column: string;
+  transform: string;              // direct, derived
+}
+
 export interface DbGroup {
   id: string;
   name: string;
@@ -130,6 +141,9 @@ export interface DbJob {
   activity_log: string | null;
   usage_stats: string | null;
   skipped_stages: string | null;  // JSON array of stage IDs
+  stages: string | null;          // JSON array of IndexingStage planned for the run
+  checkpoint: string | null;      // JSON JobCheckpoint (see lib/indexer)
+  cancel_requested: number | null;
   waiting_for: string | null;     // What input we're waiting for
   waiting_data: string | null;    // JSON data for the waiting UI
   selected_schemas: string | null; // JSON array of selected Snowflake schemas
@@ -156,6 +170,104 @@ export interface DbLineageCache {
   last_accessed: string;
 }
 
+export interface DbInputFingerprint {
+  source: string;                 // dbt, airflow, externals, census
+  fingerprint: string;
+  parse_result: string | null;    // JSON: cached parser output for the source
+  updated_at: string;
+}
+
+// Node/edge changes applied in place by an incremental indexing run
+export interface GraphChangeSet {
+  upsertNodes: Omit<DbNode, "created_at">[];
+  deleteNodeIds: string[];
+  upsertEdges: DbEdge[];
+  deleteEdgeIds: string[];
+  citations: DbCitation[];        // Replaces all existing citations
+  staleExplanationIds: string[];  // Nodes whose cached explanations no longer match their SQL
+}
+
+export interface DbGraphSnapshot {
+  job_id: string;
+  version: number;
+  node_count: number;
+  edge_count: number;
+  nodes: string;                  // JSON array of GraphNode
+  edges: string;                  // JSON array of GraphEdge
+  created_at: string;
+}
+
+export type DbGraphSnapshotSummary = Omit<DbGraphSnapshot, "nodes" | "edges">;
+
+export interface DbConflict {
+  id: string;
+  type: string;
+  node_ids: string;               // JSON array of node IDs
+  message: string;
+  confidence: number | null;
+  detected_at: string;
+}
+
+export interface DbConflictResolution {
+  conflict_id: string;
+  action: string;                 // merge, keep_separate, link
+  node_ids: string;               // JSON array of node IDs
+  target_id: string | null;
+  from_node: string | null;
+  to_node: string | null;
+  edge_type: string | null;
+  note: string | null;
+  resolved_at: string;
+}
+
+export interface DbDbtRunHistory {
+  node_id: string;
+  runs: string;                   // JSON array of DbtRunInfo, newest first
+  updated_at: string;
+}
+
+// ============================================================================
+// Row conversions
+// ============================================================================
+
+export function dbNodeToGraph(node: DbNode): GraphNode {
+  return {
+    id: node.id,
+    name: node.name,
+    type: node.type as GraphNode["type"],
+    subtype: (node.subtype as GraphNode["subtype"]) || undefined,
+    groupId: node.group_id || undefined,
+    repo: node.repo || undefined,
+    metadata: node.metadata ? JSON.parse(node.metadata) : undefined,
+    sqlContent: node.sql_content || undefined,
+    compiledSql: node.compiled_sql || undefined,
+  };
+}
+
+export function dbEdgeToGraph(edge: DbEdge): GraphEdge {
+  return {
+    id: edge.id,
+    from: edge.from_node,
+    to: edge.to_node,
+    type: edge.type as GraphEdge["type"],
+    metadata: edge.metadata ? JSON.parse(edge.metadata) : undefined,
+  };
+}
+
+export function dbConflictResolutionToDomain(row: DbConflictResolution): ConflictResolution {
+  return {
+    conflictId: row.conflict_id,
+    action: row.action as ConflictResolution["action"],
+    nodeIds: JSON.parse(row.node_ids),
+    targetId: row.target_id || undefined,
+    from: row.from_node || undefined,
+    to: row.to_node || undefined,
+    edgeType: (row.edge_type as ConflictResolution["edgeType"]) || undefined,
+    note: row.note || undefined,
+    resolvedAt: row.resolved_at,
+  };
+}
+
 // ============================================================================
 // Lazy-load SQLite adapter only when needed (not in static mode)
 // ============================================================================
@@ -245,6 +357,28 @@ export function insertEdges(edges: DbEdge[]): void {
   return getSqliteAdapterSync().insertEdges(edges);
 }
 
+// Column lineage operations
+export function getColumnEdges(): DbColumnEdge[] {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.getColumnEdges();
+  }
+  return getSqliteAdapterSync().getColumnEdges();
+}
+
+export function getColumnEdgesForNode(nodeId: string): DbColumnEdge[] {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.getColumnEdgesForNode(nodeId);
+  }
+  return getSqliteAdapterSync().getColumnEdgesForNode(nodeId);
+}
+
+export function replaceColumnEdges(edges: DbColumnEdge[]): void {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.replaceColumnEdges(edges);
+  }
+  return getSqliteAdapterSync().replaceColumnEdges(edges);
+}
+
 // Group operations
 export function getGroups(): DbGroup[] {
   if (USE_STATIC_MODE) {
@@ -465,6 +599,60 @@ export function getSkippedStages(id: string): string[] {
   return getSqliteAdapterSync().getSkippedStages(id);
 }
 
+export function setJobStages(id: string, stages: IndexingStage[]): void {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.setJobStages(id, stages);
+  }
+  return getSqliteAdapterSync().setJobStages(id, stages);
+}
+
+// Checkpoints and cancellation for resumable jobs
+export function getLatestJob(): DbJob | undefined {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.getLatestJob();
+  }
+  return getSqliteAdapterSync().getLatestJob();
+}
+
+/**
+ * Save a job's checkpoint. Pass results to replace the stored parser output
+ * (null clears it); leave it undefined to keep what's stored.
+ */
+export function saveJobCheckpoint(id: string, checkpoint: string, results?: string | null): void {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.saveJobCheckpoint(id, checkpoint, results);
+  }
+  return getSqliteAdapterSync().saveJobCheckpoint(id, checkpoint, results);
+}
+
+export function getJobCheckpointResults(id: string): string | null {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.getJobCheckpointResults(id);
+  }
+  return getSqliteAdapterSync().getJobCheckpointResults(id);
+}
+
+export function requestJobCancel(id: string): void {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.requestJobCancel(id);
+  }
+  return getSqliteAdapterSync().requestJobCancel(id);
+}
+
+export function isJobCancelRequested(id: string): boolean {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.isJobCancelRequested(id);
+  }
+  return getSqliteAdapterSync().isJobCancelRequested(id);
+}
+
+export function resetJobForResume(id: string): void {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.resetJobForResume(id);
+  }
+  return getSqliteAdapterSync().resetJobForResume(id);
+}
+
 // Schema selection for Snowflake discovery
 export function setJobWaitingForSchemas(id: string, schemas: string[]): void {
   if (USE_STATIC_MODE) {
@@ -539,6 +727,101 @@ export function cleanupOrphanedRelationalExplanations(): number {
   return getSqliteAdapterSync().cleanupOrphanedRelationalExplanations();
 }
 
+// Incremental indexing operations
+export function getInputFingerprints(): DbInputFingerprint[] {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.getInputFingerprints();
+  }
+  return getSqliteAdapterSync().getInputFingerprints();
+}
+
+export function saveInputFingerprints(fingerprints: Omit<DbInputFingerprint, "updated_at">[]): void {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.saveInputFingerprints(fingerprints);
+  }
+  return getSqliteAdapterSync().saveInputFingerprints(fingerprints);
+}
+
+export function applyGraphChanges(changes: GraphChangeSet): void {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.applyGraphChanges(changes);
+  }
+  return getSqliteAdapterSync().applyGraphChanges(changes);
+}
+
+// Graph snapshot operations
+export function saveGraphSnapshot(snapshot: Omit<DbGraphSnapshot, "version" | "created_at">): DbGraphSnapshotSummary {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.saveGraphSnapshot(snapshot);
+  }
+  return getSqliteAdapterSync().saveGraphSnapshot(snapshot);
+}
+
+export function getGraphSnapshots(): DbGraphSnapshotSummary[] {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.getGraphSnapshots();
+  }
+  return getSqliteAdapterSync().getGraphSnapshots();
+}
+
+export function getGraphSnapshot(jobIdOrVersion: string): DbGraphSnapshot | undefined {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.getGraphSnapshot(jobIdOrVersion);
+  }
+  return getSqliteAdapterSync().getGraphSnapshot(jobIdOrVersion);
+}
+
+// Conflict operations
+export function replaceConflicts(conflicts: Omit<DbConflict, "detected_at">[]): void {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.replaceConflicts(conflicts);
+  }
+  return getSqliteAdapterSync().replaceConflicts(conflicts);
+}
+
+export function getConflicts(): DbConflict[] {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.getConflicts();
+  }
+  return getSqliteAdapterSync().getConflicts();
+}
+
+export function getConflictResolutions(): DbConflictResolution[] {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.getConflictResolutions();
+  }
+  return getSqliteAdapterSync().getConflictResolutions();
+}
+
+export function saveConflictResolution(resolution: Omit<DbConflictResolution, "resolved_at">): DbConflictResolution {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.saveConflictResolution(resolution);
+  }
+  return getSqliteAdapterSync().saveConflictResolution(resolution);
+}
+
+export function deleteConflictResolution(conflictId: string): boolean {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.deleteConflictResolution(conflictId);
+  }
+  return getSqliteAdapterSync().deleteConflictResolution(conflictId);
+}
+
+// dbt run history operations
+export function getDbtRunHistory(): DbDbtRunHistory[] {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.getDbtRunHistory();
+  }
+  return getSqliteAdapterSync().getDbtRunHistory();
+}
+
+export function saveDbtRunHistory(history: Omit<DbDbtRunHistory, "updated_at">[]): void {
+  if (USE_STATIC_MODE) {
+    return staticAdapter.saveDbtRunHistory(history);
+  }
+  return getSqliteAdapterSync().saveDbtRunHistory(history);
+}
+
 // Lineage cache operations
 export function generateLineageCacheKey(
   anchorId: string,
@@ -8,6 +8,7 @@ CREATE TABLE IF NOT EXISTS nodes (
     repo TEXT,                     -- rippling-dbt, airflow-dags, snowflake
     metadata TEXT,                 -- JSON: columns, tags, materialization, schedule
     sql_content TEXT,              -- Raw SQL file content (for dbt models)
+    compiled_sql TEXT,             -- dbt-compiled SQL (manifest compiled_code or target/compiled)
     layout_x REAL,                 -- Pre-computed X position from dagre
     layout_y REAL,                 -- Pre-computed Y position from dagre
     layout_layer INTEGER,          -- Topological layer (depth from sources)
@@ -26,6 +27,18 @@ CREATE TABLE IF NOT EXISTS edges (
     FOREIGN KEY (to_node) REFERENCES nodes(id)
 );
 
+-- Column-level lineage, rebuilt from model SQL on every index
+CREATE TABLE IF NOT EXISTS column_edges (
+    id TEXT PRIMARY KEY,
+    from_node TEXT NOT NULL,
+    from_column TEXT NOT NULL,     -- Lowercased column name
+    to_node TEXT NOT NULL,
+    to_column TEXT NOT NULL,       -- Lowercased column name
+    transform TEXT NOT NULL,       -- direct (passed through, renamed or cast) or derived (expression)
+    FOREIGN KEY (from_node) REFERENCES nodes(id),
+    FOREIGN KEY (to_node) REFERENCES nodes(id)
+);
+
 CREATE TABLE IF NOT EXISTS groups (
     id TEXT PRIMARY KEY,
     name TEXT NOT NULL,
@@ -109,6 +122,10 @@ CREATE TABLE IF NOT EXISTS jobs (
     activity_log TEXT,             -- JSON array of {timestamp, message}
     usage_stats TEXT,              -- JSON: {totalInputTokens, totalOutputTokens, totalCalls, estimatedCostUsd}
     skipped_stages TEXT,           -- JSON array of stage IDs that were skipped/failed gracefully
+    stages TEXT,                   -- JSON array of {id, name, startPct, endPct} planned for this run
+    checkpoint TEXT,               -- JSON: config + completed stages, used to resume failed/cancelled jobs
+    checkpoint_results TEXT,       -- JSON: serialized source parser output, keyed by parser ID
+    cancel_requested INTEGER DEFAULT 0,
     waiting_for TEXT,              -- What input we're waiting for: schema_selection, etc.
     waiting_data TEXT,             -- JSON: Data for the waiting UI (e.g., available schemas)
     selected_schemas TEXT,         -- JSON array of user-selected Snowflake schemas
@@ -129,6 +146,56 @@ CREATE TABLE IF NOT EXISTS lineage_cache (
     last_accessed TEXT DEFAULT (datetime('now'))
 );
 
+-- Input fingerprints for incremental re-indexing
+CREATE TABLE IF NOT EXISTS input_fingerprints (
+    source TEXT PRIMARY KEY,       -- dbt, airflow, externals, census
+    fingerprint TEXT NOT NULL,     -- Hash of the source's input files (content or path/size/mtime)
+    parse_result TEXT,             -- JSON: Cached parser output, reused when the source is unchanged
+    updated_at TEXT DEFAULT (datetime('now'))
+);
+
+-- Versioned graph snapshots, one per completed indexing job (kept across re-indexes)
+CREATE TABLE IF NOT EXISTS graph_snapshots (
+    job_id TEXT PRIMARY KEY,
+    version INTEGER NOT NULL UNIQUE, -- Monotonically increasing snapshot number
+    node_count INTEGER NOT NULL,
+    edge_count INTEGER NOT NULL,
+    nodes TEXT NOT NULL,           -- JSON array of GraphNode (without layout)
+    edges TEXT NOT NULL,           -- JSON array of GraphEdge
+    created_at TEXT DEFAULT (datetime('now'))
+);
+
+-- Cross-repo linker conflicts found by the last index
+CREATE TABLE IF NOT EXISTS conflicts (
+    id TEXT PRIMARY KEY,           -- type:sorted node IDs, stable across re-indexes
+    type TEXT NOT NULL,            -- duplicate_name, low_confidence, ambiguous_match, ...
+    node_ids TEXT NOT NULL,        -- JSON array of node IDs
+    message TEXT NOT NULL,
+    confidence REAL,               -- Best match score, for scored cross-repo matches
+    detected_at TEXT DEFAULT (datetime('now'))
+);
+
+-- Human resolutions of conflicts, reapplied on every index (kept across re-indexes)
+CREATE TABLE IF NOT EXISTS conflict_resolutions (
+    conflict_id TEXT PRIMARY KEY,
+    action TEXT NOT NULL,          -- merge, keep_separate, link
+    node_ids TEXT NOT NULL,        -- JSON array: the conflict's node IDs
+    target_id TEXT,                -- merge: node the others are merged into
+    from_node TEXT,                -- link: edge source
+    to_node TEXT,                  -- link: edge target
+    edge_type TEXT,                -- link: edge type
+    note TEXT,
+    resolved_at TEXT DEFAULT (datetime('now'))
+);
+
+-- dbt run history per node (kept across re-indexes, since dbt overwrites
+-- run_results.json on every invocation)
+CREATE TABLE IF NOT EXISTS dbt_run_history (
+    node_id TEXT PRIMARY KEY,      -- No foreign key: history outlives the nodes of a rebuild
+    runs TEXT NOT NULL,            -- JSON array of DbtRunInfo, newest first
+    updated_at TEXT DEFAULT (datetime('now'))
+);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_nodes_type ON nodes(type);
 CREATE INDEX IF NOT EXISTS idx_nodes_group ON nodes(group_id);
@@ -136,37 +203,40 @@ CREATE INDEX IF NOT EXISTS idx_nodes_repo ON nodes(repo);
 CREATE INDEX IF NOT EXISTS idx_edges_from ON edges(from_node);
 CREATE INDEX IF NOT EXISTS idx_edges_to ON edges(to_node);
 CREATE INDEX IF NOT EXISTS idx_edges_type ON edges(type);
+CREATE INDEX IF NOT EXISTS idx_column_edges_from ON column_edges(from_node, from_column);
+CREATE INDEX IF NOT EXISTS idx_column_edges_to ON column_edges(to_node, to_column);
 CREATE INDEX IF NOT EXISTS idx_citations_node ON citations(node_id);
 CREATE INDEX IF NOT EXISTS idx_citations_edge ON citations(edge_id);
 CREATE INDEX IF NOT EXISTS idx_lineage_cache_anchor ON lineage_cache(anchor_id);
 CREATE INDEX IF NOT EXISTS idx_lineage_cache_access ON lineage_cache(access_count DESC);
 
--- Full-text search for nodes (includes sql_content for code search)
+-- Full-text search for nodes (includes raw and compiled SQL for code search)
 CREATE VIRTUAL TABLE IF NOT EXISTS nodes_fts USING fts5(
     id,
     name,
     type,
     metadata,
     sql_content,
+    compiled_sql,
     content='nodes',
     content_rowid='rowid'
 );
 
 -- Triggers to keep FTS in sync
 CREATE TRIGGER IF NOT EXISTS nodes_ai AFTER INSERT ON nodes BEGIN
-    INSERT INTO nodes_fts(rowid, id, name, type, metadata, sql_content) 
-    VALUES (new.rowid, new.id, new.name, new.type, new.metadata, new.sql_content);
+    INSERT INTO nodes_fts(rowid, id, name, type, metadata, sql_content, compiled_sql) 
+    VALUES (new.rowid, new.id, new.name, new.type, new.metadata, new.sql_content, new.compiled_sql);
 END;
 
 CREATE TRIGGER IF NOT EXISTS nodes_ad AFTER DELETE ON nodes BEGIN
-    INSERT INTO nodes_fts(nodes_fts, rowid, id, name, type, metadata, sql_content) 
-    VALUES ('delete', old.rowid, old.id, old.name, old.type, old.metadata, old.sql_content);
+    INSERT INTO nodes_fts(nodes_fts, rowid, id, name, type, metadata, sql_content, compiled_sql) 
+    VALUES ('delete', old.rowid, old.id, old.name, old.type, old.metadata, old.sql_content, old.compiled_sql);
 END;
 
 CREATE TRIGGER IF NOT EXISTS nodes_au AFTER UPDATE ON nodes BEGIN
-    INSERT INTO nodes_fts(nodes_fts, rowid, id, name, type, metadata, sql_content) 
-    VALUES ('delete', old.rowid, old.id, old.name, old.type, old.metadata, old.sql_content);
-    INSERT INTO nodes_fts(rowid, id, name, type, metadata, sql_content) 
-    VALUES (new.rowid, new.id, new.name, new.type, new.metadata, new.sql_content);
+    INSERT INTO nodes_fts(nodes_fts, rowid, id, name, type, metadata, sql_content, compiled_sql) 
+    VALUES ('delete', old.rowid, old.id, old.name, old.type, old.metadata, old.sql_content, old.compiled_sql);
+    INSERT INTO nodes_fts(rowid, id, name, type, metadata, sql_content, compiled_sql) 
+    VALUES (new.rowid, new.id, new.name, new.type, new.metadata, new.sql_content, new.compiled_sql);
 END;
 
@@ -9,6 +9,7 @@ import { join } from "path";
 import type {
   DbNode,
   DbEdge,
+  DbColumnEdge,
   DbGroup,
   DbFlow,
   DbCitation,
@@ -20,7 +21,15 @@ import type {
   LayoutPosition,
   ActivityLogEntry,
   UsageStats,
+  DbInputFingerprint,
+  GraphChangeSet,
+  DbGraphSnapshot,
+  DbGraphSnapshotSummary,
+  DbConflict,
+  DbConflictResolution,
+  DbDbtRunHistory,
 } from "./index";
+import type { IndexingStage } from "../types";
 
 // Use absolute path to ensure consistency across API routes
 const DB_PATH = process.env.DATABASE_PATH || join(process.cwd(), "data/pipeline.db");
@@ -55,14 +64,27 @@ function initSchema(db: Database.Database) {
   if (!colNames.has('semantic_layer')) missingCols.push({ name: 'semantic_layer', type: 'TEXT' });
   if (!colNames.has('importance_score')) missingCols.push({ name: 'importance_score', type: 'REAL' });
   if (!colNames.has('sql_content')) missingCols.push({ name: 'sql_content', type: 'TEXT' });
+  if (!colNames.has('compiled_sql')) missingCols.push({ name: 'compiled_sql', type: 'TEXT' });
   
   for (const col of missingCols) {
     db.exec(`ALTER TABLE nodes ADD COLUMN ${col.name} ${col.type}`);
   }
   
-  // Migration: Rebuild FTS index if sql_content column was added
+  // Migration: Add stage plan and checkpoint columns to jobs table
+  const jobColNames = new Set((db.prepare("PRAGMA table_info(jobs)").all() as Array<{name:string}>).map(c => c.name));
+  const missingJobCols: Array<{name: string; type: string}> = [];
+  if (!jobColNames.has('stages')) missingJobCols.push({ name: 'stages', type: 'TEXT' });
+  if (!jobColNames.has('checkpoint')) missingJobCols.push({ name: 'checkpoint', type: 'TEXT' });
+  if (!jobColNames.has('checkpoint_results')) missingJobCols.push({ name: 'checkpoint_results', type: 'TEXT' });
+  if (!jobColNames.has('cancel_requested')) missingJobCols.push({ name: 'cancel_requested', type: 'INTEGER DEFAULT 0' });
+  
+  for (const col of missingJobCols) {
+    db.exec(`ALTER TABLE jobs ADD COLUMN ${col.name} ${col.type}`);
+  }
+  
+  // Migration: Rebuild FTS index if sql_content or compiled_sql column was added
   // FTS5 virtual tables can't be altered, so we need to check and rebuild
-  if (!colNames.has('sql_content')) {
+  if (!colNames.has('sql_content') || !colNames.has('compiled_sql')) {
     // Drop old triggers and FTS table, they'll be recreated by schema.sql
     db.exec(`
       DROP TRIGGER IF EXISTS nodes_ai;
@@ -70,14 +92,14 @@ function initSchema(db: Database.Database) {
       DROP TRIGGER IF EXISTS nodes_au;
       DROP TABLE IF EXISTS nodes_fts;
     `);
-    // Re-run schema to create FTS with sql_content
+    // Re-run schema to create FTS with sql_content and compiled_sql
     const schemaPathForFts = join(process.cwd(), "lib/db/schema.sql");
     const schemaForFts = readFileSync(schemaPathForFts, "utf-8");
     db.exec(schemaForFts);
     // Rebuild FTS index from existing nodes
     db.exec(`
-      INSERT INTO nodes_fts(rowid, id, name, type, metadata, sql_content)
-      SELECT rowid, id, name, type, metadata, sql_content FROM nodes;
+      INSERT INTO nodes_fts(rowid, id, name, type, metadata, sql_content, compiled_sql)
+      SELECT rowid, id, name, type, metadata, sql_content, compiled_sql FROM nodes;
     `);
   }
   
@@ -110,21 +132,21 @@ export function closeDb() {
 export function insertNode(node: Omit<DbNode, "created_at">) {
   const db = getDb();
   const stmt = db.prepare(`
-    INSERT OR REPLACE INTO nodes (id, name, type, subtype, group_id, repo, metadata, sql_content)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT OR REPLACE INTO nodes (id, name, type, subtype, group_id, repo, metadata, sql_content, compiled_sql)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
-  stmt.run(node.id, node.name, node.type, node.subtype, node.group_id, node.repo, node.metadata, node.sql_content);
+  stmt.run(node.id, node.name, node.type, node.subtype, node.group_id, node.repo, node.metadata, node.sql_content, node.compiled_sql);
 }
 
 export function insertNodes(nodes: Omit<DbNode, "created_at">[]) {
   const db = getDb();
   const stmt = db.prepare(`
-    INSERT OR REPLACE INTO nodes (id, name, type, subtype, group_id, repo, metadata, sql_content)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT OR REPLACE INTO nodes (id, name, type, subtype, group_id, repo, metadata, sql_content, compiled_sql)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
   const insertMany = db.transaction((items: typeof nodes) => {
     for (const node of items) {
-      stmt.run(node.id, node.name, node.type, node.subtype, node.group_id, node.repo, node.metadata, node.sql_content);
+      stmt.run(node.id, node.name, node.type, node.subtype, node.group_id, node.repo, node.metadata, node.sql_content, node.compiled_sql);
     }
   });
   insertMany(nodes);
@@ -169,6 +191,35 @@ export function getEdges(): DbEdge[] {
   return db.prepare("SELECT * FROM edges").all() as DbEdge[];
 }
 
+// Column lineage operations
+export function getColumnEdges(): DbColumnEdge[] {
+  const db = getDb();
+  return db.prepare("SELECT * FROM column_edges").all() as DbColumnEdge[];
+}
+
+export function getColumnEdgesForNode(nodeId: string): DbColumnEdge[] {
+  const db = getDb();
+  return db
+    .prepare("SELECT * FROM column_edges WHERE from_node = ? OR to_node = ?")
+    .all(nodeId, nodeId) as DbColumnEdge[];
+}
+
+// Column edges are derived from the whole graph, so each index replaces them all
+export function replaceColumnEdges(edges: DbColumnEdge[]) {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT INTO column_edges (id, from_node, from_column, to_node, to_column, transform)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const replaceAll = db.transaction((items: typeof edges) => {
+    db.exec("DELETE FROM column_edges");
+    for (const edge of items) {
+      stmt.run(edge.id, edge.from_node, edge.from_column, edge.to_node, edge.to_column, edge.transform);
+    }
+  });
+  replaceAll(edges);
+}
+
 // Group operations
 export function insertGroup(group: Omit<DbGroup, "node_count">) {
   const db = getDb();
@@ -270,6 +321,7 @@ export function getLayerNames(): DbLayerName[] {
 }
 
 // Anchor candidate operations
+// Candidates are a ranked top-N set, so each insert replaces the previous set
 export function insertAnchorCandidates(candidates: DbAnchorCandidate[]) {
   const db = getDb();
   const stmt = db.prepare(`
@@ -277,6 +329,7 @@ export function insertAnchorCandidates(candidates: DbAnchorCandidate[]) {
     VALUES (?, ?, ?, ?, ?, ?)
   `);
   const insertMany = db.transaction((items: DbAnchorCandidate[]) => {
+    db.exec("DELETE FROM anchor_candidates");
     for (const c of items) {
       stmt.run(c.node_id, c.importance_score, c.upstream_count, c.downstream_count, c.total_connections, c.reason);
     }
@@ -417,9 +470,23 @@ export function updateJob(id: string, update: Partial<Pick<DbJob, "status" | "st
   db.prepare(sql).run(...values);
 }
 
+// Every jobs column except checkpoint_results, which can hold the full parser
+// output and would otherwise be read on every status poll and log append
+const JOB_COLUMNS = `
+  id, status, stage, stage_progress, message, error, activity_log, usage_stats,
+  skipped_stages, waiting_for, waiting_data, selected_schemas, stages, checkpoint,
+  cancel_requested, started_at, updated_at
+`;
+
 export function getJob(id: string): DbJob | undefined {
   const db = getDb();
-  return db.prepare("SELECT * FROM jobs WHERE id = ?").get(id) as DbJob | undefined;
+  return db.prepare(`SELECT ${JOB_COLUMNS} FROM jobs WHERE id = ?`).get(id) as DbJob | undefined;
+}
+
+export function getLatestJob(): DbJob | undefined {
+  const db = getDb();
+  return db.prepare(`SELECT ${JOB_COLUMNS} FROM jobs ORDER BY started_at DESC, rowid DESC LIMIT 1`)
+    .get() as DbJob | undefined;
 }
 
 const MAX_ACTIVITY_LOG_ENTRIES = 50;
@@ -480,6 +547,63 @@ export function getSkippedStages(id: string): string[] {
   return JSON.parse(job.skipped_stages);
 }
 
+export function setJobStages(id: string, stages: IndexingStage[]): void {
+  const db = getDb();
+  db.prepare("UPDATE jobs SET stages = ?, updated_at = datetime('now') WHERE id = ?")
+    .run(JSON.stringify(stages), id);
+}
+
+// Checkpoints for resuming failed/cancelled jobs
+export function saveJobCheckpoint(id: string, checkpoint: string, results?: string | null): void {
+  const db = getDb();
+  if (results === undefined) {
+    db.prepare("UPDATE jobs SET checkpoint = ?, updated_at = datetime('now') WHERE id = ?")
+      .run(checkpoint, id);
+  } else {
+    db.prepare("UPDATE jobs SET checkpoint = ?, checkpoint_results = ?, updated_at = datetime('now') WHERE id = ?")
+      .run(checkpoint, results, id);
+  }
+}
+
+export function getJobCheckpointResults(id: string): string | null {
+  const db = getDb();
+  const row = db.prepare("SELECT checkpoint_results FROM jobs WHERE id = ?").get(id) as
+    { checkpoint_results: string | null } | undefined;
+  return row?.checkpoint_results ?? null;
+}
+
+export function requestJobCancel(id: string): void {
+  const db = getDb();
+  db.prepare("UPDATE jobs SET cancel_requested = 1, updated_at = datetime('now') WHERE id = ?").run(id);
+}
+
+export function isJobCancelRequested(id: string): boolean {
+  const db = getDb();
+  const row = db.prepare("SELECT cancel_requested FROM jobs WHERE id = ?").get(id) as
+    { cancel_requested: number | null } | undefined;
+  return row?.cancel_requested === 1;
+}
+
+/**
+ * Put a failed/cancelled job back into the pending state so it can be re-run
+ * from its checkpoint. Schema selection is cleared so discovery asks again.
+ */
+export function resetJobForResume(id: string): void {
+  const db = getDb();
+  db.prepare(`
+    UPDATE jobs
+    SET status = 'pending',
+        error = NULL,
+        message = 'Resuming...',
+        cancel_requested = 0,
+        waiting_for = NULL,
+        waiting_data = NULL,
+        selected_schemas = NULL,
+        updated_at = datetime('now')
+    WHERE id = ?
+  `).run(id);
+}
+
 // Schema selection for Snowflake discovery
 export function setJobWaitingForSchemas(id: string, schemas: string[]): void {
   const db = getDb();
@@ -589,11 +713,14 @@ export function clearAllData(options?: { preserveExplanations?: boolean }) {
       DELETE FROM citations;
       DELETE FROM anchor_candidates;
       DELETE FROM lineage_cache;
+      DELETE FROM column_edges;
       DELETE FROM edges;
       DELETE FROM nodes;
       DELETE FROM groups;
       DELETE FROM flows;
       DELETE FROM layer_names;
+      DELETE FROM input_fingerprints;
+      DELETE FROM conflicts;
     `);
   } finally {
     // Re-enable foreign key constraints
@@ -623,6 +750,241 @@ export function cleanupOrphanedRelationalExplanations(): number {
   return result.changes;
 }
 
+// ============================================================================
+// Incremental Indexing Operations
+// ============================================================================
+
+export function getInputFingerprints(): DbInputFingerprint[] {
+  const db = getDb();
+  return db.prepare("SELECT * FROM input_fingerprints").all() as DbInputFingerprint[];
+}
+
+export function saveInputFingerprints(fingerprints: Omit<DbInputFingerprint, "updated_at">[]): void {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO input_fingerprints (source, fingerprint, parse_result, updated_at)
+    VALUES (?, ?, ?, datetime('now'))
+  `);
+  const saveMany = db.transaction((items: typeof fingerprints) => {
+    for (const fp of items) {
+      stmt.run(fp.source, fp.fingerprint, fp.parse_result);
+    }
+  });
+  saveMany(fingerprints);
+}
+
+/**
+ * Apply an incremental change set in a single transaction.
+ * Nodes are upserted with ON CONFLICT DO UPDATE (not INSERT OR REPLACE) so
+ * layout/semantic columns survive and the FTS update trigger fires.
+ * The lineage cache is cleared since cached results depend on graph structure.
+ */
+export function applyGraphChanges(changes: GraphChangeSet): void {
+  const db = getDb();
+
+  const deleteEdge = db.prepare("DELETE FROM edges WHERE id = ?");
+  const deleteNodeEdges = db.prepare("DELETE FROM edges WHERE from_node = ? OR to_node = ?");
+  const deleteNodeColumnEdges = db.prepare("DELETE FROM column_edges WHERE from_node = ? OR to_node = ?");
+  const deleteAnchorCandidate = db.prepare("DELETE FROM anchor_candidates WHERE node_id = ?");
+  const deleteExplanation = db.prepare("DELETE FROM explanations WHERE node_id = ?");
+  const deleteRelationalExplanations = db.prepare(
+    "DELETE FROM relational_explanations WHERE node_id = ? OR anchor_id = ?"
+  );
+  const deleteNode = db.prepare("DELETE FROM nodes WHERE id = ?");
+  const upsertNode = db.prepare(`
+    INSERT INTO nodes (id, name, type, subtype, group_id, repo, metadata, sql_content, compiled_sql)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name,
+      type = excluded.type,
+      subtype = excluded.subtype,
+      group_id = excluded.group_id,
+      repo = excluded.repo,
+      metadata = excluded.metadata,
+      sql_content = excluded.sql_content,
+      compiled_sql = excluded.compiled_sql
+  `);
+  const upsertEdge = db.prepare(`
+    INSERT INTO edges (id, from_node, to_node, type, metadata)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET metadata = excluded.metadata
+  `);
+  const insertCitationStmt = db.prepare(`
+    INSERT OR REPLACE INTO citations (id, node_id, edge_id, file_path, start_line, end_line, snippet)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const apply = db.transaction((set: GraphChangeSet) => {
+    db.exec(`
+      DELETE FROM citations;
+      DELETE FROM lineage_cache;
+    `);
+
+    for (const id of set.deleteEdgeIds) {
+      deleteEdge.run(id);
+    }
+
+    for (const id of [...set.deleteNodeIds, ...set.staleExplanationIds]) {
+      deleteExplanation.run(id);
+      deleteRelationalExplanations.run(id, id);
+    }
+
+    for (const id of set.deleteNodeIds) {
+      deleteAnchorCandidate.run(id);
+      deleteNodeEdges.run(id, id);
+      deleteNodeColumnEdges.run(id, id);
+      deleteNode.run(id);
+    }
+
+    for (const node of set.upsertNodes) {
+      upsertNode.run(node.id, node.name, node.type, node.subtype, node.group_id, node.repo, node.metadata, node.sql_content, node.compiled_sql);
+    }
+
+    for (const edge of set.upsertEdges) {
+      upsertEdge.run(edge.id, edge.from_node, edge.to_node, edge.type, edge.metadata);
+    }
+
+    for (const citation of set.citations) {
+      insertCitationStmt.run(citation.id, citation.node_id, citation.edge_id, citation.file_path, citation.start_line, citation.end_line, citation.snippet);
+    }
+  });
+  apply(changes);
+}
+
+// ============================================================================
+// Graph Snapshot Operations
+// ============================================================================
+
+// Snapshots hold the full graph (including SQL), so only the most recent are kept
+const GRAPH_SNAPSHOT_MAX_VERSIONS = 20;
+
+const SNAPSHOT_SUMMARY_COLUMNS = "job_id, version, node_count, edge_count, created_at";
+
+/**
+ * Store a snapshot for a completed job under the next version number and
+ * prune versions beyond GRAPH_SNAPSHOT_MAX_VERSIONS.
+ */
+export function saveGraphSnapshot(snapshot: Omit<DbGraphSnapshot, "version" | "created_at">): DbGraphSnapshotSummary {
+  const db = getDb();
+
+  const save = db.transaction((s: typeof snapshot) => {
+    const { next } = db.prepare("SELECT COALESCE(MAX(version), 0) + 1 AS next FROM graph_snapshots").get() as { next: number };
+
+    db.prepare(`
+      INSERT OR REPLACE INTO graph_snapshots (job_id, version, node_count, edge_count, nodes, edges)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(s.job_id, next, s.node_count, s.edge_count, s.nodes, s.edges);
+
+    db.prepare("DELETE FROM graph_snapshots WHERE version <= ?").run(next - GRAPH_SNAPSHOT_MAX_VERSIONS);
+
+    return db.prepare(`SELECT ${SNAPSHOT_SUMMARY_COLUMNS} FROM graph_snapshots WHERE job_id = ?`).get(s.job_id) as DbGraphSnapshotSummary;
+  });
+  return save(snapshot);
+}
+
+export function getGraphSnapshots(): DbGraphSnapshotSummary[] {
+  const db = getDb();
+  return db.prepare(`SELECT ${SNAPSHOT_SUMMARY_COLUMNS} FROM graph_snapshots ORDER BY version DESC`).all() as DbGraphSnapshotSummary[];
+}
+
+/**
+ * Look up a snapshot by job ID, or by version number when given an integer.
+ */
+export function getGraphSnapshot(jobIdOrVersion: string): DbGraphSnapshot | undefined {
+  const db = getDb();
+  if (/^\d+$/.test(jobIdOrVersion)) {
+    return db.prepare("SELECT * FROM graph_snapshots WHERE version = ?").get(Number(jobIdOrVersion)) as DbGraphSnapshot | undefined;
+  }
+  return db.prepare("SELECT * FROM graph_snapshots WHERE job_id = ?").get(jobIdOrVersion) as DbGraphSnapshot | undefined;
+}
+
+// ============================================================================
+// Conflict Operations
+// ============================================================================
+
+/**
+ * Replace the stored conflicts with those found by the latest index.
+ * Resolutions live in their own table and are left alone.
+ */
+export function replaceConflicts(conflicts: Omit<DbConflict, "detected_at">[]) {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT INTO conflicts (id, type, node_ids, message, confidence)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  const replaceAll = db.transaction((items: typeof conflicts) => {
+    db.exec("DELETE FROM conflicts");
+    for (const conflict of items) {
+      stmt.run(conflict.id, conflict.type, conflict.node_ids, conflict.message, conflict.confidence);
+    }
+  });
+  replaceAll(conflicts);
+}
+
+export function getConflicts(): DbConflict[] {
+  const db = getDb();
+  return db.prepare("SELECT * FROM conflicts ORDER BY type, id").all() as DbConflict[];
+}
+
+export function getConflictResolutions(): DbConflictResolution[] {
+  const db = getDb();
+  return db.prepare("SELECT * FROM conflict_resolutions ORDER BY resolved_at").all() as DbConflictResolution[];
+}
+
+/**
+ * Store a conflict's resolution, replacing any earlier one.
+ */
+export function saveConflictResolution(resolution: Omit<DbConflictResolution, "resolved_at">): DbConflictResolution {
+  const db = getDb();
+  db.prepare(`
+    INSERT OR REPLACE INTO conflict_resolutions
+      (conflict_id, action, node_ids, target_id, from_node, to_node, edge_type, note)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    resolution.conflict_id,
+    resolution.action,
+    resolution.node_ids,
+    resolution.target_id,
+    resolution.from_node,
+    resolution.to_node,
+    resolution.edge_type,
+    resolution.note
+  );
+  return db.prepare("SELECT * FROM conflict_resolutions WHERE conflict_id = ?").get(resolution.conflict_id) as DbConflictResolution;
+}
+
+export function deleteConflictResolution(conflictId: string): boolean {
+  const db = getDb();
+  return db.prepare("DELETE FROM conflict_resolutions WHERE conflict_id = ?").run(conflictId).changes > 0;
+}
+
+// ============================================================================
+// dbt Run History Operations
+// ============================================================================
+
+export function getDbtRunHistory(): DbDbtRunHistory[] {
+  const db = getDb();
+  return db.prepare("SELECT * FROM dbt_run_history").all() as DbDbtRunHistory[];
+}
+
+/**
+ * Store the merged run history of each node, replacing what it had before.
+ * Nodes not passed keep their history, so it survives models being skipped.
+ */
+export function saveDbtRunHistory(history: Omit<DbDbtRunHistory, "updated_at">[]) {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO dbt_run_history (node_id, runs)
+    VALUES (?, ?)
+  `);
+  const saveAll = db.transaction((items: typeof history) => {
+    for (const entry of items) {
+      stmt.run(entry.node_id, entry.runs);
+    }
+  });
+  saveAll(history);
+}
+
 // ============================================================================
 // Lineage Cache Operations
 // ============================================================================
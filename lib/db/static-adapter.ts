@@ -8,6 +8,7 @@ import { join } from "path";
 import type {
   DbNode,
   DbEdge,
+  DbColumnEdge,
   DbGroup,
   DbFlow,
   DbCitation,
@@ -19,7 +20,15 @@ import type {
   LayoutPosition,
   ActivityLogEntry,
   UsageStats,
+  DbInputFingerprint,
+  GraphChangeSet,
+  DbGraphSnapshot,
+  DbGraphSnapshotSummary,
+  DbConflict,
+  DbConflictResolution,
+  DbDbtRunHistory,
 } from "./index";
+import type { IndexingStage } from "../types";
 
 // Path to the exported JSON file
 const DATA_PATH = join(process.cwd(), "public/graph-data.json");
@@ -27,6 +36,9 @@ const DATA_PATH = join(process.cwd(), "public/graph-data.json");
 interface ExportedData {
   nodes: DbNode[];
   edges: DbEdge[];
+  columnEdges?: DbColumnEdge[];   // Absent in exports made before column lineage
+  conflicts?: DbConflict[];       // Absent in exports made before conflict review
+  conflictResolutions?: DbConflictResolution[];
   groups: DbGroup[];
   flows: DbFlow[];
   explanations: DbExplanation[];
@@ -96,6 +108,14 @@ export function getEdges(): DbEdge[] {
   return loadData().edges;
 }
 
+export function getColumnEdges(): DbColumnEdge[] {
+  return loadData().columnEdges ?? [];
+}
+
+export function getColumnEdgesForNode(nodeId: string): DbColumnEdge[] {
+  return getColumnEdges().filter((e) => e.from_node === nodeId || e.to_node === nodeId);
+}
+
 export function getGroups(): DbGroup[] {
   return loadData().groups;
 }
@@ -323,6 +343,10 @@ export function insertEdges(_edges: DbEdge[]): never {
   throwReadOnly();
 }
 
+export function replaceColumnEdges(_edges: DbColumnEdge[]): never {
+  throwReadOnly();
+}
+
 export function insertGroup(_group: Omit<DbGroup, "node_count">): never {
   throwReadOnly();
 }
@@ -420,6 +444,34 @@ export function getSkippedStages(_id: string): string[] {
   return [];
 }
 
+export function setJobStages(_id: string, _stages: IndexingStage[]): void {
+  // No-op in static mode
+}
+
+export function getLatestJob(): DbJob | undefined {
+  return undefined;
+}
+
+export function saveJobCheckpoint(_id: string, _checkpoint: string, _results?: string | null): void {
+  // No-op in static mode
+}
+
+export function getJobCheckpointResults(_id: string): string | null {
+  return null;
+}
+
+export function requestJobCancel(_id: string): void {
+  // No-op in static mode
+}
+
+export function isJobCancelRequested(_id: string): boolean {
+  return false;
+}
+
+export function resetJobForResume(_id: string): void {
+  throw new Error("Job resume is not available in static mode");
+}
+
 export function setJobWaitingForSchemas(_id: string, _schemas: string[]): void {
   // No-op in static mode
 }
@@ -448,6 +500,60 @@ export function cleanupOrphanedRelationalExplanations(): number {
   return 0;
 }
 
+export function getInputFingerprints(): DbInputFingerprint[] {
+  return [];
+}
+
+export function saveInputFingerprints(_fingerprints: Omit<DbInputFingerprint, "updated_at">[]): never {
+  throwReadOnly();
+}
+
+export function applyGraphChanges(_changes: GraphChangeSet): never {
+  throwReadOnly();
+}
+
+export function saveGraphSnapshot(_snapshot: Omit<DbGraphSnapshot, "version" | "created_at">): never {
+  throwReadOnly();
+}
+
+export function getGraphSnapshots(): DbGraphSnapshotSummary[] {
+  // Snapshot history is not included in the static export
+  return [];
+}
+
+export function getGraphSnapshot(_jobIdOrVersion: string): DbGraphSnapshot | undefined {
+  return undefined;
+}
+
+export function replaceConflicts(_conflicts: Omit<DbConflict, "detected_at">[]): never {
+  throwReadOnly();
+}
+
+export function getConflicts(): DbConflict[] {
+  return loadData().conflicts ?? [];
+}
+
+export function getConflictResolutions(): DbConflictResolution[] {
+  return loadData().conflictResolutions ?? [];
+}
+
+export function saveConflictResolution(_resolution: Omit<DbConflictResolution, "resolved_at">): never {
+  throwReadOnly();
+}
+
+export function deleteConflictResolution(_conflictId: string): never {
+  throwReadOnly();
+}
+
+// Run history is only read while indexing, which static mode doesn't do
+export function getDbtRunHistory(): DbDbtRunHistory[] {
+  return [];
+}
+
+export function saveDbtRunHistory(_history: Omit<DbDbtRunHistory, "updated_at">[]): never {
+  throwReadOnly();
+}
+
 // ============================================================================
 // Static mode detection
 // ============================================================================
@@ -0,0 +1,162 @@
+/**
+ * Column Trace
+ *
+ * Follows column edges from one column to every column it reads from
+ * (upstream) or feeds (downstream), across models and reverse ETL syncs,
+ * up to a depth limit. Column names match case-insensitively.
+ *
+ * Also provides the helpers the explorer uses to highlight a trace on the
+ * currently visible lineage.
+ */
+
+import type {
+  GraphEdge,
+  ColumnEdge,
+  ColumnTrace,
+  ColumnTraceDirection,
+  ColumnTraceHop,
+  ColumnTraceResponse,
+} from "../types";
+import type { VisibleNode } from "./visibility";
+
+// ============================================================================
+// Tracing
+// ============================================================================
+
+function columnKey(nodeId: string, column: string): string {
+  return `${nodeId}|${column.toLowerCase()}`;
+}
+
+/**
+ * Walk column edges breadth-first from a column. Each column is reported once,
+ * at the fewest hops it's reachable in.
+ */
+export function traceColumn(
+  columnEdges: ColumnEdge[],
+  nodeId: string,
+  column: string,
+  direction: ColumnTraceDirection,
+  depth: number
+): ColumnTrace {
+  const incoming = new Map<string, ColumnEdge[]>();
+  const outgoing = new Map<string, ColumnEdge[]>();
+  for (const edge of columnEdges) {
+    const toKey = columnKey(edge.toNode, edge.toColumn);
+    const fromKey = columnKey(edge.fromNode, edge.fromColumn);
+    if (!incoming.has(toKey)) incoming.set(toKey, []);
+    incoming.get(toKey)!.push(edge);
+    if (!outgoing.has(fromKey)) outgoing.set(fromKey, []);
+    outgoing.get(fromKey)!.push(edge);
+  }
+
+  const startKey = columnKey(nodeId, column);
+  const hops = new Map<string, ColumnTraceHop>([[startKey, { nodeId, column, depth: 0 }]]);
+  const edges = new Set<ColumnEdge>();
+  let truncated = false;
+
+  const walk = (upstream: boolean) => {
+    const visited = new Set([startKey]);
+    let frontier: Array<{ nodeId: string; column: string }> = [{ nodeId, column }];
+
+    for (let hop = 1; frontier.length > 0; hop++) {
+      const next: typeof frontier = [];
+      for (const current of frontier) {
+        const adjacent = (upstream ? incoming : outgoing).get(columnKey(current.nodeId, current.column)) ?? [];
+        if (hop > depth) {
+          if (adjacent.length > 0) truncated = true;
+          continue;
+        }
+
+        for (const edge of adjacent) {
+          edges.add(edge);
+          const neighbour = upstream
+            ? { nodeId: edge.fromNode, column: edge.fromColumn }
+            : { nodeId: edge.toNode, column: edge.toColumn };
+          const key = columnKey(neighbour.nodeId, neighbour.column);
+          if (visited.has(key)) continue;
+          visited.add(key);
+          if (!hops.has(key)) hops.set(key, { ...neighbour, depth: upstream ? -hop : hop });
+          next.push(neighbour);
+        }
+      }
+      frontier = next;
+    }
+  };
+
+  if (direction !== "downstream") walk(true);
+  if (direction !== "upstream") walk(false);
+
+  return {
+    nodeId,
+    column,
+    direction,
+    depth,
+    hops: [...hops.values()].sort((a, b) => a.depth - b.depth),
+    edges: [...edges],
+    truncated,
+  };
+}
+
+// ============================================================================
+// Explorer helpers
+// ============================================================================
+
+export interface ColumnTraceMaps {
+  nodes: Map<string, string[]>;  // Traced columns per node
+  edges: Set<string>;            // Node pairs the trace crosses, keyed by getNodePairKey()
+}
+
+export function getNodePairKey(from: string, to: string): string {
+  return `${from}|${to}`;
+}
+
+export function buildColumnTraceMaps(trace: ColumnTrace): ColumnTraceMaps {
+  const nodes = new Map<string, string[]>();
+  for (const hop of trace.hops) {
+    if (!nodes.has(hop.nodeId)) nodes.set(hop.nodeId, []);
+    const columns = nodes.get(hop.nodeId)!;
+    if (!columns.includes(hop.column)) columns.push(hop.column);
+  }
+
+  const edges = new Set(trace.edges.map((e) => getNodePairKey(e.fromNode, e.toNode)));
+  return { nodes, edges };
+}
+
+/**
+ * Add traced nodes and edges that the visible lineage doesn't include. New
+ * nodes are laid out by their hop distance from the traced node.
+ */
+export function overlayColumnTrace(
+  visibleNodes: VisibleNode[],
+  visibleEdges: GraphEdge[],
+  trace: ColumnTraceResponse
+): { nodes: VisibleNode[]; edges: GraphEdge[] } {
+  const visibleIds = new Set(visibleNodes.map((n) => n.id));
+  const startLayer = visibleNodes.find((n) => n.id === trace.nodeId)?.relativeLayer ?? 0;
+  const nodeDepths = new Map<string, number>();
+  for (const hop of trace.hops) {
+    const current = nodeDepths.get(hop.nodeId);
+    if (current === undefined || Math.abs(hop.depth) < Math.abs(current)) nodeDepths.set(hop.nodeId, hop.depth);
+  }
+
+  const addedNodes: VisibleNode[] = [];
+  for (const node of trace.nodes) {
+    if (visibleIds.has(node.id)) continue;
+    const depth = nodeDepths.get(node.id) ?? 0;
+    addedNodes.push({
+      ...node,
+      relativeLayer: startLayer + depth,
+      visibilityReason: depth < 0
+        ? { type: "upstream", hops: -depth, path: [node.id, trace.nodeId] }
+        : { type: "downstream", hops: Math.max(depth, 1), path: [trace.nodeId, node.id] },
+    });
+  }
+
+  const visibleEdgeIds = new Set(visibleEdges.map((e) => e.id));
+  const addedEdges = trace.graphEdges.filter((e) => !visibleEdgeIds.has(e.id));
+
+  return {
+    nodes: [...visibleNodes, ...addedNodes],
+    edges: [...visibleEdges, ...addedEdges],
+  };
+}
@@ -0,0 +1,224 @@
+/**
+ * Graph Diff
+ *
+ * Compares two graph snapshots and reports added, removed and modified
+ * nodes and edges. Nodes are matched by ID; edges by from|to|type since
+ * edge IDs are regenerated on every parse.
+ *
+ * Also provides the helpers the explorer uses to overlay a diff on the
+ * currently visible lineage.
+ */
+
+import type {
+  GraphNode,
+  GraphEdge,
+  DiffStatus,
+  MetadataChange,
+  NodeChange,
+  EdgeChange,
+  GraphDiff,
+} from "../types";
+import type { VisibleNode } from "./visibility";
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+// Top-level node fields compared between snapshots (layout and grouping are
+// recomputed on every run, so they're not meaningful changes)
+const COMPARED_NODE_FIELDS = ["name", "type", "subtype", "repo", "metadata", "sqlContent", "compiledSql"] as const;
+
+export function getEdgeKey(edge: Pick<GraphEdge, "from" | "to" | "type">): string {
+  return `${edge.from}|${edge.to}|${edge.type}`;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Per-key changes between two metadata objects.
+ */
+export function diffMetadata(
+  before: object | undefined,
+  after: object | undefined
+): MetadataChange[] {
+  const beforeRecord = (before ?? {}) as Record<string, unknown>;
+  const afterRecord = (after ?? {}) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]);
+
+  const changes: MetadataChange[] = [];
+  for (const key of [...keys].sort()) {
+    if (!isEqual(beforeRecord[key], afterRecord[key])) {
+      changes.push({ key, before: beforeRecord[key], after: afterRecord[key] });
+    }
+  }
+  return changes;
+}
+
+// Metadata that changes with every dbt run rather than with the pipeline itself
+const VOLATILE_METADATA_KEYS = new Set([
+  "lastRunStatus",
+  "lastRunExecutionTime",
+  "lastRunRowsAffected",
+  "lastRunAt",
+  "recentRuns",
+]);
+
+function withoutVolatileMetadata(node: GraphNode): GraphNode {
+  if (!node.metadata) return node;
+  const metadata = Object.fromEntries(
+    Object.entries(node.metadata).filter(([key]) => !VOLATILE_METADATA_KEYS.has(key))
+  );
+  return { ...node, metadata };
+}
+
+function diffNode(beforeNode: GraphNode, afterNode: GraphNode): NodeChange | null {
+  const before = withoutVolatileMetadata(beforeNode);
+  const after = withoutVolatileMetadata(afterNode);
+  const changedFields = COMPARED_NODE_FIELDS.filter((field) => !isEqual(before[field], after[field]));
+  if (changedFields.length === 0) return null;
+
+  const change: NodeChange = {
+    id: after.id,
+    name: after.name,
+    type: after.type,
+    changedFields: [...changedFields],
+    metadataChanges: diffMetadata(before.metadata, after.metadata),
+  };
+  if (changedFields.includes("sqlContent")) {
+    change.sqlChange = { before: before.sqlContent, after: after.sqlContent };
+  }
+  if (changedFields.includes("compiledSql")) {
+    change.compiledSqlChange = { before: before.compiledSql, after: after.compiledSql };
+  }
+  return change;
+}
+
+/**
+ * Compare two graphs. Duplicate edges (same from|to|type) are compared
+ * by multiplicity so a dropped duplicate still shows up as removed.
+ */
+export function diffGraphs(
+  fromNodes: GraphNode[],
+  fromEdges: GraphEdge[],
+  toNodes: GraphNode[],
+  toEdges: GraphEdge[]
+): Pick<GraphDiff, "nodes" | "edges"> {
+  const fromNodeMap = new Map(fromNodes.map((n) => [n.id, n]));
+  const toNodeMap = new Map(toNodes.map((n) => [n.id, n]));
+
+  const nodes: GraphDiff["nodes"] = { added: [], removed: [], modified: [] };
+  for (const node of toNodes) {
+    const previous = fromNodeMap.get(node.id);
+    if (!previous) {
+      nodes.added.push(node);
+      continue;
+    }
+    const change = diffNode(previous, node);
+    if (change) nodes.modified.push(change);
+  }
+  for (const node of fromNodes) {
+    if (!toNodeMap.has(node.id)) nodes.removed.push(node);
+  }
+
+  const fromEdgesByKey = new Map<string, GraphEdge[]>();
+  for (const edge of fromEdges) {
+    const key = getEdgeKey(edge);
+    if (!fromEdgesByKey.has(key)) fromEdgesByKey.set(key, []);
+    fromEdgesByKey.get(key)!.push(edge);
+  }
+
+  const edges: GraphDiff["edges"] = { added: [], removed: [], modified: [] };
+  for (const edge of toEdges) {
+    const key = getEdgeKey(edge);
+    const previous = fromEdgesByKey.get(key)?.shift();
+    if (!previous) {
+      edges.added.push(edge);
+      continue;
+    }
+    const metadataChanges = diffMetadata(previous.metadata, edge.metadata);
+    if (metadataChanges.length > 0) {
+      const change: EdgeChange = { key, from: edge.from, to: edge.to, type: edge.type, metadataChanges };
+      edges.modified.push(change);
+    }
+  }
+  for (const remaining of fromEdgesByKey.values()) {
+    edges.removed.push(...remaining);
+  }
+
+  return { nodes, edges };
+}
+
+// ============================================================================
+// Explorer overlay
+// ============================================================================
+
+export interface DiffStatusMaps {
+  nodes: Map<string, DiffStatus>;
+  edges: Map<string, DiffStatus>;  // Keyed by getEdgeKey()
+}
+
+export function buildDiffStatusMaps(diff: GraphDiff): DiffStatusMaps {
+  const nodes = new Map<string, DiffStatus>();
+  const edges = new Map<string, DiffStatus>();
+
+  for (const node of diff.nodes.added) nodes.set(node.id, "added");
+  for (const node of diff.nodes.removed) nodes.set(node.id, "removed");
+  for (const change of diff.nodes.modified) nodes.set(change.id, "modified");
+
+  for (const edge of diff.edges.added) edges.set(getEdgeKey(edge), "added");
+  for (const edge of diff.edges.removed) edges.set(getEdgeKey(edge), "removed");
+  for (const change of diff.edges.modified) edges.set(change.key, "modified");
+
+  return { nodes, edges };
+}
+
+/**
+ * Add removed elements back into the visible lineage so they can be drawn.
+ * Removed nodes are shown when a removed edge connected them to a visible
+ * node, one layer up- or downstream of that neighbor.
+ */
+export function overlayRemovedElements(
+  visibleNodes: VisibleNode[],
+  visibleEdges: GraphEdge[],
+  diff: GraphDiff
+): { nodes: VisibleNode[]; edges: GraphEdge[] } {
+  const nodeMap = new Map(visibleNodes.map((n) => [n.id, n]));
+  const removedNodes = new Map(diff.nodes.removed.map((n) => [n.id, n]));
+  const addedNodes: VisibleNode[] = [];
+
+  for (const edge of diff.edges.removed) {
+    const fromVisible = nodeMap.get(edge.from);
+    const toVisible = nodeMap.get(edge.to);
+
+    if (fromVisible && !toVisible && removedNodes.has(edge.to)) {
+      const layer = fromVisible.relativeLayer + 1;
+      const node: VisibleNode = {
+        ...removedNodes.get(edge.to)!,
+        relativeLayer: layer,
+        visibilityReason: { type: "downstream", hops: Math.max(layer, 1), path: [edge.from, edge.to] },
+      };
+      nodeMap.set(node.id, node);
+      addedNodes.push(node);
+    } else if (toVisible && !fromVisible && removedNodes.has(edge.from)) {
+      const layer = toVisible.relativeLayer - 1;
+      const node: VisibleNode = {
+        ...removedNodes.get(edge.from)!,
+        relativeLayer: layer,
+        visibilityReason: { type: "upstream", hops: Math.max(-layer, 1), path: [edge.from, edge.to] },
+      };
+      nodeMap.set(node.id, node);
+      addedNodes.push(node);
+    }
+  }
+
+  const removedEdges = diff.edges.removed.filter(
+    (edge) => nodeMap.has(edge.from) && nodeMap.has(edge.to)
+  );
+
+  return {
+    nodes: [...visibleNodes, ...addedNodes],
+    edges: [...visibleEdges, ...removedEdges],
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Schedule Descriptions
+ *
+ * Turns Airflow schedules (presets, cron expressions, timedelta(...)) into
+ * short phrases for the side panel, e.g. "hourly" or "daily at 06:00".
+ * Anything unrecognized is returned as written.
+ */
+
+const PRESETS: Record<string, string> = {
+  "@once": "once",
+  "@continuous": "continuously",
+  "@hourly": "hourly",
+  "@daily": "daily",
+  "@midnight": "daily",
+  "@weekly": "weekly",
+  "@monthly": "monthly",
+  "@quarterly": "quarterly",
+  "@yearly": "yearly",
+  "@annually": "yearly",
+};
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function isNumber(field: string): boolean {
+  return /^\d+$/.test(field);
+}
+
+function formatTime(hour: string, minute: string): string {
+  return `${hour.padStart(2, "0")}:${minute.padStart(2, "0")}`;
+}
+
+function describeCron(cron: string): string | null {
+  const fields = cron.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const everyDay = dayOfMonth === "*" && month === "*";
+
+  const everyMinutes = minute.match(/^\*\/(\d+)$/);
+  if (everyMinutes && hour === "*" && everyDay && dayOfWeek === "*") return `every ${everyMinutes[1]} minutes`;
+
+  const everyHours = hour.match(/^\*\/(\d+)$/);
+  if (isNumber(minute) && everyHours && everyDay && dayOfWeek === "*") return `every ${everyHours[1]} hours`;
+
+  if (isNumber(minute) && hour === "*" && everyDay && dayOfWeek === "*") return "hourly";
+
+  if (isNumber(minute) && isNumber(hour) && everyDay) {
+    const time = formatTime(hour, minute);
+    if (dayOfWeek === "*") return `daily at ${time}`;
+    if (isNumber(dayOfWeek)) return `weekly on ${WEEKDAYS[Number(dayOfWeek) % 7]} at ${time}`;
+    if (dayOfWeek === "1-5" || dayOfWeek.toUpperCase() === "MON-FRI") return `weekdays at ${time}`;
+  }
+
+  if (isNumber(minute) && isNumber(hour) && isNumber(dayOfMonth) && month === "*" && dayOfWeek === "*") {
+    return `monthly on day ${dayOfMonth} at ${formatTime(hour, minute)}`;
+  }
+
+  return null;
+}
+
+function describeTimedelta(schedule: string): string | null {
+  const match = schedule.match(/^(?:datetime\.)?timedelta\(\s*(\w+)\s*=\s*(\d+)\s*\)$/);
+  if (!match) return null;
+  const [, unit, amount] = match;
+  const singular = unit.replace(/s$/, "");
+  return amount === "1" ? `every ${singular}` : `every ${amount} ${singular}s`;
+}
+
+export function describeSchedule(schedule: string): string {
+  const trimmed = schedule.trim();
+  return PRESETS[trimmed] ?? describeCron(trimmed) ?? describeTimedelta(trimmed) ?? trimmed;
+}
+
+/**
+ * Describe a sync interval in minutes (Fivetran's sync_frequency), e.g. "every 6 hours".
+ */
+export function describeSyncFrequency(minutes: number): string {
+  if (minutes === 1440) return "daily";
+  if (minutes === 60) return "hourly";
+  if (minutes % 1440 === 0) return `every ${minutes / 1440} days`;
+  if (minutes % 60 === 0) return `every ${minutes / 60} hours`;
+  return `every ${minutes} minutes`;
+}
@@ -20,6 +20,12 @@ export function classifySemanticLayer(node: GraphNode): SemanticLayer {
   // External sources
   if (node.type === "external") return "external";
 
+  // Semantic layer: metrics and the definitions they're queried through
+  if (node.type === "semantic_model" || node.type === "metric" || node.type === "saved_query") return "report";
+
+  // Orchestration (Airflow DAGs) isn't a data layer; keep DAG names out of the prefix rules
+  if (node.type === "dag") return "transform";
+
   // Raw sources and seeds
   if (node.type === "source" || node.type === "seed") return "source";
 
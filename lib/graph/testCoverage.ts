@@ -0,0 +1,48 @@
+/**
+ * Test Coverage
+ *
+ * Summarizes the dbt tests attached to a node (metadata.tests) for the
+ * side panel badge and the search coverage filter.
+ */
+
+import type { GraphNode } from "../types";
+
+// untested: no tests; partial: some tests but no tested primary key;
+// covered: a uniqueness test plus a not_null test
+export type TestCoverageLevel = "untested" | "partial" | "covered";
+
+export const TEST_COVERAGE_LEVELS: TestCoverageLevel[] = ["untested", "partial", "covered"];
+
+export interface TestCoverage {
+  level: TestCoverageLevel;
+  testCount: number;
+  testedColumns: number;
+  totalColumns: number;
+}
+
+const UNIQUENESS_TESTS = new Set(["unique", "unique_combination_of_columns"]);
+
+// Subtypes dbt data tests can target
+const TESTABLE_SUBTYPES = new Set(["dbt_model", "dbt_source", "dbt_seed"]);
+
+/**
+ * Coverage for a dbt node, or null for nodes dbt can't test (Airflow tables,
+ * externals, Snowflake-discovered tables, semantic layer nodes).
+ */
+export function getTestCoverage(node: Pick<GraphNode, "subtype" | "metadata">): TestCoverage | null {
+  if (!node.subtype || !TESTABLE_SUBTYPES.has(node.subtype)) return null;
+
+  const tests = node.metadata?.tests ?? [];
+  const columns = node.metadata?.columns ?? [];
+  const testedColumnNames = new Set(tests.filter((t) => t.column).map((t) => t.column!.toLowerCase()));
+
+  const hasUniqueness = tests.some((t) => UNIQUENESS_TESTS.has(t.type));
+  const hasNotNull = tests.some((t) => t.type === "not_null");
+
+  return {
+    level: tests.length === 0 ? "untested" : hasUniqueness && hasNotNull ? "covered" : "partial",
+    testCount: tests.length,
+    testedColumns: columns.filter((c) => testedColumnNames.has(c.name.toLowerCase())).length,
+    totalColumns: columns.length,
+  };
+}
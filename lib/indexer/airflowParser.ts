@@ -1,27 +1,31 @@
 import { readFileSync, readdirSync, statSync, existsSync } from "fs";
-import { join, relative, basename, dirname } from "path";
+import { join, relative, dirname, isAbsolute } from "path";
 import { v4 as uuid } from "uuid";
-import type { GraphNode, GraphEdge, Citation } from "../types";
+import type { GraphNode, GraphEdge, Citation, AirflowTaskInfo } from "../types";
+import { parseDagFile, type ParsedDag } from "./dagParser";
+import { normalizeFqn } from "./tableResolver";
+import type { DbtInvocation, DbtSelection } from "./dbtSelector";
+import {
+  findTemplateVarsPath,
+  loadTemplateVars,
+  buildTemplateContext,
+  renderSqlTemplate,
+  UNRESOLVED_PLACEHOLDER,
+} from "./sqlTemplate";
 
 export interface AirflowParseResult {
   nodes: GraphNode[];
   edges: GraphEdge[];
   citations: Citation[];
   externalSystems: ExternalSystemDetection[];
+  dbtInvocations: DbtInvocation[];
+  templateWarnings: TemplateWarning[];
 }
 
-interface DagInfo {
-  dagId: string;
+// Jinja expressions in a SQL file (or DAG with inline SQL) that couldn't be rendered
+export interface TemplateWarning {
   filePath: string;
-  tasks: TaskInfo[];
-  sqlFiles: string[];
-}
-
-interface TaskInfo {
-  taskId: string;
-  operator: string;
-  sqlPath?: string;
-  upstreamTasks: string[];
+  placeholders: string[];
 }
 
 // External system detection from DAG patterns
@@ -182,65 +186,6 @@ function detectExternalSystems(filePath: string, content: string): ExternalSyste
   return detections;
 }
 
-// Parse a Python DAG file to extract basic info
-function parseDagFile(filePath: string): DagInfo | null {
-  try {
-    const content = readFileSync(filePath, "utf-8");
-    const fileName = basename(filePath, ".py");
-
-    // Extract DAG ID
-    const dagIdMatch = content.match(/dag_id\s*=\s*['"]([\w_-]+)['"]/);
-    const dagId = dagIdMatch?.[1] || fileName;
-
-    // Extract SQL file references
-    const sqlFiles: string[] = [];
-    const sqlPathPattern = /(?:get_sql_query_from_path|file_name)\s*=\s*['"]([^'"]+\.sql)['"]/g;
-    let sqlMatch: RegExpExecArray | null;
-    while ((sqlMatch = sqlPathPattern.exec(content)) !== null) {
-      sqlFiles.push(sqlMatch[1]);
-    }
-
-    // Also look for module_folder references
-    const modulePattern = /module_folder\s*=\s*['"]([^'"]+)['"]/g;
-    const modules: string[] = [];
-    let modMatch: RegExpExecArray | null;
-    while ((modMatch = modulePattern.exec(content)) !== null) {
-      modules.push(modMatch[1]);
-    }
-
-    // Extract task IDs and operators
-    const tasks: TaskInfo[] = [];
-    const taskPattern = /(\w+)\s*=\s*(SnowflakeOperator|PythonOperator|DummyOperator|BashOperator)/g;
-    let taskMatch: RegExpExecArray | null;
-    while ((taskMatch = taskPattern.exec(content)) !== null) {
-      tasks.push({
-        taskId: taskMatch[1],
-        operator: taskMatch[2],
-        upstreamTasks: [],
-      });
-    }
-
-    // Extract task dependencies (>> operator)
-    const depPattern = /(\w+)\s*>>\s*(\w+)/g;
-    let depMatch: RegExpExecArray | null;
-    while ((depMatch = depPattern.exec(content)) !== null) {
-      const downstream = tasks.find((t) => t.taskId === depMatch![2]);
-      if (downstream) {
-        downstream.upstreamTasks.push(depMatch[1]);
-      }
-    }
-
-    return {
-      dagId,
-      filePath,
-      tasks,
-      sqlFiles,
-    };
-  } catch {
-    return null;
-  }
-}
-
 // Recursively find all SQL files in a directory
 function findSqlFiles(dir: string): string[] {
   const results: string[] = [];
@@ -283,104 +228,172 @@ function findDagFiles(dir: string): string[] {
   return results;
 }
 
+function formatDbtCommand(selection: DbtSelection): string {
+  return [
+    `dbt ${selection.command}`,
+    selection.select.length > 0 ? `--select ${selection.select.join(" ")}` : "",
+    selection.exclude.length > 0 ? `--exclude ${selection.exclude.join(" ")}` : "",
+    selection.selector ? `--selector ${selection.selector}` : "",
+  ].filter(Boolean).join(" ");
+}
+
+/**
+ * Resolve a SQL path referenced from a DAG: relative to the resources
+ * directory, then to the DAG file, then by suffix against known SQL files.
+ */
+function resolveSqlPath(sqlPath: string, dagFile: string, resourcesDir: string, sqlFiles: string[]): string | null {
+  const candidates = isAbsolute(sqlPath)
+    ? [sqlPath]
+    : [join(resourcesDir, sqlPath), join(dirname(dagFile), sqlPath)];
+
+  for (const candidate of candidates) {
+    if (existsSync(candidate)) return candidate;
+  }
+
+  const suffix = "/" + sqlPath.replace(/^\.?\//, "");
+  return sqlFiles.find((f) => f.endsWith(suffix)) ?? null;
+}
+
 export async function parseAirflowDags(
   airflowPath: string,
-  onProgress?: (percent: number, message: string) => void
+  onProgress?: (percent: number, message: string) => void,
+  templateVarsPath?: string
 ): Promise<AirflowParseResult> {
   const nodes: GraphNode[] = [];
   const edges: GraphEdge[] = [];
   const citations: Citation[] = [];
   const externalSystems: ExternalSystemDetection[] = [];
+  const dbtInvocations: DbtInvocation[] = [];
   const nodeMap = new Map<string, GraphNode>();
   const seenExternalSystems = new Set<string>();
+  // SQL file path + rendered SQL -> table FQNs it reads and writes
+  const sqlLineage = new Map<string, { tables: string[]; creates: string[] }>();
+  // File path -> unrendered Jinja expressions
+  const unresolvedByFile = new Map<string, Set<string>>();
 
   const dagsDir = join(airflowPath, "airflow_dags", "dags");
   const resourcesDir = join(airflowPath, "airflow_dags", "resources");
 
-  onProgress?.(10, "Finding DAG files...");
+  const varsPath = findTemplateVarsPath(airflowPath, templateVarsPath);
+  const templateVars = varsPath ? loadTemplateVars(varsPath) : {};
+  const defaultContext = buildTemplateContext(templateVars);
 
-  // Find all DAG files
-  const dagFiles = findDagFiles(dagsDir);
-  onProgress?.(20, `Found ${dagFiles.length} DAG files`);
+  const render = (sql: string, sourcePath: string, context: Record<string, unknown>): string => {
+    const rendered = renderSqlTemplate(sql, context);
+    if (rendered.unresolved.length > 0) {
+      const placeholders = unresolvedByFile.get(sourcePath) ?? new Set<string>();
+      rendered.unresolved.forEach((p) => placeholders.add(p));
+      unresolvedByFile.set(sourcePath, placeholders);
+    }
+    return rendered.sql;
+  };
+
+  // Create table nodes and sql_dependency edges for one (rendered) SQL statement/file
+  const addSqlLineage = (sql: string, sourcePath: string): { tables: string[]; creates: string[] } => {
+    // Table names built from unrendered expressions aren't real tables
+    const isResolved = (table: string) => !table.includes(UNRESOLVED_PLACEHOLDER);
+    const extracted = extractTablesFromSql(sql);
+    const tables = extracted.tables.filter(isResolved);
+    const creates = extracted.creates.filter(isResolved);
+    const tableFqns = tables.map(normalizeFqn);
+    const createFqns = creates.map(normalizeFqn);
+
+    // Create nodes for tables created by this SQL
+    for (const tableName of creates) {
+      const fqn = normalizeFqn(tableName);
+      if (!nodeMap.has(fqn)) {
+        const node: GraphNode = {
+          id: fqn,
+          name: tableName.split(".").pop() || tableName,
+          type: "table",
+          subtype: "airflow_table",
+          repo: "airflow-dags",
+          metadata: {
+            filePath: relative(airflowPath, sourcePath),
+          },
+        };
+        nodeMap.set(fqn, node);
+        nodes.push(node);
+
+        // Add citation
+        citations.push({
+          id: uuid(),
+          nodeId: fqn,
+          filePath: sourcePath,
+        });
+      }
 
-  // Find all SQL files
-  const sqlFiles = findSqlFiles(resourcesDir);
-  onProgress?.(30, `Found ${sqlFiles.length} SQL files`);
+      // Create edges from source tables
+      for (const sourceTable of tables) {
+        const sourceFqn = normalizeFqn(sourceTable);
 
-  // Parse SQL files to extract table references
-  let sqlProcessed = 0;
-  for (const sqlPath of sqlFiles) {
-    try {
-      const sql = readFileSync(sqlPath, "utf-8");
-      const { tables, creates } = extractTablesFromSql(sql);
-
-      // Create nodes for tables created by this SQL
-      for (const tableName of creates) {
-        const fqn = normalizeFqn(tableName);
-        if (!nodeMap.has(fqn)) {
-          const node: GraphNode = {
-            id: fqn,
-            name: tableName.split(".").pop() || tableName,
+        // Create source node if doesn't exist
+        if (!nodeMap.has(sourceFqn)) {
+          const sourceNode: GraphNode = {
+            id: sourceFqn,
+            name: sourceTable.split(".").pop() || sourceTable,
             type: "table",
             subtype: "airflow_table",
             repo: "airflow-dags",
-            metadata: {
-              filePath: relative(airflowPath, sqlPath),
-            },
           };
-          nodeMap.set(fqn, node);
-          nodes.push(node);
-
-          // Add citation
-          citations.push({
-            id: uuid(),
-            nodeId: fqn,
-            filePath: sqlPath,
-          });
+          nodeMap.set(sourceFqn, sourceNode);
+          nodes.push(sourceNode);
         }
 
-        // Create edges from source tables
-        for (const sourceTable of tables) {
-          const sourceFqn = normalizeFqn(sourceTable);
-          
-          // Create source node if doesn't exist
-          if (!nodeMap.has(sourceFqn)) {
-            const sourceNode: GraphNode = {
-              id: sourceFqn,
-              name: sourceTable.split(".").pop() || sourceTable,
-              type: "table",
-              subtype: "airflow_table",
-              repo: "airflow-dags",
-            };
-            nodeMap.set(sourceFqn, sourceNode);
-            nodes.push(sourceNode);
-          }
-
-          // Create edge
-          edges.push({
-            id: uuid(),
-            from: sourceFqn,
-            to: fqn,
-            type: "sql_dependency",
-            metadata: {
-              sqlSnippet: sql.substring(0, 200),
-            },
-          });
-        }
+        // Create edge
+        edges.push({
+          id: uuid(),
+          from: sourceFqn,
+          to: fqn,
+          type: "sql_dependency",
+          metadata: {
+            sqlSnippet: sql.substring(0, 200),
+          },
+        });
       }
+    }
+
+    return { tables: tableFqns, creates: createFqns };
+  };
+
+  // The same file rendered with different params can touch different tables, so cache per rendering
+  const addSqlFileLineage = (
+    sqlPath: string,
+    context: Record<string, unknown>
+  ): { tables: string[]; creates: string[] } | null => {
+    try {
+      const sql = render(readFileSync(sqlPath, "utf-8"), sqlPath, context);
+      const key = `${sqlPath}\0${sql}`;
+      const cached = sqlLineage.get(key);
+      if (cached) return cached;
+
+      const lineage = addSqlLineage(sql, sqlPath);
+      sqlLineage.set(key, lineage);
+      return lineage;
     } catch {
       // Skip files that can't be parsed
+      return null;
     }
+  };
 
-    sqlProcessed++;
-    if (sqlProcessed % 50 === 0) {
-      onProgress?.(30 + Math.floor((sqlProcessed / sqlFiles.length) * 60), `Parsed ${sqlProcessed}/${sqlFiles.length} SQL files`);
-    }
+  onProgress?.(10, "Finding DAG files...");
+
+  // Find all DAG files
+  const dagFiles = findDagFiles(dagsDir);
+  onProgress?.(20, `Found ${dagFiles.length} DAG files`);
+
+  // Find all SQL files
+  const sqlFiles = findSqlFiles(resourcesDir);
+  onProgress?.(30, `Found ${sqlFiles.length} SQL files`);
+
+  if (varsPath) {
+    onProgress?.(32, `Rendering SQL templates with vars from ${relative(airflowPath, varsPath)}`);
   }
 
-  // Parse DAG files for orchestration edges and external system detection
-  onProgress?.(90, "Parsing DAG dependencies and detecting external systems...");
+  // Parse DAG files first, so SQL is rendered with the params of the tasks that run it
+  onProgress?.(35, "Parsing DAG tasks and detecting external systems...");
 
+  const parsedFiles: Array<{ dagFile: string; dagContent: string; dags: ParsedDag[] }> = [];
   for (const dagFile of dagFiles) {
     // Read the file content for external system detection
     let dagContent = "";
@@ -390,20 +403,130 @@ export async function parseAirflowDags(
       continue;
     }
 
-    const dagInfo = parseDagFile(dagFile);
-    if (!dagInfo) continue;
-
-    // Add DAG citation to relevant nodes
-    for (const sqlFile of dagInfo.sqlFiles) {
-      // Try to find nodes created by this SQL
-      const matchingNodes = nodes.filter((n) => 
-        n.metadata?.filePath?.includes(sqlFile)
-      );
-      
-      for (const node of matchingNodes) {
+    let dags: ParsedDag[];
+    try {
+      dags = parseDagFile(dagFile);
+    } catch {
+      continue;
+    }
+    parsedFiles.push({ dagFile, dagContent, dags });
+  }
+
+  // SQL files run by some task; the rest are rendered with default params only
+  const referencedSqlFiles = new Set<string>();
+
+  let dagCount = 0;
+  let filesProcessed = 0;
+  for (const { dagFile, dagContent, dags } of parsedFiles) {
+    filesProcessed++;
+    if (filesProcessed % 50 === 0) {
+      onProgress?.(35 + Math.floor((filesProcessed / parsedFiles.length) * 45), `Parsed ${filesProcessed}/${parsedFiles.length} DAG files`);
+    }
+
+    for (const dag of dags) {
+      const dagNodeId = `airflow_dag.${dag.dagId.toLowerCase()}`;
+      if (nodeMap.has(dagNodeId)) continue;
+
+      // Table -> tasks writing it, for orchestrates edges
+      const writers = new Map<string, string[]>();
+      const tasks: AirflowTaskInfo[] = dag.tasks.map((task) => {
+        const reads = new Set<string>();
+        const writes = new Set<string>();
+        const sqlPaths: string[] = [];
+
+        const collect = (lineage: { tables: string[]; creates: string[] } | null) => {
+          lineage?.tables.forEach((t) => reads.add(t));
+          lineage?.creates.forEach((t) => writes.add(t));
+        };
+
+        const context = buildTemplateContext(templateVars, {
+          dagId: dag.dagId,
+          taskId: task.taskId,
+          dagParams: dag.params,
+          taskParams: task.params,
+        });
+
+        for (const sqlPath of task.sqlPaths) {
+          const resolved = resolveSqlPath(sqlPath, dagFile, resourcesDir, sqlFiles);
+          sqlPaths.push(resolved ? relative(airflowPath, resolved) : sqlPath);
+          if (resolved) {
+            referencedSqlFiles.add(resolved);
+            collect(addSqlFileLineage(resolved, context));
+          }
+        }
+        for (const sql of task.inlineSql) {
+          collect(addSqlLineage(render(sql, dagFile, context), dagFile));
+        }
+
+        for (const table of writes) {
+          writers.set(table, [...(writers.get(table) ?? []), task.taskId]);
+        }
+
+        for (const selection of task.dbtSelections) {
+          dbtInvocations.push({ ...selection, dagId: dag.dagId, taskId: task.taskId, schedule: dag.schedule });
+        }
+
+        return {
+          taskId: task.taskId,
+          operator: task.operator,
+          upstreamTasks: task.upstreamTasks,
+          sqlPaths: sqlPaths.length > 0 ? sqlPaths : undefined,
+          writes: writes.size > 0 ? [...writes] : undefined,
+          reads: reads.size > 0 ? [...reads] : undefined,
+          dbtCommands: task.dbtSelections.length > 0 ? task.dbtSelections.map(formatDbtCommand) : undefined,
+          lineStart: task.lineStart,
+        };
+      });
+
+      const dagNode: GraphNode = {
+        id: dagNodeId,
+        name: dag.dagId,
+        type: "dag",
+        subtype: "airflow_dag",
+        repo: "airflow-dags",
+        metadata: {
+          schedule: dag.schedule,
+          description: dag.description,
+          tags: dag.tags,
+          owner: dag.owner,
+          filePath: relative(airflowPath, dagFile),
+          lineStart: dag.lineStart,
+          tasks,
+        },
+      };
+      nodeMap.set(dagNodeId, dagNode);
+      nodes.push(dagNode);
+      citations.push({
+        id: uuid(),
+        nodeId: dagNodeId,
+        filePath: dagFile,
+        startLine: dag.lineStart,
+      });
+      dagCount++;
+
+      // DAG -> tables its tasks write, and stamp those tables with the DAG and schedule
+      for (const [table, taskIds] of writers) {
+        edges.push({
+          id: uuid(),
+          from: dagNodeId,
+          to: table,
+          type: "orchestrates",
+          metadata: { taskIds },
+        });
+
+        const tableNode = nodeMap.get(table);
+        if (tableNode) {
+          tableNode.metadata = {
+            ...tableNode.metadata,
+            dagIds: [...(tableNode.metadata?.dagIds ?? []), dag.dagId],
+            schedule: tableNode.metadata?.schedule ?? dag.schedule,
+          };
+        }
+
+        // Add DAG citation to the tables it builds
         citations.push({
           id: uuid(),
-          nodeId: node.id,
+          nodeId: table,
           filePath: dagFile,
         });
       }
@@ -430,27 +553,20 @@ export async function parseAirflowDags(
     }
   }
 
-  const externalCount = externalSystems.length;
-  onProgress?.(100, `Parsed ${nodes.length} tables, detected ${externalCount} external systems`);
+  // Resource SQL no task references (or that the DAG parser couldn't tie to one)
+  onProgress?.(80, "Parsing remaining SQL files...");
+  for (const sqlPath of sqlFiles) {
+    if (!referencedSqlFiles.has(sqlPath)) addSqlFileLineage(sqlPath, defaultContext);
+  }
 
-  return { nodes, edges, citations, externalSystems };
-}
+  const templateWarnings: TemplateWarning[] = [...unresolvedByFile].map(([filePath, placeholders]) => ({
+    filePath: relative(airflowPath, filePath),
+    placeholders: [...placeholders],
+  }));
 
-// Normalize table names to FQN format
-function normalizeFqn(tableName: string): string {
-  const parts = tableName.toLowerCase().split(".");
-  
-  // If already 3 parts, return as-is
-  if (parts.length === 3) {
-    return parts.join(".");
-  }
-  
-  // If 2 parts (schema.table), assume default database
-  if (parts.length === 2) {
-    return `prod_rippling_dwh.${parts[0]}.${parts[1]}`;
-  }
-  
-  // If 1 part, assume default db.schema
-  return `prod_rippling_dwh.public.${parts[0]}`;
-}
+  const externalCount = externalSystems.length;
+  const tableCount = nodes.length - dagCount;
+  onProgress?.(100, `Parsed ${tableCount} tables and ${dagCount} DAGs, detected ${externalCount} external systems`);
 
+  return { nodes, edges, citations, externalSystems, dbtInvocations, templateWarnings };
+}
@@ -10,7 +10,7 @@
  */
 
 import { v4 as uuid } from "uuid";
-import type { GraphNode, GraphEdge, Citation } from "../types";
+import type { GraphNode, GraphEdge, Citation, FieldMapping } from "../types";
 
 // ============================================================================
 // Census API Types (supports both v1 and v2 API formats)
@@ -53,6 +53,13 @@ export interface CensusV2DestinationAttributes {
   object: string;
 }
 
+// Field mapping (same in both formats); only "column" mappings read a source column
+export interface CensusRawMapping {
+  from: { type: string; data: unknown };  // column, constant, liquid_template, ...
+  to: string;
+  is_primary_identifier?: boolean;
+}
+
 // Raw sync from Census API (supports both formats)
 export interface CensusRawSync {
   id: number;
@@ -71,6 +78,7 @@ export interface CensusRawSync {
   operation?: string;           // upsert, insert, update, mirror
   cron_expression?: string;     // Schedule cron expression
   schedule_frequency?: string;  // expression, daily, hourly, etc.
+  mappings?: CensusRawMapping[];
 }
 
 // Normalized sync format used internally
@@ -88,6 +96,7 @@ export interface CensusSync {
   sourceQuery?: string;         // The actual SQL query
   operation?: string;           // upsert, insert, update, mirror
   cronExpression?: string;      // Schedule cron expression
+  fieldMappings?: FieldMapping[];
 }
 
 export interface CensusConfig {
@@ -290,7 +299,7 @@ export function findDestinationSourceNode(
  * - HTTP: "sync:uuid" format
  * - LinkedIn: audience IDs
  */
-function parseDestinationObject(
+export function parseDestinationObject(
   destObject: string,
   connectionType: string
 ): { objectName: string | null; displayName: string } {
@@ -418,7 +427,7 @@ function formatSalesforceObject(objName: string): string {
 /**
  * Format a human-readable name for a Census destination type.
  */
-function formatDestinationName(connectionType: string, connectionName?: string): string {
+export function formatDestinationName(connectionType: string, connectionName?: string): string {
   // Map connection types to friendly names
   const typeNames: Record<string, string> = {
     salesforce: "Salesforce",
@@ -613,6 +622,7 @@ export function parseCensusConfig(
           schedule: sync.cronExpression,
           destinationType: destConnectionType,
           destinationObject: destObjectInfo.displayName,
+          fieldMappings: sync.fieldMappings,
           tags: ["census", "sync", destConnectionType].filter(Boolean) as string[],
         },
         semanticLayer: "external",
@@ -784,7 +794,7 @@ export function validateCensusConfig(data: unknown): { valid: boolean; error?: s
  * Extract all table references from a SQL query.
  * Looks for patterns like: FROM schema.table, JOIN schema.table, etc.
  */
-function extractTablesFromQuery(query: string): string[] {
+export function extractTablesFromQuery(query: string): string[] {
   const tables: Set<string> = new Set();
   
   // Match fully qualified table names (database.schema.table or schema.table)
@@ -863,6 +873,17 @@ function extractSourceTableRefs(sourceObj: CensusV2SourceObject | string): strin
   return [];
 }
 
+/**
+ * Column-to-field mappings of a sync. Constants and templates have no source
+ * column, so they're left out.
+ */
+function extractFieldMappings(mappings: CensusRawMapping[] | undefined): FieldMapping[] | undefined {
+  const fieldMappings = (mappings ?? [])
+    .filter((m) => m.from?.type === "column" && typeof m.from.data === "string" && m.to)
+    .map((m) => ({ sourceColumn: m.from.data as string, destinationField: m.to }));
+  return fieldMappings.length > 0 ? fieldMappings : undefined;
+}
+
 /**
  * Normalize a single raw sync to our internal format.
  * Handles both v1 and v2 API formats.
@@ -877,6 +898,7 @@ function normalizeSync(rawSync: CensusRawSync): CensusSync | null {
       destination: rawSync.destination,
       enabled: rawSync.enabled,
       schedule: rawSync.schedule,
+      fieldMappings: extractFieldMappings(rawSync.mappings),
     };
   }
   
@@ -910,6 +932,7 @@ function normalizeSync(rawSync: CensusRawSync): CensusSync | null {
       sourceQuery,
       operation: rawSync.operation,
       cronExpression: rawSync.cron_expression,
+      fieldMappings: extractFieldMappings(rawSync.mappings),
     };
   }
   
@@ -0,0 +1,232 @@
+/**
+ * Column Lineage Graph
+ *
+ * Runs the column-lineage engine (lib/parsers/columnLineage) over every
+ * table-like node with SQL and maps the results onto graph nodes as column
+ * edges. Nodes are analyzed upstream-first, so a model's output columns are
+ * known by the time a downstream model selects `*` from it.
+ *
+ * dbt-compiled SQL is analyzed when the project has been compiled. Otherwise
+ * Jinja is rendered just enough to parse: ref() and source() become the
+ * upstream node IDs, {{ this }} the node itself, config() calls, comments,
+ * control tags and incremental-only blocks are dropped, and any other
+ * expression becomes NULL.
+ *
+ * Reverse ETL syncs with field mappings carry columns on to the systems they
+ * write: synced column → sync field → destination field.
+ */
+
+import type { GraphNode, GraphEdge, ColumnEdge } from "../types";
+import { analyzeColumnLineage } from "../parsers/columnLineage";
+import { TableResolver } from "./tableResolver";
+
+// Node types that materialize as tables and whose SQL selects their columns
+const ANALYZED_NODE_TYPES = new Set<GraphNode["type"]>(["model", "table", "view"]);
+
+export interface ColumnLineageStats {
+  analyzedNodes: number;
+  /** Nodes whose SQL couldn't be parsed */
+  unparsedNodes: string[];
+  /** Referenced tables that match no graph node */
+  unresolvedTables: string[];
+}
+
+export interface ColumnLineageGraph {
+  columnEdges: ColumnEdge[];
+  stats: ColumnLineageStats;
+}
+
+/**
+ * Render dbt Jinja into plain SQL, resolving ref()/source() against the
+ * node's upstream nodes
+ */
+function renderDbtSql(sql: string, node: GraphNode, upstream: GraphNode[]): string {
+  const byName = (name: string) => upstream.find((n) => n.name.toLowerCase() === name.toLowerCase());
+
+  return sql
+    .replace(/\{#[\s\S]*?#\}/g, "")
+    .replace(/\{%-?\s*if\s+is_incremental\(\)\s*-?%\}[\s\S]*?\{%-?\s*endif\s*-?%\}/g, "")
+    .replace(
+      /\{\{-?\s*ref\(\s*(?:['"][^'"]+['"]\s*,\s*)?['"]([^'"]+)['"][^)]*\)\s*-?\}\}/g,
+      (_match, name: string) => byName(name)?.id ?? name
+    )
+    .replace(
+      /\{\{-?\s*source\(\s*['"]([^'"]+)['"]\s*,\s*['"]([^'"]+)['"]\s*\)\s*-?\}\}/g,
+      (_match, sourceName: string, table: string) => byName(table)?.id ?? `${sourceName}.${table}`
+    )
+    .replace(/\{\{-?\s*this\s*-?\}\}/g, node.id)
+    .replace(/\{\{-?\s*config\([\s\S]*?\)\s*-?\}\}/g, "")
+    .replace(/\{%[\s\S]*?%\}/g, "")
+    .replace(/\{\{[\s\S]*?\}\}/g, "NULL");
+}
+
+// Upstream nodes first (depth-first; a cycle is cut where it's first entered)
+function topologicalOrder(nodes: GraphNode[], upstreamIds: Map<string, string[]>): GraphNode[] {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const ordered: GraphNode[] = [];
+  const visited = new Set<string>();
+  const inProgress = new Set<string>();
+
+  const visit = (id: string) => {
+    if (visited.has(id) || inProgress.has(id)) return;
+    inProgress.add(id);
+    for (const upstreamId of upstreamIds.get(id) ?? []) {
+      if (byId.has(upstreamId)) visit(upstreamId);
+    }
+    inProgress.delete(id);
+    visited.add(id);
+    ordered.push(byId.get(id)!);
+  };
+
+  for (const node of nodes) visit(node.id);
+  return ordered;
+}
+
+/**
+ * Build column edges for every analyzable node in the graph.
+ */
+export function buildColumnLineageGraph(nodes: GraphNode[], edges: GraphEdge[]): ColumnLineageGraph {
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const resolver = new TableResolver(nodes);
+
+  const upstreamIds = new Map<string, string[]>();
+  const downstreamIds = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (!upstreamIds.has(edge.to)) upstreamIds.set(edge.to, []);
+    upstreamIds.get(edge.to)!.push(edge.from);
+    if (!downstreamIds.has(edge.from)) downstreamIds.set(edge.from, []);
+    downstreamIds.get(edge.from)!.push(edge.to);
+  }
+
+  // Output columns of analyzed nodes whose `*`s were all expanded
+  const derivedColumns = new Map<string, string[]>();
+  const knownColumns = (node: GraphNode): string[] | undefined => {
+    const declared = node.metadata?.columns?.map((c) => c.name);
+    return derivedColumns.get(node.id) ?? (declared && declared.length > 0 ? declared : undefined);
+  };
+  const catalog = (table: string): string[] | undefined => {
+    const node = resolver.resolve(table);
+    return node ? knownColumns(node) : undefined;
+  };
+
+  const columnEdges: ColumnEdge[] = [];
+  const edgeKeys = new Set<string>();
+  const unparsedNodes: string[] = [];
+  const unresolvedTables = new Set<string>();
+  let analyzedNodes = 0;
+
+  const addEdge = (edge: ColumnEdge) => {
+    if (edge.fromNode === edge.toNode) return;
+    const key = `${edge.fromNode}|${edge.fromColumn}|${edge.toNode}|${edge.toColumn}`;
+    if (edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    columnEdges.push(edge);
+  };
+
+  const candidates = nodes.filter((n) => (n.compiledSql || n.sqlContent) && ANALYZED_NODE_TYPES.has(n.type));
+  for (const node of topologicalOrder(candidates, upstreamIds)) {
+    const upstream = (upstreamIds.get(node.id) ?? [])
+      .map((id) => nodeById.get(id))
+      .filter((n): n is GraphNode => !!n);
+    const sql = node.compiledSql
+      ?? (/\{[{%#]/.test(node.sqlContent!) ? renderDbtSql(node.sqlContent!, node, upstream) : node.sqlContent!);
+
+    const result = analyzeColumnLineage(sql, catalog);
+    if (!result) {
+      unparsedNodes.push(node.id);
+      continue;
+    }
+    analyzedNodes++;
+    if (result.unexpandedStars.length === 0) {
+      derivedColumns.set(node.id, result.columns.map((c) => c.column));
+    }
+
+    for (const column of result.columns) {
+      for (const source of column.sources) {
+        const fromNode = resolver.resolve(source.table);
+        if (!fromNode) {
+          unresolvedTables.add(source.table);
+          continue;
+        }
+        addEdge({
+          fromNode: fromNode.id,
+          fromColumn: source.column,
+          toNode: node.id,
+          toColumn: column.column,
+          transform: column.transform,
+        });
+      }
+    }
+  }
+
+  for (const node of nodes) {
+    const mappings = node.metadata?.fieldMappings;
+    if (!mappings || mappings.length === 0) continue;
+
+    // A sync's SQL source query says which table each column comes from;
+    // otherwise the column belongs to the synced model
+    const query = node.metadata?.sourceQuery ? analyzeColumnLineage(node.metadata.sourceQuery, catalog) : null;
+    const upstream = (upstreamIds.get(node.id) ?? [])
+      .map((id) => nodeById.get(id))
+      .filter((n): n is GraphNode => !!n);
+    const downstream = (downstreamIds.get(node.id) ?? [])
+      .map((id) => nodeById.get(id))
+      .filter((n): n is GraphNode => !!n);
+
+    for (const mapping of mappings) {
+      const sourceColumn = mapping.sourceColumn.toLowerCase();
+      const destinationColumn = mapping.destinationField.toLowerCase();
+      const queryColumn = query?.columns.find((c) => c.column === sourceColumn);
+
+      if (queryColumn) {
+        for (const source of queryColumn.sources) {
+          const fromNode = resolver.resolve(source.table);
+          if (!fromNode) {
+            unresolvedTables.add(source.table);
+            continue;
+          }
+          addEdge({
+            fromNode: fromNode.id,
+            fromColumn: source.column,
+            toNode: node.id,
+            toColumn: destinationColumn,
+            transform: queryColumn.transform,
+          });
+        }
+      } else {
+        // With several upstream models, only those known to have the column
+        const candidates = upstream.length > 1
+          ? upstream.filter((n) => knownColumns(n)?.some((c) => c.toLowerCase() === sourceColumn))
+          : upstream;
+        for (const fromNode of candidates) {
+          addEdge({
+            fromNode: fromNode.id,
+            fromColumn: sourceColumn,
+            toNode: node.id,
+            toColumn: destinationColumn,
+            transform: "direct",
+          });
+        }
+      }
+
+      for (const toNode of downstream) {
+        addEdge({
+          fromNode: node.id,
+          fromColumn: destinationColumn,
+          toNode: toNode.id,
+          toColumn: destinationColumn,
+          transform: "direct",
+        });
+      }
+    }
+  }
+
+  return {
+    columnEdges,
+    stats: {
+      analyzedNodes,
+      unparsedNodes,
+      unresolvedTables: [...unresolvedTables].sort(),
+    },
+  };
+}
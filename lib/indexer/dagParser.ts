@@ -0,0 +1,889 @@
+/**
+ * Airflow DAG Static Analysis
+ *
+ * Extracts DAGs, tasks, operators, task dependencies and task SQL from
+ * Python DAG files without running them. The parser is string- and
+ * bracket-aware, so it handles multi-line calls and SQL in triple-quoted
+ * strings, and understands:
+ * - DAG definitions: `DAG(...)`, `with DAG(...) as dag:`, `@dag(...)`
+ * - Tasks: any call with a task_id kwarg, plus TaskFlow `@task` functions
+ * - Dependencies: `>>`, `<<`, set_upstream/set_downstream, chain(), cross_downstream()
+ * - TaskGroups used as dependency targets
+ * - dbt invocations: `dbt run|build ...` shell commands, Dbt*Operator and
+ *   Cosmos DbtDag/DbtTaskGroup selections
+ *
+ * Anything computed at runtime (task IDs built in loops, DAG factories) is
+ * captured as written in the source.
+ */
+
+import { readFileSync } from "fs";
+import { basename } from "path";
+import { parseDbtCommand, type DbtSelection } from "./dbtSelector";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ParsedTask {
+  taskId: string;
+  operator: string;
+  upstreamTasks: string[];
+  sqlPaths: string[];     // .sql files the task runs (as referenced in the DAG)
+  inlineSql: string[];    // SQL written directly in the DAG file
+  dbtSelections: DbtSelection[];
+  params?: Record<string, string>;  // Task-level params= (override the DAG's for templates)
+  lineStart: number;
+}
+
+export interface ParsedDag {
+  dagId: string;
+  filePath: string;
+  schedule?: string;
+  description?: string;
+  tags?: string[];
+  owner?: string;
+  params?: Record<string, string>;  // DAG-level params=, for rendering task SQL templates
+  lineStart: number;
+  tasks: ParsedTask[];
+}
+
+type PyValue =
+  | { kind: "string"; value: string }
+  | { kind: "list"; items: PyValue[] }
+  | { kind: "dict"; entries: Map<string, PyValue> }
+  | { kind: "name"; name: string }
+  | { kind: "expr"; text: string };
+
+interface Call {
+  callee: string;
+  start: number;       // Offset of the callee
+  openParen: number;
+  closeParen: number;
+  positional: PyValue[];
+  kwargs: Map<string, PyValue>;
+  kwargText: Map<string, string>;
+  kwargRanges: Map<string, [number, number]>;
+}
+
+interface Statement {
+  start: number;
+  end: number;
+  indent: number;
+}
+
+// A `with ...:` / decorated `def` block: statements indented past `indent` after `start`
+interface Block {
+  start: number;
+  end: number;
+}
+
+// Kwargs that name the SQL a task runs (sql is standard; the others are internal helpers)
+const SQL_KWARGS = ["sql", "get_sql_query_from_path", "file_name", "sql_path"];
+
+const SQL_KEYWORDS = /\b(SELECT|INSERT|CREATE|MERGE|UPDATE|DELETE|COPY|CALL|TRUNCATE)\b/i;
+
+// Kwargs that may hold shell commands running dbt (BashOperator, KubernetesPodOperator, ...)
+const COMMAND_KWARGS = ["bash_command", "cmds", "arguments", "command"];
+
+// airflow-dbt / airflow-dbt-python operators, e.g. DbtRunOperator(select=[...])
+const DBT_OPERATOR = /^Dbt(Run|Build|Seed|Snapshot)\w*Operator$/;
+
+// Cosmos renders a dbt selection as a whole DAG or task group
+const COSMOS_OPERATORS = new Set(["DbtDag", "DbtTaskGroup"]);
+
+// ============================================================================
+// Source scanning
+// ============================================================================
+
+interface StringLiteral {
+  start: number;
+  end: number;     // Exclusive
+  value: string;
+}
+
+/**
+ * Mask comments and string contents with spaces (keeping the quotes), so
+ * structural regexes never match inside them and multi-line strings don't
+ * end statements. Offsets are preserved, so positions in the masked text
+ * index into the original.
+ */
+function scanSource(source: string): { masked: string; strings: StringLiteral[] } {
+  const chars = source.split("");
+  const strings: StringLiteral[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === "#") {
+      while (i < source.length && source[i] !== "\n") {
+        chars[i] = " ";
+        i++;
+      }
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      const triple = source.startsWith(ch.repeat(3), i);
+      const quote = triple ? ch.repeat(3) : ch;
+      const prefix = source.slice(Math.max(0, i - 2), i).match(/[rRbBuUfF]*$/)?.[0] ?? "";
+      const raw = /r/i.test(prefix);
+      const contentStart = i + quote.length;
+      let j = contentStart;
+
+      while (j < source.length) {
+        if (!raw && source[j] === "\\") {
+          j += 2;
+          continue;
+        }
+        if (source.startsWith(quote, j)) break;
+        if (!triple && source[j] === "\n") break;  // Unterminated single-line string
+        j++;
+      }
+
+      for (let k = contentStart; k < Math.min(j, source.length); k++) {
+        chars[k] = " ";
+      }
+      strings.push({ start: i, end: Math.min(j + quote.length, source.length), value: source.slice(contentStart, j) });
+      i = j + quote.length;
+      continue;
+    }
+
+    i++;
+  }
+
+  return { masked: chars.join(""), strings };
+}
+
+function findMatchingParen(masked: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < masked.length; i++) {
+    const ch = masked[i];
+    if (ch === "(" || ch === "[" || ch === "{") depth++;
+    else if (ch === ")" || ch === "]" || ch === "}") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return masked.length;
+}
+
+/**
+ * Split masked[start, end) on a separator at bracket depth 0.
+ */
+function splitTopLevel(masked: string, start: number, end: number, separator: RegExp): Array<[number, number]> {
+  const parts: Array<[number, number]> = [];
+  const sticky = new RegExp(separator.source, "y");
+  let depth = 0;
+  let partStart = start;
+
+  for (let i = start; i < end; i++) {
+    const ch = masked[i];
+    if (ch === "(" || ch === "[" || ch === "{") depth++;
+    else if (ch === ")" || ch === "]" || ch === "}") depth--;
+    else if (depth === 0) {
+      sticky.lastIndex = i;
+      const match = sticky.exec(masked);
+      if (match && i + match[0].length <= end) {
+        parts.push([partStart, i]);
+        i += match[0].length - 1;
+        partStart = i + 1;
+      }
+    }
+  }
+  parts.push([partStart, end]);
+
+  return parts.filter(([s, e]) => masked.slice(s, e).trim().length > 0);
+}
+
+/**
+ * Split the file into logical statements (lines joined across open brackets).
+ */
+function splitStatements(masked: string): Statement[] {
+  const statements: Statement[] = [];
+  let depth = 0;
+  let lineStart = 0;
+
+  for (let i = 0; i <= masked.length; i++) {
+    const ch = masked[i];
+    if (ch === "(" || ch === "[" || ch === "{") depth++;
+    else if (ch === ")" || ch === "]" || ch === "}") depth = Math.max(0, depth - 1);
+
+    const atEnd = i === masked.length;
+    if (atEnd || (ch === "\n" && depth === 0 && masked[i - 1] !== "\\")) {
+      const text = masked.slice(lineStart, i);
+      if (text.trim().length > 0) {
+        const indent = text.length - text.trimStart().length;
+        statements.push({ start: lineStart + indent, end: i, indent });
+      }
+      lineStart = i + 1;
+    }
+  }
+
+  return statements;
+}
+
+// ============================================================================
+// Value evaluation
+// ============================================================================
+
+class DagFileParser {
+  private readonly masked: string;
+  private readonly strings: StringLiteral[];
+  private readonly statements: Statement[];
+  private readonly lineStarts: number[];
+  private readonly constants = new Map<string, [number, number]>();
+
+  constructor(private readonly source: string) {
+    const scanned = scanSource(source);
+    this.masked = scanned.masked;
+    this.strings = scanned.strings;
+    this.statements = splitStatements(this.masked);
+
+    this.lineStarts = [0];
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === "\n") this.lineStarts.push(i + 1);
+    }
+
+    // Module-level NAME = value assignments, for resolving sql=QUERY and default_args=ARGS
+    for (const statement of this.statements) {
+      if (statement.indent !== 0) continue;
+      const match = this.masked.slice(statement.start, statement.end).match(/^([A-Za-z_]\w*)\s*=(?!=)\s*/);
+      if (match) {
+        this.constants.set(match[1], [statement.start + match[0].length, statement.end]);
+      }
+    }
+  }
+
+  lineAt(offset: number): number {
+    let lo = 0;
+    let hi = this.lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo + 1;
+  }
+
+  text(start: number, end: number): string {
+    return this.source.slice(start, end);
+  }
+
+  /**
+   * Evaluate an expression to a string, list or name where that's possible
+   * statically; anything else is kept as source text.
+   */
+  evaluate(start: number, end: number): PyValue {
+    const maskedText = this.masked.slice(start, end);
+    const leading = maskedText.length - maskedText.trimStart().length;
+    const trimmedStart = start + leading;
+    const trimmedEnd = start + maskedText.trimEnd().length;
+    const trimmed = this.masked.slice(trimmedStart, trimmedEnd);
+
+    // One or more adjacent string literals (implicit concatenation)
+    const literals = this.strings.filter((s) => s.start >= trimmedStart && s.end <= trimmedEnd);
+    if (literals.length > 0) {
+      const outside = literals.reduce(
+        (rest, s) => rest.slice(0, s.start - trimmedStart) + " ".repeat(s.end - s.start) + rest.slice(s.end - trimmedStart),
+        trimmed
+      );
+      // Allow string prefixes (f, r, b, u) and wrapping parentheses
+      if (/^[\s()rRbBuUfF]*$/.test(outside)) {
+        return { kind: "string", value: literals.map((s) => s.value).join("") };
+      }
+    }
+
+    if (trimmed.startsWith("[") && findMatchingParen(this.masked, trimmedStart) === trimmedEnd - 1) {
+      const items = splitTopLevel(this.masked, trimmedStart + 1, trimmedEnd - 1, /,/)
+        .map(([s, e]) => this.evaluate(s, e));
+      return { kind: "list", items };
+    }
+
+    // Dict literals with string keys: {"schema": "analytics", ...}
+    if (trimmed.startsWith("{") && findMatchingParen(this.masked, trimmedStart) === trimmedEnd - 1) {
+      const entries = new Map<string, PyValue>();
+      for (const [s, e] of splitTopLevel(this.masked, trimmedStart + 1, trimmedEnd - 1, /,/)) {
+        const [keyRange, valueRange] = splitTopLevel(this.masked, s, e, /:/);
+        if (!keyRange || !valueRange) continue;
+        const key = this.evaluate(keyRange[0], keyRange[1]);
+        if (key.kind === "string") entries.set(key.value, this.evaluate(valueRange[0], e));
+      }
+      return { kind: "dict", entries };
+    }
+
+    if (/^[A-Za-z_][\w.]*$/.test(trimmed)) {
+      return { kind: "name", name: trimmed };
+    }
+
+    return { kind: "expr", text: this.text(trimmedStart, trimmedEnd) };
+  }
+
+  /**
+   * Resolve a name to the value of a module-level constant, if any.
+   */
+  resolve(value: PyValue, seen = new Set<string>()): PyValue {
+    if (value.kind !== "name" || seen.has(value.name)) return value;
+    const range = this.constants.get(value.name);
+    if (!range) return value;
+    seen.add(value.name);
+    return this.resolve(this.evaluate(range[0], range[1]), seen);
+  }
+
+  constantText(name: string): string | undefined {
+    const range = this.constants.get(name);
+    return range ? this.text(range[0], range[1]) : undefined;
+  }
+
+  // ==========================================================================
+  // Calls
+  // ==========================================================================
+
+  parseCall(calleeStart: number, callee: string, openParen: number): Call {
+    const closeParen = findMatchingParen(this.masked, openParen);
+    const positional: PyValue[] = [];
+    const kwargs = new Map<string, PyValue>();
+    const kwargText = new Map<string, string>();
+    const kwargRanges = new Map<string, [number, number]>();
+
+    for (const [s, e] of splitTopLevel(this.masked, openParen + 1, closeParen, /,/)) {
+      const kwarg = this.masked.slice(s, e).match(/^\s*([A-Za-z_]\w*)\s*=(?!=)/);
+      if (kwarg) {
+        const valueStart = s + kwarg[0].length;
+        kwargs.set(kwarg[1], this.evaluate(valueStart, e));
+        kwargText.set(kwarg[1], this.text(valueStart, e).trim());
+        kwargRanges.set(kwarg[1], [valueStart, e]);
+      } else if (!this.masked.slice(s, e).trim().startsWith("*")) {
+        positional.push(this.evaluate(s, e));
+      }
+    }
+
+    return { callee, start: calleeStart, openParen, closeParen, positional, kwargs, kwargText, kwargRanges };
+  }
+
+  /**
+   * Calls inside a kwarg's value, following a module-level constant when the
+   * value is a name (render_config=RENDER_CONFIG).
+   */
+  callsInKwarg(call: Call, key: string): Call[] {
+    const value = call.kwargs.get(key);
+    const range = value?.kind === "name" ? this.constants.get(value.name) : call.kwargRanges.get(key);
+    return range ? this.findCalls(range[0], range[1]) : [];
+  }
+
+  /**
+   * All string values of the given kwargs (strings, lists of strings and constants).
+   */
+  kwargStrings(call: Call, ...keys: string[]): string[] {
+    const strings: string[] = [];
+    const visit = (value: PyValue) => {
+      const resolved = this.resolve(value);
+      if (resolved.kind === "string") strings.push(resolved.value);
+      else if (resolved.kind === "list") resolved.items.forEach(visit);
+    };
+    for (const key of keys) {
+      const value = call.kwargs.get(key);
+      if (value) visit(value);
+    }
+    return strings;
+  }
+
+  /**
+   * Every call in masked[start, end), including nested ones.
+   */
+  findCalls(start: number, end: number): Call[] {
+    const calls: Call[] = [];
+    const pattern = /([A-Za-z_][\w.]*)\s*\(/g;
+    pattern.lastIndex = start;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(this.masked)) !== null && match.index < end) {
+      // Skip keywords that look like calls
+      if (/^(if|elif|while|for|return|and|or|not|in|def|class|with|lambda|print)$/.test(match[1])) continue;
+      const openParen = match.index + match[0].length - 1;
+      calls.push(this.parseCall(match.index, match[1], openParen));
+    }
+    return calls;
+  }
+
+  get statementList(): Statement[] {
+    return this.statements;
+  }
+
+  maskedSlice(start: number, end: number): string {
+    return this.masked.slice(start, end);
+  }
+
+  /**
+   * Range covered by the block opened at `statement` (a with/def line).
+   */
+  blockOf(statement: Statement): Block {
+    let end = statement.end;
+    for (const next of this.statements) {
+      if (next.start <= statement.start) continue;
+      if (next.indent <= statement.indent) break;
+      end = next.end;
+    }
+    return { start: statement.start, end };
+  }
+
+  /**
+   * Split masked[start, end) on top-level bitshift operators.
+   */
+  splitBitshift(start: number, end: number): { operands: Array<[number, number]>; operators: string[] } {
+    const operands = splitTopLevel(this.masked, start, end, />>|<</);
+    const operators: string[] = [];
+    for (let i = 0; i < operands.length - 1; i++) {
+      const between = this.masked.slice(operands[i][1], operands[i + 1][0]);
+      operators.push(between.includes(">>") ? ">>" : "<<");
+    }
+    return { operands, operators };
+  }
+
+  splitList(start: number, end: number): Array<[number, number]> {
+    return splitTopLevel(this.masked, start, end, /,/);
+  }
+}
+
+function stringValue(value: PyValue | undefined): string | undefined {
+  return value?.kind === "string" ? value.value : undefined;
+}
+
+function lastSegment(name: string): string {
+  return name.split(".").pop() || name;
+}
+
+// ============================================================================
+// DAG extraction
+// ============================================================================
+
+interface DagDefinition {
+  dag: ParsedDag;
+  variable?: string;
+  block?: Block;
+  position: number;
+}
+
+interface TaskRecord {
+  task: ParsedTask;
+  position: number;
+  dag?: DagDefinition;
+}
+
+/**
+ * Parse one Python DAG file into the DAGs it defines.
+ */
+export function parseDagSource(source: string, filePath: string): ParsedDag[] {
+  const parser = new DagFileParser(source);
+  const statements = parser.statementList;
+
+  const dags: DagDefinition[] = [];
+  const tasks: TaskRecord[] = [];
+  const taskById = new Map<string, TaskRecord>();
+  // Variable -> [assignment offset, task IDs], so reassigned variables resolve by position
+  const bindings = new Map<string, Array<{ position: number; taskIds: string[] }>>();
+  // TaskFlow functions: function name -> task ID
+  const taskFunctions = new Map<string, { taskId: string; operator: string; position: number }>();
+
+  const bind = (variable: string, position: number, taskIds: string[]) => {
+    const list = bindings.get(variable) ?? [];
+    list.push({ position, taskIds });
+    bindings.set(variable, list);
+  };
+
+  const dagFromCall = (call: Call, fallbackId: string, position: number): ParsedDag => {
+    const schedule = call.kwargs.get("schedule") ?? call.kwargs.get("schedule_interval") ?? call.kwargs.get("timetable");
+    const resolvedSchedule = schedule ? parser.resolve(schedule) : undefined;
+    const tags = call.kwargs.get("tags");
+    const resolvedTags = tags ? parser.resolve(tags) : undefined;
+
+    // default_args may be inline or a module-level dict
+    const defaultArgs = call.kwargs.get("default_args");
+    const defaultArgsText = defaultArgs?.kind === "name"
+      ? parser.constantText(defaultArgs.name)
+      : call.kwargText.get("default_args");
+    const owner = defaultArgsText?.match(/["']owner["']\s*:\s*["']([^"']+)["']/)?.[1];
+
+    return {
+      dagId: stringValue(parser.resolve(call.kwargs.get("dag_id") ?? call.positional[0] ?? { kind: "expr", text: "" })) || fallbackId,
+      filePath,
+      schedule: resolvedSchedule
+        ? resolvedSchedule.kind === "string"
+          ? resolvedSchedule.value
+          : resolvedSchedule.kind === "expr"
+          ? resolvedSchedule.text
+          : resolvedSchedule.kind === "name" && resolvedSchedule.name !== "None"
+          ? resolvedSchedule.name
+          : undefined
+        : undefined,
+      description: stringValue(call.kwargs.get("description") && parser.resolve(call.kwargs.get("description")!)),
+      tags: resolvedTags?.kind === "list"
+        ? resolvedTags.items.map(stringValue).filter((t): t is string => Boolean(t))
+        : undefined,
+      owner,
+      params: paramsOf(call.kwargs.get("params")),
+      lineStart: parser.lineAt(position),
+      tasks: [],
+    };
+  };
+
+  // params={"schema": "analytics", "days": Param(7, type="integer")} -> string values for templates
+  const paramsOf = (value: PyValue | undefined): Record<string, string> | undefined => {
+    const resolved = value ? parser.resolve(value) : undefined;
+    if (resolved?.kind !== "dict") return undefined;
+
+    const params: Record<string, string> = {};
+    resolved.entries.forEach((entry, key) => {
+      const param = parser.resolve(entry);
+      if (param.kind === "string") {
+        params[key] = param.value;
+      } else if (param.kind === "expr") {
+        const text = param.text.trim();
+        const paramDefault = text.match(/^(?:[\w.]*\.)?Param\(\s*(?:default\s*=\s*)?(?:(['"])([\s\S]*?)\1|(-?[\d.]+|True|False))/);
+        if (paramDefault) params[key] = paramDefault[2] ?? paramDefault[3];
+        else if (/^-?[\d.]+$/.test(text)) params[key] = text;
+      } else if (param.kind === "name" && (param.name === "True" || param.name === "False")) {
+        params[key] = param.name;
+      }
+    });
+    return Object.keys(params).length > 0 ? params : undefined;
+  };
+
+  const fileDagId = basename(filePath, ".py");
+
+  function addDag(call: Call, statement: Statement, variable?: string, block?: Block): void {
+    const definition: DagDefinition = { dag: dagFromCall(call, fileDagId, statement.start), variable, block, position: statement.start };
+    dags.push(definition);
+
+    // Cosmos DbtDag renders the dbt selection as the DAG's tasks; keep it as one task
+    if (lastSegment(call.callee) === "DbtDag") {
+      addTask(definition.dag.dagId, "DbtDag", call.start, call).dag = definition;
+    }
+  }
+  const pendingDecorators: Call[] = [];
+  const groupBlocks: Array<{ variable: string; block: Block }> = [];
+
+  // Pass 1: DAGs, task groups, TaskFlow functions and operator tasks
+  for (const statement of statements) {
+    const text = parser.maskedSlice(statement.start, statement.end);
+
+    if (text.startsWith("@")) {
+      const decorator = text.match(/^@([\w.]+)\s*(\()?/);
+      if (decorator) {
+        pendingDecorators.push(
+          decorator[2]
+            ? parser.parseCall(statement.start + 1, decorator[1], statement.start + decorator[0].length - 1)
+            : { callee: decorator[1], start: statement.start + 1, openParen: -1, closeParen: -1, positional: [], kwargs: new Map(), kwargText: new Map(), kwargRanges: new Map() }
+        );
+      }
+      continue;
+    }
+
+    const def = text.match(/^(?:async\s+)?def\s+([A-Za-z_]\w*)/);
+    if (def) {
+      for (const decorator of pendingDecorators) {
+        if (lastSegment(decorator.callee) === "dag") {
+          dags.push({
+            dag: dagFromCall(decorator, def[1], statement.start),
+            block: parser.blockOf(statement),
+            variable: def[1],
+            position: statement.start,
+          });
+        } else if (decorator.callee === "task" || decorator.callee.startsWith("task.")) {
+          taskFunctions.set(def[1], {
+            taskId: stringValue(decorator.kwargs.get("task_id")) || def[1],
+            operator: `@${decorator.callee}`,
+            position: statement.start,
+          });
+        }
+      }
+      pendingDecorators.length = 0;
+      continue;
+    }
+    pendingDecorators.length = 0;
+
+    const withDag = text.match(/^with\s+([\w.]*\b(?:DAG|DbtDag))\s*\(/);
+    if (withDag) {
+      const call = parser.parseCall(statement.start + text.indexOf(withDag[1]), withDag[1], statement.start + withDag[0].length - 1);
+      const alias = parser.maskedSlice(call.closeParen + 1, statement.end).match(/^\s*as\s+([A-Za-z_]\w*)/)?.[1];
+      addDag(call, statement, alias, parser.blockOf(statement));
+    }
+
+    const assignDag = text.match(/^([A-Za-z_]\w*)\s*=\s*([\w.]*\b(?:DAG|DbtDag))\s*\(/);
+    if (assignDag) {
+      const call = parser.parseCall(statement.start + text.indexOf(assignDag[2]), assignDag[2], statement.start + assignDag[0].length - 1);
+      addDag(call, statement, assignDag[1]);
+    }
+
+    const withGroup = text.match(/^with\s+[\w.]*TaskGroup\s*\([\s\S]*\)\s*as\s+([A-Za-z_]\w*)/);
+    if (withGroup) {
+      groupBlocks.push({ variable: withGroup[1], block: parser.blockOf(statement) });
+    }
+
+    // Operator tasks: any call with a task_id kwarg, plus Cosmos task groups
+    for (const call of parser.findCalls(statement.start, statement.end)) {
+      const name = lastSegment(call.callee);
+      const isDbtGroup = name === "DbtTaskGroup";
+      if ((/TaskGroup$/.test(name) && !isDbtGroup) || name === "dag" || name === "task") continue;
+      const taskIdValue = isDbtGroup
+        ? call.kwargs.get("group_id") ?? { kind: "string", value: "dbt_task_group" }
+        : call.kwargs.get("task_id");
+      if (!taskIdValue) continue;
+
+      const taskId = stringValue(parser.resolve(taskIdValue)) ?? call.kwargText.get(isDbtGroup ? "group_id" : "task_id")!;
+      const record = addTask(taskId, lastSegment(call.callee), call.start, call);
+
+      // `var = Operator(...)` binds the variable to the task
+      const before = parser.maskedSlice(statement.start, call.start);
+      const assigned = before.match(/^([A-Za-z_]\w*)\s*=\s*$/);
+      if (assigned) bind(assigned[1], call.start, [record.task.taskId]);
+
+      // dag=... kwarg ties the task to a DAG variable
+      const dagKwarg = call.kwargs.get("dag");
+      if (dagKwarg?.kind === "name") {
+        record.dag = dags.find((d) => d.variable === dagKwarg.name) ?? record.dag;
+      }
+    }
+  }
+
+  function addTask(taskId: string, operator: string, position: number, call?: Call): TaskRecord {
+    const existing = taskById.get(taskId);
+    if (existing) return existing;
+
+    const task: ParsedTask = {
+      taskId,
+      operator,
+      upstreamTasks: [],
+      sqlPaths: [],
+      inlineSql: [],
+      dbtSelections: [],
+      params: call ? paramsOf(call.kwargs.get("params")) : undefined,
+      lineStart: parser.lineAt(position),
+    };
+    if (call) {
+      collectSql(call, task);
+      collectDbt(call, task);
+    }
+
+    const record: TaskRecord = { task, position };
+    tasks.push(record);
+    taskById.set(taskId, record);
+    return record;
+  }
+
+  function collectSql(call: Call, task: ParsedTask): void {
+    const visit = (value: PyValue) => {
+      const resolved = parser.resolve(value);
+      if (resolved.kind === "list") {
+        resolved.items.forEach(visit);
+      } else if (resolved.kind === "string") {
+        const sql = resolved.value.trim();
+        if (/\.sql$/i.test(sql)) task.sqlPaths.push(sql);
+        else if (SQL_KEYWORDS.test(sql)) task.inlineSql.push(sql);
+      }
+    };
+    for (const key of SQL_KWARGS) {
+      const value = call.kwargs.get(key);
+      if (value) visit(value);
+    }
+  }
+
+  function collectDbt(call: Call, task: ParsedTask): void {
+    const operator = lastSegment(call.callee);
+
+    const dbtOperator = operator.match(DBT_OPERATOR);
+    if (dbtOperator) {
+      task.dbtSelections.push({
+        command: dbtOperator[1].toLowerCase(),
+        select: parser.kwargStrings(call, "select", "models"),
+        exclude: parser.kwargStrings(call, "exclude"),
+        selector: parser.kwargStrings(call, "selector_name", "selector")[0],
+      });
+      return;
+    }
+
+    if (COSMOS_OPERATORS.has(operator)) {
+      // Cosmos >= 1.0 takes the selection in render_config; older versions as kwargs
+      const renderConfig = parser.callsInKwarg(call, "render_config").find((c) => lastSegment(c.callee) === "RenderConfig");
+      const selection = renderConfig ?? call;
+      task.dbtSelections.push({
+        command: "build",
+        select: parser.kwargStrings(selection, "select"),
+        exclude: parser.kwargStrings(selection, "exclude"),
+        selector: parser.kwargStrings(selection, "selector")[0],
+      });
+      return;
+    }
+
+    const command = parser.kwargStrings(call, ...COMMAND_KWARGS).join(" ");
+    if (command) task.dbtSelections.push(...parseDbtCommand(command));
+  }
+
+  // TaskFlow invocations create tasks: `x = extract()`, `load(transform(x))`
+  const invocationTasks = new Map<number, { taskId: string; start: number; openParen: number; closeParen: number }>();
+  for (const statement of statements) {
+    const text = parser.maskedSlice(statement.start, statement.end);
+    if (/^(?:async\s+)?def\s|^@/.test(text)) continue;
+
+    // Innermost calls first, so nested invocations exist before their callers
+    for (const call of parser.findCalls(statement.start, statement.end).reverse()) {
+      const fn = taskFunctions.get(lastSegment(call.callee.replace(/\.(override|partial|expand)$/, "")));
+      if (!fn) continue;
+
+      const record = addTask(fn.taskId, fn.operator, call.start);
+      invocationTasks.set(call.start, { taskId: record.task.taskId, start: call.start, openParen: call.openParen, closeParen: call.closeParen });
+
+      // Arguments that are other task outputs are upstream dependencies
+      for (const arg of [...call.positional, ...call.kwargs.values()]) {
+        if (arg.kind !== "name") continue;
+        for (const upstream of resolveName(arg.name, call.start)) {
+          addDependency(upstream, record.task.taskId);
+        }
+      }
+      // Invocations passed directly as arguments (not ones nested deeper)
+      const inner = [...invocationTasks].filter(([, inv]) => inv.start > call.openParen && inv.start < call.closeParen);
+      for (const [, inv] of inner) {
+        const nested = inner.some(([, other]) => inv.start > other.openParen && inv.start < other.closeParen);
+        if (!nested) addDependency(inv.taskId, record.task.taskId);
+      }
+
+      const before = parser.maskedSlice(statement.start, call.start);
+      const assigned = before.match(/^([A-Za-z_]\w*)\s*=\s*$/);
+      if (assigned) bind(assigned[1], call.start, [record.task.taskId]);
+    }
+  }
+
+  // TaskFlow functions defined inside a DAG but never invoked still exist as tasks
+  for (const [, fn] of taskFunctions) {
+    if (!taskById.has(fn.taskId) && dags.some((d) => d.block && fn.position > d.block.start && fn.position <= d.block.end)) {
+      addTask(fn.taskId, fn.operator, fn.position);
+    }
+  }
+
+  for (const group of groupBlocks) {
+    const members = tasks
+      .filter((t) => t.position > group.block.start && t.position <= group.block.end)
+      .map((t) => t.task.taskId);
+    bind(group.variable, group.block.start, members);
+  }
+
+  function resolveName(name: string, position: number): string[] {
+    const candidates = (bindings.get(name) ?? []).filter((b) => b.position <= position);
+    const binding = candidates.length > 0 ? candidates[candidates.length - 1] : bindings.get(name)?.[0];
+    return binding?.taskIds ?? [];
+  }
+
+  function resolveOperand(start: number, end: number): string[] {
+    const text = parser.maskedSlice(start, end).trim();
+    const offset = start + (parser.maskedSlice(start, end).length - parser.maskedSlice(start, end).trimStart().length);
+
+    if (text.startsWith("[") && text.endsWith("]")) {
+      return parser.splitList(offset + 1, offset + text.length - 1).flatMap(([s, e]) => resolveOperand(s, e));
+    }
+    if (/^[A-Za-z_]\w*$/.test(text)) {
+      return resolveName(text, start);
+    }
+
+    // Inline operator or TaskFlow call: the outermost task created in this range
+    const inline = tasks.find((t) => t.position >= offset && t.position < offset + text.length);
+    if (inline) return [inline.task.taskId];
+    for (const [callOffset, inv] of invocationTasks) {
+      if (callOffset >= offset && callOffset < offset + text.length) return [inv.taskId];
+    }
+
+    // var.output / var.some_attr refers to the task itself
+    const attribute = text.match(/^([A-Za-z_]\w*)\./);
+    return attribute ? resolveName(attribute[1], start) : [];
+  }
+
+  function addDependency(upstream: string, downstream: string): void {
+    const record = taskById.get(downstream);
+    if (record && upstream !== downstream && !record.task.upstreamTasks.includes(upstream)) {
+      record.task.upstreamTasks.push(upstream);
+    }
+  }
+
+  function connect(upstream: string[], downstream: string[]): void {
+    for (const up of upstream) {
+      for (const down of downstream) addDependency(up, down);
+    }
+  }
+
+  // Pass 2: dependencies
+  for (const statement of statements) {
+    const text = parser.maskedSlice(statement.start, statement.end);
+
+    if (/>>|<</.test(text)) {
+      const { operands, operators } = parser.splitBitshift(statement.start, statement.end);
+      if (operands.length > 1) {
+        const resolved = operands.map(([s, e]) => resolveOperand(s, e));
+        operators.forEach((op, i) => {
+          if (op === ">>") connect(resolved[i], resolved[i + 1]);
+          else connect(resolved[i + 1], resolved[i]);
+        });
+      }
+    }
+
+    for (const call of parser.findCalls(statement.start, statement.end)) {
+      const method = call.callee.match(/^([A-Za-z_]\w*)\.set_(upstream|downstream)$/);
+      if (method) {
+        const self = resolveName(method[1], call.start);
+        const others = parser.splitList(call.openParen + 1, call.closeParen).flatMap(([s, e]) => resolveOperand(s, e));
+        if (method[2] === "upstream") connect(others, self);
+        else connect(self, others);
+        continue;
+      }
+
+      const name = lastSegment(call.callee);
+      if (name === "chain" || name === "cross_downstream") {
+        const groups = parser.splitList(call.openParen + 1, call.closeParen).map(([s, e]) => ({
+          ids: resolveOperand(s, e),
+          isList: parser.maskedSlice(s, e).trim().startsWith("["),
+        }));
+
+        if (name === "cross_downstream") {
+          if (groups.length >= 2) connect(groups[0].ids, groups[1].ids);
+          continue;
+        }
+
+        for (let i = 0; i < groups.length - 1; i++) {
+          const [a, b] = [groups[i], groups[i + 1]];
+          // chain() pairs equal-length lists element-wise
+          if (a.isList && b.isList && a.ids.length === b.ids.length) {
+            a.ids.forEach((id, j) => addDependency(id, b.ids[j]));
+          } else {
+            connect(a.ids, b.ids);
+          }
+        }
+      }
+    }
+  }
+
+  // Assign tasks to DAGs: explicit dag= kwarg, then enclosing with/@dag block, then the only DAG
+  for (const record of tasks) {
+    record.dag = record.dag
+      ?? dags.find((d) => d.block && record.position > d.block.start && record.position <= d.block.end)
+      ?? (dags.length === 1 ? dags[0] : undefined);
+  }
+
+  // Files with tasks but no recognizable DAG (e.g. DAG factories) get one named after the file
+  const orphans = tasks.filter((t) => !t.dag);
+  if (orphans.length > 0) {
+    const dagIdMatch = source.match(/dag_id\s*=\s*['"]([\w.-]+)['"]/);
+    const fallback: DagDefinition = {
+      dag: { dagId: dagIdMatch?.[1] || fileDagId, filePath, lineStart: 1, tasks: [] },
+      position: 0,
+    };
+    dags.push(fallback);
+    for (const record of orphans) record.dag = fallback;
+  }
+
+  for (const record of [...tasks].sort((a, b) => a.position - b.position)) {
+    record.dag!.dag.tasks.push(record.task);
+  }
+
+  return dags.map((d) => d.dag);
+}
+
+export function parseDagFile(filePath: string): ParsedDag[] {
+  return parseDagSource(readFileSync(filePath, "utf-8"), filePath);
+}
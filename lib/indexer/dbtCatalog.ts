@@ -0,0 +1,164 @@
+/**
+ * dbt Catalog
+ *
+ * Reads catalog.json (written by `dbt docs generate`) for warehouse-introspected
+ * column types and table stats. This gives offline and CI builds accurate
+ * schemas without Snowflake credentials; the live Snowflake stage still
+ * overrides columns when it runs.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import type { GraphNode, ColumnInfo } from "../types";
+
+// catalog.json types (simplified)
+interface DbtCatalogColumn {
+  type: string;
+  index: number;
+  name: string;
+  comment?: string | null;
+}
+
+interface DbtCatalogStat {
+  id: string;
+  value: string | number | boolean | null;
+  include?: boolean;
+}
+
+export interface DbtCatalogEntry {
+  unique_id?: string;
+  metadata: {
+    type?: string;
+    database?: string | null;
+    schema: string;
+    name: string;
+    comment?: string | null;
+  };
+  columns?: Record<string, DbtCatalogColumn>;
+  stats?: Record<string, DbtCatalogStat>;
+}
+
+interface DbtCatalog {
+  nodes?: Record<string, DbtCatalogEntry>;
+  sources?: Record<string, DbtCatalogEntry>;
+}
+
+/**
+ * Find catalog.json in the artifacts directory, falling back to the standard
+ * dbt locations next to manifest.json.
+ */
+export function findCatalogPath(dbtProjectPath: string, artifactsPath?: string): string | null {
+  const candidates = [
+    ...(artifactsPath ? [join(artifactsPath, "catalog.json")] : []),
+    join(dbtProjectPath, "target", "catalog.json"),
+    join(dbtProjectPath, "main_artifacts", "catalog.json"),
+  ];
+
+  for (const candidate of candidates) {
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+export function parseDbtCatalog(catalogPath: string): Map<string, DbtCatalogEntry> {
+  const catalog: DbtCatalog = JSON.parse(readFileSync(catalogPath, "utf-8"));
+  const entries = new Map<string, DbtCatalogEntry>();
+
+  for (const [uniqueId, entry] of [
+    ...Object.entries(catalog.nodes || {}),
+    ...Object.entries(catalog.sources || {}),
+  ]) {
+    entries.set(uniqueId, entry);
+  }
+
+  return entries;
+}
+
+function getNumericStat(entry: DbtCatalogEntry, statId: string): number | undefined {
+  const value = entry.stats?.[statId]?.value;
+  if (value === null || value === undefined || typeof value === "boolean") return undefined;
+  const num = Number(value);
+  return isNaN(num) ? undefined : num;
+}
+
+/**
+ * Snowflake reports last_modified as "2024-01-31 12:00UTC"; store ISO when it parses.
+ */
+function getTimestampStat(entry: DbtCatalogEntry, statId: string): string | undefined {
+  const value = entry.stats?.[statId]?.value;
+  if (value === null || value === undefined || typeof value === "boolean") return undefined;
+  const raw = String(value);
+  const parsed = new Date(raw.replace(" ", "T").replace(/\s*UTC$/, "Z"));
+  return isNaN(parsed.getTime()) ? raw : parsed.toISOString();
+}
+
+/**
+ * Merge catalog columns into the declared ones. Declared columns keep their
+ * order and descriptions but take the warehouse type; undeclared columns are
+ * appended in table order.
+ */
+function mergeColumns(declared: ColumnInfo[] | undefined, entry: DbtCatalogEntry): ColumnInfo[] | undefined {
+  const catalogColumns = Object.values(entry.columns || {}).sort((a, b) => a.index - b.index);
+  if (catalogColumns.length === 0) return declared;
+
+  const byName = new Map(catalogColumns.map((c) => [c.name.toLowerCase(), c]));
+  const merged: ColumnInfo[] = (declared || []).map((column) => {
+    const catalogColumn = byName.get(column.name.toLowerCase());
+    if (!catalogColumn) return column;
+    return {
+      ...column,
+      type: catalogColumn.type,
+      description: column.description || catalogColumn.comment || undefined,
+    };
+  });
+
+  const declaredNames = new Set(merged.map((c) => c.name.toLowerCase()));
+  for (const column of catalogColumns) {
+    if (declaredNames.has(column.name.toLowerCase())) continue;
+    merged.push({
+      name: column.name,
+      type: column.type,
+      description: column.comment || undefined,
+    });
+  }
+
+  return merged;
+}
+
+/**
+ * Attach catalog column types and table stats to nodes in place. Entries are
+ * matched by unique_id via uniqueIdToNodeId (from the manifest), falling back
+ * to the database.schema.name FQN for projects parsed without a manifest.
+ *
+ * Returns the number of nodes that were enriched.
+ */
+export function applyCatalog(
+  nodes: GraphNode[],
+  catalog: Map<string, DbtCatalogEntry>,
+  uniqueIdToNodeId: ReadonlyMap<string, string>
+): number {
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+  let enrichedCount = 0;
+
+  for (const [uniqueId, entry] of catalog) {
+    const { database, schema, name } = entry.metadata;
+    const fqn = database ? `${database}.${schema}.${name}`.toLowerCase() : undefined;
+    const node = nodesById.get(uniqueIdToNodeId.get(uniqueId) ?? fqn ?? "");
+    if (!node) continue;
+
+    node.metadata = {
+      ...node.metadata,
+      columns: mergeColumns(node.metadata?.columns, entry),
+      description: node.metadata?.description || entry.metadata.comment || undefined,
+      rowCount: getNumericStat(entry, "row_count"),
+      bytes: getNumericStat(entry, "bytes"),
+      statsUpdatedAt: getTimestampStat(entry, "last_modified"),
+    };
+    enrichedCount++;
+  }
+
+  return enrichedCount;
+}
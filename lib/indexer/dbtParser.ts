@@ -2,7 +2,16 @@ import { readFileSync, existsSync, readdirSync, statSync } from "fs";
 import { join, relative, basename, dirname } from "path";
 import { v4 as uuid } from "uuid";
 import * as yaml from "js-yaml";
-import type { GraphNode, GraphEdge, Citation, NodeType, NodeSubtype } from "../types";
+import type {
+  GraphNode,
+  GraphEdge,
+  Citation,
+  NodeType,
+  NodeSubtype,
+  DataTest,
+  SemanticMeasure,
+} from "../types";
+import type { DbtSelectableResource } from "./dbtSelector";
 
 // dbt manifest.json types (simplified)
 interface DbtManifestNode {
@@ -17,9 +26,22 @@ interface DbtManifestNode {
   config?: {
     materialized?: string;
     tags?: string[];
+    severity?: string;
   };
   tags?: string[];
+  fqn?: string[];
+  package_name?: string;
   original_file_path?: string;
+  // Set once the node has been compiled (compiled_sql before dbt 1.3)
+  compiled_code?: string;
+  compiled_sql?: string;
+  // Test nodes only
+  test_metadata?: {
+    name: string;
+    kwargs?: Record<string, unknown>;
+  };
+  column_name?: string | null;
+  attached_node?: string | null;  // dbt 1.5+: the node the test is defined on
   patch_path?: string;
   depends_on?: {
     nodes?: string[];
@@ -37,6 +59,9 @@ interface DbtManifestSource {
   database: string;
   description?: string;
   columns?: Record<string, { name: string; description?: string; data_type?: string }>;
+  fqn?: string[];
+  package_name?: string;
+  tags?: string[];
   original_file_path?: string;
 }
 
@@ -59,10 +84,66 @@ interface DbtExposure {
   original_file_path?: string;
 }
 
+// dbt semantic layer (MetricFlow) types
+interface DbtSemanticModel {
+  unique_id: string;
+  name: string;
+  label?: string | null;
+  description?: string | null;
+  entities?: Array<{ name: string; type: string; expr?: string | null; description?: string | null }>;
+  dimensions?: Array<{
+    name: string;
+    type: string;
+    expr?: string | null;
+    description?: string | null;
+    type_params?: { time_granularity?: string } | null;
+  }>;
+  measures?: Array<{ name: string; agg: string; expr?: string | null; description?: string | null }>;
+  depends_on?: { nodes?: string[] };
+  original_file_path?: string;
+}
+
+interface DbtWhereFilters {
+  where_filters?: Array<{ where_sql_template: string }>;
+}
+
+interface DbtMetric {
+  unique_id: string;
+  name: string;
+  label?: string | null;
+  description?: string | null;
+  type: string;
+  type_params?: {
+    input_measures?: Array<{ name: string }>;
+    expr?: string | null;
+    metrics?: Array<{ name: string }>;
+  };
+  filter?: DbtWhereFilters | null;
+  depends_on?: { nodes?: string[] };
+  original_file_path?: string;
+}
+
+interface DbtSavedQuery {
+  unique_id: string;
+  name: string;
+  label?: string | null;
+  description?: string | null;
+  query_params?: {
+    metrics?: string[];
+    group_by?: string[];
+    where?: DbtWhereFilters | null;
+  };
+  depends_on?: { nodes?: string[] };
+  original_file_path?: string;
+}
+
 interface DbtManifest {
   nodes: Record<string, DbtManifestNode>;
   sources: Record<string, DbtManifestSource>;
   exposures?: Record<string, DbtExposure>;
+  semantic_models?: Record<string, DbtSemanticModel>;
+  metrics?: Record<string, DbtMetric>;
+  saved_queries?: Record<string, DbtSavedQuery>;
   metadata: {
     project_name?: string;
     generated_at?: string;
@@ -73,6 +154,12 @@ export interface DbtParseResult {
   nodes: GraphNode[];
   edges: GraphEdge[];
   citations: Citation[];
+  // dbt unique_id -> graph node ID (manifest parsing only)
+  uniqueIdToNodeId?: Map<string, string>;
+  // Edges derived from relationships tests; not lineage, so callers opt in
+  foreignKeyEdges?: GraphEdge[];
+  // Models, seeds, snapshots and sources for resolving dbt selectors (manifest parsing only)
+  selectableResources?: DbtSelectableResource[];
 }
 
 function mapResourceTypeToNodeType(resourceType: string): NodeType {
@@ -168,10 +255,16 @@ export function parseDbtManifest(manifestPath: string, repoPath: string): DbtPar
     const fqn = buildFQN(dbtNode.database, dbtNode.schema, tableName);
     idToFqn.set(nodeId, fqn);
 
-    // Read SQL content for models (not seeds which are CSVs)
+    // Read SQL content for models (not seeds which are CSVs), raw and compiled
     let sqlContent: string | undefined;
+    let compiledSql: string | undefined;
     if (dbtNode.original_file_path && dbtNode.original_file_path.endsWith(".sql")) {
       sqlContent = getModelSql(repoPath, dbtNode.original_file_path) || undefined;
+      compiledSql =
+        dbtNode.compiled_code ||
+        dbtNode.compiled_sql ||
+        getCompiledModelSql(dirname(manifestPath), dbtNode.package_name, dbtNode.original_file_path) ||
+        undefined;
     }
 
     const node: GraphNode = {
@@ -181,6 +274,7 @@ export function parseDbtManifest(manifestPath: string, repoPath: string): DbtPar
       subtype: mapResourceTypeToSubtype(dbtNode.resource_type),
       repo: "rippling-dbt",
       sqlContent,
+      compiledSql,
       metadata: {
         schema: dbtNode.schema,
         database: dbtNode.database,
@@ -235,6 +329,12 @@ export function parseDbtManifest(manifestPath: string, repoPath: string): DbtPar
     }
   }
 
+  // Attach data tests to the nodes they cover
+  const foreignKeyEdges = attachDataTests(manifest, idToFqn, nodes, edges);
+
+  // Parse the semantic layer before exposures, which can depend on metrics
+  parseSemanticLayer(manifest, repoPath, idToFqn, nodes, edges, citations);
+
   // Parse exposures (downstream consumers like dashboards, apps, etc.)
   for (const [exposureId, exposure] of Object.entries(manifest.exposures || {})) {
     // Create a unique ID for the exposure (external system)
@@ -287,7 +387,276 @@ export function parseDbtManifest(manifestPath: string, repoPath: string): DbtPar
     }
   }
 
-  return { nodes, edges, citations };
+  return {
+    nodes,
+    edges,
+    citations,
+    uniqueIdToNodeId: idToFqn,
+    foreignKeyEdges,
+    selectableResources: buildSelectableResources(manifest, idToFqn),
+  };
+}
+
+// Name passed to the last ref()/source() call in a test kwarg, e.g. "ref('customers')" -> "customers"
+function extractRefName(expression: unknown): string | undefined {
+  if (typeof expression !== "string") return undefined;
+  const match = expression.match(/(?:ref|source)\(([^)]*)\)/);
+  const args = match?.[1].match(/['"]([^'"]+)['"]/g);
+  return args ? args[args.length - 1].slice(1, -1) : undefined;
+}
+
+function joinWhereFilters(filters: DbtWhereFilters | null | undefined): string | undefined {
+  const templates = filters?.where_filters?.map((f) => f.where_sql_template) ?? [];
+  return templates.length > 0 ? templates.join(" AND ") : undefined;
+}
+
+/**
+ * Add MetricFlow semantic models, metrics and saved queries as nodes, linked
+ * to whatever they're built from via depends_on: models feed semantic models
+ * (semantic_model edges), and semantic models feed metrics, metrics feed
+ * derived metrics and saved queries (metric_input edges).
+ */
+function parseSemanticLayer(
+  manifest: DbtManifest,
+  repoPath: string,
+  idToFqn: Map<string, string>,
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  citations: Citation[]
+): void {
+  const semanticModels = Object.values(manifest.semantic_models || {});
+  const metrics = Object.values(manifest.metrics || {});
+  const savedQueries = Object.values(manifest.saved_queries || {});
+  if (semanticModels.length + metrics.length + savedQueries.length === 0) return;
+
+  const dependsOnById = new Map<string, string[]>();
+  const addNode = (uniqueId: string, node: GraphNode, dependsOn: string[] | undefined, filePath?: string) => {
+    idToFqn.set(uniqueId, node.id);
+    dependsOnById.set(node.id, dependsOn || []);
+    nodes.push(node);
+    if (filePath) {
+      citations.push({ id: uuid(), nodeId: node.id, filePath: join(repoPath, filePath) });
+    }
+  };
+
+  // Measure definitions, so metrics can show how their input measures aggregate
+  const measuresByName = new Map<string, SemanticMeasure>();
+
+  for (const semanticModel of semanticModels) {
+    const measures = (semanticModel.measures || []).map((m) => ({
+      name: m.name,
+      agg: m.agg,
+      expr: m.expr || undefined,
+      description: m.description || undefined,
+    }));
+    for (const measure of measures) {
+      measuresByName.set(measure.name, measure);
+    }
+
+    addNode(semanticModel.unique_id, {
+      id: `semantic_model.${semanticModel.name.toLowerCase()}`,
+      name: semanticModel.name,
+      type: "semantic_model",
+      subtype: "dbt_semantic_model",
+      repo: "rippling-dbt",
+      metadata: {
+        label: semanticModel.label || undefined,
+        description: semanticModel.description || undefined,
+        filePath: semanticModel.original_file_path,
+        entities: (semanticModel.entities || []).map((e) => ({
+          name: e.name,
+          type: e.type,
+          expr: e.expr || undefined,
+          description: e.description || undefined,
+        })),
+        dimensions: (semanticModel.dimensions || []).map((d) => ({
+          name: d.name,
+          type: d.type,
+          expr: d.expr || undefined,
+          timeGranularity: d.type_params?.time_granularity,
+          description: d.description || undefined,
+        })),
+        measures,
+      },
+    }, semanticModel.depends_on?.nodes, semanticModel.original_file_path);
+  }
+
+  for (const metric of metrics) {
+    const inputMetrics = metric.type_params?.metrics?.map((m) => m.name) ?? [];
+    addNode(metric.unique_id, {
+      id: `metric.${metric.name.toLowerCase()}`,
+      name: metric.name,
+      type: "metric",
+      subtype: "dbt_metric",
+      repo: "rippling-dbt",
+      metadata: {
+        label: metric.label || undefined,
+        description: metric.description || undefined,
+        filePath: metric.original_file_path,
+        metricType: metric.type,
+        metricExpression: metric.type_params?.expr || undefined,
+        metricFilter: joinWhereFilters(metric.filter),
+        measures: (metric.type_params?.input_measures || []).map(
+          (m) => measuresByName.get(m.name) ?? { name: m.name }
+        ),
+        metrics: inputMetrics.length > 0 ? inputMetrics : undefined,
+      },
+    }, metric.depends_on?.nodes, metric.original_file_path);
+  }
+
+  for (const savedQuery of savedQueries) {
+    addNode(savedQuery.unique_id, {
+      id: `saved_query.${savedQuery.name.toLowerCase()}`,
+      name: savedQuery.name,
+      type: "saved_query",
+      subtype: "dbt_saved_query",
+      repo: "rippling-dbt",
+      metadata: {
+        label: savedQuery.label || undefined,
+        description: savedQuery.description || undefined,
+        filePath: savedQuery.original_file_path,
+        metrics: savedQuery.query_params?.metrics,
+        groupBy: savedQuery.query_params?.group_by,
+        metricFilter: joinWhereFilters(savedQuery.query_params?.where),
+      },
+    }, savedQuery.depends_on?.nodes, savedQuery.original_file_path);
+  }
+
+  // Link once every semantic node is registered (metrics can depend on metrics)
+  for (const [nodeId, dependsOn] of dependsOnById) {
+    for (const depId of dependsOn) {
+      const fromId = idToFqn.get(depId);
+      if (!fromId) continue;
+
+      edges.push({
+        id: uuid(),
+        from: fromId,
+        to: nodeId,
+        type: nodeId.startsWith("semantic_model.") ? "semantic_model" : "metric_input",
+      });
+    }
+  }
+}
+
+/**
+ * Manifest resources in the shape dbt selectors match on (name, fqn, path,
+ * tags, ...), so selectors found outside dbt (e.g. Airflow's `dbt run
+ * --select`) can be resolved against the project.
+ */
+function buildSelectableResources(manifest: DbtManifest, idToFqn: Map<string, string>): DbtSelectableResource[] {
+  const resources: DbtSelectableResource[] = [];
+
+  for (const [uniqueId, dbtNode] of Object.entries(manifest.nodes || {})) {
+    const nodeId = idToFqn.get(uniqueId);
+    if (!nodeId || !["model", "seed", "snapshot"].includes(dbtNode.resource_type)) continue;
+    resources.push({
+      uniqueId,
+      nodeId,
+      name: dbtNode.name,
+      resourceType: dbtNode.resource_type,
+      packageName: dbtNode.package_name,
+      fqn: dbtNode.fqn || [dbtNode.name],
+      path: dbtNode.original_file_path,
+      tags: [...new Set([...(dbtNode.tags || []), ...(dbtNode.config?.tags || [])])],
+      materialized: dbtNode.config?.materialized,
+      dependsOn: dbtNode.depends_on?.nodes || [],
+    });
+  }
+
+  for (const [uniqueId, source] of Object.entries(manifest.sources || {})) {
+    const nodeId = idToFqn.get(uniqueId);
+    if (!nodeId) continue;
+    resources.push({
+      uniqueId,
+      nodeId,
+      name: source.name,
+      resourceType: "source",
+      packageName: source.package_name,
+      fqn: source.fqn || [source.source_name, source.name],
+      path: source.original_file_path,
+      tags: source.tags || [],
+      sourceName: source.source_name,
+      dependsOn: [],
+    });
+  }
+
+  return resources;
+}
+
+/**
+ * Record each test on the node it covers (metadata.tests) and build
+ * foreign key edges from relationships tests.
+ */
+function attachDataTests(
+  manifest: DbtManifest,
+  idToFqn: Map<string, string>,
+  nodes: GraphNode[],
+  edges: GraphEdge[]
+): GraphEdge[] {
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+  const lineageKeys = new Set(edges.map((e) => `${e.from}|${e.to}`));
+  const foreignKeyEdges: GraphEdge[] = [];
+
+  for (const testNode of Object.values(manifest.nodes || {})) {
+    if (testNode.resource_type !== "test") continue;
+
+    const dependsOn = testNode.depends_on?.nodes || [];
+    const kwargs = testNode.test_metadata?.kwargs || {};
+    const type = testNode.test_metadata?.name || "singular";
+
+    // Older manifests lack attached_node; the tested model is named in kwargs.model
+    const modelName = extractRefName(kwargs.model);
+    const attachedIds = testNode.attached_node
+      ? [testNode.attached_node]
+      : modelName
+      ? dependsOn.filter((id) => id.endsWith(`.${modelName}`))
+      : dependsOn;
+
+    const column = testNode.column_name || (typeof kwargs.column_name === "string" ? kwargs.column_name : undefined);
+    const severity = testNode.config?.severity?.toLowerCase();
+
+    for (const attachedId of attachedIds) {
+      const node = nodesById.get(idToFqn.get(attachedId) ?? "");
+      if (!node) continue;
+
+      const test: DataTest = {
+        name: testNode.name,
+        type,
+        column,
+        severity: severity === "warn" || severity === "error" ? severity : undefined,
+      };
+
+      if (type === "relationships") {
+        const referencedId = dependsOn.find((id) => id !== attachedId);
+        const referencedFqn = referencedId ? idToFqn.get(referencedId) : undefined;
+        if (referencedFqn) {
+          test.references = referencedFqn;
+          test.referencedColumn = typeof kwargs.field === "string" ? kwargs.field : undefined;
+
+          // Skip pairs already connected by lineage
+          if (column && !lineageKeys.has(`${referencedFqn}|${node.id}`) && !lineageKeys.has(`${node.id}|${referencedFqn}`)) {
+            lineageKeys.add(`${referencedFqn}|${node.id}`);
+            foreignKeyEdges.push({
+              id: uuid(),
+              from: referencedFqn,
+              to: node.id,
+              type: "foreign_key",
+              metadata: {
+                foreignKey: { column, referencedColumn: test.referencedColumn },
+              },
+            });
+          }
+        }
+      }
+
+      node.metadata = {
+        ...node.metadata,
+        tests: [...(node.metadata?.tests || []), test],
+      };
+    }
+  }
+
+  return foreignKeyEdges;
 }
 
 // Helper to detect the manifest.json location
@@ -317,7 +686,17 @@ export function getModelSql(repoPath: string, filePath: string): string | null {
 }
 
 /**
- * Build a map of node ID -> SQL content for all models.
+ * Get a model's compiled SQL from `dbt compile` output, which sits next to the
+ * manifest: <target>/compiled/<package>/<original_file_path>
+ */
+export function getCompiledModelSql(targetPath: string, packageName: string | undefined, filePath: string): string | null {
+  if (!packageName) return null;
+  return getModelSql(join(targetPath, "compiled", packageName), filePath);
+}
+
+/**
+ * Build a map of node ID -> SQL content for all models, preferring compiled SQL
+ * so Jinja is already rendered.
  * Used by the external inference engine to analyze SQL patterns.
  */
 export function buildSqlContentMap(
@@ -332,6 +711,11 @@ export function buildSqlContentMap(
       continue;
     }
     
+    if (node.compiledSql) {
+      sqlMap.set(node.id, node.compiledSql);
+      continue;
+    }
+
     const filePath = node.metadata?.filePath;
     if (!filePath) continue;
     
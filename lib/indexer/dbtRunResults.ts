@@ -0,0 +1,177 @@
+/**
+ * dbt Run Results
+ *
+ * Reads run_results.json artifacts and stamps each dbt node with the outcome
+ * of its most recent run (status, execution time, rows affected, timestamp),
+ * plus a short history of recent runs.
+ *
+ * Artifacts are read from target/run_results.json by default. A configured
+ * artifacts directory (e.g. one synced from dbt Cloud or a CI bucket) may hold
+ * several run_results*.json files; all of them are merged into the history.
+ */
+
+import { existsSync, readFileSync, readdirSync } from "fs";
+import { join } from "path";
+import type { GraphNode, DbtRunInfo, DbtRunStatus } from "../types";
+
+// Runs kept per node in metadata.recentRuns
+export const MAX_RECENT_RUNS = 10;
+
+// run_results.json types (simplified)
+interface DbtRunResultTiming {
+  name: string;  // "compile" or "execute"
+  started_at?: string;
+  completed_at?: string;
+}
+
+interface DbtRunResultEntry {
+  unique_id: string;
+  status: string;
+  execution_time?: number;
+  message?: string | null;
+  timing?: DbtRunResultTiming[];
+  adapter_response?: {
+    rows_affected?: number;
+  };
+}
+
+interface DbtRunResultsFile {
+  metadata?: {
+    generated_at?: string;
+    invocation_id?: string;
+  };
+  results?: DbtRunResultEntry[];
+}
+
+export interface DbtNodeRun extends DbtRunInfo {
+  uniqueId: string;
+}
+
+/**
+ * Find the run_results files to load. With an artifacts directory every
+ * run_results*.json inside it is used; otherwise the standard dbt locations
+ * next to manifest.json are checked.
+ */
+export function findRunResultsPaths(dbtProjectPath: string, artifactsPath?: string): string[] {
+  if (artifactsPath) {
+    if (!existsSync(artifactsPath)) {
+      console.warn(`dbt artifacts directory not found at ${artifactsPath}, skipping run results`);
+      return [];
+    }
+    return readdirSync(artifactsPath)
+      .filter((entry) => entry.startsWith("run_results") && entry.endsWith(".json"))
+      .sort()
+      .map((entry) => join(artifactsPath, entry));
+  }
+
+  const candidates = [
+    join(dbtProjectPath, "target", "run_results.json"),
+    join(dbtProjectPath, "main_artifacts", "run_results.json"),
+  ];
+  const found = candidates.find((candidate) => existsSync(candidate));
+  return found ? [found] : [];
+}
+
+/**
+ * Parse one run_results.json into per-node runs. Test results are skipped;
+ * they aren't nodes in the graph.
+ */
+export function parseRunResults(runResultsPath: string): DbtNodeRun[] {
+  const file: DbtRunResultsFile = JSON.parse(readFileSync(runResultsPath, "utf-8"));
+  const generatedAt = file.metadata?.generated_at;
+  const runs: DbtNodeRun[] = [];
+
+  for (const result of file.results || []) {
+    if (!result.unique_id || result.unique_id.startsWith("test.")) continue;
+
+    // Prefer when this node finished executing over when the artifact was written
+    const execute = result.timing?.find((t) => t.name === "execute");
+    const completedAt = execute?.completed_at || generatedAt;
+    if (!completedAt) continue;
+
+    runs.push({
+      uniqueId: result.unique_id,
+      status: result.status as DbtRunStatus,
+      executionTime: Math.round((result.execution_time ?? 0) * 1000) / 1000,
+      rowsAffected: result.adapter_response?.rows_affected,
+      completedAt,
+      invocationId: file.metadata?.invocation_id,
+      message: result.message || undefined,
+    });
+  }
+
+  return runs;
+}
+
+function runKey(run: DbtRunInfo): string {
+  return run.invocationId ?? run.completedAt;
+}
+
+/**
+ * Merge new runs into a node's history: dedupe by invocation, newest first,
+ * capped at MAX_RECENT_RUNS.
+ */
+export function mergeRunHistory(existing: DbtRunInfo[], incoming: DbtRunInfo[]): DbtRunInfo[] {
+  const byKey = new Map<string, DbtRunInfo>();
+  for (const run of [...existing, ...incoming]) {
+    byKey.set(runKey(run), run);
+  }
+  return [...byKey.values()]
+    .sort((a, b) => b.completedAt.localeCompare(a.completedAt))
+    .slice(0, MAX_RECENT_RUNS);
+}
+
+/**
+ * Attach run results to dbt nodes in place. Runs are matched by unique_id via
+ * uniqueIdToNodeId (from the manifest), falling back to the resource name for
+ * projects parsed without a manifest. previousRuns carries history from the
+ * last index so it survives dbt overwriting run_results.json.
+ *
+ * Returns the number of nodes that received run data.
+ */
+export function applyRunResults(
+  nodes: GraphNode[],
+  runs: DbtNodeRun[],
+  uniqueIdToNodeId: ReadonlyMap<string, string>,
+  previousRuns: ReadonlyMap<string, DbtRunInfo[]> = new Map()
+): number {
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+
+  // Name fallback only for unambiguous names
+  const nodesByName = new Map<string, GraphNode | null>();
+  for (const node of nodes) {
+    if (!node.subtype?.startsWith("dbt_")) continue;
+    const key = node.name.toLowerCase();
+    nodesByName.set(key, nodesByName.has(key) ? null : node);
+  }
+
+  const runsByNode = new Map<string, DbtRunInfo[]>();
+  for (const { uniqueId, ...run } of runs) {
+    const mappedId = uniqueIdToNodeId.get(uniqueId);
+    const node = mappedId
+      ? nodesById.get(mappedId)
+      : nodesByName.get(uniqueId.split(".").pop()!.toLowerCase());
+    if (!node) continue;
+
+    const nodeRuns = runsByNode.get(node.id) ?? [];
+    nodeRuns.push(run);
+    runsByNode.set(node.id, nodeRuns);
+  }
+
+  for (const node of nodes) {
+    const history = mergeRunHistory(previousRuns.get(node.id) ?? [], runsByNode.get(node.id) ?? []);
+    if (history.length === 0) continue;
+
+    const latest = history[0];
+    node.metadata = {
+      ...node.metadata,
+      lastRunStatus: latest.status,
+      lastRunExecutionTime: latest.executionTime,
+      lastRunRowsAffected: latest.rowsAffected,
+      lastRunAt: latest.completedAt,
+      recentRuns: history,
+    };
+  }
+
+  return nodes.filter((n) => n.metadata?.recentRuns).length;
+}
@@ -0,0 +1,311 @@
+/**
+ * dbt Node Selection
+ *
+ * Resolves dbt selectors (`--select tag:growth+`, Cosmos RenderConfig select
+ * lists, ...) against the parsed manifest, so dbt runs triggered from Airflow
+ * can stamp the models they build with the DAG and its schedule.
+ *
+ * Supports the selector methods that can be answered from the manifest alone:
+ * bare names/fqn, tag:, path:, file:, fqn:, package:, config.materialized:,
+ * resource_type: and source:, with graph operators (+, n+, +n, @), union
+ * (space) and intersection (comma). Stateful methods (state:, result:,
+ * source_status:) and YAML selectors are reported as unresolved.
+ */
+
+import type { GraphNode } from "../types";
+
+// A manifest resource that selectors can match (published by the dbt parser)
+export interface DbtSelectableResource {
+  uniqueId: string;
+  nodeId: string;
+  name: string;
+  resourceType: string;      // model | seed | snapshot | source
+  packageName?: string;
+  fqn: string[];
+  path?: string;             // original_file_path
+  tags: string[];
+  materialized?: string;
+  sourceName?: string;
+  dependsOn: string[];       // unique IDs
+}
+
+export interface DbtSelection {
+  command: string;           // run | build | seed | snapshot
+  select: string[];          // Union of selector terms; empty selects everything
+  exclude: string[];
+  selector?: string;         // --selector (YAML selectors aren't resolved)
+}
+
+// A dbt invocation found in an Airflow task (published by the Airflow parser)
+export interface DbtInvocation extends DbtSelection {
+  dagId: string;
+  taskId: string;
+  schedule?: string;
+}
+
+// Resource types each dbt command builds
+const COMMAND_RESOURCE_TYPES: Record<string, string[]> = {
+  run: ["model"],
+  seed: ["seed"],
+  snapshot: ["snapshot"],
+  build: ["model", "seed", "snapshot"],
+};
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+function matchesFqn(resource: DbtSelectableResource, value: string): boolean {
+  const name = globToRegExp(value);
+  if (name.test(resource.name)) return true;
+
+  // Dotted prefix of the fqn, with or without the package name
+  const parts = value.split(".").map(globToRegExp);
+  const matchesPrefix = (fqn: string[]) =>
+    parts.length <= fqn.length && parts.every((part, i) => part.test(fqn[i]));
+  return matchesPrefix(resource.fqn) || matchesPrefix(resource.fqn.slice(1));
+}
+
+function matchesPath(resource: DbtSelectableResource, value: string): boolean {
+  if (!resource.path) return false;
+  const path = value.replace(/^\.\//, "").replace(/\/$/, "");
+  return resource.path === path || resource.path.startsWith(`${path}/`) || globToRegExp(path).test(resource.path);
+}
+
+/**
+ * Match one selector method against a resource, or return null for methods
+ * that need state the manifest doesn't have.
+ */
+function matchMethod(resource: DbtSelectableResource, method: string, value: string): boolean | null {
+  switch (method) {
+    case "fqn":
+      return matchesFqn(resource, value);
+    case "tag":
+      return resource.tags.some((tag) => globToRegExp(value).test(tag));
+    case "path":
+      return matchesPath(resource, value);
+    case "file":
+      return Boolean(resource.path && globToRegExp(value).test(resource.path.split("/").pop()!));
+    case "package":
+      return Boolean(resource.packageName && globToRegExp(value).test(resource.packageName));
+    case "config.materialized":
+      return Boolean(resource.materialized && globToRegExp(value).test(resource.materialized));
+    case "resource_type":
+      return resource.resourceType === value;
+    case "source": {
+      if (resource.resourceType !== "source" || !resource.sourceName) return false;
+      const [sourceName, tableName] = value.split(".");
+      return globToRegExp(sourceName).test(resource.sourceName) && (!tableName || globToRegExp(tableName).test(resource.name));
+    }
+    default:
+      return null;
+  }
+}
+
+class SelectionGraph {
+  readonly byId: Map<string, DbtSelectableResource>;
+  private readonly children = new Map<string, string[]>();
+
+  constructor(readonly resources: DbtSelectableResource[]) {
+    this.byId = new Map(resources.map((r) => [r.uniqueId, r]));
+    for (const resource of resources) {
+      for (const parent of resource.dependsOn) {
+        this.children.set(parent, [...(this.children.get(parent) ?? []), resource.uniqueId]);
+      }
+    }
+  }
+
+  private walk(start: Iterable<string>, next: (id: string) => string[], depth?: number): Set<string> {
+    const seen = new Set<string>();
+    let frontier = [...start];
+    for (let level = 0; frontier.length > 0 && (depth === undefined || level < depth); level++) {
+      const nextFrontier: string[] = [];
+      for (const id of frontier) {
+        for (const neighbor of next(id)) {
+          if (!seen.has(neighbor)) {
+            seen.add(neighbor);
+            nextFrontier.push(neighbor);
+          }
+        }
+      }
+      frontier = nextFrontier;
+    }
+    return seen;
+  }
+
+  ancestors(ids: Iterable<string>, depth?: number): Set<string> {
+    return this.walk(ids, (id) => this.byId.get(id)?.dependsOn ?? [], depth);
+  }
+
+  descendants(ids: Iterable<string>, depth?: number): Set<string> {
+    return this.walk(ids, (id) => this.children.get(id) ?? [], depth);
+  }
+}
+
+/**
+ * Resolve one selector atom, e.g. `2+tag:growth+` or `@stg_orders`. Returns
+ * null when the method can't be answered from the manifest.
+ */
+function resolveAtom(graph: SelectionGraph, atom: string): Set<string> | null {
+  const match = atom.match(/^(@)?(?:(\d*)\+)?(.+?)(?:\+(\d*))?$/);
+  if (!match) return null;
+  const [, at, parentDepth, body, childDepth] = match;
+
+  const colon = body.indexOf(":");
+  const method = colon >= 0 ? body.slice(0, colon) : /\/|\.(sql|csv|py)$/.test(body) ? "path" : "fqn";
+  const value = colon >= 0 ? body.slice(colon + 1) : body;
+
+  const selected = new Set<string>();
+  for (const resource of graph.resources) {
+    const matched = matchMethod(resource, method, value);
+    if (matched === null) return null;
+    if (matched) selected.add(resource.uniqueId);
+  }
+
+  const result = new Set(selected);
+  if (at) {
+    // @x: x, its descendants, and all ancestors of those descendants
+    const descendants = graph.descendants(selected);
+    descendants.forEach((id) => result.add(id));
+    graph.ancestors([...selected, ...descendants]).forEach((id) => result.add(id));
+    return result;
+  }
+  if (parentDepth !== undefined) {
+    graph.ancestors(selected, parentDepth ? Number(parentDepth) : undefined).forEach((id) => result.add(id));
+  }
+  if (childDepth !== undefined) {
+    graph.descendants(selected, childDepth ? Number(childDepth) : undefined).forEach((id) => result.add(id));
+  }
+  return result;
+}
+
+/**
+ * Resolve a union of selector terms (space-separated; comma means intersection).
+ */
+function resolveTerms(graph: SelectionGraph, terms: string[], unresolved: string[]): Set<string> {
+  const result = new Set<string>();
+  for (const term of terms.flatMap((t) => t.split(/\s+/)).filter(Boolean)) {
+    const atoms = term.split(",").map((atom) => ({ atom, resolved: resolveAtom(graph, atom) }));
+    const failed = atoms.filter((a) => !a.resolved);
+    if (failed.length > 0) {
+      unresolved.push(...failed.map((a) => a.atom));
+      continue;
+    }
+
+    const [first, ...rest] = atoms.map((a) => a.resolved!);
+    for (const id of first) {
+      if (rest.every((set) => set.has(id))) result.add(id);
+    }
+  }
+  return result;
+}
+
+/**
+ * Resolve a dbt selection to the graph node IDs the command would build.
+ * Selector atoms that can't be resolved statically are returned in unresolved.
+ */
+export function resolveDbtSelection(
+  selection: DbtSelection,
+  resources: DbtSelectableResource[]
+): { nodeIds: string[]; unresolved: string[] } {
+  const graph = new SelectionGraph(resources);
+  const unresolved: string[] = [];
+
+  if (selection.selector) {
+    return { nodeIds: [], unresolved: [`selector:${selection.selector}`] };
+  }
+
+  const selected = selection.select.length > 0
+    ? resolveTerms(graph, selection.select, unresolved)
+    : new Set(resources.map((r) => r.uniqueId));
+  const excluded = resolveTerms(graph, selection.exclude, unresolved);
+
+  const resourceTypes = COMMAND_RESOURCE_TYPES[selection.command] ?? COMMAND_RESOURCE_TYPES.build;
+  const nodeIds = [...selected]
+    .filter((id) => !excluded.has(id))
+    .map((id) => graph.byId.get(id)!)
+    .filter((resource) => resourceTypes.includes(resource.resourceType))
+    .map((resource) => resource.nodeId);
+
+  return { nodeIds, unresolved };
+}
+
+/**
+ * Stamp dbt nodes with the Airflow DAGs that run them (metadata.dagIds) and
+ * the schedule of the first such DAG, in place.
+ *
+ * Returns the number of nodes stamped and any selectors that couldn't be resolved.
+ */
+export function applyDbtSchedules(
+  nodes: GraphNode[],
+  resources: DbtSelectableResource[],
+  invocations: DbtInvocation[]
+): { scheduledCount: number; unresolved: Array<{ dagId: string; taskId: string; selector: string }> } {
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+  const scheduled = new Set<string>();
+  const unresolved: Array<{ dagId: string; taskId: string; selector: string }> = [];
+
+  for (const invocation of invocations) {
+    const result = resolveDbtSelection(invocation, resources);
+    for (const selector of result.unresolved) {
+      unresolved.push({ dagId: invocation.dagId, taskId: invocation.taskId, selector });
+    }
+
+    for (const nodeId of result.nodeIds) {
+      const node = nodesById.get(nodeId);
+      if (!node) continue;
+
+      const dagIds = node.metadata?.dagIds ?? [];
+      node.metadata = {
+        ...node.metadata,
+        dagIds: dagIds.includes(invocation.dagId) ? dagIds : [...dagIds, invocation.dagId],
+        schedule: node.metadata?.schedule ?? invocation.schedule,
+      };
+      scheduled.add(nodeId);
+    }
+  }
+
+  return { scheduledCount: scheduled.size, unresolved };
+}
+
+// dbt commands that build resources (test, compile, docs, ... don't refresh models)
+const BUILD_COMMANDS = new Set(Object.keys(COMMAND_RESOURCE_TYPES));
+
+const SELECT_FLAGS = new Set(["--select", "-s", "--models", "--model", "-m"]);
+const EXCLUDE_FLAGS = new Set(["--exclude"]);
+
+/**
+ * Find dbt invocations in a shell command, e.g.
+ * `cd /dbt && dbt deps && dbt run --select tag:growth --exclude stg_x`.
+ */
+export function parseDbtCommand(command: string): DbtSelection[] {
+  const selections: DbtSelection[] = [];
+
+  for (const segment of command.split(/&&|\|\||;|\n/)) {
+    const tokens = segment.trim().split(/\s+/).map((t) => t.replace(/^["']|["']$/g, ""));
+    const dbtIndex = tokens.findIndex((t) => t === "dbt" || t.endsWith("/dbt"));
+    if (dbtIndex < 0) continue;
+
+    // Skip global flags (dbt --no-write-json run ...)
+    const args = tokens.slice(dbtIndex + 1);
+    const commandIndex = args.findIndex((t) => !t.startsWith("-"));
+    if (commandIndex < 0 || !BUILD_COMMANDS.has(args[commandIndex])) continue;
+
+    const selection: DbtSelection = { command: args[commandIndex], select: [], exclude: [] };
+    let target: string[] | null = null;
+    for (let i = commandIndex + 1; i < args.length; i++) {
+      const arg = args[i];
+      if (SELECT_FLAGS.has(arg)) target = selection.select;
+      else if (EXCLUDE_FLAGS.has(arg)) target = selection.exclude;
+      else if (arg === "--selector") {
+        selection.selector = args[++i];
+        target = null;
+      } else if (arg.startsWith("-")) target = null;
+      else if (target && arg) target.push(arg);
+    }
+    selections.push(selection);
+  }
+
+  return selections;
+}
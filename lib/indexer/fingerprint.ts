@@ -0,0 +1,132 @@
+import { createHash } from "crypto";
+import { existsSync, readFileSync, readdirSync, statSync } from "fs";
+import { join } from "path";
+import { findManifestPath } from "./dbtParser";
+import { findRunResultsPaths } from "./dbtRunResults";
+import { findCatalogPath } from "./dbtCatalog";
+import { findExternalsConfig } from "./externalParser";
+import { findTemplateVarsPath } from "./sqlTemplate";
+import type { CensusConfig } from "./censusParser";
+import type { FivetranConfig } from "./fivetranParser";
+import type { HightouchConfig } from "./hightouchParser";
+
+/**
+ * Input fingerprinting for incremental re-indexing.
+ *
+ * Each source parser can fingerprint its inputs with a single hash that
+ * changes whenever any file the parser reads changes. Manifest, catalog, run results,
+ * externals.yml, Census, Hightouch and Fivetran exports are hashed by content; SQL/DAG trees are hashed by path,
+ * size and mtime so we don't have to read thousands of files just to detect changes.
+ */
+
+// Directories that never contain parser inputs (and can be huge)
+const IGNORED_DIRS = new Set([".git", "node_modules", "target", "dbt_packages", "logs", "__pycache__"]);
+
+export function hashContent(content: string | Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Collect a stable "path:size:mtime" signature for every matching file under dir.
+ */
+function collectFileSignatures(dir: string, extensions: string[], results: string[] = []): string[] {
+  if (!existsSync(dir)) return results;
+
+  for (const entry of readdirSync(dir)) {
+    if (IGNORED_DIRS.has(entry)) continue;
+
+    const fullPath = join(dir, entry);
+    const stat = statSync(fullPath);
+
+    if (stat.isDirectory()) {
+      collectFileSignatures(fullPath, extensions, results);
+    } else if (extensions.some((ext) => entry.endsWith(ext))) {
+      results.push(`${fullPath}:${stat.size}:${Math.floor(stat.mtimeMs)}`);
+    }
+  }
+
+  return results;
+}
+
+export function hashFileTree(dir: string, extensions: string[]): string {
+  const signatures = collectFileSignatures(dir, extensions).sort();
+  return hashContent(signatures.join("\n"));
+}
+
+export function fingerprintDbt(dbtPath: string, artifactsPath?: string): string {
+  const manifestPath = findManifestPath(dbtPath);
+  const manifestHash = manifestPath ? hashContent(readFileSync(manifestPath)) : "no-manifest";
+  // Model files matter even with a manifest: inference reads raw SQL from disk
+  const treeHash = hashFileTree(dbtPath, [".sql", ".yml", ".yaml"]);
+  // A missing artifacts directory fails the parse itself, not the fingerprint
+  const runResultsPaths = artifactsPath && !existsSync(artifactsPath) ? [] : findRunResultsPaths(dbtPath, artifactsPath);
+  const runResultsHash = hashContent(runResultsPaths.map((p) => `${p}:${hashContent(readFileSync(p))}`).join("\n"));
+  const catalogPath = findCatalogPath(dbtPath, artifactsPath);
+  const catalogHash = catalogPath ? hashContent(readFileSync(catalogPath)) : "no-catalog";
+  return hashContent(`${manifestHash}|${treeHash}|${runResultsHash}|${catalogHash}`);
+}
+
+export function fingerprintAirflow(airflowPath: string, templateVarsPath?: string): string {
+  const dagsHash = hashFileTree(join(airflowPath, "airflow_dags", "dags"), [".py"]);
+  const resourcesHash = hashFileTree(join(airflowPath, "airflow_dags", "resources"), [".sql"]);
+  // Rendered SQL depends on the template vars file too
+  const varsPath = templateVarsPath ?? findTemplateVarsPath(airflowPath);
+  const varsHash = varsPath && existsSync(varsPath) ? hashContent(readFileSync(varsPath)) : "none";
+  return hashContent(`${dagsHash}|${resourcesHash}|${varsHash}`);
+}
+
+export function fingerprintExternals(dbtPath: string): string {
+  const configPath = findExternalsConfig(dbtPath);
+  return configPath ? hashContent(readFileSync(configPath)) : "none";
+}
+
+export function fingerprintCensus(censusConfig: CensusConfig | string | undefined): string {
+  if (censusConfig && typeof censusConfig === "object") {
+    return hashContent(JSON.stringify(censusConfig));
+  }
+
+  const censusPath = typeof censusConfig === "string" ? censusConfig : join(process.cwd(), "data", "census.json");
+  return existsSync(censusPath) ? hashContent(readFileSync(censusPath)) : "none";
+}
+
+export function fingerprintHightouch(hightouchConfig: HightouchConfig | string | undefined): string {
+  if (hightouchConfig && typeof hightouchConfig === "object") {
+    return hashContent(JSON.stringify(hightouchConfig));
+  }
+
+  const hightouchPath = typeof hightouchConfig === "string" ? hightouchConfig : join(process.cwd(), "data", "hightouch.json");
+  return existsSync(hightouchPath) ? hashContent(readFileSync(hightouchPath)) : "none";
+}
+
+export function fingerprintFivetran(fivetranConfig: FivetranConfig | string | undefined): string {
+  if (fivetranConfig && typeof fivetranConfig === "object") {
+    return hashContent(JSON.stringify(fivetranConfig));
+  }
+
+  const fivetranPath = typeof fivetranConfig === "string" ? fivetranConfig : join(process.cwd(), "data", "fivetran.json");
+  return existsSync(fivetranPath) ? hashContent(readFileSync(fivetranPath)) : "none";
+}
+
+export function fingerprintLookml(lookmlPath: string | undefined): string {
+  return lookmlPath ? hashFileTree(lookmlPath, [".lkml", ".lookml", ".json"]) : "none";
+}
+
+export function fingerprintQueryHistory(queryHistoryPath: string | undefined, unusedDays: number): string {
+  const exportHash = queryHistoryPath && existsSync(queryHistoryPath) ? hashContent(readFileSync(queryHistoryPath)) : "none";
+  return hashContent(`${exportHash}|${unusedDays}`);
+}
+
+export function fingerprintTableau(tableauPath: string | undefined): string {
+  return tableauPath ? hashFileTree(tableauPath, [".twb", ".twbx"]) : "none";
+}
+
+/**
+ * Return the sources whose fingerprint differs from the previous run.
+ * Sources with no previous fingerprint are treated as changed.
+ */
+export function diffFingerprints(
+  previous: Record<string, string>,
+  current: Record<string, string>
+): string[] {
+  return Object.keys(current).filter((source) => previous[source] !== current[source]);
+}
@@ -0,0 +1,368 @@
+/**
+ * Fivetran Connector Parser
+ *
+ * Parses an export of Fivetran connectors (GET /v1/groups/{id}/connectors),
+ * each optionally merged with its schema config (GET /v1/connectors/{id}/schemas),
+ * to create ingestion lineage:
+ * Fivetran connector (external node) → raw Snowflake tables / dbt sources it lands
+ *
+ * This replaces guessing ingestion sources from schema names with the
+ * connector's actual destination schemas and tables.
+ */
+
+import { v4 as uuid } from "uuid";
+import type { GraphNode, GraphEdge, Citation } from "../types";
+
+// ============================================================================
+// Fivetran API Types
+// ============================================================================
+
+export interface FivetranTableConfig {
+  name_in_destination?: string;
+  enabled?: boolean;
+}
+
+export interface FivetranSchemaConfig {
+  name_in_destination?: string;
+  enabled?: boolean;
+  tables?: Record<string, FivetranTableConfig>;
+}
+
+// Raw connector from the Fivetran API, with its schema config merged in
+export interface FivetranRawConnector {
+  id: string;
+  service: string;              // e.g., "salesforce", "postgres", "hubspot"
+  schema: string;               // Destination schema (prefix for multi-schema connectors)
+  group_id?: string;
+  paused?: boolean;
+  sync_frequency?: number;      // Minutes
+  schedule_type?: string;       // auto | manual
+  succeeded_at?: string;
+  failed_at?: string;
+  status?: { setup_state?: string; sync_state?: string };
+  destination_database?: string;
+  // Schema config: source schema name -> schema (GET /v1/connectors/{id}/schemas data.schemas)
+  schemas?: Record<string, FivetranSchemaConfig>;
+}
+
+// A table a connector writes to the warehouse
+export interface FivetranLandedTable {
+  database?: string;
+  schema: string;
+  table: string;
+}
+
+// Normalized connector format used internally
+export interface FivetranConnector {
+  id: string;
+  service: string;
+  name: string;                 // Destination schema, which is how Fivetran names connectors
+  paused: boolean;
+  syncFrequencyMinutes?: number;
+  lastSyncAt?: string;
+  tables: FivetranLandedTable[];
+}
+
+export interface FivetranConfig {
+  connectors: FivetranConnector[];
+}
+
+// ============================================================================
+// Parser Result Types
+// ============================================================================
+
+export interface FivetranParseResult {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  citations: Citation[];
+  stats: {
+    connectorsProcessed: number;
+    connectorNodesCreated: number;
+    pausedConnectors: number;
+    landedTables: number;
+    edgesCreated: number;
+    matchedTables: Array<{ connector: string; table: string; matchedNodeId: string }>;
+    unmatchedTables: string[];
+  };
+}
+
+// ============================================================================
+// Node Matching
+// ============================================================================
+
+function formatLandedTable(table: FivetranLandedTable): string {
+  return [table.database, table.schema, table.table].filter(Boolean).join(".");
+}
+
+/**
+ * Find the graph nodes for a table a connector lands: raw Snowflake tables
+ * and dbt sources, matched on database/schema/table (never on name alone,
+ * since many connectors land identically named tables).
+ */
+export function findLandedTableNodes(table: FivetranLandedTable, nodes: GraphNode[]): GraphNode[] {
+  const schemaTable = `${table.schema}.${table.table}`;
+
+  return nodes.filter((node) => {
+    if (node.type !== "source" && node.type !== "table") return false;
+
+    const id = node.id.toLowerCase();
+    if (table.database ? id === `${table.database}.${schemaTable}` : id.endsWith(`.${schemaTable}`)) {
+      return true;
+    }
+
+    // dbt sources can set an identifier, so the node name may not match the ID
+    const nodeSchema = node.metadata?.schema?.toLowerCase();
+    const nodeDatabase = node.metadata?.database?.toLowerCase();
+    return (
+      nodeSchema === table.schema &&
+      node.name.toLowerCase() === table.table &&
+      (!table.database || !nodeDatabase || nodeDatabase === table.database)
+    );
+  });
+}
+
+/**
+ * Format a Fivetran service ID for display.
+ */
+function formatServiceName(service: string): string {
+  const serviceNames: Record<string, string> = {
+    salesforce: "Salesforce",
+    hubspot: "HubSpot",
+    marketo: "Marketo",
+    outreach: "Outreach",
+    google_sheets: "Google Sheets",
+    google_ads: "Google Ads",
+    facebook_ads: "Facebook Ads",
+    linkedin_ads: "LinkedIn Ads",
+    postgres: "PostgreSQL",
+    postgres_rds: "PostgreSQL (RDS)",
+    mysql: "MySQL",
+    mongo: "MongoDB",
+    netsuite_suiteanalytics: "NetSuite",
+    zendesk: "Zendesk",
+    stripe: "Stripe",
+    iterable: "Iterable",
+    brevo: "Brevo",
+    s3: "Amazon S3",
+  };
+
+  return serviceNames[service] || service.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+// ============================================================================
+// Main Parser Function
+// ============================================================================
+
+/**
+ * Parse Fivetran connectors and create graph nodes and edges.
+ *
+ * Creates a node per connector and an ingestion edge to each landed table
+ * found in the graph. Paused connectors are kept (flagged in metadata) since
+ * the tables they loaded are still there.
+ */
+export function parseFivetranConfig(
+  config: FivetranConfig,
+  existingNodes: GraphNode[],
+  onProgress?: (percent: number, message: string) => void
+): FivetranParseResult {
+  const result: FivetranParseResult = {
+    nodes: [],
+    edges: [],
+    citations: [],
+    stats: {
+      connectorsProcessed: 0,
+      connectorNodesCreated: 0,
+      pausedConnectors: 0,
+      landedTables: 0,
+      edgesCreated: 0,
+      matchedTables: [],
+      unmatchedTables: [],
+    },
+  };
+
+  const { connectors } = config;
+  if (!connectors || connectors.length === 0) {
+    onProgress?.(100, "No Fivetran connectors found in configuration");
+    return result;
+  }
+
+  onProgress?.(0, `Processing ${connectors.length} Fivetran connectors...`);
+
+  const createdEdges = new Set<string>();
+
+  for (let i = 0; i < connectors.length; i++) {
+    const connector = connectors[i];
+    result.stats.connectorsProcessed++;
+    if (connector.paused) result.stats.pausedConnectors++;
+
+    const connectorNodeId = `fivetran.connector.${connector.id.toLowerCase()}`;
+    const landedTables = connector.tables.map(formatLandedTable);
+    result.stats.landedTables += landedTables.length;
+
+    result.nodes.push({
+      id: connectorNodeId,
+      name: `${formatServiceName(connector.service)}: ${connector.name}`,
+      type: "external",
+      subtype: "fivetran_source",
+      repo: "fivetran",
+      metadata: {
+        description: `Fivetran ${formatServiceName(connector.service)} connector loading ${landedTables.length} tables into ${connector.name}`,
+        fivetranConnectorId: connector.id,
+        connectorService: connector.service,
+        syncFrequencyMinutes: connector.syncFrequencyMinutes,
+        paused: connector.paused,
+        lastSyncAt: connector.lastSyncAt,
+        landedTables,
+        tags: ["fivetran", connector.service, connector.paused ? "paused" : undefined].filter(Boolean) as string[],
+      },
+      semanticLayer: "external",
+    });
+    result.stats.connectorNodesCreated++;
+
+    // Connector → each landed table that's in the graph
+    for (const table of connector.tables) {
+      const matches = findLandedTableNodes(table, existingNodes);
+      if (matches.length === 0) {
+        result.stats.unmatchedTables.push(formatLandedTable(table));
+        continue;
+      }
+
+      for (const node of matches) {
+        const edgeKey = `${connectorNodeId}|${node.id}`;
+        if (createdEdges.has(edgeKey)) continue;
+
+        result.edges.push({
+          id: uuid(),
+          from: connectorNodeId,
+          to: node.id,
+          type: "ingestion",
+          metadata: {
+            transformationType: "fivetran-sync",
+            fivetranConnectorId: connector.id,
+            inferredFrom: "fivetran-config",
+          },
+        });
+        createdEdges.add(edgeKey);
+        result.stats.edgesCreated++;
+        result.stats.matchedTables.push({
+          connector: connector.name,
+          table: formatLandedTable(table),
+          matchedNodeId: node.id,
+        });
+      }
+    }
+
+    const progress = Math.round(((i + 1) / connectors.length) * 100);
+    if (progress % 20 === 0 || i === connectors.length - 1) {
+      onProgress?.(progress, `Processed ${i + 1}/${connectors.length} connectors`);
+    }
+  }
+
+  onProgress?.(
+    100,
+    `Created ${result.stats.edgesCreated} ingestion edges from ${result.stats.connectorsProcessed} connectors`
+  );
+
+  return result;
+}
+
+// ============================================================================
+// Export Format
+// ============================================================================
+
+/**
+ * Get the raw connector list from an export: { connectors: [...] } or the
+ * API's { data: { items: [...] } } envelope.
+ */
+function getRawConnectors(data: Record<string, unknown>): unknown[] | null {
+  if (Array.isArray(data.connectors)) return data.connectors;
+  if (Array.isArray(data.items)) return data.items;
+
+  const envelope = data.data as Record<string, unknown> | undefined;
+  if (envelope && Array.isArray(envelope.items)) return envelope.items;
+
+  return null;
+}
+
+/**
+ * Validate Fivetran export JSON structure.
+ */
+export function validateFivetranConfig(data: unknown): { valid: boolean; error?: string } {
+  if (!data || typeof data !== "object") {
+    return { valid: false, error: "Invalid JSON: expected object" };
+  }
+
+  const connectors = getRawConnectors(data as Record<string, unknown>);
+  if (!connectors) {
+    return { valid: false, error: "Missing 'connectors' or 'data.items' array in Fivetran export" };
+  }
+
+  if (connectors.length === 0) {
+    return { valid: false, error: "No connectors found in Fivetran export" };
+  }
+
+  const first = connectors[0] as Record<string, unknown>;
+  if (!first.id || !first.service || !first.schema) {
+    return { valid: false, error: "Connector missing required id/service/schema fields" };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Work out the destination schema and table names a connector writes.
+ *
+ * Single-schema connectors (SaaS apps) land in the connector's schema;
+ * multi-schema connectors (databases) land in `<connector schema>_<source schema>`,
+ * unless the schema config names the destination explicitly.
+ */
+function getLandedTables(raw: FivetranRawConnector, database?: string): FivetranLandedTable[] {
+  const schemas = Object.entries(raw.schemas ?? {}).filter(([, schema]) => schema.enabled !== false);
+  const tables: FivetranLandedTable[] = [];
+
+  for (const [schemaName, schema] of schemas) {
+    const destinationSchema = (
+      schema.name_in_destination ?? (schemas.length === 1 ? raw.schema : `${raw.schema}_${schemaName}`)
+    ).toLowerCase();
+
+    for (const [tableName, table] of Object.entries(schema.tables ?? {})) {
+      if (table.enabled === false) continue;
+      tables.push({
+        database: database?.toLowerCase(),
+        schema: destinationSchema,
+        table: (table.name_in_destination ?? tableName).toLowerCase(),
+      });
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Normalize a Fivetran export to our internal format. A top-level
+ * `database` names the destination database for connectors that don't
+ * set `destination_database`.
+ */
+export function normalizeFivetranResponse(data: unknown): FivetranConfig {
+  const obj = data as Record<string, unknown>;
+  const rawConnectors = (getRawConnectors(obj) ?? []) as FivetranRawConnector[];
+  const defaultDatabase = typeof obj.database === "string" ? obj.database : undefined;
+
+  const connectors: FivetranConnector[] = [];
+  for (const raw of rawConnectors) {
+    if (!raw.id || !raw.service || !raw.schema) continue;
+
+    connectors.push({
+      id: raw.id,
+      service: raw.service,
+      name: raw.schema,
+      paused: raw.paused === true,
+      // Manually scheduled connectors only sync when triggered
+      syncFrequencyMinutes: raw.schedule_type === "manual" ? undefined : raw.sync_frequency,
+      lastSyncAt: raw.succeeded_at,
+      tables: getLandedTables(raw, raw.destination_database ?? defaultDatabase),
+    });
+  }
+
+  return { connectors };
+}
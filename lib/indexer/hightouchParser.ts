@@ -0,0 +1,399 @@
+/**
+ * Hightouch Reverse ETL Parser
+ *
+ * Parses a Hightouch export (syncs, models and destinations from the
+ * Hightouch API) to create the same reverse ETL lineage as Census:
+ * 1. Source models (dbt marts) → Hightouch sync (external node)
+ * 2. Hightouch sync → destination object (Salesforce Lead, HubSpot contacts, ...)
+ * 3. Hightouch sync → dbt source/staging model, when the destination is
+ *    Snowflake (reverse ETL loop-back)
+ */
+
+import { v4 as uuid } from "uuid";
+import type { GraphNode, GraphEdge, Citation } from "../types";
+import {
+  findSourceNode,
+  findDestinationSourceNode,
+  parseDestinationObject,
+  formatDestinationName,
+  extractTablesFromQuery,
+} from "./censusParser";
+
+// ============================================================================
+// Hightouch API Types
+// ============================================================================
+
+export interface HightouchModel {
+  id: string | number;
+  name: string;
+  slug?: string;
+  sourceId?: string | number;
+  queryType?: string;           // raw_sql, table, dbt_model, visual, custom
+  raw?: { sql?: string };
+  table?: { name?: string };
+  dbtModel?: { name?: string; compiledSql?: string };
+}
+
+export interface HightouchDestination {
+  id: string | number;
+  name: string;
+  slug?: string;
+  type: string;                 // e.g., "salesforce", "hubspot", "snowflake"
+}
+
+export interface HightouchSchedule {
+  type?: string;                // interval, cron, visual, dbt, manual
+  schedule?: {
+    expression?: string;
+    interval?: { quantity: number; unit: string };
+  };
+}
+
+export interface HightouchSync {
+  id: string | number;
+  slug?: string;
+  modelId: string | number;
+  destinationId: string | number;
+  disabled?: boolean;
+  schedule?: HightouchSchedule | null;
+  configuration?: Record<string, unknown>;   // Destination-specific: object, mode, tableName, schema, ...
+}
+
+export interface HightouchConfig {
+  syncs: HightouchSync[];
+  models: HightouchModel[];
+  destinations: HightouchDestination[];
+}
+
+// ============================================================================
+// Parser Result Types
+// ============================================================================
+
+export interface HightouchParseResult {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  citations: Citation[];
+  stats: {
+    syncsProcessed: number;
+    syncNodesCreated: number;
+    sourceEdgesCreated: number;
+    loopBacksDetected: number;       // Also the number of loop-back edges
+    destinationNodesCreated: number;
+    destinationEdgesCreated: number;
+    matchedSources: Array<{ hightouchName: string; matchedNodeId: string; matchedNodeName: string }>;
+    unmatchedSources: string[];
+    unmatchedDestinations: string[];
+    destinationTypes: string[];
+  };
+}
+
+// ============================================================================
+// Sync Details
+// ============================================================================
+
+/**
+ * Table references a model reads, for matching against graph nodes:
+ * tables in its SQL, its table name, or its dbt model name.
+ */
+function getModelTableRefs(model: HightouchModel): string[] {
+  const sql = model.raw?.sql ?? model.dbtModel?.compiledSql;
+  if (sql) {
+    const tables = extractTablesFromQuery(sql);
+    if (tables.length > 0) return tables;
+  }
+
+  const name = model.table?.name ?? model.dbtModel?.name;
+  return name ? [name] : [];
+}
+
+/**
+ * The object a sync writes: a destination object (Salesforce "Lead") or,
+ * for warehouse destinations, SCHEMA.TABLE.
+ */
+function getDestinationObject(sync: HightouchSync): string {
+  const config = sync.configuration ?? {};
+  const object = config.object ?? config.objectName ?? config.tableName ?? config.table;
+  if (typeof object !== "string") return "";
+
+  return typeof config.schema === "string" && !object.includes(".") ? `${config.schema}.${object}` : object;
+}
+
+/**
+ * Hightouch schedules as a cron expression or "every N <unit>".
+ */
+function formatSchedule(schedule: HightouchSchedule | null | undefined): string | undefined {
+  if (!schedule) return undefined;
+  if (schedule.schedule?.expression) return schedule.schedule.expression;
+
+  const interval = schedule.schedule?.interval;
+  if (interval) {
+    const unit = interval.unit.replace(/s$/, "");
+    return interval.quantity === 1 ? `every ${unit}` : `every ${interval.quantity} ${unit}s`;
+  }
+
+  return schedule.type && schedule.type !== "manual" ? schedule.type : undefined;
+}
+
+// Hightouch destination types use dashes (google-sheets); Census uses underscores
+function normalizeDestinationType(type: string): string {
+  return type.toLowerCase().replace(/-/g, "_");
+}
+
+// ============================================================================
+// Main Parser Function
+// ============================================================================
+
+/**
+ * Parse Hightouch syncs and create graph nodes and edges.
+ *
+ * Creates individual nodes for each Hightouch sync, connecting:
+ * 1. source_model → [Hightouch Sync Node] → destination_object
+ */
+export function parseHightouchConfig(
+  config: HightouchConfig,
+  existingNodes: GraphNode[],
+  onProgress?: (percent: number, message: string) => void
+): HightouchParseResult {
+  const result: HightouchParseResult = {
+    nodes: [],
+    edges: [],
+    citations: [],
+    stats: {
+      syncsProcessed: 0,
+      syncNodesCreated: 0,
+      sourceEdgesCreated: 0,
+      loopBacksDetected: 0,
+      destinationNodesCreated: 0,
+      destinationEdgesCreated: 0,
+      matchedSources: [],
+      unmatchedSources: [],
+      unmatchedDestinations: [],
+      destinationTypes: [],
+    },
+  };
+
+  const { syncs, models, destinations } = config;
+  const modelMap = new Map(models.map((m) => [String(m.id), m]));
+  const destinationMap = new Map(destinations.map((d) => [String(d.id), d]));
+
+  if (!syncs || syncs.length === 0) {
+    onProgress?.(100, "No Hightouch syncs found in configuration");
+    return result;
+  }
+
+  onProgress?.(0, `Processing ${syncs.length} Hightouch syncs...`);
+
+  const createdEdges = new Set<string>();
+  const createdDestNodes = new Set<string>();
+
+  const addEdge = (from: string, to: string, metadata: GraphEdge["metadata"]): boolean => {
+    const key = `${from}|${to}`;
+    if (createdEdges.has(key)) return false;
+    result.edges.push({ id: uuid(), from, to, type: "reverse_etl", metadata });
+    createdEdges.add(key);
+    return true;
+  };
+
+  for (let i = 0; i < syncs.length; i++) {
+    const sync = syncs[i];
+    result.stats.syncsProcessed++;
+
+    // Reported up front so disabled and unmatched syncs still move progress
+    const progress = Math.round(((i + 1) / syncs.length) * 100);
+    if (progress % 20 === 0 || i === syncs.length - 1) {
+      onProgress?.(progress, `Processing sync ${i + 1}/${syncs.length}`);
+    }
+
+    if (sync.disabled) {
+      continue;
+    }
+
+    const syncId = String(sync.id);
+    const model = modelMap.get(String(sync.modelId));
+    const destination = destinationMap.get(String(sync.destinationId));
+    const modelName = model?.name ?? `model ${sync.modelId}`;
+    const destType = destination ? normalizeDestinationType(destination.type) : undefined;
+    const destObject = getDestinationObject(sync);
+    const destObjectInfo = parseDestinationObject(destObject, destType || "unknown");
+    const syncLabel = sync.slug || `${modelName} → ${destType ? formatDestinationName(destType) : "External"}`;
+
+    // Match the model's tables first, then its name
+    const matchedNodes: GraphNode[] = [];
+    for (const tableRef of model ? getModelTableRefs(model) : []) {
+      const node = findSourceNode(tableRef, existingNodes);
+      if (node && !matchedNodes.some((n) => n.id === node.id)) {
+        matchedNodes.push(node);
+      }
+    }
+    if (matchedNodes.length === 0 && model) {
+      const node = findSourceNode(model.name, existingNodes);
+      if (node) matchedNodes.push(node);
+    }
+
+    if (matchedNodes.length === 0) {
+      result.stats.unmatchedSources.push(modelName);
+      continue;
+    }
+
+    for (const sourceNode of matchedNodes) {
+      result.stats.matchedSources.push({
+        hightouchName: modelName,
+        matchedNodeId: sourceNode.id,
+        matchedNodeName: sourceNode.name,
+      });
+    }
+
+    // =========================================================================
+    // Sync node (one per sync) and source_model(s) → Sync Node edges
+    // =========================================================================
+    const syncNodeId = `hightouch.sync.${syncId}`;
+    result.nodes.push({
+      id: syncNodeId,
+      name: syncLabel.length > 40 ? `${syncLabel.substring(0, 37)}...` : syncLabel,
+      type: "external",
+      subtype: "hightouch_sync",
+      repo: "hightouch",
+      metadata: {
+        description: `Hightouch sync: ${syncLabel}`,
+        hightouchSyncId: syncId,
+        sourceQuery: model?.raw?.sql,
+        operation: typeof sync.configuration?.mode === "string" ? sync.configuration.mode : undefined,
+        schedule: formatSchedule(sync.schedule),
+        destinationType: destType,
+        destinationObject: destObjectInfo.displayName,
+        tags: ["hightouch", "sync", destType].filter(Boolean) as string[],
+      },
+      semanticLayer: "external",
+    });
+    result.stats.syncNodesCreated++;
+
+    for (const sourceNode of matchedNodes) {
+      const added = addEdge(sourceNode.id, syncNodeId, {
+        transformationType: "hightouch-source",
+        hightouchSyncId: syncId,
+        hightouchSyncLabel: syncLabel,
+        inferredFrom: "hightouch-config",
+      });
+      if (added) result.stats.sourceEdgesCreated++;
+    }
+
+    // =========================================================================
+    // Destination: loop-back into Snowflake, or a destination object node
+    // =========================================================================
+    if (destType === "snowflake") {
+      const destNode = destObject ? findDestinationSourceNode(destObject, existingNodes) : null;
+      if (!destNode) {
+        result.stats.unmatchedDestinations.push(destObject || `sync ${syncId}`);
+      } else if (addEdge(syncNodeId, destNode.id, {
+        transformationType: "hightouch-loopback",
+        hightouchSyncId: syncId,
+        inferredFrom: "hightouch-config",
+      })) {
+        result.stats.loopBacksDetected++;
+      }
+    } else if (destType && destination) {
+      const destNodeId = destObjectInfo.objectName
+        ? `external.hightouch_dest.${destType}.${destObjectInfo.objectName.toLowerCase()}`
+        : `external.hightouch_dest.${destType}`;
+      const destNodeName = destObjectInfo.objectName
+        ? `${formatDestinationName(destType)} → ${destObjectInfo.displayName}`
+        : formatDestinationName(destType, destination.name);
+
+      if (!result.stats.destinationTypes.includes(destType)) {
+        result.stats.destinationTypes.push(destType);
+      }
+
+      if (!createdDestNodes.has(destNodeId)) {
+        result.nodes.push({
+          id: destNodeId,
+          name: destNodeName,
+          type: "external",
+          subtype: "hightouch_destination",
+          repo: "hightouch",
+          metadata: {
+            description: destObjectInfo.objectName
+              ? `Hightouch syncs to ${formatDestinationName(destType)} ${destObjectInfo.displayName} object`
+              : `Hightouch destination: ${destination.name}`,
+            connectionType: destType,
+            objectType: destObjectInfo.objectName ?? undefined,
+            tags: ["hightouch", "destination", destType, destObjectInfo.objectName].filter(Boolean) as string[],
+          },
+          semanticLayer: "external",
+        });
+        createdDestNodes.add(destNodeId);
+        result.stats.destinationNodesCreated++;
+      }
+
+      const added = addEdge(syncNodeId, destNodeId, {
+        transformationType: "hightouch-destination",
+        hightouchSyncId: syncId,
+        destinationType: destType,
+        destinationObject: destObjectInfo.objectName || destObject,
+        inferredFrom: "hightouch-config",
+      });
+      if (added) result.stats.destinationEdgesCreated++;
+    }
+  }
+
+  onProgress?.(100, `Created ${result.edges.length} edges from ${result.stats.syncsProcessed} syncs (${result.stats.loopBacksDetected} loop-backs)`);
+
+  return result;
+}
+
+// ============================================================================
+// Export Format
+// ============================================================================
+
+// Accept plain arrays or the API's { data: [...] } envelope for each list
+function unwrapList(value: unknown): unknown[] | null {
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === "object" && Array.isArray((value as Record<string, unknown>).data)) {
+    return (value as Record<string, unknown>).data as unknown[];
+  }
+  return null;
+}
+
+/**
+ * Validate Hightouch export JSON structure: syncs plus the models and
+ * destinations they reference.
+ */
+export function validateHightouchConfig(data: unknown): { valid: boolean; error?: string } {
+  if (!data || typeof data !== "object") {
+    return { valid: false, error: "Invalid JSON: expected object" };
+  }
+
+  const config = data as Record<string, unknown>;
+  const syncs = unwrapList(config.syncs);
+  if (!syncs) {
+    return { valid: false, error: "Missing 'syncs' array in Hightouch export" };
+  }
+  if (syncs.length === 0) {
+    return { valid: false, error: "No syncs found in Hightouch export" };
+  }
+  if (!unwrapList(config.models)) {
+    return { valid: false, error: "Missing 'models' array in Hightouch export" };
+  }
+  if (!unwrapList(config.destinations)) {
+    return { valid: false, error: "Missing 'destinations' array in Hightouch export" };
+  }
+
+  const firstSync = syncs[0] as Record<string, unknown>;
+  if (firstSync.modelId === undefined || firstSync.destinationId === undefined) {
+    return { valid: false, error: "Sync missing required modelId/destinationId fields" };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Normalize a Hightouch export (lists saved from /api/v1/syncs, /models and
+ * /destinations, with or without their { data } envelopes).
+ */
+export function normalizeHightouchResponse(data: unknown): HightouchConfig {
+  const obj = data as Record<string, unknown>;
+  return {
+    syncs: (unwrapList(obj.syncs) ?? []) as HightouchSync[],
+    models: (unwrapList(obj.models) ?? []) as HightouchModel[],
+    destinations: (unwrapList(obj.destinations) ?? []) as HightouchDestination[],
+  };
+}
@@ -1,9 +1,6 @@
 import { v4 as uuid } from "uuid";
-import { spawn } from "child_process";
-import { join } from "path";
 import {
   getDb,
-  getJob,
   insertNodes,
   insertEdges,
   insertCitations,
@@ -22,11 +19,28 @@ import {
   insertLayerNames,
   insertAnchorCandidates,
   markStageSkipped,
-  setJobWaitingForSchemas,
-  getSelectedSchemas,
+  setJobStages,
+  getJob,
+  saveJobCheckpoint,
+  getJobCheckpointResults,
+  isJobCancelRequested,
+  getNodes,
+  getEdges,
+  getInputFingerprints,
+  saveInputFingerprints,
+  applyGraphChanges,
+  saveGraphSnapshot,
+  replaceColumnEdges,
+  replaceConflicts,
+  getConflictResolutions,
+  dbNodeToGraph,
+  dbEdgeToGraph,
+  dbConflictResolutionToDomain,
   DbNode,
   DbEdge,
+  DbColumnEdge,
   DbCitation,
+  DbConflict,
 } from "../db";
 import { 
   precomputeLayout, 
@@ -34,14 +48,22 @@ import {
   type NodePosition,
   type IncrementalLayoutResult,
 } from "../graph/layout";
-import { parseDbtManifest, findManifestPath, parseDbtProjectFallback, buildSqlContentMap } from "./dbtParser";
-import { parseAirflowDags, type ExternalSystemDetection } from "./airflowParser";
-import { parseExternalSystems, KNOWN_EXTERNAL_SYSTEMS } from "./externalParser";
-import { inferExternalSystems, summarizeDetections } from "./externalInference";
-import { parseCensusConfig, normalizeCensusResponse, validateCensusConfig, type CensusConfig } from "./censusParser";
-import { linkCrossRepo } from "./linker";
-import { enrichWithSnowflakeMetadata, discoverSnowflakeTables, getSnowflakeConfig, hasSnowflakeCredentials, type SnowflakeDiscoveryResult } from "./snowflakeMetadata";
-import { connect, getSchemas, disconnect } from "../snowflake/client";
+import type { CensusConfig } from "./censusParser";
+import type { FivetranConfig } from "./fivetranParser";
+import type { HightouchConfig } from "./hightouchParser";
+import { linkCrossRepo, loadLinkerConfig, applyConflictResolutions, getConflictId, type LinkerConfig } from "./linker";
+import { buildColumnLineageGraph } from "./columnEdges";
+import { applyDbtSchedules, type DbtInvocation, type DbtSelectableResource } from "./dbtSelector";
+import type { TableUsage } from "./queryHistoryParser";
+import { diffFingerprints } from "./fingerprint";
+import {
+  getSourceParsers,
+  resolveSourceConfig,
+  buildStagePlan,
+  type SourceParser,
+  type SourceParseResult,
+} from "./sourceParser";
+import "./sources";
 import { inferGroups as aiInferGroups } from "../ai/grouping";
 import { proposeFlows as aiProposeFlows } from "../ai/flows";
 import { generateLayerNames } from "../ai/layerNaming";
@@ -52,7 +74,15 @@ import {
   computeImportanceScores, 
   getTopAnchorCandidates 
 } from "../graph/semantic";
-import type { GraphNode, GraphEdge, Citation, IndexingStageId } from "../types";
+import type {
+  GraphNode,
+  GraphEdge,
+  ColumnEdge,
+  Citation,
+  IndexingStageId,
+  NodeMetadata,
+  Conflict,
+} from "../types";
 
 export interface IndexerConfig {
   dbtPath: string;
@@ -60,6 +90,38 @@ export interface IndexerConfig {
   snowflakeEnabled: boolean;
   /** Optional Census sync configuration (JSON object or path to JSON file) */
   censusConfig?: CensusConfig | string;
+  /** Optional Hightouch export: syncs, models and destinations (JSON object or path to JSON file) */
+  hightouchConfig?: HightouchConfig | string;
+  /** Optional Fivetran connectors export (JSON object or path to JSON file) */
+  fivetranConfig?: FivetranConfig | string;
+  /** Optional LookML project path */
+  lookmlPath?: string;
+  /** Optional directory of Tableau workbooks (.twb/.twbx) */
+  tableauPath?: string;
+  /** Optional Snowflake ACCESS_HISTORY/QUERY_HISTORY export (CSV or JSON) for observed lineage */
+  queryHistoryPath?: string;
+  /** Optional cross-repo linker aliases, identifier rules and confidence threshold (object or path to YAML/JSON file) */
+  linkerConfig?: LinkerConfig | string;
+  /** Per-parser config overrides, keyed by source parser ID */
+  sources?: Record<string, Record<string, unknown>>;
+  /** Only re-parse inputs that changed since the last index and apply node/edge changes in place */
+  incremental?: boolean;
+}
+
+/**
+ * Saved to the job after every completed stage so a failed or cancelled job
+ * can be resumed from its first incomplete stage. Source parser output is
+ * stored separately (jobs.checkpoint_results) since it can be large.
+ */
+export interface JobCheckpoint {
+  config: IndexerConfig;
+  completedStages: string[];
+  incremental: boolean;
+  fingerprints: Record<string, string>;
+  changedSources: string[];
+  changedNodeIds: string[];
+  graphChanged: boolean;
+  changeSummary: string | null;
 }
 
 // Convert domain types to DB types
@@ -73,6 +135,7 @@ function graphNodeToDb(node: GraphNode): Omit<DbNode, "created_at"> {
     repo: node.repo || null,
     metadata: node.metadata ? JSON.stringify(node.metadata) : null,
     sql_content: node.sqlContent || null,
+    compiled_sql: node.compiledSql || null,
     layout_x: node.layoutX ?? null,
     layout_y: node.layoutY ?? null,
     layout_layer: node.layoutLayer ?? null,
@@ -91,6 +154,32 @@ function graphEdgeToDb(edge: GraphEdge): DbEdge {
   };
 }
 
+// Edge IDs are regenerated on every parse, so incremental diffs match on endpoints + type
+function edgeKey(from: string, to: string, type: string): string {
+  return `${from}|${to}|${type}`;
+}
+
+function columnEdgeToDb(edge: ColumnEdge): DbColumnEdge {
+  return {
+    id: uuid(),
+    from_node: edge.fromNode,
+    from_column: edge.fromColumn,
+    to_node: edge.toNode,
+    to_column: edge.toColumn,
+    transform: edge.transform,
+  };
+}
+
+function conflictToDb(conflict: Conflict): Omit<DbConflict, "detected_at"> {
+  return {
+    id: getConflictId(conflict),
+    type: conflict.type,
+    node_ids: JSON.stringify(conflict.nodeIds),
+    message: conflict.message,
+    confidence: conflict.confidence ?? null,
+  };
+}
+
 function citationToDb(citation: Citation): DbCitation {
   return {
     id: citation.id,
@@ -116,15 +205,30 @@ export class Indexer {
   private previousPositions: Map<string, NodePosition> = new Map();
   private previousEdgeCount: number = 0;
   
-  // External systems detected from Airflow DAGs
-  private airflowExternalSystems: ExternalSystemDetection[] = [];
-  
-  // Snowflake discovery results for final summary
-  private snowflakeDiscoveryResult: SnowflakeDiscoveryResult | null = null;
+  // Source parsers for this run, their resolved configs, and the artifacts they published
+  private parsers: SourceParser[];
+  private parserConfigs: Map<string, Record<string, unknown>> = new Map();
+  private artifacts: Map<string, Record<string, unknown>> = new Map();
+
+  // Incremental indexing state
+  private incremental = false;
+  private fingerprints: Record<string, string> = {};
+  private changedSources: Set<string> = new Set();
+  private cachedParseResults: Map<string, string> = new Map();
+  private parseResultsToCache: Map<string, string> = new Map();
+  private changedNodeIds: Set<string> = new Set();
+  private graphChanged = true;
+  private changeSummary: string | null = null;
+
+  // Checkpoint state for resume/cancel
+  private completedStages: Set<string> = new Set();
+  private checkpointResults: Map<string, string> = new Map();
+  private cancelled = false;
 
   constructor(jobId: string, config: IndexerConfig) {
     this.jobId = jobId;
     this.config = config;
+    this.parsers = getSourceParsers();
   }
 
   private log(message: string, stage?: IndexingStageId) {
@@ -150,6 +254,8 @@ export class Indexer {
       this.stageStartTime = Date.now();
     }
 
+    this.checkCancelled();
+
     // Log meaningful progress updates
     if (message) {
       this.log(message, stage);
@@ -168,59 +274,69 @@ export class Indexer {
       // Reset AI usage tracking for this job
       resetUsageTracking();
 
-      // Capture previous layout data for incremental layout support
-      await this.capturePreviousLayout();
-
-      // Clear existing data
-      clearAllData();
-
-      // Stage 1: Compile dbt (if needed)
-      await this.stageDbtCompile();
-
-      // Stage 2: Parse manifest
-      await this.stageParseManifest();
-
-      // Stage 3: Parse Airflow
-      await this.stageParseAirflow();
-
-      // Stage 4: Parse SQL (done within Airflow parsing)
-      this.updateProgress("parse_sql", 100, "SQL dependencies extracted");
-
-      // Stage 5: Parse external systems (exposures, config, detected from DAGs)
-      await this.stageParseExternals();
-
-      // Stage 5.5: Infer external destinations from SQL patterns
-      await this.stageInferExternalDestinations();
-
-      // Stage 5.6: Parse Census reverse ETL configuration
-      await this.stageParseCensus();
-
-      // Stage 6: Snowflake metadata enrichment
-      await this.stageSnowflakeMetadata();
+      // Resolve parser configs and record this run's stage plan for progress reporting
+      for (const parser of this.parsers) {
+        this.parserConfigs.set(parser.id, resolveSourceConfig(parser, this.config));
+      }
+      const stagePlan = buildStagePlan(this.parsers);
+      setJobStages(this.jobId, stagePlan);
 
-      // Stage 7: Snowflake table discovery
-      await this.stageSnowflakeDiscovery();
+      if (this.restoreCheckpoint()) {
+        const resumeFrom = stagePlan.find((s) => !this.completedStages.has(s.id));
+        this.log(`Resuming job from stage: ${resumeFrom?.name ?? "finalize"}`);
+      } else {
+        // Fingerprint inputs and work out what changed (incremental mode only)
+        this.prepareIncrementalRun();
+
+        if (this.incremental && this.changedSources.size === 0) {
+          updateJob(this.jobId, {
+            status: "completed",
+            stage: "complete",
+            stage_progress: 100,
+            message: "Graph is up to date (no input changes since last index)",
+          });
+          return;
+        }
+      }
 
-      // Stage 8: Cross-repo linking
-      await this.stageCrossRepoLink();
+      if (!this.completedStages.has("cross_repo_link")) {
+        // Capture previous layout data for incremental layout support
+        await this.capturePreviousLayout();
 
-      // Stage 6.5: Pre-compute layout (after nodes/edges are stored)
-      await this.stagePrecomputeLayout();
+        // Clear existing data (incremental runs apply changes in place instead)
+        if (!this.incremental) {
+          clearAllData();
+        }
+      }
+      this.saveCheckpoint();
 
-      // Stage 6.6: Semantic layer classification
-      await this.stageSemanticClassification();
+      // Source parsers (dbt, Airflow, externals, Census, Snowflake, ...)
+      await this.runSourceParsers();
 
-      // Stage 6.7: Importance scoring and anchor candidates
-      await this.stageImportanceScoring();
+      // Cross-repo linking, then layout (after nodes/edges are stored)
+      await this.runStage("cross_repo_link", async () => {
+        await this.stageCrossRepoLink();
+        if (this.graphChanged) {
+          await this.stagePrecomputeLayout();
+        }
+      });
 
-      // Stage 7: AI grouping (repurposed for layer naming)
-      await this.stageAiLayerNaming();
+      // Semantic classification, importance scoring and layer naming
+      await this.runStage("ai_grouping", async () => {
+        if (this.graphChanged) {
+          await this.stageSemanticClassification();
+          await this.stageImportanceScoring();
+        } else {
+          this.log("No node or edge changes, keeping existing layout and importance scores");
+        }
+        await this.stageAiLayerNaming();
+      });
 
-      // Stage 8: AI flows
-      await this.stageAiFlows();
+      // AI flows
+      await this.runStage("ai_flows", () => this.stageAiFlows());
 
-      // Stage 9: Pre-compute explanations
-      await this.stagePrecomputeExplanations();
+      // Pre-compute explanations
+      await this.runStage("precompute_explanations", () => this.stagePrecomputeExplanations());
 
       // Clean up orphaned explanations (from nodes that no longer exist)
       const orphanedCount = cleanupOrphanedExplanations();
@@ -228,6 +344,12 @@ export class Indexer {
         this.log(`Cleaned up ${orphanedCount} orphaned explanations`);
       }
 
+      // Remember input fingerprints so the next incremental run can skip unchanged sources
+      this.saveFingerprints();
+
+      // Version the finished graph so it can be diffed against other runs
+      this.saveSnapshot();
+
       // Store AI usage stats
       const usageStats = getAiUsageStats();
       updateUsageStats(this.jobId, usageStats);
@@ -239,19 +361,29 @@ export class Indexer {
         );
       }
 
-      // Mark complete with summary including Snowflake discovery stats
-      const sfStats = this.snowflakeDiscoveryResult?.stats;
-      const sfSummary = sfStats && sfStats.newTablesAdded > 0 
-        ? ` (${sfStats.newTablesAdded} from Snowflake discovery)` 
-        : "";
+      // Parser output is only needed to resume, so drop it once the job is done
+      this.saveCheckpoint(null);
+
+      // Mark complete with summary
+      const changeSummary = this.changeSummary ? ` (incremental: ${this.changeSummary})` : "";
       
       updateJob(this.jobId, {
         status: "completed",
         stage: "complete",
         stage_progress: 100,
-        message: `Indexed ${this.allNodes.length} nodes${sfSummary} and ${this.allEdges.length} edges`,
+        message: `Indexed ${this.allNodes.length} nodes and ${this.allEdges.length} edges${changeSummary}`,
       });
     } catch (error) {
+      if (this.cancelled) {
+        const stageName = this.currentStage ? ` during ${this.currentStage}` : "";
+        this.log(`Indexing cancelled${stageName}`);
+        updateJob(this.jobId, {
+          status: "cancelled",
+          message: `Cancelled${stageName}. Resume to continue from the last completed stage.`,
+        });
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       updateJob(this.jobId, {
         status: "failed",
@@ -261,675 +393,524 @@ export class Indexer {
     }
   }
 
-  private async stageDbtCompile(): Promise<void> {
-    this.updateProgress("dbt_compile", 0, `Checking dbt project at ${this.config.dbtPath}...`);
+  /**
+   * Stop the run if cancellation was requested through the API. Called
+   * between stages and on every progress update within a stage.
+   */
+  private checkCancelled(): void {
+    if (this.cancelled || isJobCancelRequested(this.jobId)) {
+      this.cancelled = true;
+      throw new Error("Indexing cancelled");
+    }
+  }
 
-    const manifestPath = findManifestPath(this.config.dbtPath);
-    
-    if (manifestPath) {
-      this.updateProgress("dbt_compile", 100, "Found existing manifest.json, skipping compile");
+  /**
+   * Run a core stage unless a resumed job already completed it, then
+   * checkpoint it.
+   */
+  private async runStage(stageId: IndexingStageId, stage: () => Promise<void>): Promise<void> {
+    if (this.completedStages.has(stageId)) {
+      this.log(`Skipping ${stageId} (completed before resume)`);
       return;
     }
 
-    // Try to run dbt compile, but don't fail if it doesn't work
-    // (fallback parser will be used in stageParseManifest)
-    this.updateProgress("dbt_compile", 20, "No manifest found, running dbt compile...");
-    
-    try {
-      await new Promise<void>((resolve, reject) => {
-        const proc = spawn("dbt", ["compile"], {
-          cwd: this.config.dbtPath,
-          shell: true,
-        });
+    this.checkCancelled();
+    await stage();
 
-        let output = "";
-        proc.stdout?.on("data", (data) => {
-          output += data.toString();
-        });
-        proc.stderr?.on("data", (data) => {
-          output += data.toString();
-        });
+    this.completedStages.add(stageId);
+    this.saveCheckpoint();
+  }
 
-        proc.on("close", (code) => {
-          if (code === 0) {
-            resolve();
-          } else {
-            reject(new Error(`dbt compile failed: ${output}`));
-          }
-        });
+  /**
+   * Persist the checkpoint. Pass results to also replace the stored parser
+   * output, or null to clear it.
+   */
+  private saveCheckpoint(results?: Map<string, string> | null): void {
+    const checkpoint: JobCheckpoint = {
+      config: this.config,
+      completedStages: [...this.completedStages],
+      incremental: this.incremental,
+      fingerprints: this.fingerprints,
+      changedSources: [...this.changedSources],
+      changedNodeIds: [...this.changedNodeIds],
+      graphChanged: this.graphChanged,
+      changeSummary: this.changeSummary,
+    };
 
-        proc.on("error", reject);
-      });
+    const serializedResults = results === undefined
+      ? undefined
+      : results === null ? null : JSON.stringify(Object.fromEntries(results));
 
-      this.updateProgress("dbt_compile", 100, "dbt compile successful");
-    } catch (error) {
-      // dbt compile failed, but we can continue with fallback parsing
-      console.warn("dbt compile failed, will use fallback SQL file parsing:", error);
-      this.updateProgress("dbt_compile", 100, "dbt compile unavailable, using fallback SQL parser");
-    }
+    saveJobCheckpoint(this.jobId, JSON.stringify(checkpoint), serializedResults);
   }
 
-  private async stageParseManifest(): Promise<void> {
-    this.updateProgress("parse_manifest", 0, "Looking for manifest.json...");
-
-    const manifestPath = findManifestPath(this.config.dbtPath);
-    
-    let result;
-    if (manifestPath) {
-      // Use manifest.json for parsing (preferred)
-      this.updateProgress("parse_manifest", 30, "Parsing dbt manifest...");
-      result = parseDbtManifest(manifestPath, this.config.dbtPath);
-    } else {
-      // Fallback: parse SQL files directly without manifest
-      this.updateProgress("parse_manifest", 30, "No manifest found, using fallback SQL parser...");
-      try {
-        result = parseDbtProjectFallback(this.config.dbtPath);
-        this.updateProgress(
-          "parse_manifest",
-          50,
-          `Fallback parser: found ${result.nodes.length} models from SQL files`
-        );
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        throw new Error(`Failed to parse dbt project (no manifest.json and fallback failed): ${errorMessage}`);
-      }
+  /**
+   * Load the checkpoint left by an earlier attempt at this job, if any.
+   * Before linking, the graph is rebuilt from the saved parser output;
+   * after linking it's read back from the database.
+   */
+  private restoreCheckpoint(): boolean {
+    const job = getJob(this.jobId);
+    if (!job?.checkpoint) return false;
+
+    const checkpoint = JSON.parse(job.checkpoint) as JobCheckpoint;
+    this.completedStages = new Set(checkpoint.completedStages);
+    this.incremental = checkpoint.incremental;
+    this.fingerprints = checkpoint.fingerprints;
+    this.changedSources = new Set(checkpoint.changedSources);
+    this.changedNodeIds = new Set(checkpoint.changedNodeIds);
+    this.graphChanged = checkpoint.graphChanged;
+    this.changeSummary = checkpoint.changeSummary;
+
+    if (this.incremental) {
+      this.loadPreviousFingerprints();
     }
-    
-    this.allNodes.push(...result.nodes);
-    this.allEdges.push(...result.edges);
-    this.allCitations.push(...result.citations);
 
-    this.updateProgress(
-      "parse_manifest",
-      100,
-      `Parsed ${result.nodes.length} dbt models, ${result.edges.length} edges`
-    );
-  }
+    const linked = this.completedStages.has("cross_repo_link");
+    const results = JSON.parse(getJobCheckpointResults(this.jobId) ?? "{}") as Record<string, string>;
 
-  private async stageParseAirflow(): Promise<void> {
-    this.updateProgress("parse_airflow", 0, "Scanning Airflow DAGs...");
+    for (const parser of this.parsers) {
+      if (!this.completedStages.has(parser.id)) continue;
 
-    const result = await parseAirflowDags(
-      this.config.airflowPath,
-      (progress, message) => {
-        this.updateProgress("parse_airflow", progress, message);
+      const serialized = results[parser.id];
+      if (!serialized) {
+        // Output went missing, so run the parser again
+        this.completedStages.delete(parser.id);
+        continue;
       }
-    );
-
-    this.allNodes.push(...result.nodes);
-    this.allEdges.push(...result.edges);
-    this.allCitations.push(...result.citations);
-    
-    // Store detected external systems for later processing
-    this.airflowExternalSystems = result.externalSystems;
-
-    const externalMsg = result.externalSystems.length > 0 
-      ? `, ${result.externalSystems.length} external systems detected` 
-      : "";
-    this.updateProgress(
-      "parse_airflow",
-      100,
-      `Parsed ${result.nodes.length} Airflow tables, ${result.edges.length} DAG edges${externalMsg}`
-    );
-  }
 
-  private async stageSnowflakeMetadata(): Promise<void> {
-    if (!this.config.snowflakeEnabled) {
-      markStageSkipped(this.jobId, "snowflake_metadata");
-      this.updateProgress("snowflake_metadata", 100, "Snowflake integration disabled");
-      return;
+      this.checkpointResults.set(parser.id, serialized);
+      if (parser.cacheable) {
+        this.parseResultsToCache.set(parser.id, serialized);
+      }
+      if (!linked) {
+        this.addParseResult(parser.id, JSON.parse(serialized) as SourceParseResult);
+      }
     }
 
-    const result = await enrichWithSnowflakeMetadata((progress, message) => {
-      this.updateProgress("snowflake_metadata", progress, message);
-    });
-
-    if (result.errors.length > 0) {
-      console.warn("Snowflake enrichment errors:", result.errors);
-      // Mark as skipped if there were connection errors
-      if (result.enrichedCount === 0) {
-        markStageSkipped(this.jobId, "snowflake_metadata");
-      }
+    if (linked) {
+      this.allNodes = getNodes().map((n) => ({
+        ...dbNodeToGraph(n),
+        layoutX: n.layout_x ?? undefined,
+        layoutY: n.layout_y ?? undefined,
+        layoutLayer: n.layout_layer ?? undefined,
+        semanticLayer: (n.semantic_layer as GraphNode["semanticLayer"]) ?? undefined,
+        importanceScore: n.importance_score ?? undefined,
+      }));
+      this.allEdges = getEdges().map(dbEdgeToGraph);
     }
 
-    this.updateProgress(
-      "snowflake_metadata",
-      100,
-      `Enriched ${result.enrichedCount} nodes with Snowflake metadata`
-    );
+    return true;
   }
 
   /**
-   * Discover all tables in Snowflake that aren't already in the graph.
-   * Creates nodes for raw tables and links them to models that reference them.
+   * Fingerprint all inputs and, for incremental runs, work out which sources
+   * changed since the last completed index. Falls back to a full run when
+   * there are no previous fingerprints to compare against.
    */
-  /**
-   * Wait for user to select schemas from the UI.
-   * Polls the job record until selected_schemas is populated.
-   */
-  private async waitForSchemaSelection(): Promise<string[] | null> {
-    const POLL_INTERVAL = 500; // ms
-    const MAX_WAIT = 5 * 60 * 1000; // 5 minutes
-    const startTime = Date.now();
-
-    while (Date.now() - startTime < MAX_WAIT) {
-      const job = getJob(this.jobId);
-      
-      // Check if job was cancelled or failed
-      if (!job || job.status === "failed") {
-        return null;
+  private prepareIncrementalRun(): void {
+    for (const parser of this.parsers) {
+      if (parser.fingerprint) {
+        this.fingerprints[parser.id] = parser.fingerprint(this.parserConfigs.get(parser.id)!);
       }
-      
-      // Check if user submitted selection
-      if (job.status === "running" && job.selected_schemas) {
-        return JSON.parse(job.selected_schemas);
-      }
-      
-      // Wait before polling again
-      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
     }
+    if (!this.config.incremental) return;
 
-    // Timeout - user didn't select in time
-    return null;
-  }
-
-  private async stageSnowflakeDiscovery(): Promise<void> {
-    if (!this.config.snowflakeEnabled) {
-      markStageSkipped(this.jobId, "snowflake_discovery");
-      this.updateProgress("snowflake_discovery", 100, "Snowflake discovery disabled");
+    const previousFingerprints = this.loadPreviousFingerprints();
+    if (Object.keys(previousFingerprints).length === 0) {
+      this.log("No previous index fingerprints found, running full index");
       return;
     }
 
-    // Check for credentials
-    if (!hasSnowflakeCredentials()) {
-      markStageSkipped(this.jobId, "snowflake_discovery");
-      this.log("⚠️ Snowflake credentials not configured");
-      this.updateProgress("snowflake_discovery", 100, "⚠️ Skipped: Credentials not configured");
-      return;
-    }
-
-    this.updateProgress("snowflake_discovery", 5, "Connecting to Snowflake to fetch schemas...");
-
-    const config = getSnowflakeConfig();
+    this.incremental = true;
+    this.changedSources = new Set(diffFingerprints(previousFingerprints, this.fingerprints));
 
-    // Step 1: Connect and get available schemas
-    let availableSchemas: string[];
-    try {
-      await connect(config);
-      const allSchemas = await getSchemas(config.database);
-      
-      // Filter out system and dev/test schemas
-      availableSchemas = allSchemas.filter((schema) => {
-        const upper = schema.toUpperCase();
-        if (upper === "INFORMATION_SCHEMA" || upper === "PUBLIC") return false;
-        if (upper.includes("_DEV") || upper.includes("_TEST")) return false;
-        return true;
-      }).sort();
-
-      await disconnect();
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      markStageSkipped(this.jobId, "snowflake_discovery");
-      this.log(`⚠️ Snowflake connection failed: ${msg}`);
-      this.updateProgress("snowflake_discovery", 100, `⚠️ Skipped: ${msg}`);
-      return;
+    if (this.changedSources.size === 0) {
+      this.log("Incremental run: all inputs unchanged since last index");
+    } else {
+      this.log(`Incremental run: changed inputs: ${[...this.changedSources].join(", ")}`);
     }
+  }
 
-    if (availableSchemas.length === 0) {
-      markStageSkipped(this.jobId, "snowflake_discovery");
-      this.log("⚠️ No schemas found in Snowflake");
-      this.updateProgress("snowflake_discovery", 100, "⚠️ Skipped: No schemas found");
-      return;
+  /**
+   * Read the last completed index's fingerprints and cache its parser output.
+   */
+  private loadPreviousFingerprints(): Record<string, string> {
+    const previousFingerprints: Record<string, string> = {};
+    for (const row of getInputFingerprints()) {
+      previousFingerprints[row.source] = row.fingerprint;
+      if (row.parse_result) {
+        this.cachedParseResults.set(row.source, row.parse_result);
+      }
     }
+    return previousFingerprints;
+  }
 
-    this.log(`Found ${availableSchemas.length} schemas in Snowflake`);
-    this.updateProgress("snowflake_discovery", 10, `Found ${availableSchemas.length} schemas. Waiting for selection...`);
+  /**
+   * Whether a parser can reuse the previous run's output.
+   */
+  private isSourceUnchanged(parser: SourceParser): boolean {
+    return (
+      this.incremental &&
+      !!parser.cacheable &&
+      parser.id in this.fingerprints &&
+      !this.changedSources.has(parser.id) &&
+      this.cachedParseResults.has(parser.id)
+    );
+  }
 
-    // Step 2: Set job to waiting state and wait for user selection
-    setJobWaitingForSchemas(this.jobId, availableSchemas);
+  private saveFingerprints(): void {
+    saveInputFingerprints(Object.entries(this.fingerprints).map(([source, fingerprint]) => ({
+      source,
+      fingerprint,
+      parse_result: this.parseResultsToCache.get(source) ?? this.cachedParseResults.get(source) ?? null,
+    })));
+  }
 
-    const selectedSchemas = await this.waitForSchemaSelection();
+  /**
+   * Store the final graph as a versioned snapshot for /api/diff.
+   * Up-to-date incremental runs skip this since the graph didn't change.
+   */
+  private saveSnapshot(): void {
+    const nodes = getNodes().map(dbNodeToGraph);
+    const edges = getEdges().map(dbEdgeToGraph);
+
+    const snapshot = saveGraphSnapshot({
+      job_id: this.jobId,
+      node_count: nodes.length,
+      edge_count: edges.length,
+      nodes: JSON.stringify(nodes),
+      edges: JSON.stringify(edges),
+    });
+    this.log(`Saved graph snapshot v${snapshot.version}`);
+  }
 
-    if (!selectedSchemas || selectedSchemas.length === 0) {
-      markStageSkipped(this.jobId, "snowflake_discovery");
-      this.log("⚠️ Schema selection cancelled or timed out");
-      this.updateProgress("snowflake_discovery", 100, "⚠️ Skipped: No schemas selected");
-      return;
-    }
+  /**
+   * Run every registered source parser in order. Each parser is its own
+   * stage; its 0-100 progress maps onto the stage's slice of the plan.
+   */
+  private async runSourceParsers(): Promise<void> {
+    for (const parser of this.parsers) {
+      // Restored from the checkpoint when resuming
+      if (this.completedStages.has(parser.id)) {
+        this.log(`Skipping ${parser.id} (completed before resume)`);
+        continue;
+      }
 
-    this.log(`User selected ${selectedSchemas.length} schemas: ${selectedSchemas.slice(0, 5).join(", ")}${selectedSchemas.length > 5 ? "..." : ""}`);
-    this.updateProgress("snowflake_discovery", 15, `Discovering tables from ${selectedSchemas.length} schemas...`);
+      const config = this.parserConfigs.get(parser.id)!;
+      this.updateProgress(parser.id, 0, `${parser.name}...`);
 
-    // Step 3: Run discovery with selected schemas
-    const existingNodeIds = new Set(this.allNodes.map(n => n.id));
+      let result: SourceParseResult;
+      let serialized: string;
+      if (this.isSourceUnchanged(parser)) {
+        serialized = this.cachedParseResults.get(parser.id)!;
+        result = JSON.parse(serialized) as SourceParseResult;
+        this.updateProgress(
+          parser.id,
+          100,
+          `${parser.id} inputs unchanged, reused ${result.nodes.length} nodes, ${result.edges.length} edges from last index`
+        );
+      } else {
+        result = await parser.parse({
+          jobId: this.jobId,
+          config,
+          incremental: this.incremental,
+          nodes: this.allNodes,
+          edges: this.allEdges,
+          artifacts: this.artifacts,
+          reportProgress: (percent, message) => this.updateProgress(parser.id, percent, message),
+          log: (message) => this.log(message, parser.id),
+          markSkipped: () => markStageSkipped(this.jobId, parser.id),
+        });
 
-    const result = await discoverSnowflakeTables(
-      existingNodeIds,
-      this.allNodes,
-      (progress, message) => {
-        // Map 0-100 to 15-100
-        const mappedProgress = 15 + Math.floor(progress * 0.85);
-        this.updateProgress("snowflake_discovery", mappedProgress, message);
-      },
-      selectedSchemas // Pass selected schemas to filter
-    );
+        // Serialize before linking/classification mutate the node objects
+        serialized = JSON.stringify(result);
+        if (parser.cacheable) {
+          this.parseResultsToCache.set(parser.id, serialized);
+        }
+      }
 
-    // Store result for final summary
-    this.snowflakeDiscoveryResult = result;
+      this.addParseResult(parser.id, result);
 
-    // Handle skipped case
-    if (result.skipped) {
-      markStageSkipped(this.jobId, "snowflake_discovery");
-      this.log(`⚠️ Snowflake discovery skipped: ${result.skipReason}`);
-      this.updateProgress("snowflake_discovery", 100, `⚠️ Skipped: ${result.skipReason}`);
-      return;
+      this.checkpointResults.set(parser.id, serialized);
+      this.completedStages.add(parser.id);
+      this.saveCheckpoint(this.checkpointResults);
     }
+  }
 
-    // Log any errors
-    if (result.errors.length > 0) {
-      for (const error of result.errors) {
-        console.warn("Snowflake discovery error:", error);
-      }
+  private addParseResult(parserId: string, result: SourceParseResult): void {
+    this.allNodes.push(...result.nodes);
+    this.allEdges.push(...result.edges);
+    this.allCitations.push(...result.citations);
+    if (result.artifacts) {
+      this.artifacts.set(parserId, result.artifacts);
     }
+  }
 
-    // Add discovered nodes and edges to our collections
-    if (result.nodes.length > 0) {
-      this.allNodes.push(...result.nodes);
-      this.log(`Snowflake discovery: Found ${result.stats.totalTablesInSnowflake} tables across ${result.stats.schemasScanned.length} schemas`);
-      this.log(`Snowflake discovery: Added ${result.stats.newTablesAdded} new tables (${result.stats.tablesAlreadyInGraph} already in graph)`);
-    }
+  /**
+   * Stamp dbt models with the Airflow DAGs whose dbt invocations select them.
+   * Runs after all parsers so either side can come from the parse cache.
+   */
+  private applyAirflowDbtSchedules(): void {
+    const invocations = (this.artifacts.get("airflow")?.dbtInvocations as DbtInvocation[] | undefined) ?? [];
+    const resources = (this.artifacts.get("dbt")?.selectableResources as DbtSelectableResource[] | undefined) ?? [];
+    if (invocations.length === 0) return;
 
-    if (result.edges.length > 0) {
-      this.allEdges.push(...result.edges);
-      this.log(`Snowflake discovery: Created ${result.stats.edgesCreated} edges from SQL references`);
+    if (resources.length === 0) {
+      this.log(`Found ${invocations.length} dbt invocations in Airflow but no dbt manifest to resolve their selectors`);
+      return;
     }
 
-    this.updateProgress(
-      "snowflake_discovery",
-      100,
-      `Discovered ${result.stats.newTablesAdded} tables, ${result.stats.edgesCreated} edges from Snowflake`
-    );
+    const { scheduledCount, unresolved } = applyDbtSchedules(this.allNodes, resources, invocations);
+    this.log(`Scheduled ${scheduledCount} dbt nodes from ${invocations.length} Airflow dbt invocations`);
+    for (const { dagId, taskId, selector } of unresolved) {
+      this.log(`Could not resolve dbt selector "${selector}" in ${dagId}.${taskId}`);
+    }
   }
 
   /**
-   * Parse external systems from multiple sources:
-   * 1. dbt exposures (already parsed in manifest stage)
-   * 2. Airflow DAG detection (already collected in Airflow stage)
-   * 3. externals.yml configuration file
+   * Stamp tables with their observed reads from the query history export,
+   * flagging the ones nobody read within the unused window.
    */
-  private async stageParseExternals(): Promise<void> {
-    this.updateProgress("parse_externals", 0, "Discovering external data consumers...");
+  private applyObservedUsage(): void {
+    const usage = (this.artifacts.get("query_history")?.tableUsage as TableUsage[] | undefined) ?? [];
+    if (usage.length === 0) return;
 
-    let externalNodesCount = 0;
-    let externalEdgesCount = 0;
-
-    // Count external nodes already added from dbt exposures
-    const existingExternalNodes = this.allNodes.filter(n => n.type === "external").length;
-    if (existingExternalNodes > 0) {
-      this.updateProgress("parse_externals", 20, `Found ${existingExternalNodes} external systems from dbt exposures`);
-      externalNodesCount += existingExternalNodes;
+    const usageById = new Map(usage.map((u) => [u.nodeId, u]));
+    let unusedCount = 0;
+    for (const node of this.allNodes) {
+      const tableUsage = usageById.get(node.id);
+      if (!tableUsage) continue;
+      node.metadata = {
+        ...node.metadata,
+        observedReadCount: tableUsage.readCount,
+        lastReadAt: tableUsage.lastReadAt,
+        unused: tableUsage.unused,
+      };
+      if (tableUsage.unused) unusedCount++;
     }
+    this.log(`Flagged ${unusedCount} of ${usage.length} tables as unused from query history`);
+  }
 
-    // Process Airflow-detected external systems
-    if (this.airflowExternalSystems.length > 0) {
-      this.updateProgress("parse_externals", 40, `Processing ${this.airflowExternalSystems.length} external systems from Airflow...`);
-      
-      // Build a lookup map for existing nodes by name
-      const nodesByName = new Map<string, GraphNode>();
-      for (const node of this.allNodes) {
-        nodesByName.set(node.name.toLowerCase(), node);
-      }
-
-      for (const ext of this.airflowExternalSystems) {
-        // Create external node ID
-        const externalId = `external.${ext.type}.${ext.name.toLowerCase().replace(/\s+/g, "_")}`;
-        
-        // Check if this external system already exists (from dbt exposures or config)
-        if (this.allNodes.some(n => n.id === externalId)) {
-          continue;
-        }
-
-        // Create the external node
-        const node: GraphNode = {
-          id: externalId,
-          name: ext.name,
-          type: "external",
-          subtype: ext.type === "reverse_etl" ? "reverse_etl" : 
-                   ext.type === "dashboard" ? "dashboard" : "application",
-          repo: "airflow-dags",
-          metadata: {
-            filePath: ext.detectedFrom,
-            description: `Auto-detected from Airflow DAG patterns`,
-          },
-        };
-        this.allNodes.push(node);
-        externalNodesCount++;
-
-        // Add citation
-        this.allCitations.push({
-          id: uuid(),
-          nodeId: externalId,
-          filePath: ext.detectedFrom,
-        });
+  /**
+   * Merge the columns, tags, policies and PII flags the Snowflake stage
+   * fetched for existing nodes.
+   */
+  private applySnowflakeMetadata(): void {
+    const updates = (this.artifacts.get("snowflake")?.nodeMetadata as Record<string, Partial<NodeMetadata>> | undefined) ?? {};
+    if (Object.keys(updates).length === 0) return;
 
-        // Create edges from consumed tables to this external system
-        for (const tableName of ext.consumesFrom) {
-          const sourceNode = nodesByName.get(tableName.toLowerCase());
-          if (sourceNode) {
-            this.allEdges.push({
-              id: uuid(),
-              from: sourceNode.id,
-              to: externalId,
-              type: "exposure",
-              metadata: {
-                transformationType: "airflow-detected",
-              },
-            });
-            externalEdgesCount++;
-          }
-        }
+    for (const node of this.allNodes) {
+      const update = updates[node.id];
+      if (update) {
+        node.metadata = { ...node.metadata, ...update };
       }
     }
+  }
 
-    // Parse externals.yml configuration
-    this.updateProgress("parse_externals", 60, "Checking for externals.yml configuration...");
-    
-    const configResult = parseExternalSystems(
-      this.config.dbtPath,
+  private async stageCrossRepoLink(): Promise<void> {
+    this.updateProgress("cross_repo_link", 0, `Linking ${this.allNodes.length} entities across repos...`);
+
+    this.applySnowflakeMetadata();
+    this.applyAirflowDbtSchedules();
+    this.applyObservedUsage();
+
+    const { mergedNodes, additionalEdges, conflicts } = linkCrossRepo(
       this.allNodes,
-      (progress, message) => {
-        const mappedProgress = 60 + Math.round(progress * 0.3);
-        this.updateProgress("parse_externals", mappedProgress, message);
-      }
+      this.allEdges,
+      loadLinkerConfig(this.config.linkerConfig)
     );
 
-    if (configResult.nodes.length > 0) {
-      // Deduplicate - only add nodes that don't already exist
-      for (const node of configResult.nodes) {
-        if (!this.allNodes.some(n => n.id === node.id)) {
-          this.allNodes.push(node);
-          externalNodesCount++;
-        }
-      }
+    this.allNodes = mergedNodes;
+    this.allEdges.push(...additionalEdges);
+
+    if (additionalEdges.length > 0) {
+      this.updateProgress("cross_repo_link", 30, `Found ${additionalEdges.length} cross-repo connections`);
+    }
+
+    const resolvedIds = this.applyConflictResolutions();
+    replaceConflicts(conflicts.map(conflictToDb));
+    this.logLinkConflicts(conflicts.filter((c) => !resolvedIds.has(getConflictId(c))));
+
+    if (this.incremental) {
+      this.updateProgress("cross_repo_link", 40, "Comparing against the existing graph...");
+      this.applyIncrementalChanges();
+    } else {
+      // Store nodes and edges in database
+      this.updateProgress("cross_repo_link", 40, `Storing ${this.allNodes.length} nodes in database...`);
+      insertNodes(this.allNodes.map(graphNodeToDb));
       
-      this.allEdges.push(...configResult.edges);
-      this.allCitations.push(...configResult.citations);
-      externalEdgesCount += configResult.edges.length;
+      this.updateProgress("cross_repo_link", 60, `Storing ${this.allEdges.length} edges in database...`);
+      insertEdges(this.allEdges.map(graphEdgeToDb));
+      
+      this.updateProgress("cross_repo_link", 80, `Storing ${this.allCitations.length} source citations...`);
+      insertCitations(this.allCitations.map(citationToDb));
     }
 
-    // Count edges to external systems
-    const externalEdges = this.allEdges.filter(e => e.type === "exposure").length;
+    this.updateProgress("cross_repo_link", 85, "Computing column-level lineage...");
+    this.storeColumnLineage();
 
+    const conflictMsg = conflicts.length > 0 ? `, ${conflicts.length} naming conflicts` : "";
+    const changeMsg = this.changeSummary ? ` (${this.changeSummary})` : "";
     this.updateProgress(
-      "parse_externals",
+      "cross_repo_link",
       100,
-      `Discovered ${externalNodesCount} external consumers with ${externalEdges} connections`
+      `Stored ${this.allNodes.length} nodes, ${this.allEdges.length} edges${conflictMsg}${changeMsg}`
     );
   }
 
   /**
-   * Infer external system destinations from SQL patterns, model names,
-   * column names, and macro usage. This creates edges from mart models
-   * to external systems like Outreach, Brevo, Salesforce, etc.
+   * Reapply the conflict resolutions reviewers stored via /api/conflicts, so
+   * their merges and links survive rebuilds. Returns the resolved conflict IDs.
    */
-  private async stageInferExternalDestinations(): Promise<void> {
-    this.updateProgress("parse_externals", 60, "Inferring external destinations from SQL patterns...");
-
-    // Build SQL content map for all dbt models
-    const sqlContentMap = buildSqlContentMap(this.allNodes, this.config.dbtPath);
-    
-    this.updateProgress("parse_externals", 65, `Loaded SQL content for ${sqlContentMap.size} models`);
-
-    // Create SQL lookup function
-    const getSqlContent = (node: GraphNode): string | null => {
-      return sqlContentMap.get(node.id) || null;
-    };
+  private applyConflictResolutions(): Set<string> {
+    const resolutions = getConflictResolutions().map(dbConflictResolutionToDomain);
+    if (resolutions.length === 0) return new Set();
+
+    const { nodes, edges, mergedIds, applied, stale } = applyConflictResolutions(this.allNodes, this.allEdges, resolutions);
+    this.allNodes = nodes;
+    this.allEdges = edges;
+
+    // Citations follow merged nodes; those of edges a resolution removed go with them
+    const edgeIds = new Set(edges.map((e) => e.id));
+    this.allCitations = this.allCitations
+      .filter((c) => !c.edgeId || edgeIds.has(c.edgeId))
+      .map((c) => (c.nodeId && mergedIds.has(c.nodeId) ? { ...c, nodeId: mergedIds.get(c.nodeId) } : c));
+
+    this.log(`Applied ${applied} conflict resolutions${mergedIds.size > 0 ? `, merging ${mergedIds.size} nodes` : ""}`);
+    if (stale.length > 0) {
+      this.log(`Skipped ${stale.length} conflict resolutions whose nodes are no longer in the graph: ${stale.map((r) => r.conflictId).join(", ")}`);
+    }
+    return new Set(resolutions.map((r) => r.conflictId));
+  }
 
-    // Run inference
-    const inferenceResult = await inferExternalSystems(
-      this.allNodes,
-      getSqlContent,
-      (progress, message) => {
-        // Map 0-100 to 65-95
-        const mappedProgress = 65 + Math.round(progress * 0.30);
-        this.updateProgress("parse_externals", mappedProgress, message);
-      }
-    );
+  /**
+   * List the Airflow ↔ dbt matches the linker didn't link because they scored
+   * below the confidence threshold or matched several models equally.
+   */
+  private logLinkConflicts(conflicts: Conflict[]): void {
+    const unlinked = conflicts.filter((c) => c.type === "low_confidence" || c.type === "ambiguous_match");
+    if (unlinked.length === 0) return;
 
-    // Add new external nodes (deduplicating against existing)
-    const existingNodeIds = new Set(this.allNodes.map(n => n.id));
-    let newNodesCount = 0;
-    for (const node of inferenceResult.nodes) {
-      if (!existingNodeIds.has(node.id)) {
-        this.allNodes.push(node);
-        existingNodeIds.add(node.id);
-        newNodesCount++;
-      }
+    this.log(`${unlinked.length} cross-repo matches not linked (see LINKER_CONFIG_PATH for aliases and threshold)`);
+    for (const conflict of unlinked.slice(0, 10)) {
+      this.log(conflict.message);
     }
-
-    // Add new edges (deduplicating by from+to combination)
-    const existingEdgeKeys = new Set(this.allEdges.map(e => `${e.from}|${e.to}`));
-    let newEdgesCount = 0;
-    for (const edge of inferenceResult.edges) {
-      const key = `${edge.from}|${edge.to}`;
-      if (!existingEdgeKeys.has(key)) {
-        this.allEdges.push(edge);
-        existingEdgeKeys.add(key);
-        newEdgesCount++;
-      }
+    if (unlinked.length > 10) {
+      this.log(`+${unlinked.length - 10} more`);
     }
+  }
 
-    // Add citations
-    this.allCitations.push(...inferenceResult.citations);
-
-    // Log summary
-    const summary = summarizeDetections(inferenceResult);
-    if (newNodesCount > 0 || newEdgesCount > 0) {
-      this.log(`Inferred ${newNodesCount} external systems, ${newEdgesCount} destination edges`);
-      if (summary) {
-        this.log(`External systems: ${summary}`);
-      }
+  /**
+   * Derive column edges from the SQL of every model, table and view in the
+   * linked graph, and from reverse ETL field mappings. They're rebuilt in
+   * full on incremental runs too, since a changed upstream model can change
+   * what a downstream `*` expands to.
+   */
+  private storeColumnLineage(): void {
+    const { columnEdges, stats } = buildColumnLineageGraph(this.allNodes, this.allEdges);
+    replaceColumnEdges(columnEdges.map(columnEdgeToDb));
+
+    this.log(`Derived ${columnEdges.length} column edges from ${stats.analyzedNodes} nodes`);
+    if (stats.unparsedNodes.length > 0) {
+      const sample = stats.unparsedNodes.slice(0, 10).join(", ");
+      const more = stats.unparsedNodes.length > 10 ? `, +${stats.unparsedNodes.length - 10} more` : "";
+      this.log(`Column lineage skipped ${stats.unparsedNodes.length} nodes with unparseable SQL: ${sample}${more}`);
     }
-
-    this.updateProgress(
-      "parse_externals",
-      98,
-      `Inferred ${newNodesCount} external destinations with ${newEdgesCount} edges`
-    );
   }
 
   /**
-   * Parse Census sync configuration to create reverse ETL edges.
-   * This captures "loop-back" patterns where mart models feed external pipelines
-   * that write back to Snowflake tables consumed by staging models.
-   * 
-   * If no censusConfig is provided, attempts to load from data/census.json.
-   * Fails gracefully with a warning if the file is missing or invalid.
+   * Diff the freshly linked graph against the stored one and apply only the
+   * differences: new/modified nodes are upserted, vanished nodes and edges are
+   * deleted. Matching edges keep their stored IDs.
    */
-  private async stageParseCensus(): Promise<void> {
-    this.updateProgress("parse_externals", 85, "Processing Census sync configuration...");
-
-    try {
-      let config: CensusConfig;
-      const fs = await import("fs");
-
-      if (this.config.censusConfig) {
-        // Handle explicitly provided config (string path or object)
-        if (typeof this.config.censusConfig === "string") {
-          const content = fs.readFileSync(this.config.censusConfig, "utf-8");
-          const parsed = JSON.parse(content);
-          
-          const validation = validateCensusConfig(parsed);
-          if (!validation.valid) {
-            this.log(`⚠️ Invalid Census config: ${validation.error}`);
-            return;
-          }
-          
-          config = normalizeCensusResponse(parsed);
-        } else {
-          config = this.config.censusConfig;
-        }
-      } else {
-        // Try to auto-load from default location: data/census.json
-        const defaultPath = join(process.cwd(), "data", "census.json");
-        
-        if (!fs.existsSync(defaultPath)) {
-          this.log(`ℹ️ Census data file not found at ${defaultPath} - skipping Census integration`);
-          return;
-        }
-        
-        const content = fs.readFileSync(defaultPath, "utf-8");
-        const parsed = JSON.parse(content);
-        
-        // Check if the file is just a placeholder (empty syncs array)
-        if (!parsed.syncs || parsed.syncs.length === 0) {
-          this.log(`ℹ️ Census data file is empty - run scripts/export_census_data.py to populate`);
-          return;
-        }
-        
-        const validation = validateCensusConfig(parsed);
-        if (!validation.valid) {
-          this.log(`⚠️ Invalid Census data file: ${validation.error}`);
-          return;
-        }
-        
-        config = normalizeCensusResponse(parsed);
-        this.log(`📊 Loaded Census data from ${defaultPath}`);
-      }
+  private applyIncrementalChanges(): void {
+    const existingNodes = new Map(getNodes().map(n => [n.id, n]));
 
-      const result = parseCensusConfig(
-        config,
-        this.allNodes,
-        (progress, message) => {
-          // Map 0-100 to 85-98
-          const mappedProgress = 85 + Math.round(progress * 0.13);
-          this.updateProgress("parse_externals", mappedProgress, message);
-        }
-      );
+    const upsertNodes: Omit<DbNode, "created_at">[] = [];
+    const staleExplanationIds: string[] = [];
+    let addedNodes = 0;
+    let modifiedNodes = 0;
 
-      // Add new Census node if created
-      for (const node of result.nodes) {
-        if (!this.allNodes.some(n => n.id === node.id)) {
-          this.allNodes.push(node);
-        }
-      }
-
-      // Add Census edges
-      const existingEdgeKeys = new Set(this.allEdges.map(e => `${e.from}|${e.to}`));
-      for (const edge of result.edges) {
-        const key = `${edge.from}|${edge.to}`;
-        if (!existingEdgeKeys.has(key)) {
-          this.allEdges.push(edge);
-          existingEdgeKeys.add(key);
-        }
+    for (const node of this.allNodes) {
+      const row = graphNodeToDb(node);
+      const existing = existingNodes.get(node.id);
+
+      if (!existing) {
+        upsertNodes.push(row);
+        this.changedNodeIds.add(node.id);
+        addedNodes++;
+        continue;
       }
 
-      // Add citations
-      this.allCitations.push(...result.citations);
-
-      // Log detailed results
-      const matchedCount = result.stats.matchedSources.length;
-      this.log(`📊 Census Summary: ${result.stats.syncsProcessed} syncs processed`);
-      this.log(`   🔄 Sync nodes created: ${result.stats.syncNodesCreated}`);
-      this.log(`   ✅ Source matches: ${matchedCount} → ${result.stats.edgesCreated} source edges`);
-      this.log(`   ❌ Unmatched: ${result.stats.unmatchedSources.length} sources (model names not found in graph)`);
-      
-      if (result.stats.loopBacksDetected > 0) {
-        this.log(`   ↩️ Loop-backs: ${result.stats.loopBacksDetected} reverse ETL cycles to Snowflake`);
-      }
-      
-      // Log destination stats
-      if (result.stats.destinationNodesCreated > 0) {
-        this.log(`   📤 Destination nodes: ${result.stats.destinationNodesCreated} (${result.stats.destinationEdgesCreated} edges)`);
-        this.log(`   📍 Systems: ${result.stats.destinationTypes.join(", ")}`);
-        
-        // Show example sync nodes created
-        const syncNodes = result.nodes.filter(n => n.subtype === "census_sync").slice(0, 3);
-        if (syncNodes.length > 0) {
-          const examples = syncNodes.map(n => n.name).join(", ");
-          this.log(`   📝 Example syncs: ${examples}${result.stats.syncNodesCreated > 3 ? "..." : ""}`);
+      const modified =
+        existing.name !== row.name ||
+        existing.type !== row.type ||
+        existing.subtype !== row.subtype ||
+        existing.group_id !== row.group_id ||
+        existing.repo !== row.repo ||
+        existing.metadata !== row.metadata ||
+        existing.sql_content !== row.sql_content ||
+        existing.compiled_sql !== row.compiled_sql;
+
+      if (modified) {
+        upsertNodes.push(row);
+        this.changedNodeIds.add(node.id);
+        modifiedNodes++;
+        if (existing.sql_content !== row.sql_content) {
+          staleExplanationIds.push(node.id);
         }
       }
-
-      // Always write detailed Census matching report
-      const logPath = join(process.cwd(), "data", "logs", "census-matching-report.json");
-      
-      // Ensure logs directory exists
-      const logsDir = join(process.cwd(), "data", "logs");
-      if (!fs.existsSync(logsDir)) {
-        fs.mkdirSync(logsDir, { recursive: true });
-      }
-      
-      fs.writeFileSync(logPath, JSON.stringify({
-        timestamp: new Date().toISOString(),
-        summary: {
-          totalSyncs: result.stats.syncsProcessed,
-          syncNodesCreated: result.stats.syncNodesCreated,
-          matchedSources: matchedCount,
-          unmatchedSources: result.stats.unmatchedSources.length,
-          sourceEdges: result.stats.edgesCreated,
-          loopBacks: result.stats.loopBacksDetected,
-          destinationNodes: result.stats.destinationNodesCreated,
-          destinationEdges: result.stats.destinationEdgesCreated,
-          destinationTypes: result.stats.destinationTypes,
-        },
-        matchedSources: result.stats.matchedSources,
-        unmatchedSources: result.stats.unmatchedSources,
-        unmatchedDestinations: result.stats.unmatchedDestinations,
-      }, null, 2));
-      
-      this.log(`   📝 Full matching report: data/logs/census-matching-report.json`);
-      
-      // Show first few matched for quick reference
-      if (matchedCount > 0) {
-        const examples = result.stats.matchedSources.slice(0, 3)
-          .map(m => `"${m.censusName}" → ${m.matchedNodeName}`)
-          .join(", ");
-        this.log(`   Example matches: ${examples}${matchedCount > 3 ? "..." : ""}`);
-      }
-      
-      // Show first few unmatched for quick reference
-      if (result.stats.unmatchedSources.length > 0) {
-        this.log(`   First few unmatched: ${result.stats.unmatchedSources.slice(0, 5).join(", ")}${result.stats.unmatchedSources.length > 5 ? "..." : ""}`);
-      }
-
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      this.log(`⚠️ Census parsing failed: ${msg}`);
     }
-  }
 
-  private async stageCrossRepoLink(): Promise<void> {
-    this.updateProgress("cross_repo_link", 0, `Linking ${this.allNodes.length} entities across repos...`);
+    const newNodeIds = new Set(this.allNodes.map(n => n.id));
+    const deleteNodeIds = [...existingNodes.keys()].filter(id => !newNodeIds.has(id));
 
-    const { mergedNodes, additionalEdges, conflicts } = linkCrossRepo(
-      this.allNodes,
-      this.allEdges
-    );
+    // Group stored edges by key so duplicate edges are matched one-to-one
+    const existingEdges = new Map<string, DbEdge[]>();
+    for (const edge of getEdges()) {
+      const key = edgeKey(edge.from_node, edge.to_node, edge.type);
+      if (!existingEdges.has(key)) existingEdges.set(key, []);
+      existingEdges.get(key)!.push(edge);
+    }
 
-    this.allNodes = mergedNodes;
-    this.allEdges.push(...additionalEdges);
+    const upsertEdges: DbEdge[] = [];
+    let addedEdges = 0;
 
-    if (additionalEdges.length > 0) {
-      this.updateProgress("cross_repo_link", 30, `Found ${additionalEdges.length} cross-repo connections`);
+    for (const edge of this.allEdges) {
+      const match = existingEdges.get(edgeKey(edge.from, edge.to, edge.type))?.shift();
+      if (match) {
+        edge.id = match.id;
+        const row = graphEdgeToDb(edge);
+        if (row.metadata !== match.metadata) {
+          upsertEdges.push(row);
+        }
+      } else {
+        upsertEdges.push(graphEdgeToDb(edge));
+        addedEdges++;
+      }
     }
 
-    // Store nodes and edges in database
-    this.updateProgress("cross_repo_link", 40, `Storing ${this.allNodes.length} nodes in database...`);
-    insertNodes(this.allNodes.map(graphNodeToDb));
-    
-    this.updateProgress("cross_repo_link", 60, `Storing ${this.allEdges.length} edges in database...`);
-    insertEdges(this.allEdges.map(graphEdgeToDb));
-    
-    this.updateProgress("cross_repo_link", 80, `Storing ${this.allCitations.length} source citations...`);
-    insertCitations(this.allCitations.map(citationToDb));
+    const deleteEdgeIds = [...existingEdges.values()].flat().map(e => e.id);
 
-    const conflictMsg = conflicts.length > 0 ? `, ${conflicts.length} naming conflicts resolved` : "";
-    this.updateProgress(
-      "cross_repo_link",
-      100,
-      `Stored ${this.allNodes.length} nodes, ${this.allEdges.length} edges${conflictMsg}`
-    );
+    applyGraphChanges({
+      upsertNodes,
+      deleteNodeIds,
+      upsertEdges,
+      deleteEdgeIds,
+      citations: this.allCitations.map(citationToDb),
+      staleExplanationIds,
+    });
+
+    this.graphChanged =
+      upsertNodes.length > 0 ||
+      deleteNodeIds.length > 0 ||
+      addedEdges > 0 ||
+      deleteEdgeIds.length > 0;
+    this.changeSummary =
+      `+${addedNodes} ~${modifiedNodes} -${deleteNodeIds.length} nodes, ` +
+      `+${addedEdges} -${deleteEdgeIds.length} edges`;
+    this.log(`Incremental changes applied: ${this.changeSummary}`);
   }
 
   /**
@@ -1109,6 +1090,11 @@ export class Indexer {
   }
 
   private async stageAiLayerNaming(): Promise<void> {
+    if (this.incremental) {
+      this.updateProgress("ai_grouping", 100, "Keeping existing layer names (incremental run)");
+      return;
+    }
+
     this.updateProgress("ai_grouping", 40, "Generating meaningful layer names...");
 
     const hasApiKey = !!process.env.OPENAI_API_KEY;
@@ -1181,6 +1167,12 @@ export class Indexer {
   }
 
   private async stageAiFlows(): Promise<void> {
+    if (this.incremental) {
+      markStageSkipped(this.jobId, "ai_flows");
+      this.updateProgress("ai_flows", 100, "Keeping existing flows (incremental run)");
+      return;
+    }
+
     this.updateProgress("ai_flows", 0, "Proposing data flows...");
 
     let flows;
@@ -1223,12 +1215,13 @@ export class Indexer {
   private async stagePrecomputeExplanations(): Promise<void> {
     this.updateProgress("precompute_explanations", 0, "Identifying key models for explanation...");
 
-    // Get key nodes (marts, reports, P1 priority)
+    // Get key nodes (marts, reports, P1 priority); incremental runs only re-explain changed ones
     const keyNodes = this.allNodes.filter(
       (n) =>
-        n.name.startsWith("mart_") ||
-        n.name.startsWith("rpt_") ||
-        n.metadata?.tags?.includes("p1")
+        (n.name.startsWith("mart_") ||
+          n.name.startsWith("rpt_") ||
+          n.metadata?.tags?.includes("p1")) &&
+        (!this.incremental || this.changedNodeIds.has(n.id))
     ).slice(0, 20); // Limit to top 20 for MVP to save time/cost
 
     const hasApiKey = !!process.env.OPENAI_API_KEY;
@@ -1,5 +1,42 @@
-import type { GraphNode, GraphEdge } from "../types";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import * as yaml from "js-yaml";
+import type { GraphNode, GraphEdge, Conflict, ConflictResolution } from "../types";
 import { v4 as uuid } from "uuid";
+import { cleanTableReference } from "./tableResolver";
+
+/**
+ * Linker configuration
+ *
+ * Example linker.yml:
+ * ```yaml
+ * databaseAliases:
+ *   dev_rippling_dwh: prod_rippling_dwh   # alias: canonical name
+ * schemaAliases:
+ *   analytics_legacy: analytics
+ * identifierRules:
+ *   - pattern: "_v[0-9]+$"              # orders_v2 matches orders
+ *     replacement: ""
+ * confidenceThreshold: 0.7
+ * ```
+ */
+export interface LinkerConfig {
+  /** Database name → canonical database name (e.g. dev → prod) */
+  databaseAliases?: Record<string, string>;
+  /** Schema name → canonical schema name (e.g. a renamed schema → its new name) */
+  schemaAliases?: Record<string, string>;
+  /** Regex rewrites applied to unquoted, lowercased table names before matching */
+  identifierRules?: IdentifierRule[];
+  /** Matches scoring below this (0-1) are reported as conflicts instead of linked */
+  confidenceThreshold?: number;
+}
+
+export interface IdentifierRule {
+  pattern: string;
+  replacement?: string;
+}
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.7;
 
 export interface LinkResult {
   mergedNodes: GraphNode[];
@@ -7,10 +44,62 @@ export interface LinkResult {
   conflicts: Conflict[];
 }
 
-export interface Conflict {
-  type: "duplicate_name" | "schema_mismatch" | "type_mismatch";
-  nodeIds: string[];
-  message: string;
+
+/**
+ * A possible Airflow ↔ dbt match, scored 0-1
+ */
+export interface LinkCandidate {
+  dbtNodeId: string;
+  airflowNodeId: string;
+  confidence: number;
+  /** Why the score is below 1, e.g. "schema unknown" */
+  reasons: string[];
+}
+
+// A node's table identity after quote stripping, aliasing and identifier rules
+interface TableIdentity {
+  database?: string;
+  schema?: string;
+  name: string;
+  /** Whether an identifier rule changed the name */
+  rewritten: boolean;
+  aliased: { database: boolean; schema: boolean };
+}
+
+/**
+ * Load the linker config from the configured object/path, LINKER_CONFIG_PATH,
+ * or data/linker.yml. No file means no aliases and the default threshold.
+ */
+export function loadLinkerConfig(linkerConfig?: LinkerConfig | string): LinkerConfig {
+  if (typeof linkerConfig === "object") {
+    return validateLinkerConfig(linkerConfig);
+  }
+
+  const path = linkerConfig || process.env.LINKER_CONFIG_PATH || join(process.cwd(), "data", "linker.yml");
+  if (!existsSync(path)) {
+    if (linkerConfig || process.env.LINKER_CONFIG_PATH) {
+      throw new Error(`Linker config not found at ${path}`);
+    }
+    return {};
+  }
+
+  // YAML is a superset of JSON, so linker.json works too
+  return validateLinkerConfig((yaml.load(readFileSync(path, "utf-8")) ?? {}) as LinkerConfig);
+}
+
+function validateLinkerConfig(config: LinkerConfig): LinkerConfig {
+  const threshold = config.confidenceThreshold;
+  if (threshold !== undefined && (typeof threshold !== "number" || threshold < 0 || threshold > 1)) {
+    throw new Error(`Linker confidenceThreshold must be a number between 0 and 1, got ${JSON.stringify(threshold)}`);
+  }
+  for (const rule of config.identifierRules ?? []) {
+    try {
+      new RegExp(rule.pattern);
+    } catch {
+      throw new Error(`Invalid linker identifier rule pattern: ${rule.pattern}`);
+    }
+  }
+  return config;
 }
 
 /**
@@ -18,7 +107,8 @@ export interface Conflict {
  */
 export function linkCrossRepo(
   nodes: GraphNode[],
-  edges: GraphEdge[]
+  edges: GraphEdge[],
+  config: LinkerConfig = {}
 ): LinkResult {
   const conflicts: Conflict[] = [];
   const nodeById = new Map<string, GraphNode>();
@@ -36,7 +126,9 @@ export function linkCrossRepo(
       nodeById.set(node.id, node);
     }
 
-    // By short name (for conflict detection)
+    // By short name (for conflict detection). DAGs aren't tables, so a DAG
+    // named like a model isn't a conflict
+    if (node.type === "dag") continue;
     const nameKey = node.name.toLowerCase();
     if (!nodesByName.has(nameKey)) {
       nodesByName.set(nameKey, []);
@@ -61,39 +153,62 @@ export function linkCrossRepo(
   // Try to match Airflow tables to dbt models
   const additionalEdges: GraphEdge[] = [];
   const mergedNodes = [...nodeById.values()];
+  const threshold = config.confidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
 
-  // Build a lookup by short name for cross-repo matching
-  const dbtNodesByName = new Map<string, GraphNode>();
-  const airflowNodesByName = new Map<string, GraphNode>();
+  // Build a lookup by normalized name for cross-repo matching
+  const dbtNodesByName = new Map<string, Array<{ node: GraphNode; identity: TableIdentity }>>();
+  const airflowNodes: Array<{ node: GraphNode; identity: TableIdentity }> = [];
 
   for (const node of mergedNodes) {
     if (node.repo === "rippling-dbt") {
-      dbtNodesByName.set(node.name.toLowerCase(), node);
-    } else if (node.repo === "airflow-dags") {
-      airflowNodesByName.set(node.name.toLowerCase(), node);
+      const identity = getTableIdentity(node, config);
+      if (!dbtNodesByName.has(identity.name)) dbtNodesByName.set(identity.name, []);
+      dbtNodesByName.get(identity.name)!.push({ node, identity });
+    } else if (node.repo === "airflow-dags" && (node.type === "table" || node.type === "view")) {
+      // DAG nodes share the repo but aren't tables, so they never match models
+      airflowNodes.push({ node, identity: getTableIdentity(node, config) });
     }
   }
 
   // Create materialization edges where Airflow references dbt models
-  for (const [name, airflowNode] of airflowNodesByName) {
-    const dbtNode = dbtNodesByName.get(name);
-    if (dbtNode && dbtNode.id !== airflowNode.id) {
-      // Check if they could be the same table
-      const airflowSchema = airflowNode.metadata?.schema?.toLowerCase();
-      const dbtSchema = dbtNode.metadata?.schema?.toLowerCase();
-
-      if (!airflowSchema || !dbtSchema || airflowSchema === dbtSchema) {
-        // Create a materialization edge (dbt defines, Airflow might read)
-        additionalEdges.push({
-          id: uuid(),
-          from: dbtNode.id,
-          to: airflowNode.id,
-          type: "materialization",
-          metadata: {
-            transformationType: "cross-repo-link",
-          },
-        });
-      }
+  for (const airflow of airflowNodes) {
+    const candidates = (dbtNodesByName.get(airflow.identity.name) ?? [])
+      .filter((dbt) => dbt.node.id !== airflow.node.id)
+      .map((dbt) => scoreMatch(dbt, airflow))
+      .sort((a, b) => b.confidence - a.confidence);
+    if (candidates.length === 0) continue;
+
+    const [best] = candidates;
+    const tied = candidates.filter((c) => c.confidence === best.confidence);
+
+    if (best.confidence < threshold) {
+      conflicts.push({
+        type: "low_confidence",
+        nodeIds: [best.dbtNodeId, best.airflowNodeId],
+        message: `Airflow table ${best.airflowNodeId} may be dbt model ${best.dbtNodeId} ` +
+          `(confidence ${best.confidence.toFixed(2)}: ${best.reasons.join(", ")}), not linked`,
+        confidence: best.confidence,
+      });
+    } else if (tied.length > 1) {
+      conflicts.push({
+        type: "ambiguous_match",
+        nodeIds: [airflow.node.id, ...tied.map((c) => c.dbtNodeId)],
+        message: `Airflow table ${airflow.node.id} matches ${tied.length} dbt models equally ` +
+          `(${tied.map((c) => c.dbtNodeId).join(", ")}), not linked`,
+        confidence: best.confidence,
+      });
+    } else {
+      // Create a materialization edge (dbt defines, Airflow might read)
+      additionalEdges.push({
+        id: uuid(),
+        from: best.dbtNodeId,
+        to: best.airflowNodeId,
+        type: "materialization",
+        metadata: {
+          transformationType: "cross-repo-link",
+          linkConfidence: best.confidence,
+        },
+      });
     }
   }
 
@@ -104,6 +219,227 @@ export function linkCrossRepo(
   };
 }
 
+/**
+ * Stable conflict ID, so a resolution still matches the conflict when the
+ * next index detects it again
+ */
+export function getConflictId(conflict: Pick<Conflict, "type" | "nodeIds">): string {
+  return `${conflict.type}:${[...conflict.nodeIds].sort().join(",")}`;
+}
+
+export interface ResolutionResult {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** Merged node ID → the node it was merged into */
+  mergedIds: Map<string, string>;
+  applied: number;
+  /** Resolutions whose nodes are no longer in the graph */
+  stale: ConflictResolution[];
+}
+
+/**
+ * Apply stored conflict resolutions to the linked graph: merge nodes into
+ * their target (edges follow), drop linker edges between nodes kept
+ * separate, and add the edges of link resolutions.
+ */
+export function applyConflictResolutions(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  resolutions: ConflictResolution[]
+): ResolutionResult {
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const mergedIds = new Map<string, string>();
+  const stale: ConflictResolution[] = [];
+  let resolvedEdges = edges;
+  let applied = 0;
+
+  // Follow merges, since a node may have been merged by an earlier resolution
+  const currentId = (id: string): string => {
+    let current = id;
+    while (mergedIds.has(current)) current = mergedIds.get(current)!;
+    return current;
+  };
+
+  for (const resolution of resolutions) {
+    const presentIds = [...new Set(resolution.nodeIds.map(currentId))].filter((id) => nodeById.has(id));
+
+    if (resolution.action === "merge") {
+      const targetId = resolution.targetId ? currentId(resolution.targetId) : "";
+      const target = nodeById.get(targetId);
+      const mergeIds = presentIds.filter((id) => id !== targetId);
+      if (!target || mergeIds.length === 0) {
+        stale.push(resolution);
+        continue;
+      }
+
+      let merged = target;
+      for (const id of mergeIds) {
+        merged = mergeInto(merged, nodeById.get(id)!);
+        nodeById.delete(id);
+        mergedIds.set(id, targetId);
+      }
+      nodeById.set(targetId, merged);
+    } else if (resolution.action === "keep_separate") {
+      if (presentIds.length < 2) {
+        stale.push(resolution);
+        continue;
+      }
+
+      const separateIds = new Set(presentIds);
+      resolvedEdges = resolvedEdges.filter(
+        (e) => !(e.metadata?.transformationType === "cross-repo-link" && separateIds.has(e.from) && separateIds.has(e.to))
+      );
+    } else {
+      const from = resolution.from ? currentId(resolution.from) : "";
+      const to = resolution.to ? currentId(resolution.to) : "";
+      if (!nodeById.has(from) || !nodeById.has(to) || from === to || !resolution.edgeType) {
+        stale.push(resolution);
+        continue;
+      }
+
+      if (!resolvedEdges.some((e) => e.from === from && e.to === to && e.type === resolution.edgeType)) {
+        resolvedEdges = [
+          ...resolvedEdges,
+          {
+            id: uuid(),
+            from,
+            to,
+            type: resolution.edgeType,
+            metadata: {
+              transformationType: "cross-repo-link",
+              inferredFrom: "conflict-resolution",
+            },
+          },
+        ];
+      }
+    }
+    applied++;
+  }
+
+  // Point edges at merge targets, dropping self-loops and edges that now duplicate another
+  if (mergedIds.size > 0) {
+    const edgeKey = (e: GraphEdge) => `${e.from}|${e.to}|${e.type}`;
+    const keys = new Set(resolvedEdges.filter((e) => !mergedIds.has(e.from) && !mergedIds.has(e.to)).map(edgeKey));
+    resolvedEdges = resolvedEdges.flatMap((e) => {
+      if (!mergedIds.has(e.from) && !mergedIds.has(e.to)) return [e];
+      const rewired = { ...e, from: currentId(e.from), to: currentId(e.to) };
+      if (rewired.from === rewired.to || keys.has(edgeKey(rewired))) return [];
+      keys.add(edgeKey(rewired));
+      return [rewired];
+    });
+  }
+
+  return {
+    nodes: [...nodeById.values()],
+    edges: resolvedEdges,
+    mergedIds: new Map([...mergedIds.keys()].map((id) => [id, currentId(id)])),
+    applied,
+    stale,
+  };
+}
+
+/**
+ * Fold a node into a merge target: the target keeps its ID, name and type,
+ * and the other node fills in metadata and SQL the target lacks
+ */
+function mergeInto(target: GraphNode, other: GraphNode): GraphNode {
+  return {
+    ...target,
+    sqlContent: target.sqlContent ?? other.sqlContent,
+    compiledSql: target.compiledSql ?? other.compiledSql,
+    metadata: {
+      ...other.metadata,
+      ...target.metadata,
+      columns: target.metadata?.columns || other.metadata?.columns,
+      tags: [
+        ...(target.metadata?.tags || []),
+        ...(other.metadata?.tags || []),
+      ].filter((v, i, a) => a.indexOf(v) === i),
+    },
+  };
+}
+
+/**
+ * Database, schema and name of a node's table, from its metadata or else its
+ * FQN, canonicalized with the configured aliases and identifier rules
+ */
+function getTableIdentity(node: GraphNode, config: LinkerConfig): TableIdentity {
+  const idParts = cleanTableReference(node.id).split(".");
+  const database = cleanTableReference(node.metadata?.database ?? (idParts.length === 3 ? idParts[0] : ""));
+  const schema = cleanTableReference(node.metadata?.schema ?? (idParts.length >= 2 ? idParts[idParts.length - 2] : ""));
+
+  let name = cleanTableReference(node.name);
+  for (const rule of config.identifierRules ?? []) {
+    name = name.replace(new RegExp(rule.pattern, "g"), rule.replacement ?? "");
+  }
+
+  const canonicalDatabase = database ? lookupAlias(config.databaseAliases, database) : undefined;
+  const canonicalSchema = schema ? lookupAlias(config.schemaAliases, schema) : undefined;
+
+  return {
+    database: canonicalDatabase,
+    schema: canonicalSchema,
+    name,
+    rewritten: name !== cleanTableReference(node.name),
+    aliased: {
+      database: !!canonicalDatabase && canonicalDatabase !== database,
+      schema: !!canonicalSchema && canonicalSchema !== schema,
+    },
+  };
+}
+
+// Alias maps are matched case-insensitively
+function lookupAlias(aliases: Record<string, string> | undefined, value: string): string {
+  if (!aliases) return value;
+  const key = Object.keys(aliases).find((alias) => alias.toLowerCase() === value);
+  return key ? aliases[key].toLowerCase() : value;
+}
+
+/**
+ * Score a name match: 1 when database and schema agree exactly, lower when
+ * they only agree through an alias, are unknown on one side, or differ
+ */
+function scoreMatch(
+  dbt: { node: GraphNode; identity: TableIdentity },
+  airflow: { node: GraphNode; identity: TableIdentity }
+): LinkCandidate {
+  let confidence = 1;
+  const reasons: string[] = [];
+
+  if (dbt.identity.rewritten || airflow.identity.rewritten) {
+    confidence *= 0.9;
+    reasons.push("name matched by identifier rule");
+  }
+
+  // A different schema is far more telling than a different database (dev vs
+  // prod), which on its own still clears the default threshold
+  const weights = {
+    schema: { unknown: 0.8, mismatch: 0.3 },
+    database: { unknown: 0.9, mismatch: 0.8 },
+  };
+  for (const part of ["schema", "database"] as const) {
+    const dbtValue = dbt.identity[part];
+    const airflowValue = airflow.identity[part];
+    if (!dbtValue || !airflowValue) {
+      confidence *= weights[part].unknown;
+      reasons.push(`${part} unknown`);
+    } else if (dbtValue !== airflowValue) {
+      confidence *= weights[part].mismatch;
+      reasons.push(`${part} differs (${dbtValue} vs ${airflowValue})`);
+    } else if (dbt.identity.aliased[part] || airflow.identity.aliased[part]) {
+      confidence *= 0.95;
+      reasons.push(`${part} matched by alias`);
+    }
+  }
+
+  return {
+    dbtNodeId: dbt.node.id,
+    airflowNodeId: airflow.node.id,
+    confidence: Math.round(confidence * 100) / 100,
+    reasons,
+  };
+}
+
 /**
  * Merge two nodes with the same FQN, preferring dbt metadata
  */
@@ -0,0 +1,607 @@
+/**
+ * LookML Parser
+ *
+ * Parses a Looker (LookML) project so BI consumers are part of the graph:
+ * - views: the table behind `sql_table_name`, or the tables a derived table's SQL reads
+ * - explores: the views they start from and join
+ * - dashboards (`*.dashboard.lookml`) and looks (`looks.json`, a Looker API
+ *   /looks export): the explores their tiles query
+ *
+ * Creates exposure edges along Snowflake table → view → explore → dashboard/look.
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync } from "fs";
+import { basename, dirname, join, relative } from "path";
+import * as yaml from "js-yaml";
+import { v4 as uuid } from "uuid";
+import type { GraphNode, GraphEdge, Citation } from "../types";
+import { parseSql } from "../parsers/sqlParser";
+import { TableResolver } from "./tableResolver";
+
+// ============================================================================
+// LookML syntax
+// ============================================================================
+
+// A `key: value` pair or `key: name { ... }` / `key: { ... }` block
+export interface LookmlEntry {
+  key: string;
+  value?: string;
+  name?: string;
+  children?: LookmlEntry[];
+  line: number;
+}
+
+// Keys whose values are SQL/HTML terminated by `;;`
+const SQL_VALUE_KEY = /^(sql\w*|\w+_sql|html|expression)$/;
+
+class LookmlReader {
+  private pos = 0;
+  private readonly lineStarts: number[] = [0];
+
+  constructor(private readonly source: string) {
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === "\n") this.lineStarts.push(i + 1);
+    }
+  }
+
+  private lineAt(position: number): number {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= position) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos];
+      if (ch === "#") {
+        const newline = this.source.indexOf("\n", this.pos);
+        this.pos = newline < 0 ? this.source.length : newline;
+      } else if (/\s/.test(ch)) {
+        this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private readString(): string {
+    const quote = this.source[this.pos++];
+    let value = "";
+    while (this.pos < this.source.length && this.source[this.pos] !== quote) {
+      if (this.source[this.pos] === "\\") this.pos++;
+      value += this.source[this.pos++];
+    }
+    this.pos++;
+    return value;
+  }
+
+  private readUntil(terminator: string): string {
+    const end = this.source.indexOf(terminator, this.pos);
+    const stop = end < 0 ? this.source.length : end;
+    const value = this.source.slice(this.pos, stop);
+    this.pos = stop + terminator.length;
+    return value.trim();
+  }
+
+  /**
+   * Read entries until the closing brace of the current block (or EOF).
+   */
+  readEntries(): LookmlEntry[] {
+    const entries: LookmlEntry[] = [];
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.pos >= this.source.length) return entries;
+      if (this.source[this.pos] === "}") {
+        this.pos++;
+        return entries;
+      }
+
+      const keyMatch = /^([A-Za-z_]\w*)\s*:/.exec(this.source.slice(this.pos, this.pos + 200));
+      if (!keyMatch) {
+        // Not an entry (stray token); skip it
+        this.pos++;
+        continue;
+      }
+
+      const key = keyMatch[1];
+      const line = this.lineAt(this.pos);
+      this.pos += keyMatch[0].length;
+      this.skipWhitespace();
+
+      const ch = this.source[this.pos];
+      if (SQL_VALUE_KEY.test(key)) {
+        entries.push({ key, value: this.readUntil(";;"), line });
+      } else if (ch === "{") {
+        this.pos++;
+        entries.push({ key, children: this.readEntries(), line });
+      } else if (ch === '"' || ch === "'") {
+        entries.push({ key, value: this.readString(), line });
+      } else if (ch === "[") {
+        this.pos++;
+        entries.push({ key, value: this.readUntil("]"), line });
+      } else {
+        const token = /^[^\s{}]+/.exec(this.source.slice(this.pos, this.pos + 500))?.[0] ?? "";
+        this.pos += token.length;
+        this.skipWhitespace();
+        if (this.source[this.pos] === "{") {
+          this.pos++;
+          entries.push({ key, name: token, children: this.readEntries(), line });
+        } else {
+          entries.push({ key, value: token, line });
+        }
+      }
+    }
+  }
+}
+
+export function parseLookml(source: string): LookmlEntry[] {
+  return new LookmlReader(source).readEntries();
+}
+
+function child(entries: LookmlEntry[] | undefined, key: string): LookmlEntry | undefined {
+  return entries?.find((e) => e.key === key);
+}
+
+// `[a, b]` list values (already unwrapped by the reader) -> ["a", "b"]
+function listValue(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim().replace(/^["']|["']$/g, ""))
+    .filter(Boolean);
+}
+
+// ============================================================================
+// Project model
+// ============================================================================
+
+export interface LookmlView {
+  name: string;
+  filePath: string;
+  line: number;
+  sqlTableName?: string;
+  derivedSql?: string;
+  exploreSource?: string;      // Native derived table: the explore it queries
+  extends: string[];
+}
+
+export interface LookmlExplore {
+  name: string;
+  model?: string;
+  filePath: string;
+  line: number;
+  label?: string;
+  views: string[];             // Base view first, then joined views
+}
+
+export interface LookmlDashboard {
+  name: string;
+  title?: string;
+  filePath: string;
+  line?: number;
+  explores: Array<{ model?: string; explore: string }>;
+}
+
+export interface LookerLook {
+  id: string;
+  title: string;
+  model?: string;
+  explore?: string;
+}
+
+export interface LookmlParseResult {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  citations: Citation[];
+  stats: {
+    views: number;
+    explores: number;
+    dashboards: number;
+    looks: number;
+    tableEdges: number;
+    unresolvedTables: string[];
+    unresolvedExplores: string[];
+  };
+}
+
+// Recursively find LookML files (skipping hidden directories)
+function findLookmlFiles(dir: string): string[] {
+  const results: string[] = [];
+  if (!existsSync(dir)) return results;
+
+  for (const entry of readdirSync(dir)) {
+    if (entry.startsWith(".") || entry === "node_modules") continue;
+    const fullPath = join(dir, entry);
+    if (statSync(fullPath).isDirectory()) {
+      results.push(...findLookmlFiles(fullPath));
+    } else if (entry.endsWith(".lkml") || entry.endsWith(".lookml")) {
+      results.push(fullPath);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Turn a model's `include:` pattern into a regex over project-relative paths.
+ * Patterns may omit the extension ("/views/*.view") and use * and ** globs.
+ */
+function includePattern(pattern: string, modelDir: string): RegExp | null {
+  if (pattern.startsWith("//")) return null; // Remote project imports
+
+  const path = pattern.startsWith("/") ? pattern.slice(1) : join(modelDir, pattern);
+  const escaped = path
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*\*\//g, "(?:.*/)?")
+    .replace(/\*/g, "[^/]*");
+  const extension = /\\\.(lkml|lookml)$/.test(escaped) ? "" : "(?:\\.lkml|\\.lookml)?";
+  return new RegExp(`^${escaped}${extension}$`);
+}
+
+function readView(entry: LookmlEntry, filePath: string): LookmlView {
+  const derived = child(entry.children, "derived_table");
+  const exploreSource = child(derived?.children, "explore_source");
+  return {
+    name: entry.name!.replace(/^\+/, ""),
+    filePath,
+    line: entry.line,
+    sqlTableName: child(entry.children, "sql_table_name")?.value,
+    derivedSql: child(derived?.children, "sql")?.value,
+    exploreSource: exploreSource?.name ?? exploreSource?.value,
+    extends: listValue(child(entry.children, "extends")?.value),
+  };
+}
+
+function readExplore(entry: LookmlEntry, filePath: string, model?: string): LookmlExplore {
+  const name = entry.name!.replace(/^\+/, "");
+  const baseView = child(entry.children, "from")?.value ?? child(entry.children, "view_name")?.value ?? name;
+  const joinedViews = (entry.children ?? [])
+    .filter((e) => e.key === "join" && e.name)
+    .map((join) => child(join.children, "from")?.value ?? join.name!);
+
+  return {
+    name,
+    model,
+    filePath,
+    line: entry.line,
+    label: child(entry.children, "label")?.value,
+    views: [...new Set([baseView, ...joinedViews])],
+  };
+}
+
+// LookML dashboards are YAML: a list of dashboards whose elements name a model and explore
+function readDashboards(source: string, filePath: string): LookmlDashboard[] {
+  const parsed = yaml.load(source);
+  const dashboards = (Array.isArray(parsed) ? parsed : [parsed]) as Array<Record<string, unknown> | null>;
+
+  return dashboards
+    .filter((d): d is Record<string, unknown> => Boolean(d && typeof d.dashboard === "string"))
+    .map((dashboard) => {
+      const name = dashboard.dashboard as string;
+      const elements = [
+        ...((dashboard.elements as Array<Record<string, unknown>>) ?? []),
+        ...((dashboard.filters as Array<Record<string, unknown>>) ?? []),
+      ];
+      const explores = elements
+        .filter((e) => e && typeof e.explore === "string")
+        .map((e) => ({ model: typeof e.model === "string" ? e.model : undefined, explore: e.explore as string }));
+
+      const lineIndex = source.split("\n").findIndex((line) => new RegExp(`dashboard:\\s*${name}\\s*$`).test(line));
+      return {
+        name,
+        title: typeof dashboard.title === "string" ? dashboard.title : undefined,
+        filePath,
+        line: lineIndex >= 0 ? lineIndex + 1 : undefined,
+        explores,
+      };
+    });
+}
+
+// looks.json: the Looker API /looks response (optionally wrapped in { data })
+function readLooks(path: string): LookerLook[] {
+  const parsed = JSON.parse(readFileSync(path, "utf-8"));
+  const looks = (Array.isArray(parsed) ? parsed : parsed.data ?? parsed.looks ?? []) as Array<Record<string, unknown>>;
+
+  return looks
+    .filter((look) => look && look.id !== undefined)
+    .map((look) => {
+      const query = (look.query ?? {}) as Record<string, unknown>;
+      return {
+        id: String(look.id),
+        title: typeof look.title === "string" ? look.title : `Look ${look.id}`,
+        model: typeof query.model === "string" ? query.model : undefined,
+        explore: typeof query.view === "string" ? query.view : undefined,
+      };
+    });
+}
+
+// ============================================================================
+// Main Parser Function
+// ============================================================================
+
+/**
+ * Parse a LookML project and link it to the tables already in the graph.
+ */
+export function parseLookmlProject(
+  lookmlPath: string,
+  existingNodes: readonly GraphNode[],
+  onProgress?: (percent: number, message: string) => void
+): LookmlParseResult {
+  const result: LookmlParseResult = {
+    nodes: [],
+    edges: [],
+    citations: [],
+    stats: {
+      views: 0,
+      explores: 0,
+      dashboards: 0,
+      looks: 0,
+      tableEdges: 0,
+      unresolvedTables: [],
+      unresolvedExplores: [],
+    },
+  };
+
+  if (!existsSync(lookmlPath)) {
+    throw new Error(`LookML project not found at ${lookmlPath}`);
+  }
+
+  onProgress?.(0, "Finding LookML files...");
+  const files = findLookmlFiles(lookmlPath);
+
+  const views = new Map<string, LookmlView>();
+  const explores: LookmlExplore[] = [];
+  const dashboards: LookmlDashboard[] = [];
+  // Explores outside model files belong to the model(s) that include them
+  const modelIncludes: Array<{ model: string; patterns: RegExp[] }> = [];
+  const unassignedExplores: Array<{ entry: LookmlEntry; filePath: string }> = [];
+
+  for (const file of files) {
+    const relPath = relative(lookmlPath, file);
+    const source = readFileSync(file, "utf-8");
+
+    if (file.endsWith(".dashboard.lookml")) {
+      try {
+        dashboards.push(...readDashboards(source, relPath));
+      } catch {
+        // Skip dashboards that aren't valid YAML
+      }
+      continue;
+    }
+
+    const model = file.endsWith(".model.lkml") ? basename(file, ".model.lkml") : undefined;
+    const entries = parseLookml(source);
+
+    if (model) {
+      const patterns = entries
+        .filter((e) => e.key === "include" && e.value)
+        .map((e) => includePattern(e.value!, dirname(relPath)))
+        .filter((p): p is RegExp => p !== null);
+      modelIncludes.push({ model, patterns });
+    }
+
+    for (const entry of entries) {
+      if (entry.key === "view" && entry.name) {
+        const view = readView(entry, relPath);
+        const existing = views.get(view.name);
+        // Refinements (view: +name) add to the original; keep the first table definition
+        views.set(view.name, existing
+          ? {
+              ...existing,
+              sqlTableName: existing.sqlTableName ?? view.sqlTableName,
+              derivedSql: existing.derivedSql ?? view.derivedSql,
+              exploreSource: existing.exploreSource ?? view.exploreSource,
+              extends: [...existing.extends, ...view.extends],
+            }
+          : view);
+      } else if (entry.key === "explore" && entry.name) {
+        if (model) explores.push(readExplore(entry, relPath, model));
+        else unassignedExplores.push({ entry, filePath: relPath });
+      }
+    }
+  }
+
+  for (const { entry, filePath } of unassignedExplores) {
+    const owner = modelIncludes.find((m) => m.patterns.some((p) => p.test(filePath)));
+    explores.push(readExplore(entry, filePath, owner?.model));
+  }
+
+  let looks: LookerLook[] = [];
+  const looksPath = join(lookmlPath, "looks.json");
+  if (existsSync(looksPath)) {
+    looks = readLooks(looksPath);
+  }
+
+  onProgress?.(40, `Found ${views.size} views, ${explores.length} explores, ${dashboards.length} dashboards, ${looks.length} looks`);
+
+  const resolver = new TableResolver(existingNodes);
+  const createdEdges = new Set<string>();
+  const addEdge = (from: string, to: string, inferredFrom: string) => {
+    const key = `${from}|${to}`;
+    if (createdEdges.has(key) || from === to) return;
+    createdEdges.add(key);
+    result.edges.push({ id: uuid(), from, to, type: "exposure", metadata: { inferredFrom } });
+  };
+  const addNode = (node: GraphNode, filePath: string, line?: number) => {
+    result.nodes.push(node);
+    result.citations.push({ id: uuid(), nodeId: node.id, filePath: join(lookmlPath, filePath), startLine: line });
+  };
+
+  const viewNodeId = (name: string) => `looker.view.${name.toLowerCase()}`;
+  const exploreNodeId = (explore: LookmlExplore) =>
+    `looker.explore.${explore.model ? `${explore.model.toLowerCase()}.` : ""}${explore.name.toLowerCase()}`;
+  const findExplore = (name: string, model?: string) =>
+    explores.find((e) => e.name === name && (!model || !e.model || e.model === model));
+
+  const resolveTable = (reference: string, viewId: string) => {
+    const node = resolver.resolve(reference);
+    if (!node) {
+      if (!result.stats.unresolvedTables.includes(reference)) result.stats.unresolvedTables.push(reference);
+      return;
+    }
+    addEdge(node.id, viewId, "lookml-view");
+    result.stats.tableEdges++;
+  };
+
+  // Views inherit their table from the views they extend
+  const tableSourceOf = (view: LookmlView, seen = new Set<string>()): LookmlView => {
+    if (view.sqlTableName || view.derivedSql || view.exploreSource || seen.has(view.name)) return view;
+    seen.add(view.name);
+    for (const parent of view.extends) {
+      const base = views.get(parent);
+      if (base) {
+        const source = tableSourceOf(base, seen);
+        if (source.sqlTableName || source.derivedSql || source.exploreSource) return source;
+      }
+    }
+    return view;
+  };
+
+  // =========================================================================
+  // Views: table(s) → view
+  // =========================================================================
+  for (const view of views.values()) {
+    const viewId = viewNodeId(view.name);
+    const source = tableSourceOf(view);
+
+    addNode({
+      id: viewId,
+      name: view.name,
+      type: "external",
+      subtype: "looker_view",
+      repo: "looker",
+      sqlContent: source.derivedSql,
+      metadata: {
+        description: source.derivedSql || source.exploreSource
+          ? `Looker derived table${source.exploreSource ? ` from explore ${source.exploreSource}` : ""}`
+          : `Looker view on ${source.sqlTableName ?? view.name}`,
+        filePath: view.filePath,
+        lineStart: view.line,
+        tags: ["looker", "view"],
+      },
+      semanticLayer: "external",
+    }, view.filePath, view.line);
+    result.stats.views++;
+
+    if (source.derivedSql) {
+      // ${other_view.SQL_TABLE_NAME} reads another (usually derived) view
+      const sql = source.derivedSql
+        .replace(/\$\{\s*(\w+)\.SQL_TABLE_NAME\s*\}/g, (_, referenced: string) => {
+          if (views.has(referenced)) {
+            addEdge(viewNodeId(referenced), viewId, "lookml-derived-table");
+          } else {
+            const reference = `${referenced}.SQL_TABLE_NAME`;
+            if (!result.stats.unresolvedTables.includes(reference)) result.stats.unresolvedTables.push(reference);
+          }
+          return `__looker_view__${referenced}`;
+        })
+        .replace(/\{%[\s\S]*?%\}/g, " ")
+        .replace(/\{\{[\s\S]*?\}\}/g, "1");
+      for (const table of parseSql(sql).sourceTables) {
+        if (!table.includes("__looker_view__")) resolveTable(table, viewId);
+      }
+    } else if (source.exploreSource) {
+      const explore = findExplore(source.exploreSource);
+      if (explore) addEdge(exploreNodeId(explore), viewId, "lookml-explore-source");
+    } else {
+      // Looker defaults sql_table_name to the view name
+      const table = (source.sqlTableName ?? view.name).replace(/\{\{[\s\S]*?\}\}|\{%[\s\S]*?%\}/g, "").trim();
+      if (table) resolveTable(table, viewId);
+    }
+  }
+
+  onProgress?.(70, "Linking explores, dashboards and looks...");
+
+  // =========================================================================
+  // Explores: views → explore
+  // =========================================================================
+  for (const explore of explores) {
+    const exploreId = exploreNodeId(explore);
+    addNode({
+      id: exploreId,
+      name: explore.label ?? explore.name,
+      type: "external",
+      subtype: "looker_explore",
+      repo: "looker",
+      metadata: {
+        description: `Looker explore${explore.model ? ` in model ${explore.model}` : ""} joining ${explore.views.join(", ")}`,
+        filePath: explore.filePath,
+        lineStart: explore.line,
+        lookerModel: explore.model,
+        tags: ["looker", "explore"],
+      },
+      semanticLayer: "external",
+    }, explore.filePath, explore.line);
+    result.stats.explores++;
+
+    for (const viewName of explore.views) {
+      if (views.has(viewName)) addEdge(viewNodeId(viewName), exploreId, "lookml-explore");
+    }
+  }
+
+  // =========================================================================
+  // Dashboards and looks: explores → consumer
+  // =========================================================================
+  const linkConsumer = (consumerId: string, model: string | undefined, exploreName: string | undefined) => {
+    if (!exploreName) return;
+    const explore = findExplore(exploreName, model);
+    if (explore) {
+      addEdge(exploreNodeId(explore), consumerId, "lookml-dashboard");
+    } else {
+      const key = model ? `${model}.${exploreName}` : exploreName;
+      if (!result.stats.unresolvedExplores.includes(key)) result.stats.unresolvedExplores.push(key);
+    }
+  };
+
+  for (const dashboard of dashboards) {
+    const dashboardId = `looker.dashboard.${dashboard.name.toLowerCase()}`;
+    addNode({
+      id: dashboardId,
+      name: dashboard.title ?? dashboard.name,
+      type: "external",
+      subtype: "dashboard",
+      repo: "looker",
+      metadata: {
+        description: `Looker dashboard${dashboard.title ? ` "${dashboard.title}"` : ""}`,
+        filePath: dashboard.filePath,
+        lineStart: dashboard.line,
+        tags: ["looker", "dashboard"],
+      },
+      semanticLayer: "external",
+    }, dashboard.filePath, dashboard.line);
+    result.stats.dashboards++;
+
+    for (const { model, explore } of dashboard.explores) {
+      linkConsumer(dashboardId, model, explore);
+    }
+  }
+
+  for (const look of looks) {
+    const lookId = `looker.look.${look.id}`;
+    addNode({
+      id: lookId,
+      name: look.title,
+      type: "external",
+      subtype: "looker_look",
+      repo: "looker",
+      metadata: {
+        description: `Looker look${look.explore ? ` on explore ${look.explore}` : ""}`,
+        lookerModel: look.model,
+        tags: ["looker", "look"],
+      },
+      semanticLayer: "external",
+    }, "looks.json");
+    result.stats.looks++;
+
+    linkConsumer(lookId, look.model, look.explore);
+  }
+
+  onProgress?.(100, `Parsed ${result.stats.views} views, ${result.stats.explores} explores, ${result.stats.dashboards} dashboards, ${result.stats.looks} looks`);
+
+  return result;
+}
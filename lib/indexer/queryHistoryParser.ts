@@ -0,0 +1,346 @@
+/**
+ * Snowflake Query History Parser
+ *
+ * Derives "observed" lineage from an export of SNOWFLAKE.ACCOUNT_USAGE views:
+ * - ACCESS_HISTORY: DIRECT_OBJECTS_ACCESSED (reads) and OBJECTS_MODIFIED (writes)
+ * - QUERY_HISTORY: QUERY_TEXT, parsed for the tables it reads and writes
+ *
+ * Static parsing only sees code in the repos; this catches the ad-hoc jobs,
+ * notebooks and service accounts that read and write tables too. Queries that
+ * write become table → table edges, read-only queries become table → user
+ * edges, each with query counts, last-seen time and the users/roles involved.
+ *
+ * Exports are CSV (with a header row) or JSON (an array of rows, or { data: [...] }).
+ */
+
+import { readFileSync } from "fs";
+import { v4 as uuid } from "uuid";
+import type { GraphNode, GraphEdge } from "../types";
+import { parseSql } from "../parsers/sqlParser";
+import { parseCsv } from "../parsers/csvParser";
+import { TableResolver } from "./tableResolver";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// One query, normalized from either view
+export interface QueryHistoryRecord {
+  queryId?: string;
+  startTime?: string;           // ISO timestamp
+  user?: string;
+  role?: string;
+  reads: string[];              // Table references read
+  writes: string[];             // Table references written
+}
+
+// Observed reads of a table already in the graph
+export interface TableUsage {
+  nodeId: string;
+  readCount: number;
+  lastReadAt?: string;
+  unused: boolean;              // No reads within the unused window
+}
+
+export interface QueryHistoryParseResult {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  usage: TableUsage[];
+  asOf?: string;                // Latest query in the export; the unused window ends here
+  stats: {
+    queries: number;
+    observedEdges: number;
+    users: number;
+    unusedTables: number;
+    unresolvedTables: string[];
+  };
+}
+
+// Object domains in ACCESS_HISTORY that are tables (skips stages, functions, ...)
+const TABLE_DOMAINS = new Set(["table", "view", "materialized view", "external table", "dynamic table", "stream"]);
+
+// Node types that can be read, and so can be unused
+const READABLE_NODE_TYPES = new Set<GraphNode["type"]>(["model", "source", "seed", "table", "view"]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Export Formats
+// ============================================================================
+
+/**
+ * Read an export file into raw rows (keys as exported, e.g. QUERY_ID).
+ */
+export function readQueryHistoryFile(path: string): Array<Record<string, unknown>> {
+  const text = readFileSync(path, "utf-8").replace(/^\uFEFF/, "");
+
+  if (!path.toLowerCase().endsWith(".csv")) {
+    const parsed = JSON.parse(text);
+    const rows = Array.isArray(parsed) ? parsed : parsed.data ?? parsed.rows;
+    if (!Array.isArray(rows)) {
+      throw new Error("Expected a JSON array of query history rows (or { data: [...] })");
+    }
+    return rows;
+  }
+
+  return parseCsv(text);
+}
+
+// Snowflake exports upper-case column names; accept any case
+function getField(row: Record<string, unknown>, ...names: string[]): unknown {
+  for (const name of names) {
+    for (const key of Object.keys(row)) {
+      if (key.toLowerCase() === name) return row[key];
+    }
+  }
+  return undefined;
+}
+
+function getString(row: Record<string, unknown>, ...names: string[]): string | undefined {
+  const value = getField(row, ...names);
+  return value === undefined || value === null || value === "" ? undefined : String(value);
+}
+
+// ACCESS_HISTORY object columns: [{ objectName, objectDomain, columns }], as JSON or a JSON string
+function getAccessedObjects(row: Record<string, unknown>, name: string): string[] | undefined {
+  let value = getField(row, name);
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!Array.isArray(value)) return undefined;
+
+  return (value as Array<Record<string, unknown>>)
+    .filter((o) => typeof o?.objectName === "string")
+    .filter((o) => typeof o.objectDomain !== "string" || TABLE_DOMAINS.has(o.objectDomain.toLowerCase()))
+    .map((o) => o.objectName as string);
+}
+
+function toIsoTimestamp(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  // Snowflake CSV exports look like "2024-05-01 12:34:56.789 -0700"
+  const normalized = value.trim().replace(/^(\d{4}-\d{2}-\d{2}) /, "$1T").replace(/ ([+-]\d{2}):?(\d{2})$/, "$1:$2");
+  const time = Date.parse(normalized);
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Normalize raw ACCESS_HISTORY / QUERY_HISTORY rows. Rows with access columns
+ * use them; otherwise the query text is parsed. Failed queries are dropped.
+ */
+export function normalizeQueryHistory(rows: Array<Record<string, unknown>>): {
+  records: QueryHistoryRecord[];
+  skipped: number;
+} {
+  const records: QueryHistoryRecord[] = [];
+  let skipped = 0;
+
+  for (const row of rows) {
+    const status = getString(row, "execution_status");
+    if (status && status.toUpperCase() !== "SUCCESS") {
+      skipped++;
+      continue;
+    }
+
+    let reads = getAccessedObjects(row, "direct_objects_accessed") ?? getAccessedObjects(row, "base_objects_accessed");
+    let writes = getAccessedObjects(row, "objects_modified");
+
+    if (!reads && !writes) {
+      const queryText = getString(row, "query_text");
+      if (queryText) {
+        const parsed = parseSql(queryText);
+        reads = parsed.sourceTables;
+        writes = parsed.targetTables;
+      }
+    }
+
+    if (!reads?.length && !writes?.length) {
+      skipped++;
+      continue;
+    }
+
+    records.push({
+      queryId: getString(row, "query_id"),
+      startTime: toIsoTimestamp(getString(row, "query_start_time", "start_time")),
+      user: getString(row, "user_name"),
+      role: getString(row, "role_name"),
+      reads: reads ?? [],
+      writes: writes ?? [],
+    });
+  }
+
+  return { records, skipped };
+}
+
+// ============================================================================
+// Main Parser Function
+// ============================================================================
+
+interface EdgeAggregate {
+  from: string;
+  to: string;
+  access: "read" | "write";
+  queryCount: number;
+  lastSeenAt?: string;
+  users: Set<string>;
+  roles: Set<string>;
+}
+
+function later(a: string | undefined, b: string | undefined): string | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+/**
+ * Derive observed edges and table usage from normalized query records.
+ *
+ * Tables resolve against the graph the same way BI tools do; references
+ * that don't resolve are counted but don't create nodes.
+ */
+export function deriveObservedLineage(
+  records: QueryHistoryRecord[],
+  existingNodes: readonly GraphNode[],
+  unusedDays: number,
+  onProgress?: (percent: number, message: string) => void
+): QueryHistoryParseResult {
+  const result: QueryHistoryParseResult = {
+    nodes: [],
+    edges: [],
+    usage: [],
+    stats: {
+      queries: records.length,
+      observedEdges: 0,
+      users: 0,
+      unusedTables: 0,
+      unresolvedTables: [],
+    },
+  };
+
+  const resolver = new TableResolver(existingNodes);
+  const resolved = new Map<string, string | null>();
+  const resolve = (reference: string): string | null => {
+    if (!resolved.has(reference)) {
+      const node = resolver.resolve(reference);
+      resolved.set(reference, node?.id ?? null);
+      if (!node) result.stats.unresolvedTables.push(reference);
+    }
+    return resolved.get(reference)!;
+  };
+
+  const aggregates = new Map<string, EdgeAggregate>();
+  const actors = new Map<string, { name: string; roles: Set<string>; queryCount: number }>();
+  const reads = new Map<string, { count: number; lastReadAt?: string }>();
+
+  const observe = (from: string, to: string, access: "read" | "write", record: QueryHistoryRecord) => {
+    const key = `${from}|${to}|${access}`;
+    let aggregate = aggregates.get(key);
+    if (!aggregate) {
+      aggregate = { from, to, access, queryCount: 0, users: new Set(), roles: new Set() };
+      aggregates.set(key, aggregate);
+    }
+    aggregate.queryCount++;
+    aggregate.lastSeenAt = later(aggregate.lastSeenAt, record.startTime);
+    if (record.user) aggregate.users.add(record.user);
+    if (record.role) aggregate.roles.add(record.role);
+  };
+
+  const actorNodeId = (record: QueryHistoryRecord): string => {
+    const name = record.user ?? record.role ?? "unknown";
+    const id = `observed.user.${name.toLowerCase()}`;
+    const actor = actors.get(id) ?? { name, roles: new Set<string>(), queryCount: 0 };
+    actor.queryCount++;
+    if (record.role) actor.roles.add(record.role);
+    actors.set(id, actor);
+    return id;
+  };
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    result.asOf = later(result.asOf, record.startTime);
+
+    const writes = [...new Set(record.writes.map(resolve).filter((id): id is string => id !== null))];
+    // A table read and written by one query (MERGE, INSERT ... SELECT from itself) is a write
+    const readIds = [...new Set(record.reads.map(resolve).filter((id): id is string => id !== null))]
+      .filter((id) => !writes.includes(id));
+
+    for (const id of readIds) {
+      const usage = reads.get(id) ?? { count: 0 };
+      usage.count++;
+      usage.lastReadAt = later(usage.lastReadAt, record.startTime);
+      reads.set(id, usage);
+    }
+
+    if (writes.length > 0) {
+      // Writes with nothing read in the graph (COPY INTO, INSERT VALUES) come from the user
+      const sources = readIds.length > 0 ? readIds : [actorNodeId(record)];
+      for (const from of sources) {
+        for (const to of writes) observe(from, to, "write", record);
+      }
+    } else if (readIds.length > 0) {
+      const actorId = actorNodeId(record);
+      for (const from of readIds) observe(from, actorId, "read", record);
+    }
+
+    if ((i + 1) % 1000 === 0) {
+      onProgress?.(Math.round(((i + 1) / records.length) * 80), `Processed ${i + 1}/${records.length} queries`);
+    }
+  }
+
+  // Only users that ended up on an edge become nodes
+  const usedActors = new Set([...aggregates.values()].flatMap((a) => [a.from, a.to]));
+  for (const [id, actor] of actors) {
+    if (!usedActors.has(id)) continue;
+    result.nodes.push({
+      id,
+      name: actor.name,
+      type: "external",
+      subtype: "query_consumer",
+      repo: "snowflake",
+      metadata: {
+        description: `Snowflake user seen in query history (${actor.queryCount} queries)`,
+        observedRoles: [...actor.roles],
+        tags: ["observed"],
+      },
+      semanticLayer: "external",
+    });
+  }
+  result.stats.users = result.nodes.length;
+
+  for (const aggregate of aggregates.values()) {
+    result.edges.push({
+      id: uuid(),
+      from: aggregate.from,
+      to: aggregate.to,
+      type: "observed",
+      metadata: {
+        observedAccess: aggregate.access,
+        queryCount: aggregate.queryCount,
+        lastSeenAt: aggregate.lastSeenAt,
+        users: [...aggregate.users],
+        roles: [...aggregate.roles],
+        inferredFrom: "query-history",
+      },
+    });
+  }
+  result.stats.observedEdges = result.edges.length;
+
+  // Without timestamps there's no window, so only never-read tables count as unused
+  const cutoff = result.asOf ? new Date(Date.parse(result.asOf) - unusedDays * DAY_MS).toISOString() : undefined;
+  for (const node of existingNodes) {
+    if (!READABLE_NODE_TYPES.has(node.type) || node.metadata?.materialization === "ephemeral") continue;
+
+    const usage = reads.get(node.id);
+    const unused = !usage || (cutoff !== undefined && usage.lastReadAt !== undefined && usage.lastReadAt < cutoff);
+    result.usage.push({ nodeId: node.id, readCount: usage?.count ?? 0, lastReadAt: usage?.lastReadAt, unused });
+    if (unused) result.stats.unusedTables++;
+  }
+
+  onProgress?.(100, `Derived ${result.stats.observedEdges} observed edges from ${records.length} queries`);
+
+  return result;
+}
@@ -1,30 +1,132 @@
 import {
   connect,
   batchGetMetadata,
+  batchGetGovernance,
   disconnect,
   getAllTables,
+  getNativeObjects,
   SnowflakeConfig,
   TableMetadata,
+  TableGovernance,
   TableInfo,
-} from "../snowflake/client";
-import { getDb } from "../db";
-import type { GraphNode, GraphEdge, ColumnInfo } from "../types";
+  isOfflineMode,
+} from "../snowflake";
+import type { GraphNode, GraphEdge, ColumnInfo, NodeMetadata, GovernanceTag } from "../types";
+import { buildNativeObjectLineage } from "./snowflakeNativeParser";
 import { v4 as uuid } from "uuid";
 
 export interface SnowflakeEnrichResult {
   enrichedCount: number;
+  /** Nodes with at least one PII column or a PII tag */
+  piiNodeCount: number;
   newNodes: GraphNode[];
+  /** Metadata to merge into existing nodes, by node ID */
+  metadataUpdates: Record<string, Partial<NodeMetadata>>;
   errors: string[];
 }
 
+// Tag names/values that mark data as sensitive (CONTAINS_PII, PII_TYPE=EMAIL, ...)
+const PII_TAG_PATTERN = /(^|_)(pii|phi|sensitive|personal|confidential)(_|$)/i;
+const NEGATIVE_TAG_VALUES = new Set(["false", "no", "none", "n"]);
+
+/**
+ * Whether a tag marks its object or column as PII: any classification
+ * privacy category (IDENTIFIER, QUASI_IDENTIFIER, SENSITIVE), or a custom tag
+ * whose name or value says PII/sensitive.
+ */
+export function isPiiTag(tag: GovernanceTag): boolean {
+  if (tag.name.toUpperCase() === "SNOWFLAKE.CORE.PRIVACY_CATEGORY") return true;
+  if (NEGATIVE_TAG_VALUES.has(tag.value.toLowerCase())) return false;
+  const tagName = tag.name.split(".").pop() ?? tag.name;
+  return PII_TAG_PATTERN.test(tagName) || PII_TAG_PATTERN.test(tag.value);
+}
+
 /**
- * Enrich existing nodes with Snowflake metadata
+ * Build a node's column list from Snowflake (keeping existing descriptions
+ * where Snowflake has no comment) with tags, policies and PII flags applied.
+ * A masked column counts as PII even when it isn't tagged.
+ */
+function buildColumnMetadata(
+  existingColumns: ColumnInfo[] | undefined,
+  table: TableMetadata | undefined,
+  governance: TableGovernance | undefined
+): Partial<NodeMetadata> {
+  const existingDescriptions = new Map((existingColumns ?? []).map((c) => [c.name.toLowerCase(), c.description]));
+  const baseColumns: ColumnInfo[] = table
+    ? table.columns.map((c) => ({
+        name: c.name,
+        type: c.type,
+        description: c.comment || existingDescriptions.get(c.name.toLowerCase()),
+      }))
+    : existingColumns ?? [];
+
+  if (!governance) {
+    return { columns: baseColumns };
+  }
+
+  const tagsByColumn = new Map<string, GovernanceTag[]>();
+  for (const [column, tags] of governance.columnTags) {
+    tagsByColumn.set(column.toLowerCase(), tags);
+  }
+  const maskingByColumn = new Map<string, string>();
+  for (const policy of governance.policies) {
+    if (policy.column && policy.kind === "MASKING_POLICY") {
+      maskingByColumn.set(policy.column.toLowerCase(), policy.name);
+    }
+  }
+
+  const columns = baseColumns.map((column): ColumnInfo => {
+    const tags = tagsByColumn.get(column.name.toLowerCase());
+    const maskingPolicy = maskingByColumn.get(column.name.toLowerCase());
+    const pii = !!maskingPolicy || (tags ?? []).some(isPiiTag);
+    return {
+      ...column,
+      ...(tags ? { tags } : {}),
+      ...(maskingPolicy ? { maskingPolicy } : {}),
+      ...(pii ? { pii } : {}),
+    };
+  });
+
+  const piiColumns = columns.filter((c) => c.pii).map((c) => c.name);
+  const containsPii = piiColumns.length > 0 || governance.tags.some(isPiiTag);
+
+  return {
+    columns,
+    snowflakeTags: governance.tags.length > 0 ? governance.tags : undefined,
+    policies: governance.policies.length > 0 ? governance.policies : undefined,
+    containsPii: containsPii || undefined,
+    piiColumns: piiColumns.length > 0 ? piiColumns : undefined,
+  };
+}
+
+/**
+ * Fetch tags and policies for a batch, returning undefined if the role can't
+ * read ACCOUNT_USAGE so callers can carry on with column metadata alone.
+ */
+async function tryGetGovernance(
+  batch: Array<{ database: string; schema: string; table: string }>,
+  errors: string[]
+): Promise<Map<string, TableGovernance> | undefined> {
+  try {
+    return await batchGetGovernance(batch);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    errors.push(`Governance metadata unavailable: ${msg}`);
+    return undefined;
+  }
+}
+
+/**
+ * Fetch Snowflake metadata (columns, comments, tags, policies) for existing
+ * nodes, returned as per-node metadata updates
  */
 export async function enrichWithSnowflakeMetadata(
+  nodes: readonly GraphNode[],
   onProgress?: (percent: number, message: string) => void
 ): Promise<SnowflakeEnrichResult> {
   const errors: string[] = [];
   const newNodes: GraphNode[] = [];
+  const metadataUpdates: Record<string, Partial<NodeMetadata>> = {};
 
   // Get config from environment
   const config: SnowflakeConfig = {
@@ -36,9 +138,9 @@ export async function enrichWithSnowflakeMetadata(
     role: process.env.SNOWFLAKE_ROLE,
   };
 
-  if (!config.account || !config.username) {
+  if (!hasSnowflakeCredentials()) {
     onProgress?.(100, "Snowflake credentials not configured, skipping");
-    return { enrichedCount: 0, newNodes: [], errors: ["Snowflake credentials not configured"] };
+    return { enrichedCount: 0, piiNodeCount: 0, newNodes: [], metadataUpdates, errors: ["Snowflake credentials not configured"] };
   }
 
   onProgress?.(5, "Connecting to Snowflake...");
@@ -49,21 +151,13 @@ export async function enrichWithSnowflakeMetadata(
     const msg = error instanceof Error ? error.message : String(error);
     errors.push(msg);
     onProgress?.(100, `Snowflake connection failed: ${msg}`);
-    return { enrichedCount: 0, newNodes: [], errors };
+    return { enrichedCount: 0, piiNodeCount: 0, newNodes: [], metadataUpdates, errors };
   }
 
   onProgress?.(15, "Connected. Fetching node list...");
 
-  // Get all nodes from database
-  const db = getDb();
-  const nodes = db.prepare("SELECT id, name, metadata FROM nodes").all() as Array<{
-    id: string;
-    name: string;
-    metadata: string | null;
-  }>;
-
   // Parse FQNs to get database/schema/table
-  const tablesToFetch: Array<{ database: string; schema: string; table: string; nodeId: string }> = [];
+  const tablesToFetch: Array<{ database: string; schema: string; table: string; node: GraphNode }> = [];
 
   for (const node of nodes) {
     const parts = node.id.split(".");
@@ -72,7 +166,7 @@ export async function enrichWithSnowflakeMetadata(
         database: parts[0].toUpperCase(),
         schema: parts[1].toUpperCase(),
         table: parts[2].toUpperCase(),
-        nodeId: node.id,
+        node,
       });
     }
   }
@@ -82,6 +176,8 @@ export async function enrichWithSnowflakeMetadata(
   // Batch fetch in chunks to avoid overwhelming Snowflake
   const BATCH_SIZE = 100;
   let enrichedCount = 0;
+  let piiNodeCount = 0;
+  let governanceAvailable = true;
 
   for (let i = 0; i < tablesToFetch.length; i += BATCH_SIZE) {
     const batch = tablesToFetch.slice(i, i + BATCH_SIZE);
@@ -89,39 +185,27 @@ export async function enrichWithSnowflakeMetadata(
     onProgress?.(progress, `Fetching batch ${Math.floor(i / BATCH_SIZE) + 1}...`);
 
     try {
-      const metadata = await batchGetMetadata(
-        batch.map((t) => ({ database: t.database, schema: t.schema, table: t.table }))
-      );
-
-      // Update nodes with metadata
-      const updateStmt = db.prepare(`
-        UPDATE nodes SET metadata = ? WHERE id = ?
-      `);
+      const tables = batch.map((t) => ({ database: t.database, schema: t.schema, table: t.table }));
+      const metadata = await batchGetMetadata(tables);
+      const governance: Map<string, TableGovernance> | undefined = governanceAvailable ? await tryGetGovernance(tables, errors) : undefined;
+      governanceAvailable = governance !== undefined;
 
       for (const item of batch) {
         const fqn = `${item.database}.${item.schema}.${item.table}`.toLowerCase();
         const sfMetadata = metadata.get(fqn);
+        const sfGovernance = governance?.get(fqn);
+        if (!sfMetadata && !sfGovernance) continue;
 
+        const existingMetadata = item.node.metadata;
+        const update: Partial<NodeMetadata> = buildColumnMetadata(existingMetadata?.columns, sfMetadata, sfGovernance);
         if (sfMetadata) {
-          // Get existing metadata
-          const node = nodes.find((n) => n.id === item.nodeId);
-          const existingMetadata = node?.metadata ? JSON.parse(node.metadata) : {};
-
-          // Merge with Snowflake metadata
-          const mergedMetadata = {
-            ...existingMetadata,
-            columns: sfMetadata.columns.map((c) => ({
-              name: c.name,
-              type: c.type,
-              description: c.comment,
-            })) as ColumnInfo[],
-            description: sfMetadata.comment || existingMetadata.description,
-            snowflakeType: sfMetadata.type,
-          };
-
-          updateStmt.run(JSON.stringify(mergedMetadata), item.nodeId);
+          update.description = sfMetadata.comment || existingMetadata?.description;
+          update.snowflakeType = sfMetadata.type;
           enrichedCount++;
         }
+        if (update.containsPii) piiNodeCount++;
+
+        metadataUpdates[item.node.id] = update;
       }
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
@@ -134,7 +218,7 @@ export async function enrichWithSnowflakeMetadata(
 
   onProgress?.(100, `Enriched ${enrichedCount} nodes with Snowflake metadata`);
 
-  return { enrichedCount, newNodes, errors };
+  return { enrichedCount, piiNodeCount, newNodes, metadataUpdates, errors };
 }
 
 /**
@@ -153,7 +237,7 @@ export async function resolveFqnConflicts(
     database: process.env.SNOWFLAKE_DATABASE || "PROD_RIPPLING_DWH",
   };
 
-  if (!config.account || !config.username) {
+  if (!hasSnowflakeCredentials()) {
     return resolutions;
   }
 
@@ -210,6 +294,10 @@ export interface SnowflakeDiscoveryResult {
     newTablesAdded: number;
     tablesAlreadyInGraph: number;
     edgesCreated: number;
+    /** Dynamic tables, streams, tasks and procedures */
+    nativeObjectsAdded: number;
+    nativeEdgesCreated: number;
+    unresolvedNativeReferences: string[];
   };
   /** Any errors encountered */
   errors: string[];
@@ -233,9 +321,10 @@ export function getSnowflakeConfig(): SnowflakeConfig {
 }
 
 /**
- * Check if Snowflake credentials are configured
+ * Check if Snowflake credentials (or an offline metadata dump) are configured
  */
 export function hasSnowflakeCredentials(): boolean {
+  if (isOfflineMode()) return true;
   const config = getSnowflakeConfig();
   return !!(config.account && config.username);
 }
@@ -264,6 +353,9 @@ export async function discoverSnowflakeTables(
       newTablesAdded: 0,
       tablesAlreadyInGraph: 0,
       edgesCreated: 0,
+      nativeObjectsAdded: 0,
+      nativeEdgesCreated: 0,
+      unresolvedNativeReferences: [],
     },
     errors: [],
     skipped: false,
@@ -272,9 +364,9 @@ export async function discoverSnowflakeTables(
   const config = getSnowflakeConfig();
 
   // Check for credentials
-  if (!config.account || !config.username) {
+  if (!hasSnowflakeCredentials()) {
     result.skipped = true;
-    result.skipReason = "SNOWFLAKE_ACCOUNT or RIPPLING_ACCOUNT_EMAIL not configured";
+    result.skipReason = "SNOWFLAKE_ACCOUNT or RIPPLING_ACCOUNT_EMAIL (or SNOWFLAKE_METADATA_DUMP) not configured";
     onProgress?.(100, `⚠️ Snowflake discovery skipped: ${result.skipReason}`);
     return result;
   }
@@ -337,15 +429,11 @@ export async function discoverSnowflakeTables(
 
   onProgress?.(25, `Discovered ${newTables.length} new tables (${result.stats.tablesAlreadyInGraph} already in graph)`);
 
-  if (newTables.length === 0) {
-    onProgress?.(100, "No new tables to add from Snowflake");
-    await disconnect();
-    return result;
-  }
-
   // Batch fetch column metadata for new tables
   const BATCH_SIZE = 100;
   const tableMetadataMap = new Map<string, TableMetadata>();
+  const tableGovernanceMap = new Map<string, TableGovernance>();
+  let governanceAvailable = true;
 
   for (let i = 0; i < newTables.length; i += BATCH_SIZE) {
     const batch = newTables.slice(i, i + BATCH_SIZE);
@@ -353,18 +441,22 @@ export async function discoverSnowflakeTables(
     onProgress?.(progress, `Fetching column metadata: batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(newTables.length / BATCH_SIZE)}`);
 
     try {
-      const metadata = await batchGetMetadata(
-        batch.map((t) => ({
-          database: t.database,
-          schema: t.schema,
-          table: t.name,
-        }))
-      );
-
-      // Merge into our map
+      const tables = batch.map((t) => ({
+        database: t.database,
+        schema: t.schema,
+        table: t.name,
+      }));
+      const metadata = await batchGetMetadata(tables);
+      const governance: Map<string, TableGovernance> | undefined = governanceAvailable ? await tryGetGovernance(tables, result.errors) : undefined;
+      governanceAvailable = governance !== undefined;
+
+      // Merge into our maps
       for (const [fqn, meta] of metadata) {
         tableMetadataMap.set(fqn, meta);
       }
+      for (const [fqn, tableGovernance] of governance ?? []) {
+        tableGovernanceMap.set(fqn, tableGovernance);
+      }
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
       result.errors.push(`Batch metadata error: ${msg}`);
@@ -386,11 +478,7 @@ export async function discoverSnowflakeTables(
       repo: "snowflake",
       metadata: {
         description: metadata?.comment || `Raw Snowflake ${table.type.toLowerCase()} discovered via Snowflake integration`,
-        columns: metadata?.columns.map((c) => ({
-          name: c.name,
-          type: c.type,
-          description: c.comment,
-        })) as ColumnInfo[] || [],
+        ...buildColumnMetadata(undefined, metadata, tableGovernanceMap.get(fqn)),
         snowflakeType: table.type,
         snowflakeSchema: table.schema,
       },
@@ -408,10 +496,36 @@ export async function discoverSnowflakeTables(
   result.edges = edges;
   result.stats.edgesCreated = edges.length;
 
+  onProgress?.(90, "Listing dynamic tables, streams, tasks and procedures...");
+
+  // Snowflake-native transformations in the same schemas, with lineage from their definitions
+  const native = await getNativeObjects(config.database);
+  result.errors.push(...native.errors);
+  const selectedSet = selectedSchemas && selectedSchemas.length > 0
+    ? new Set(selectedSchemas.map(s => s.toUpperCase()))
+    : null;
+  const nativeObjects = native.objects.filter((o) => {
+    const schema = o.schema.toUpperCase();
+    if (schema === "INFORMATION_SCHEMA" || schema.includes("_DEV") || schema.includes("_TEST")) return false;
+    return !selectedSet || selectedSet.has(schema);
+  });
+
+  const nativeLineage = buildNativeObjectLineage(nativeObjects, existingNodes, result.nodes);
+  result.nodes.push(...nativeLineage.nodes);
+  result.edges.push(...nativeLineage.edges);
+  const { dynamicTables, streams, tasks, procedures } = nativeLineage.stats;
+  result.stats.nativeObjectsAdded = dynamicTables + streams + tasks + procedures;
+  result.stats.nativeEdgesCreated = nativeLineage.stats.edges;
+  result.stats.unresolvedNativeReferences = nativeLineage.stats.unresolvedReferences;
+
   onProgress?.(95, "Disconnecting from Snowflake...");
   await disconnect();
 
-  onProgress?.(100, `Added ${result.stats.newTablesAdded} tables from Snowflake, created ${result.stats.edgesCreated} edges`);
+  onProgress?.(
+    100,
+    `Added ${result.stats.newTablesAdded} tables and ${result.stats.nativeObjectsAdded} native objects from Snowflake, ` +
+      `created ${result.stats.edgesCreated + result.stats.nativeEdgesCreated} edges`
+  );
 
   return result;
 }
@@ -447,9 +561,9 @@ function findSqlReferences(
     }
   }
 
-  // Scan each existing node's SQL content
+  // Scan each existing node's SQL content (compiled SQL names the actual tables)
   for (const existingNode of existingNodes) {
-    const sql = existingNode.sqlContent;
+    const sql = existingNode.compiledSql ?? existingNode.sqlContent;
     if (!sql) continue;
 
     const sqlLower = sql.toLowerCase();
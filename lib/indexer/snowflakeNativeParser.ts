@@ -0,0 +1,283 @@
+/**
+ * Snowflake Native Object Lineage
+ *
+ * Turns the dynamic tables, streams, tasks and stored procedures found during
+ * Snowflake discovery into typed nodes, with edges parsed from their
+ * definitions:
+ * - stream: tracked table → stream
+ * - dynamic table: upstream tables → dynamic table
+ * - task: tables it reads → task → tables it writes (and procedures it CALLs);
+ *   predecessor task → task
+ * - procedure: tables its body reads → procedure → tables it writes
+ *
+ * Unqualified names in a definition resolve against the object's own
+ * database and schema, as Snowflake does.
+ */
+
+import { v4 as uuid } from "uuid";
+import type { GraphNode, GraphEdge, EdgeType, NodeSubtype } from "../types";
+import type { NativeObject } from "../snowflake";
+import { parseSql } from "../parsers/sqlParser";
+import { TableResolver, cleanTableReference } from "./tableResolver";
+
+export interface NativeLineageResult {
+  /** Nodes for native objects (dynamic tables already discovered as tables are updated in place) */
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  stats: {
+    dynamicTables: number;
+    streams: number;
+    tasks: number;
+    procedures: number;
+    edges: number;
+    unresolvedReferences: string[];
+  };
+}
+
+const SUBTYPES: Record<NativeObject["kind"], NodeSubtype> = {
+  "DYNAMIC TABLE": "snowflake_dynamic_table",
+  STREAM: "snowflake_stream",
+  TASK: "snowflake_task",
+  PROCEDURE: "snowflake_procedure",
+};
+
+// Writes the SQL parser's regex fallback doesn't catch (procedure bodies rarely parse)
+const EXTRA_WRITE_PATTERNS = [
+  /\bUPDATE\s+([\w$."]+)\s+SET\b/gi,
+  /\bDELETE\s+FROM\s+([\w$."]+)/gi,
+  /\bTRUNCATE\s+(?:TABLE\s+)?(?:IF\s+EXISTS\s+)?([\w$."]+)/gi,
+  /\bCOPY\s+INTO\s+([\w$."]+)/gi,
+];
+
+// MERGE sources, which the regex fallback misses too
+const EXTRA_READ_PATTERNS = [/\bMERGE\s+INTO\s+[\w$."]+(?:\s+(?:AS\s+)?\w+)?\s+USING\s+([\w$."]+)/gi];
+
+const CALL_PATTERN = /\bCALL\s+([\w$."]+)\s*\(/gi;
+
+function fqnOf(object: NativeObject): string {
+  return `${object.database}.${object.schema}.${object.name}`.toLowerCase();
+}
+
+function nodeIdOf(object: NativeObject): string {
+  switch (object.kind) {
+    case "TASK":
+      return `snowflake_task.${fqnOf(object)}`;
+    case "PROCEDURE":
+      return `snowflake_procedure.${fqnOf(object)}`;
+    default:
+      return fqnOf(object);
+  }
+}
+
+// Qualify a reference with the object's database/schema
+function qualify(reference: string, object: NativeObject): string {
+  const cleaned = cleanTableReference(reference);
+  const parts = cleaned.split(".");
+  if (parts.length === 1) return `${object.database}.${object.schema}.${cleaned}`.toLowerCase();
+  if (parts.length === 2) return `${object.database}.${cleaned}`.toLowerCase();
+  return cleaned;
+}
+
+// A dynamic table's text is the whole CREATE statement; lineage comes from its query
+function dynamicTableQuery(definition: string): string {
+  const match = /\bAS\s*\(?\s*(?=SELECT\b|WITH\b)/i.exec(definition);
+  return match ? definition.slice(match.index + match[0].length) : definition;
+}
+
+/**
+ * Tables a task or procedure reads and writes, and procedures it calls
+ */
+function extractReferences(sql: string): { reads: string[]; writes: string[]; calls: string[] } {
+  const parsed = parseSql(sql);
+  const writes = new Set(parsed.targetTables.map(cleanTableReference));
+  for (const pattern of EXTRA_WRITE_PATTERNS) {
+    for (const match of sql.matchAll(pattern)) {
+      writes.add(cleanTableReference(match[1]));
+    }
+  }
+
+  const calls = [...sql.matchAll(CALL_PATTERN)].map((match) => cleanTableReference(match[1]));
+  const reads = parsed.sourceTables.map(cleanTableReference);
+  for (const pattern of EXTRA_READ_PATTERNS) {
+    for (const match of sql.matchAll(pattern)) {
+      reads.push(cleanTableReference(match[1]));
+    }
+  }
+
+  return {
+    reads: [...new Set(reads.filter((table) => !writes.has(table)))],
+    writes: [...writes],
+    calls: [...new Set(calls)],
+  };
+}
+
+/**
+ * Build nodes and edges for native objects.
+ *
+ * @param objects - Dynamic tables, streams, tasks and procedures in the selected schemas
+ * @param existingNodes - Nodes from earlier parsers (dbt, Airflow, ...)
+ * @param discoveredNodes - Tables discovered in this run; dynamic tables among them are retyped
+ */
+export function buildNativeObjectLineage(
+  objects: NativeObject[],
+  existingNodes: readonly GraphNode[],
+  discoveredNodes: GraphNode[]
+): NativeLineageResult {
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+  const stats: NativeLineageResult["stats"] = {
+    dynamicTables: 0,
+    streams: 0,
+    tasks: 0,
+    procedures: 0,
+    edges: 0,
+    unresolvedReferences: [],
+  };
+
+  const existingIds = new Set(existingNodes.map((n) => n.id));
+  const discoveredById = new Map(discoveredNodes.map((n) => [n.id, n]));
+  const nodeById = new Map<string, GraphNode>();
+  // Objects whose lineage we add; dynamic tables owned by dbt already have theirs
+  const lineageObjects: NativeObject[] = [];
+
+  for (const object of objects) {
+    const id = nodeIdOf(object);
+
+    const existing = nodeById.get(id);
+    if (existing) {
+      // Overloaded procedures share a node
+      if (object.definition) {
+        existing.sqlContent = [existing.sqlContent, `-- ${object.name}${object.signature ?? ""}\n${object.definition}`]
+          .filter(Boolean)
+          .join("\n\n");
+      }
+      lineageObjects.push(object);
+      continue;
+    }
+
+    if (existingIds.has(id)) continue;
+
+    const isTask = object.kind === "TASK";
+    const isProcedure = object.kind === "PROCEDURE";
+    const metadata: GraphNode["metadata"] = {
+      description: object.comment,
+      snowflakeType: object.kind,
+      snowflakeSchema: object.schema,
+      ...(object.schedule ? { schedule: object.schedule } : {}),
+      ...(object.suspended ? { paused: true } : {}),
+    };
+    if (object.kind === "STREAM" && !metadata.description) {
+      metadata.description = object.sourceTable ? `Stream on ${object.sourceTable}` : undefined;
+    }
+    if (isProcedure && !metadata.description) {
+      metadata.description = `${object.language ?? "SQL"} stored procedure`;
+    }
+
+    const discovered = discoveredById.get(id);
+    if (discovered) {
+      // Discovered as a plain table this run: retype it
+      discovered.type = "table";
+      discovered.subtype = SUBTYPES[object.kind];
+      discovered.sqlContent = object.definition;
+      discovered.semanticLayer = "transform";
+      discovered.metadata = { ...discovered.metadata, ...metadata, description: object.comment ?? discovered.metadata?.description };
+      nodeById.set(id, discovered);
+    } else {
+      const node: GraphNode = {
+        id,
+        name: object.name,
+        type: isTask || isProcedure ? "dag" : "table",
+        subtype: SUBTYPES[object.kind],
+        repo: "snowflake",
+        metadata,
+        sqlContent: isProcedure && object.definition
+          ? `-- ${object.name}${object.signature ?? ""}\n${object.definition}`
+          : object.definition,
+        semanticLayer: "transform",
+      };
+      nodes.push(node);
+      nodeById.set(id, node);
+    }
+
+    lineageObjects.push(object);
+    if (object.kind === "DYNAMIC TABLE") stats.dynamicTables++;
+    else if (object.kind === "STREAM") stats.streams++;
+    else if (isTask) stats.tasks++;
+    else stats.procedures++;
+  }
+
+  const resolver = new TableResolver([...existingNodes, ...discoveredNodes, ...nodes]);
+  const unresolved = new Set<string>();
+  const edgeKeys = new Set<string>();
+
+  const addEdge = (from: string, to: string, type: EdgeType, transformationType: string) => {
+    const key = `${from}|${to}|${type}`;
+    if (from === to || edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    edges.push({
+      id: uuid(),
+      from,
+      to,
+      type,
+      metadata: { transformationType, inferredFrom: "snowflake-definition" },
+    });
+  };
+
+  const resolveTable = (reference: string, object: NativeObject): string | null => {
+    const qualified = qualify(reference, object);
+    const node = resolver.resolve(qualified);
+    if (!node) unresolved.add(qualified);
+    return node?.id ?? null;
+  };
+
+  for (const object of lineageObjects) {
+    const id = nodeIdOf(object);
+
+    if (object.kind === "STREAM") {
+      const source = object.sourceTable ? resolveTable(object.sourceTable, object) : null;
+      if (source) addEdge(source, id, "sql_dependency", "stream");
+      continue;
+    }
+
+    if (!object.definition) continue;
+
+    if (object.kind === "DYNAMIC TABLE") {
+      for (const table of parseSql(dynamicTableQuery(object.definition)).sourceTables) {
+        const source = resolveTable(table, object);
+        if (source) addEdge(source, id, "sql_dependency", "dynamic-table");
+      }
+      continue;
+    }
+
+    const transformationType = object.kind === "TASK" ? "snowflake-task" : "stored-procedure";
+    const { reads, writes, calls } = extractReferences(object.definition);
+    for (const table of reads) {
+      const source = resolveTable(table, object);
+      if (source) addEdge(source, id, "sql_dependency", transformationType);
+    }
+    for (const table of writes) {
+      const target = resolveTable(table, object);
+      if (target) addEdge(id, target, "orchestrates", transformationType);
+    }
+    for (const procedure of calls) {
+      const procedureId = `snowflake_procedure.${qualify(procedure, object)}`;
+      if (nodeById.has(procedureId)) {
+        addEdge(id, procedureId, "orchestrates", transformationType);
+      } else {
+        unresolved.add(qualify(procedure, object));
+      }
+    }
+
+    for (const predecessor of object.predecessors ?? []) {
+      const predecessorId = `snowflake_task.${qualify(predecessor, object)}`;
+      if (nodeById.has(predecessorId)) {
+        addEdge(predecessorId, id, "dag_edge", transformationType);
+      }
+    }
+  }
+
+  stats.edges = edges.length;
+  stats.unresolvedReferences = [...unresolved].sort();
+
+  return { nodes, edges, stats };
+}
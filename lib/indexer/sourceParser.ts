@@ -0,0 +1,173 @@
+/**
+ * Source Parser Plugins
+ *
+ * Every input the indexer reads (dbt, Airflow, externals, Census, Snowflake, ...)
+ * is a SourceParser plugin. A plugin declares its ID, config schema and progress
+ * weight, and returns the nodes, edges and citations it found. The indexer runs
+ * registered plugins in order, then links and stores the combined graph.
+ *
+ * To add a source, implement SourceParser in lib/indexer/sources/ and register
+ * it in lib/indexer/sources/index.ts.
+ */
+
+import type { GraphNode, GraphEdge, Citation, IndexingStage } from "../types";
+import { CORE_INDEXING_STAGES, SOURCE_STAGES_END_PCT } from "../types";
+import type { IndexerConfig } from "./index";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SourceParseResult {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  citations: Citation[];
+  // Extra output later parsers can read via context.artifacts (cached with the result)
+  artifacts?: Record<string, unknown>;
+}
+
+export type SourceConfigFieldType = "string" | "number" | "boolean" | "object";
+
+export interface SourceConfigField {
+  type: SourceConfigFieldType | SourceConfigFieldType[];
+  description: string;
+  required?: boolean;
+  default?: unknown;
+  env?: string;  // Environment variable read when the field isn't configured
+}
+
+export type SourceConfigSchema = Record<string, SourceConfigField>;
+
+export interface SourceParserContext<TConfig> {
+  jobId: string;
+  config: TConfig;             // Resolved against the parser's configSchema
+  incremental: boolean;
+  // Graph built by the parsers that ran earlier (don't mutate; return additions instead)
+  nodes: readonly GraphNode[];
+  edges: readonly GraphEdge[];
+  // Artifacts published by earlier parsers, keyed by parser ID
+  artifacts: ReadonlyMap<string, Record<string, unknown>>;
+  reportProgress: (percent: number, message?: string) => void;
+  log: (message: string) => void;
+  markSkipped: () => void;
+}
+
+export interface SourceParser<TConfig = Record<string, unknown>> {
+  id: string;                  // Also used as the stage ID and fingerprint key
+  name: string;                // Stage name shown in the indexing UI
+  progressWeight: number;      // Relative share of the source parsing progress range
+  configSchema: SourceConfigSchema;
+  /**
+   * Hash of the parser's inputs. Incremental runs compare it against the
+   * previous run to decide whether anything changed.
+   */
+  fingerprint?: (config: TConfig) => string;
+  /**
+   * Whether an unchanged fingerprint lets incremental runs reuse the cached
+   * result. Leave unset for parsers whose output depends on earlier parsers.
+   */
+  cacheable?: boolean;
+  parse: (context: SourceParserContext<TConfig>) => Promise<SourceParseResult>;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const registry: SourceParser[] = [];
+
+/**
+ * Register a source parser. Parsers run in registration order.
+ */
+export function registerSourceParser<TConfig>(parser: SourceParser<TConfig>): void {
+  if (registry.some((p) => p.id === parser.id)) {
+    throw new Error(`Source parser "${parser.id}" is already registered`);
+  }
+  if (CORE_INDEXING_STAGES.some((s) => s.id === parser.id)) {
+    throw new Error(`Source parser ID "${parser.id}" conflicts with a core indexing stage`);
+  }
+  registry.push(parser as unknown as SourceParser);
+}
+
+export function getSourceParsers(): SourceParser[] {
+  return [...registry];
+}
+
+// ============================================================================
+// Config resolution
+// ============================================================================
+
+function coerceEnvValue(value: string, types: SourceConfigFieldType[]): unknown {
+  if (types.includes("boolean") && (value === "true" || value === "false")) return value === "true";
+  if (types.includes("number") && value.trim() !== "" && !isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+/**
+ * Resolve a parser's config from its schema. Each field is read from
+ * indexerConfig.sources[parser.id], then the top-level IndexerConfig
+ * (for the built-in dbtPath/airflowPath/... options), then its env var,
+ * then its default.
+ */
+export function resolveSourceConfig<TConfig>(
+  parser: SourceParser<TConfig>,
+  indexerConfig: IndexerConfig
+): TConfig {
+  const overrides = indexerConfig.sources?.[parser.id] ?? {};
+  const topLevel = indexerConfig as unknown as Record<string, unknown>;
+  const resolved: Record<string, unknown> = {};
+
+  for (const [key, field] of Object.entries(parser.configSchema)) {
+    const types = Array.isArray(field.type) ? field.type : [field.type];
+
+    let value = overrides[key] ?? topLevel[key];
+    if (value === undefined && field.env && process.env[field.env] !== undefined) {
+      value = coerceEnvValue(process.env[field.env]!, types);
+    }
+    if (value === undefined) value = field.default;
+
+    if (value === undefined || value === null) {
+      if (field.required) {
+        throw new Error(`Source parser "${parser.id}" is missing required config: ${key}`);
+      }
+      continue;
+    }
+
+    if (!types.includes(typeof value as SourceConfigFieldType)) {
+      throw new Error(`Source parser "${parser.id}" config ${key} must be ${types.join(" or ")}, got ${typeof value}`);
+    }
+    resolved[key] = value;
+  }
+
+  return resolved as TConfig;
+}
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+/**
+ * Build the stage list for a run: one stage per source parser, sized by
+ * progress weight within 0..SOURCE_STAGES_END_PCT, followed by the core stages.
+ */
+export function buildStagePlan(parsers: SourceParser[]): IndexingStage[] {
+  const totalWeight = parsers.reduce((sum, p) => sum + Math.max(p.progressWeight, 0), 0);
+  const stages: IndexingStage[] = [];
+
+  let cumulative = 0;
+  for (const parser of parsers) {
+    const weight = Math.max(parser.progressWeight, 0);
+    const startPct = totalWeight > 0 ? (cumulative / totalWeight) * SOURCE_STAGES_END_PCT : 0;
+    cumulative += weight;
+    const endPct = totalWeight > 0 ? (cumulative / totalWeight) * SOURCE_STAGES_END_PCT : SOURCE_STAGES_END_PCT;
+
+    stages.push({
+      id: parser.id,
+      name: parser.name,
+      startPct: Math.round(startPct * 10) / 10,
+      endPct: Math.round(endPct * 10) / 10,
+    });
+  }
+
+  return [...stages, ...CORE_INDEXING_STAGES];
+}
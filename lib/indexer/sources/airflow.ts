@@ -0,0 +1,70 @@
+import { parseAirflowDags } from "../airflowParser";
+import { fingerprintAirflow } from "../fingerprint";
+import type { SourceParser } from "../sourceParser";
+
+interface AirflowSourceConfig {
+  airflowPath: string;
+  templateVarsPath?: string;
+}
+
+// Unresolved placeholders logged per file before the rest are summarized
+const MAX_TEMPLATE_WARNINGS = 10;
+
+export const airflowSourceParser: SourceParser<AirflowSourceConfig> = {
+  id: "airflow",
+  name: "Parsing Airflow DAGs & SQL",
+  progressWeight: 23,
+  configSchema: {
+    airflowPath: {
+      type: "string",
+      description: "Path to the airflow-dags repo (reads airflow_dags/dags and airflow_dags/resources)",
+      required: true,
+      env: "AIRFLOW_DAGS_PATH",
+    },
+    templateVarsPath: {
+      type: "string",
+      description: "YAML/JSON file with default params and Variables for rendering Jinja in SQL (default: template_vars.yml in the repo root)",
+      env: "AIRFLOW_TEMPLATE_VARS_PATH",
+    },
+  },
+  cacheable: true,
+  fingerprint: (config) => fingerprintAirflow(config.airflowPath, config.templateVarsPath),
+
+  async parse(context) {
+    context.reportProgress(0, "Scanning Airflow DAGs...");
+
+    const result = await parseAirflowDags(
+      context.config.airflowPath,
+      (progress, message) => context.reportProgress(progress, message),
+      context.config.templateVarsPath
+    );
+
+    for (const warning of result.templateWarnings.slice(0, MAX_TEMPLATE_WARNINGS)) {
+      context.log(`Unresolved template placeholders in ${warning.filePath}: ${warning.placeholders.join(", ")}`);
+    }
+    if (result.templateWarnings.length > MAX_TEMPLATE_WARNINGS) {
+      context.log(`...and unresolved placeholders in ${result.templateWarnings.length - MAX_TEMPLATE_WARNINGS} more files`);
+    }
+
+    const dagCount = result.nodes.filter((n) => n.type === "dag").length;
+    if (result.dbtInvocations.length > 0) {
+      context.log(`Found ${result.dbtInvocations.length} dbt invocations in Airflow tasks`);
+    }
+    const externalMsg = result.externalSystems.length > 0
+      ? `, ${result.externalSystems.length} external systems detected`
+      : "";
+    context.reportProgress(
+      100,
+      `Parsed ${result.nodes.length - dagCount} Airflow tables, ${dagCount} DAGs, ${result.edges.length} edges${externalMsg}`
+    );
+
+    return {
+      nodes: result.nodes,
+      edges: result.edges,
+      citations: result.citations,
+      // externalSystems: consumed by the externals parser to create external system nodes
+      // dbtInvocations: resolved against the dbt manifest by the indexer to schedule models
+      artifacts: { externalSystems: result.externalSystems, dbtInvocations: result.dbtInvocations },
+    };
+  },
+};
@@ -0,0 +1,175 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { parseCensusConfig, normalizeCensusResponse, validateCensusConfig, type CensusConfig } from "../censusParser";
+import { fingerprintCensus } from "../fingerprint";
+import type { SourceParser, SourceParserContext } from "../sourceParser";
+
+interface CensusSourceConfig {
+  /** Census sync configuration (JSON object or path to JSON file) */
+  censusConfig?: CensusConfig | string;
+}
+
+/**
+ * Load the Census config from the configured object/path, or from
+ * data/census.json. Returns null (after logging why) when there's nothing to parse.
+ */
+function loadCensusConfig(context: SourceParserContext<CensusSourceConfig>): CensusConfig | null {
+  const { censusConfig } = context.config;
+
+  if (censusConfig && typeof censusConfig === "object") {
+    return censusConfig;
+  }
+
+  if (typeof censusConfig === "string") {
+    const parsed = JSON.parse(readFileSync(censusConfig, "utf-8"));
+
+    const validation = validateCensusConfig(parsed);
+    if (!validation.valid) {
+      context.log(`⚠️ Invalid Census config: ${validation.error}`);
+      return null;
+    }
+
+    return normalizeCensusResponse(parsed);
+  }
+
+  // Try to auto-load from default location: data/census.json
+  const defaultPath = join(process.cwd(), "data", "census.json");
+
+  if (!existsSync(defaultPath)) {
+    context.log(`ℹ️ Census data file not found at ${defaultPath} - skipping Census integration`);
+    return null;
+  }
+
+  const parsed = JSON.parse(readFileSync(defaultPath, "utf-8"));
+
+  // Check if the file is just a placeholder (empty syncs array)
+  if (!parsed.syncs || parsed.syncs.length === 0) {
+    context.log(`ℹ️ Census data file is empty - run scripts/export_census_data.py to populate`);
+    return null;
+  }
+
+  const validation = validateCensusConfig(parsed);
+  if (!validation.valid) {
+    context.log(`⚠️ Invalid Census data file: ${validation.error}`);
+    return null;
+  }
+
+  context.log(`📊 Loaded Census data from ${defaultPath}`);
+  return normalizeCensusResponse(parsed);
+}
+
+/**
+ * Parse Census sync configuration to create reverse ETL edges.
+ * This captures "loop-back" patterns where mart models feed external pipelines
+ * that write back to Snowflake tables consumed by staging models.
+ *
+ * Fails gracefully with a warning if the config is missing or invalid.
+ */
+export const censusSourceParser: SourceParser<CensusSourceConfig> = {
+  id: "census",
+  name: "Parsing Census reverse ETL syncs",
+  progressWeight: 1,
+  configSchema: {
+    censusConfig: {
+      type: ["object", "string"],
+      description: "Census sync config object or path to a JSON export (default: data/census.json)",
+    },
+  },
+  fingerprint: (config) => fingerprintCensus(config.censusConfig),
+
+  async parse(context) {
+    context.reportProgress(0, "Processing Census sync configuration...");
+
+    try {
+      const config = loadCensusConfig(context);
+      if (!config) return { nodes: [], edges: [], citations: [] };
+
+      const graphNodes = [...context.nodes];
+      const result = parseCensusConfig(config, graphNodes, (progress, message) => {
+        context.reportProgress(progress, message);
+      });
+
+      // Only add Census nodes that aren't already in the graph
+      const existingNodeIds = new Set(graphNodes.map(n => n.id));
+      const nodes = result.nodes.filter(n => !existingNodeIds.has(n.id));
+
+      // Add Census edges (deduplicating by from+to combination)
+      const existingEdgeKeys = new Set(context.edges.map(e => `${e.from}|${e.to}`));
+      const edges = result.edges.filter((edge) => {
+        const key = `${edge.from}|${edge.to}`;
+        if (existingEdgeKeys.has(key)) return false;
+        existingEdgeKeys.add(key);
+        return true;
+      });
+
+      // Log detailed results
+      const matchedCount = result.stats.matchedSources.length;
+      context.log(`📊 Census Summary: ${result.stats.syncsProcessed} syncs processed`);
+      context.log(`   🔄 Sync nodes created: ${result.stats.syncNodesCreated}`);
+      context.log(`   ✅ Source matches: ${matchedCount} → ${result.stats.edgesCreated} source edges`);
+      context.log(`   ❌ Unmatched: ${result.stats.unmatchedSources.length} sources (model names not found in graph)`);
+
+      if (result.stats.loopBacksDetected > 0) {
+        context.log(`   ↩️ Loop-backs: ${result.stats.loopBacksDetected} reverse ETL cycles to Snowflake`);
+      }
+
+      // Log destination stats
+      if (result.stats.destinationNodesCreated > 0) {
+        context.log(`   📤 Destination nodes: ${result.stats.destinationNodesCreated} (${result.stats.destinationEdgesCreated} edges)`);
+        context.log(`   📍 Systems: ${result.stats.destinationTypes.join(", ")}`);
+
+        // Show example sync nodes created
+        const syncNodes = result.nodes.filter(n => n.subtype === "census_sync").slice(0, 3);
+        if (syncNodes.length > 0) {
+          const examples = syncNodes.map(n => n.name).join(", ");
+          context.log(`   📝 Example syncs: ${examples}${result.stats.syncNodesCreated > 3 ? "..." : ""}`);
+        }
+      }
+
+      // Always write detailed Census matching report
+      const logsDir = join(process.cwd(), "data", "logs");
+      if (!existsSync(logsDir)) {
+        mkdirSync(logsDir, { recursive: true });
+      }
+
+      writeFileSync(join(logsDir, "census-matching-report.json"), JSON.stringify({
+        timestamp: new Date().toISOString(),
+        summary: {
+          totalSyncs: result.stats.syncsProcessed,
+          syncNodesCreated: result.stats.syncNodesCreated,
+          matchedSources: matchedCount,
+          unmatchedSources: result.stats.unmatchedSources.length,
+          sourceEdges: result.stats.edgesCreated,
+          loopBacks: result.stats.loopBacksDetected,
+          destinationNodes: result.stats.destinationNodesCreated,
+          destinationEdges: result.stats.destinationEdgesCreated,
+          destinationTypes: result.stats.destinationTypes,
+        },
+        matchedSources: result.stats.matchedSources,
+        unmatchedSources: result.stats.unmatchedSources,
+        unmatchedDestinations: result.stats.unmatchedDestinations,
+      }, null, 2));
+
+      context.log(`   📝 Full matching report: data/logs/census-matching-report.json`);
+
+      // Show first few matched for quick reference
+      if (matchedCount > 0) {
+        const examples = result.stats.matchedSources.slice(0, 3)
+          .map(m => `"${m.censusName}" → ${m.matchedNodeName}`)
+          .join(", ");
+        context.log(`   Example matches: ${examples}${matchedCount > 3 ? "..." : ""}`);
+      }
+
+      // Show first few unmatched for quick reference
+      if (result.stats.unmatchedSources.length > 0) {
+        context.log(`   First few unmatched: ${result.stats.unmatchedSources.slice(0, 5).join(", ")}${result.stats.unmatchedSources.length > 5 ? "..." : ""}`);
+      }
+
+      return { nodes, edges, citations: result.citations };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      context.log(`⚠️ Census parsing failed: ${msg}`);
+      return { nodes: [], edges: [], citations: [] };
+    }
+  },
+};
@@ -0,0 +1,199 @@
+import { spawn } from "child_process";
+import { getDbtRunHistory, saveDbtRunHistory } from "../../db";
+import { parseDbtManifest, findManifestPath, parseDbtProjectFallback, type DbtParseResult } from "../dbtParser";
+import { findRunResultsPaths, parseRunResults, applyRunResults } from "../dbtRunResults";
+import { findCatalogPath, parseDbtCatalog, applyCatalog } from "../dbtCatalog";
+import { fingerprintDbt } from "../fingerprint";
+import type { SourceParser, SourceParserContext } from "../sourceParser";
+import type { DbtRunInfo } from "../../types";
+
+interface DbtSourceConfig {
+  dbtPath: string;
+  dbtArtifactsPath?: string;
+  relationshipEdges: boolean;
+}
+
+/**
+ * Run `dbt compile` to produce target/manifest.json. Failure isn't fatal
+ * since the fallback parser can read SQL files directly.
+ */
+async function compileDbtProject(context: SourceParserContext<DbtSourceConfig>): Promise<void> {
+  const { dbtPath } = context.config;
+
+  context.reportProgress(0, `Checking dbt project at ${dbtPath}...`);
+
+  if (findManifestPath(dbtPath)) {
+    context.reportProgress(30, "Found existing manifest.json, skipping compile");
+    return;
+  }
+
+  context.reportProgress(5, "No manifest found, running dbt compile...");
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const proc = spawn("dbt", ["compile"], {
+        cwd: dbtPath,
+        shell: true,
+      });
+
+      let output = "";
+      proc.stdout?.on("data", (data) => {
+        output += data.toString();
+      });
+      proc.stderr?.on("data", (data) => {
+        output += data.toString();
+      });
+
+      proc.on("close", (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`dbt compile failed: ${output}`));
+        }
+      });
+
+      proc.on("error", reject);
+    });
+
+    context.reportProgress(30, "dbt compile successful");
+  } catch (error) {
+    // dbt compile failed, but we can continue with fallback parsing
+    console.warn("dbt compile failed, will use fallback SQL file parsing:", error);
+    context.reportProgress(30, "dbt compile unavailable, using fallback SQL parser");
+  }
+}
+
+/**
+ * Fill in column types and table stats from catalog.json, so builds without
+ * Snowflake credentials still get warehouse types instead of "unknown".
+ */
+function attachCatalog(context: SourceParserContext<DbtSourceConfig>, result: DbtParseResult): void {
+  const { dbtPath, dbtArtifactsPath } = context.config;
+  const catalogPath = findCatalogPath(dbtPath, dbtArtifactsPath);
+
+  if (!catalogPath) {
+    context.log("No dbt catalog.json found, column types come from YAML only (run `dbt docs generate` to add them)");
+    return;
+  }
+
+  context.reportProgress(80, "Loading column types and table stats from dbt catalog...");
+
+  const enriched = applyCatalog(result.nodes, parseDbtCatalog(catalogPath), result.uniqueIdToNodeId ?? new Map());
+  context.log(`Enriched ${enriched} nodes with dbt catalog column types and stats`);
+}
+
+/**
+ * Run history stored by previous indexes, so it outlives dbt overwriting
+ * run_results.json on every invocation. It has its own table because a full
+ * re-index clears the nodes before the dbt parser runs.
+ */
+function loadPreviousRunHistory(): Map<string, DbtRunInfo[]> {
+  return new Map(getDbtRunHistory().map((h) => [h.node_id, JSON.parse(h.runs) as DbtRunInfo[]]));
+}
+
+/**
+ * Overlay the latest run status and timings from run_results.json on the
+ * parsed nodes. Missing artifacts just mean the project hasn't been run.
+ */
+function attachRunResults(context: SourceParserContext<DbtSourceConfig>, result: DbtParseResult): void {
+  const { dbtPath, dbtArtifactsPath } = context.config;
+  const runResultsPaths = findRunResultsPaths(dbtPath, dbtArtifactsPath);
+
+  if (runResultsPaths.length === 0) {
+    context.log("No dbt run_results.json found, skipping run status overlay");
+    return;
+  }
+
+  context.reportProgress(85, `Loading dbt run results from ${runResultsPaths.length} artifact(s)...`);
+
+  const runs = runResultsPaths.flatMap((path) => parseRunResults(path));
+  const nodesWithRuns = applyRunResults(
+    result.nodes,
+    runs,
+    result.uniqueIdToNodeId ?? new Map(),
+    loadPreviousRunHistory()
+  );
+  saveDbtRunHistory(result.nodes
+    .filter((n) => n.metadata?.recentRuns?.length)
+    .map((n) => ({ node_id: n.id, runs: JSON.stringify(n.metadata!.recentRuns) })));
+
+  const failed = result.nodes.filter((n) => n.metadata?.lastRunStatus === "error").length;
+  context.log(`Attached dbt run results to ${nodesWithRuns} nodes${failed > 0 ? ` (${failed} failed on last run)` : ""}`);
+}
+
+export const dbtSourceParser: SourceParser<DbtSourceConfig> = {
+  id: "dbt",
+  name: "Parsing dbt project",
+  progressWeight: 25,
+  configSchema: {
+    dbtPath: {
+      type: "string",
+      description: "Path to the dbt project (manifest is read from target/manifest.json)",
+      required: true,
+      env: "RIPPLING_DBT_PATH",
+    },
+    dbtArtifactsPath: {
+      type: "string",
+      description: "Directory holding dbt artifacts: catalog.json and run_results*.json (default: the project's target/ directory)",
+      env: "RIPPLING_DBT_ARTIFACTS_PATH",
+    },
+    relationshipEdges: {
+      type: "boolean",
+      description: "Add foreign_key edges for relationships tests (they aren't lineage, so they're off by default)",
+      default: false,
+      env: "RIPPLING_DBT_RELATIONSHIP_EDGES",
+    },
+  },
+  cacheable: true,
+  // The edge option changes the output, so toggling it must invalidate the cache too
+  fingerprint: (config) =>
+    `${fingerprintDbt(config.dbtPath, config.dbtArtifactsPath)}${config.relationshipEdges ? ":fk" : ""}`,
+
+  async parse(context) {
+    await compileDbtProject(context);
+
+    const { dbtPath } = context.config;
+    const manifestPath = findManifestPath(dbtPath);
+
+    let result: DbtParseResult;
+    if (manifestPath) {
+      // Use manifest.json for parsing (preferred)
+      context.reportProgress(50, "Parsing dbt manifest...");
+      result = parseDbtManifest(manifestPath, dbtPath);
+    } else {
+      // Fallback: parse SQL files directly without manifest
+      context.reportProgress(50, "No manifest found, using fallback SQL parser...");
+      try {
+        result = parseDbtProjectFallback(dbtPath);
+        context.reportProgress(70, `Fallback parser: found ${result.nodes.length} models from SQL files`);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to parse dbt project (no manifest.json and fallback failed): ${errorMessage}`);
+      }
+    }
+
+    attachCatalog(context, result);
+    attachRunResults(context, result);
+
+    const testCount = result.nodes.reduce((sum, n) => sum + (n.metadata?.tests?.length ?? 0), 0);
+    if (testCount > 0) {
+      context.log(`Attached ${testCount} dbt tests to ${result.nodes.filter((n) => n.metadata?.tests).length} nodes`);
+    }
+
+    const edges = [...result.edges];
+    if (context.config.relationshipEdges && result.foreignKeyEdges?.length) {
+      edges.push(...result.foreignKeyEdges);
+      context.log(`Added ${result.foreignKeyEdges.length} foreign key edges from relationships tests`);
+    }
+
+    context.reportProgress(100, `Parsed ${result.nodes.length} dbt models, ${edges.length} edges`);
+
+    return {
+      nodes: result.nodes,
+      edges,
+      citations: result.citations,
+      // Consumed by the indexer to resolve dbt selectors in Airflow DAGs
+      artifacts: { selectableResources: result.selectableResources ?? [] },
+    };
+  },
+};
@@ -0,0 +1,186 @@
+import { v4 as uuid } from "uuid";
+import { parseExternalSystems } from "../externalParser";
+import { inferExternalSystems, summarizeDetections } from "../externalInference";
+import { buildSqlContentMap } from "../dbtParser";
+import { fingerprintExternals } from "../fingerprint";
+import type { ExternalSystemDetection } from "../airflowParser";
+import type { SourceParser } from "../sourceParser";
+import type { GraphNode, GraphEdge, Citation } from "../../types";
+
+interface ExternalsSourceConfig {
+  dbtPath: string;
+}
+
+/**
+ * Discover external systems from multiple sources:
+ * 1. dbt exposures (already parsed by the dbt parser)
+ * 2. Airflow DAG detection (published as an artifact by the Airflow parser)
+ * 3. externals.yml configuration file
+ * 4. Inference from SQL patterns, model names, column names, and macro usage
+ */
+export const externalsSourceParser: SourceParser<ExternalsSourceConfig> = {
+  id: "externals",
+  name: "Discovering external consumers",
+  progressWeight: 4,
+  configSchema: {
+    dbtPath: {
+      type: "string",
+      description: "Path to the dbt project (externals.yml is looked up here)",
+      required: true,
+      env: "RIPPLING_DBT_PATH",
+    },
+  },
+  fingerprint: (config) => fingerprintExternals(config.dbtPath),
+
+  async parse(context) {
+    context.reportProgress(0, "Discovering external data consumers...");
+
+    // Working view of the graph, so each step sees what earlier steps added
+    const graphNodes: GraphNode[] = [...context.nodes];
+    const graphNodeIds = new Set(graphNodes.map(n => n.id));
+    const nodes: GraphNode[] = [];
+    const edges: GraphEdge[] = [];
+    const citations: Citation[] = [];
+
+    const addNode = (node: GraphNode): boolean => {
+      if (graphNodeIds.has(node.id)) return false;
+      graphNodes.push(node);
+      graphNodeIds.add(node.id);
+      nodes.push(node);
+      return true;
+    };
+
+    let externalNodesCount = 0;
+
+    // Count external nodes already added from dbt exposures
+    const existingExternalNodes = graphNodes.filter(n => n.type === "external").length;
+    if (existingExternalNodes > 0) {
+      context.reportProgress(10, `Found ${existingExternalNodes} external systems from dbt exposures`);
+      externalNodesCount += existingExternalNodes;
+    }
+
+    // Process Airflow-detected external systems
+    const airflowExternalSystems =
+      (context.artifacts.get("airflow")?.externalSystems as ExternalSystemDetection[] | undefined) ?? [];
+
+    if (airflowExternalSystems.length > 0) {
+      context.reportProgress(20, `Processing ${airflowExternalSystems.length} external systems from Airflow...`);
+
+      // Build a lookup map for existing nodes by name
+      const nodesByName = new Map<string, GraphNode>();
+      for (const node of graphNodes) {
+        nodesByName.set(node.name.toLowerCase(), node);
+      }
+
+      for (const ext of airflowExternalSystems) {
+        const externalId = `external.${ext.type}.${ext.name.toLowerCase().replace(/\s+/g, "_")}`;
+
+        const added = addNode({
+          id: externalId,
+          name: ext.name,
+          type: "external",
+          subtype: ext.type === "reverse_etl" ? "reverse_etl" :
+                   ext.type === "dashboard" ? "dashboard" : "application",
+          repo: "airflow-dags",
+          metadata: {
+            filePath: ext.detectedFrom,
+            description: `Auto-detected from Airflow DAG patterns`,
+          },
+        });
+        // Already exists (from dbt exposures or config)
+        if (!added) continue;
+        externalNodesCount++;
+
+        citations.push({
+          id: uuid(),
+          nodeId: externalId,
+          filePath: ext.detectedFrom,
+        });
+
+        // Create edges from consumed tables to this external system
+        for (const tableName of ext.consumesFrom) {
+          const sourceNode = nodesByName.get(tableName.toLowerCase());
+          if (sourceNode) {
+            edges.push({
+              id: uuid(),
+              from: sourceNode.id,
+              to: externalId,
+              type: "exposure",
+              metadata: {
+                transformationType: "airflow-detected",
+              },
+            });
+          }
+        }
+      }
+    }
+
+    // Parse externals.yml configuration
+    context.reportProgress(30, "Checking for externals.yml configuration...");
+
+    const configResult = parseExternalSystems(
+      context.config.dbtPath,
+      graphNodes,
+      (progress, message) => {
+        context.reportProgress(30 + Math.round(progress * 0.2), message);
+      }
+    );
+
+    for (const node of configResult.nodes) {
+      if (addNode(node)) externalNodesCount++;
+    }
+    edges.push(...configResult.edges);
+    citations.push(...configResult.citations);
+
+    const exposureEdges = [...context.edges, ...edges].filter(e => e.type === "exposure").length;
+    context.log(`Discovered ${externalNodesCount} external consumers with ${exposureEdges} connections`);
+
+    // Infer external destinations from SQL patterns
+    context.reportProgress(50, "Inferring external destinations from SQL patterns...");
+
+    const sqlContentMap = buildSqlContentMap(graphNodes, context.config.dbtPath);
+    context.reportProgress(55, `Loaded SQL content for ${sqlContentMap.size} models`);
+
+    const inferenceResult = await inferExternalSystems(
+      graphNodes,
+      (node) => sqlContentMap.get(node.id) || null,
+      (progress, message) => {
+        context.reportProgress(55 + Math.round(progress * 0.4), message);
+      }
+    );
+
+    let newNodesCount = 0;
+    for (const node of inferenceResult.nodes) {
+      if (addNode(node)) newNodesCount++;
+    }
+
+    // Add new edges (deduplicating by from+to combination)
+    const existingEdgeKeys = new Set([...context.edges, ...edges].map(e => `${e.from}|${e.to}`));
+    let newEdgesCount = 0;
+    for (const edge of inferenceResult.edges) {
+      const key = `${edge.from}|${edge.to}`;
+      if (!existingEdgeKeys.has(key)) {
+        edges.push(edge);
+        existingEdgeKeys.add(key);
+        newEdgesCount++;
+      }
+    }
+
+    citations.push(...inferenceResult.citations);
+
+    const summary = summarizeDetections(inferenceResult);
+    if (newNodesCount > 0 || newEdgesCount > 0) {
+      context.log(`Inferred ${newNodesCount} external systems, ${newEdgesCount} destination edges`);
+      if (summary) {
+        context.log(`External systems: ${summary}`);
+      }
+    }
+
+    context.reportProgress(
+      100,
+      `Discovered ${externalNodesCount + newNodesCount} external systems with ${edges.length} edges`
+    );
+
+    return { nodes, edges, citations };
+  },
+};
@@ -0,0 +1,94 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { parseFivetranConfig, normalizeFivetranResponse, validateFivetranConfig, type FivetranConfig } from "../fivetranParser";
+import { fingerprintFivetran } from "../fingerprint";
+import type { SourceParser, SourceParserContext } from "../sourceParser";
+
+interface FivetranSourceConfig {
+  /** Fivetran connectors export (JSON object or path to JSON file) */
+  fivetranConfig?: FivetranConfig | string;
+}
+
+/**
+ * Load the Fivetran export from the configured object/path, or from
+ * data/fivetran.json. Returns null (after logging why) when there's nothing to parse.
+ */
+function loadFivetranConfig(context: SourceParserContext<FivetranSourceConfig>): FivetranConfig | null {
+  const { fivetranConfig } = context.config;
+
+  if (fivetranConfig && typeof fivetranConfig === "object") {
+    return fivetranConfig;
+  }
+
+  const path = typeof fivetranConfig === "string" ? fivetranConfig : join(process.cwd(), "data", "fivetran.json");
+  if (!existsSync(path)) {
+    context.log(`ℹ️ Fivetran export not found at ${path} - skipping Fivetran integration`);
+    return null;
+  }
+
+  const parsed = JSON.parse(readFileSync(path, "utf-8"));
+  const validation = validateFivetranConfig(parsed);
+  if (!validation.valid) {
+    context.log(`⚠️ Invalid Fivetran export: ${validation.error}`);
+    return null;
+  }
+
+  context.log(`📊 Loaded Fivetran connectors from ${path}`);
+  return normalizeFivetranResponse(parsed);
+}
+
+/**
+ * Create Fivetran connector nodes with ingestion edges to the raw tables
+ * and dbt sources they land. Runs after Snowflake discovery so raw tables
+ * outside dbt can be matched too.
+ *
+ * Fails gracefully with a warning if the export is missing or invalid.
+ */
+export const fivetranSourceParser: SourceParser<FivetranSourceConfig> = {
+  id: "fivetran",
+  name: "Parsing Fivetran connectors",
+  progressWeight: 1,
+  configSchema: {
+    fivetranConfig: {
+      type: ["object", "string"],
+      description: "Fivetran connectors export object or path to a JSON export (default: data/fivetran.json)",
+      env: "FIVETRAN_CONFIG_PATH",
+    },
+  },
+  fingerprint: (config) => fingerprintFivetran(config.fivetranConfig),
+
+  async parse(context) {
+    context.reportProgress(0, "Processing Fivetran connectors...");
+
+    try {
+      const config = loadFivetranConfig(context);
+      if (!config) return { nodes: [], edges: [], citations: [] };
+
+      const result = parseFivetranConfig(config, [...context.nodes], (progress, message) => {
+        context.reportProgress(progress, message);
+      });
+
+      const existingNodeIds = new Set(context.nodes.map((n) => n.id));
+      const nodes = result.nodes.filter((n) => !existingNodeIds.has(n.id));
+
+      const { stats } = result;
+      context.log(
+        `📊 Fivetran Summary: ${stats.connectorsProcessed} connectors` +
+          (stats.pausedConnectors > 0 ? ` (${stats.pausedConnectors} paused)` : "") +
+          `, ${stats.landedTables} landed tables`
+      );
+      context.log(`   ✅ Matched: ${stats.matchedTables.length} tables → ${stats.edgesCreated} ingestion edges`);
+      if (stats.unmatchedTables.length > 0) {
+        context.log(
+          `   ❌ Unmatched: ${stats.unmatchedTables.length} tables not in the graph (e.g. ${stats.unmatchedTables.slice(0, 5).join(", ")}${stats.unmatchedTables.length > 5 ? "..." : ""})`
+        );
+      }
+
+      return { nodes, edges: result.edges, citations: result.citations };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      context.log(`⚠️ Fivetran parsing failed: ${msg}`);
+      return { nodes: [], edges: [], citations: [] };
+    }
+  },
+};
@@ -0,0 +1,138 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  parseHightouchConfig,
+  normalizeHightouchResponse,
+  validateHightouchConfig,
+  type HightouchConfig,
+} from "../hightouchParser";
+import { fingerprintHightouch } from "../fingerprint";
+import type { SourceParser, SourceParserContext } from "../sourceParser";
+
+interface HightouchSourceConfig {
+  /** Hightouch export (JSON object or path to JSON file) */
+  hightouchConfig?: HightouchConfig | string;
+}
+
+/**
+ * Load the Hightouch export from the configured object/path, or from
+ * data/hightouch.json. Returns null (after logging why) when there's nothing to parse.
+ */
+function loadHightouchConfig(context: SourceParserContext<HightouchSourceConfig>): HightouchConfig | null {
+  const { hightouchConfig } = context.config;
+
+  if (hightouchConfig && typeof hightouchConfig === "object") {
+    return hightouchConfig;
+  }
+
+  const path = typeof hightouchConfig === "string" ? hightouchConfig : join(process.cwd(), "data", "hightouch.json");
+  if (!existsSync(path)) {
+    context.log(`ℹ️ Hightouch data file not found at ${path} - skipping Hightouch integration`);
+    return null;
+  }
+
+  const parsed = JSON.parse(readFileSync(path, "utf-8"));
+  const validation = validateHightouchConfig(parsed);
+  if (!validation.valid) {
+    context.log(`⚠️ Invalid Hightouch data file: ${validation.error}`);
+    return null;
+  }
+
+  context.log(`📊 Loaded Hightouch data from ${path}`);
+  return normalizeHightouchResponse(parsed);
+}
+
+/**
+ * Parse Hightouch syncs to create reverse ETL edges, with the same
+ * loop-back detection as Census.
+ *
+ * Fails gracefully with a warning if the export is missing or invalid.
+ */
+export const hightouchSourceParser: SourceParser<HightouchSourceConfig> = {
+  id: "hightouch",
+  name: "Parsing Hightouch reverse ETL syncs",
+  progressWeight: 1,
+  configSchema: {
+    hightouchConfig: {
+      type: ["object", "string"],
+      description: "Hightouch export object or path to a JSON export with syncs, models and destinations (default: data/hightouch.json)",
+    },
+  },
+  fingerprint: (config) => fingerprintHightouch(config.hightouchConfig),
+
+  async parse(context) {
+    context.reportProgress(0, "Processing Hightouch sync configuration...");
+
+    try {
+      const config = loadHightouchConfig(context);
+      if (!config) return { nodes: [], edges: [], citations: [] };
+
+      const graphNodes = [...context.nodes];
+      const result = parseHightouchConfig(config, graphNodes, (progress, message) => {
+        context.reportProgress(progress, message);
+      });
+
+      // Only add Hightouch nodes that aren't already in the graph
+      const existingNodeIds = new Set(graphNodes.map((n) => n.id));
+      const nodes = result.nodes.filter((n) => !existingNodeIds.has(n.id));
+
+      // Add Hightouch edges (deduplicating by from+to combination)
+      const existingEdgeKeys = new Set(context.edges.map((e) => `${e.from}|${e.to}`));
+      const edges = result.edges.filter((edge) => {
+        const key = `${edge.from}|${edge.to}`;
+        if (existingEdgeKeys.has(key)) return false;
+        existingEdgeKeys.add(key);
+        return true;
+      });
+
+      const { stats } = result;
+      context.log(`📊 Hightouch Summary: ${stats.syncsProcessed} syncs processed`);
+      context.log(`   🔄 Sync nodes created: ${stats.syncNodesCreated}`);
+      context.log(`   ✅ Source matches: ${stats.matchedSources.length} → ${stats.sourceEdgesCreated} source edges`);
+      context.log(`   ❌ Unmatched: ${stats.unmatchedSources.length} sources (model names not found in graph)`);
+      if (stats.loopBacksDetected > 0) {
+        context.log(`   ↩️ Loop-backs: ${stats.loopBacksDetected} reverse ETL cycles to Snowflake`);
+      }
+      if (stats.destinationNodesCreated > 0) {
+        context.log(`   📤 Destination nodes: ${stats.destinationNodesCreated} (${stats.destinationEdgesCreated} edges)`);
+        context.log(`   📍 Systems: ${stats.destinationTypes.join(", ")}`);
+      }
+
+      // Always write detailed Hightouch matching report
+      const logsDir = join(process.cwd(), "data", "logs");
+      if (!existsSync(logsDir)) {
+        mkdirSync(logsDir, { recursive: true });
+      }
+
+      writeFileSync(join(logsDir, "hightouch-matching-report.json"), JSON.stringify({
+        timestamp: new Date().toISOString(),
+        summary: {
+          totalSyncs: stats.syncsProcessed,
+          syncNodesCreated: stats.syncNodesCreated,
+          matchedSources: stats.matchedSources.length,
+          unmatchedSources: stats.unmatchedSources.length,
+          sourceEdges: stats.sourceEdgesCreated,
+          loopBacks: stats.loopBacksDetected,
+          destinationNodes: stats.destinationNodesCreated,
+          destinationEdges: stats.destinationEdgesCreated,
+          destinationTypes: stats.destinationTypes,
+        },
+        matchedSources: stats.matchedSources,
+        unmatchedSources: stats.unmatchedSources,
+        unmatchedDestinations: stats.unmatchedDestinations,
+      }, null, 2));
+
+      context.log(`   📝 Full matching report: data/logs/hightouch-matching-report.json`);
+
+      if (stats.unmatchedSources.length > 0) {
+        context.log(`   First few unmatched: ${stats.unmatchedSources.slice(0, 5).join(", ")}${stats.unmatchedSources.length > 5 ? "..." : ""}`);
+      }
+
+      return { nodes, edges, citations: result.citations };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      context.log(`⚠️ Hightouch parsing failed: ${msg}`);
+      return { nodes: [], edges: [], citations: [] };
+    }
+  },
+};
@@ -0,0 +1,53 @@
+/**
+ * Built-in source parsers, registered in the order they run.
+ *
+ * Order matters: later parsers see the nodes from earlier ones (externals,
+ * Census and Hightouch match against dbt/Airflow models, Snowflake discovery skips
+ * tables already in the graph, Fivetran links connectors to the dbt sources
+ * and raw Snowflake tables before it, Looker and Tableau resolve the tables
+ * they read against everything, and query history runs last so observed reads
+ * cover every table). Register new parsers here.
+ */
+
+import { registerSourceParser, getSourceParsers, type SourceParser } from "../sourceParser";
+import { dbtSourceParser } from "./dbt";
+import { airflowSourceParser } from "./airflow";
+import { externalsSourceParser } from "./externals";
+import { censusSourceParser } from "./census";
+import { hightouchSourceParser } from "./hightouch";
+import { snowflakeSourceParser } from "./snowflake";
+import { fivetranSourceParser } from "./fivetran";
+import { lookerSourceParser } from "./looker";
+import { tableauSourceParser } from "./tableau";
+import { queryHistorySourceParser } from "./queryHistory";
+
+// Guard against double registration when the module is re-evaluated in dev
+function registerBuiltIn<TConfig>(parser: SourceParser<TConfig>): void {
+  if (!getSourceParsers().some((p) => p.id === parser.id)) {
+    registerSourceParser(parser);
+  }
+}
+
+registerBuiltIn(dbtSourceParser);
+registerBuiltIn(airflowSourceParser);
+registerBuiltIn(externalsSourceParser);
+registerBuiltIn(censusSourceParser);
+registerBuiltIn(hightouchSourceParser);
+registerBuiltIn(snowflakeSourceParser);
+registerBuiltIn(fivetranSourceParser);
+registerBuiltIn(lookerSourceParser);
+registerBuiltIn(tableauSourceParser);
+registerBuiltIn(queryHistorySourceParser);
+
+export {
+  dbtSourceParser,
+  airflowSourceParser,
+  externalsSourceParser,
+  censusSourceParser,
+  hightouchSourceParser,
+  snowflakeSourceParser,
+  fivetranSourceParser,
+  lookerSourceParser,
+  tableauSourceParser,
+  queryHistorySourceParser,
+};
@@ -0,0 +1,70 @@
+import { parseLookmlProject } from "../lookmlParser";
+import { fingerprintLookml } from "../fingerprint";
+import type { SourceParser } from "../sourceParser";
+
+interface LookerSourceConfig {
+  /** Path to the LookML project repo */
+  lookmlPath?: string;
+}
+
+/**
+ * Create Looker view/explore/dashboard/look nodes with exposure edges from
+ * the Snowflake tables views read. Runs after the Snowflake parser so views
+ * can resolve against dbt models, Airflow tables and discovered Snowflake
+ * tables alike.
+ *
+ * Skipped unless a LookML project path is configured.
+ */
+export const lookerSourceParser: SourceParser<LookerSourceConfig> = {
+  id: "looker",
+  name: "Parsing LookML",
+  progressWeight: 2,
+  configSchema: {
+    lookmlPath: {
+      type: "string",
+      description: "Path to the LookML project repo (looks.json in its root adds saved Looks)",
+      env: "LOOKML_PATH",
+    },
+  },
+  fingerprint: (config) => fingerprintLookml(config.lookmlPath),
+
+  async parse(context) {
+    const { lookmlPath } = context.config;
+    if (!lookmlPath) {
+      context.markSkipped();
+      context.reportProgress(100, "ℹ️ Skipped: LookML project path not configured");
+      return { nodes: [], edges: [], citations: [] };
+    }
+
+    context.reportProgress(0, "Parsing LookML project...");
+
+    try {
+      const result = parseLookmlProject(lookmlPath, context.nodes, (progress, message) => {
+        context.reportProgress(progress, message);
+      });
+
+      const existingNodeIds = new Set(context.nodes.map((n) => n.id));
+      const nodes = result.nodes.filter((n) => !existingNodeIds.has(n.id));
+
+      const { stats } = result;
+      context.log(
+        `📊 Looker Summary: ${stats.views} views, ${stats.explores} explores, ${stats.dashboards} dashboards, ${stats.looks} looks`
+      );
+      context.log(`   ✅ Linked ${stats.tableEdges} tables to views`);
+      if (stats.unresolvedTables.length > 0) {
+        context.log(
+          `   ❌ Unresolved: ${stats.unresolvedTables.length} tables not in the graph (e.g. ${stats.unresolvedTables.slice(0, 5).join(", ")}${stats.unresolvedTables.length > 5 ? "..." : ""})`
+        );
+      }
+      if (stats.unresolvedExplores.length > 0) {
+        context.log(`   ❌ Dashboards/looks reference unknown explores: ${stats.unresolvedExplores.slice(0, 5).join(", ")}`);
+      }
+
+      return { nodes, edges: result.edges, citations: result.citations };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      context.log(`⚠️ LookML parsing failed: ${msg}`);
+      return { nodes: [], edges: [], citations: [] };
+    }
+  },
+};
@@ -0,0 +1,90 @@
+import { existsSync } from "fs";
+import { deriveObservedLineage, normalizeQueryHistory, readQueryHistoryFile } from "../queryHistoryParser";
+import { fingerprintQueryHistory } from "../fingerprint";
+import type { SourceParser } from "../sourceParser";
+
+interface QueryHistorySourceConfig {
+  /** ACCESS_HISTORY or QUERY_HISTORY export (CSV or JSON) */
+  queryHistoryPath?: string;
+  /** Tables with no reads in this many days are flagged unused */
+  unusedDays: number;
+}
+
+/**
+ * Add observed edges from a Snowflake ACCESS_HISTORY/QUERY_HISTORY export,
+ * and publish per-table read counts (as the `tableUsage` artifact) so the
+ * indexer can flag unused tables. Runs last so every table is resolvable.
+ *
+ * Skipped unless an export path is configured.
+ */
+export const queryHistorySourceParser: SourceParser<QueryHistorySourceConfig> = {
+  id: "query_history",
+  name: "Reading Snowflake query history",
+  progressWeight: 2,
+  configSchema: {
+    queryHistoryPath: {
+      type: "string",
+      description: "Snowflake ACCESS_HISTORY or QUERY_HISTORY export (.csv with a header row, or .json)",
+      env: "QUERY_HISTORY_PATH",
+    },
+    unusedDays: {
+      type: "number",
+      description: "Flag tables with no observed reads in this many days (counted back from the newest query in the export)",
+      default: 90,
+      env: "QUERY_HISTORY_UNUSED_DAYS",
+    },
+  },
+  fingerprint: (config) => fingerprintQueryHistory(config.queryHistoryPath, config.unusedDays),
+
+  async parse(context) {
+    const { queryHistoryPath, unusedDays } = context.config;
+    if (!queryHistoryPath) {
+      context.markSkipped();
+      context.reportProgress(100, "ℹ️ Skipped: query history export not configured");
+      return { nodes: [], edges: [], citations: [] };
+    }
+
+    if (!existsSync(queryHistoryPath)) {
+      context.log(`⚠️ Query history export not found at ${queryHistoryPath}`);
+      return { nodes: [], edges: [], citations: [] };
+    }
+
+    context.reportProgress(0, "Loading query history export...");
+
+    try {
+      const { records, skipped } = normalizeQueryHistory(readQueryHistoryFile(queryHistoryPath));
+      const result = deriveObservedLineage(records, context.nodes, unusedDays, (progress, message) => {
+        context.reportProgress(progress, message);
+      });
+
+      const existingNodeIds = new Set(context.nodes.map((n) => n.id));
+      const nodes = result.nodes.filter((n) => !existingNodeIds.has(n.id));
+
+      const { stats } = result;
+      context.log(
+        `📊 Query History Summary: ${stats.queries} queries` +
+          (skipped > 0 ? ` (${skipped} failed or without tables skipped)` : "") +
+          `, ${stats.observedEdges} observed edges, ${stats.users} users`
+      );
+      context.log(
+        `   🕸️ ${stats.unusedTables} tables with no reads in the ${unusedDays} days before ${result.asOf ?? "the export"}`
+      );
+      if (stats.unresolvedTables.length > 0) {
+        context.log(
+          `   ❌ Unresolved: ${stats.unresolvedTables.length} tables not in the graph (e.g. ${stats.unresolvedTables.slice(0, 5).join(", ")}${stats.unresolvedTables.length > 5 ? "..." : ""})`
+        );
+      }
+
+      return {
+        nodes,
+        edges: result.edges,
+        citations: [],
+        artifacts: { tableUsage: result.usage, asOf: result.asOf, unusedDays },
+      };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      context.log(`⚠️ Query history parsing failed: ${msg}`);
+      return { nodes: [], edges: [], citations: [] };
+    }
+  },
+};
@@ -0,0 +1,285 @@
+import { getJob, getNodes, getEdges, setJobWaitingForSchemas, dbNodeToGraph, dbEdgeToGraph } from "../../db";
+import {
+  enrichWithSnowflakeMetadata,
+  discoverSnowflakeTables,
+  getSnowflakeConfig,
+  hasSnowflakeCredentials,
+} from "../snowflakeMetadata";
+import { connect, getSchemas, disconnect } from "../../snowflake";
+import type { SourceParser, SourceParserContext, SourceParseResult } from "../sourceParser";
+import type { GraphEdge, NodeMetadata } from "../../types";
+
+interface SnowflakeSourceConfig {
+  snowflakeEnabled: boolean;
+}
+
+type SnowflakeContext = SourceParserContext<SnowflakeSourceConfig>;
+
+// Metadata enrichment takes the first part of the stage, discovery the rest
+const METADATA_END_PCT = 30;
+
+// Metadata fields the enrichment owns, kept across incremental runs
+const ENRICHED_METADATA_KEYS: (keyof NodeMetadata)[] = [
+  "columns",
+  "snowflakeType",
+  "snowflakeTags",
+  "policies",
+  "containsPii",
+  "piiColumns",
+];
+
+/**
+ * Re-publish the Snowflake metadata the last full run stored on nodes that
+ * are still in the graph, so re-parsed nodes don't lose it.
+ */
+function carryOverEnrichedMetadata(context: SnowflakeContext): Record<string, Partial<NodeMetadata>> {
+  const knownIds = new Set(context.nodes.map(n => n.id));
+  const updates: Record<string, Partial<NodeMetadata>> = {};
+
+  for (const node of getNodes()) {
+    if (node.repo === "snowflake" || !knownIds.has(node.id) || !node.metadata) continue;
+    const metadata = JSON.parse(node.metadata) as NodeMetadata;
+    if (!metadata.snowflakeType) continue;
+
+    const update: Partial<NodeMetadata> = {};
+    for (const key of ENRICHED_METADATA_KEYS) {
+      if (metadata[key] !== undefined) {
+        Object.assign(update, { [key]: metadata[key] });
+      }
+    }
+    updates[node.id] = update;
+  }
+
+  return updates;
+}
+
+/**
+ * Fetch columns, comments, tags and policies for nodes already in the graph.
+ * Returns per-node metadata updates; the indexer merges them in once all
+ * parsers have run.
+ */
+async function enrichMetadata(context: SnowflakeContext): Promise<Record<string, Partial<NodeMetadata>>> {
+  if (context.incremental) {
+    const carried = carryOverEnrichedMetadata(context);
+    context.log(`Kept Snowflake metadata for ${Object.keys(carried).length} nodes in incremental mode (run a full index to refresh)`);
+    return carried;
+  }
+
+  const result = await enrichWithSnowflakeMetadata(context.nodes, (progress, message) => {
+    context.reportProgress(Math.round(progress * METADATA_END_PCT / 100), message);
+  });
+
+  if (result.errors.length > 0) {
+    console.warn("Snowflake enrichment errors:", result.errors);
+  }
+
+  context.log(`Enriched ${result.enrichedCount} nodes with Snowflake metadata`);
+  if (result.piiNodeCount > 0) {
+    context.log(`Found PII tags or masking policies on ${result.piiNodeCount} nodes`);
+  }
+
+  return result.metadataUpdates;
+}
+
+/**
+ * Wait for user to select schemas from the UI.
+ * Polls the job record until selected_schemas is populated.
+ */
+async function waitForSchemaSelection(jobId: string): Promise<string[] | null> {
+  const POLL_INTERVAL = 500; // ms
+  const MAX_WAIT = 5 * 60 * 1000; // 5 minutes
+  const startTime = Date.now();
+
+  while (Date.now() - startTime < MAX_WAIT) {
+    const job = getJob(jobId);
+
+    // Check if job was cancelled or failed
+    if (!job || job.status === "failed" || job.cancel_requested === 1) {
+      return null;
+    }
+
+    // Check if user submitted selection
+    if (job.status === "running" && job.selected_schemas) {
+      return JSON.parse(job.selected_schemas);
+    }
+
+    // Wait before polling again
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+  }
+
+  // Timeout - user didn't select in time
+  return null;
+}
+
+/**
+ * Re-add nodes from a previous Snowflake discovery, plus their edges to
+ * nodes that still exist in the graph.
+ */
+function carryOverDiscoveredTables(context: SnowflakeContext): SourceParseResult {
+  const knownIds = new Set(context.nodes.map(n => n.id));
+  const discovered = getNodes().filter(n => n.repo === "snowflake" && !knownIds.has(n.id));
+
+  const nodes = discovered.map(dbNodeToGraph);
+  for (const node of nodes) {
+    knownIds.add(node.id);
+  }
+
+  const discoveredIds = new Set(discovered.map(n => n.id));
+  const existingEdgeKeys = new Set(context.edges.map(e => `${e.from}|${e.to}`));
+  const edges: GraphEdge[] = [];
+  for (const edge of getEdges()) {
+    if (!discoveredIds.has(edge.from_node) && !discoveredIds.has(edge.to_node)) continue;
+    if (!knownIds.has(edge.from_node) || !knownIds.has(edge.to_node)) continue;
+
+    const key = `${edge.from_node}|${edge.to_node}`;
+    if (!existingEdgeKeys.has(key)) {
+      edges.push(dbEdgeToGraph(edge));
+      existingEdgeKeys.add(key);
+    }
+  }
+
+  return { nodes, edges, citations: [] };
+}
+
+/**
+ * Discover all tables in Snowflake that aren't already in the graph.
+ * Creates nodes for raw tables and links them to models that reference them.
+ */
+async function discoverTables(context: SnowflakeContext): Promise<SourceParseResult> {
+  const empty: SourceParseResult = { nodes: [], edges: [], citations: [] };
+  const skip = (message: string): SourceParseResult => {
+    context.markSkipped();
+    context.log(`⚠️ ${message}`);
+    context.reportProgress(100, `⚠️ Skipped: ${message}`);
+    return empty;
+  };
+
+  // Discovery needs interactive schema selection, so incremental runs keep
+  // the tables found by the last full run instead of re-discovering them
+  if (context.incremental) {
+    const carried = carryOverDiscoveredTables(context);
+    context.markSkipped();
+    context.reportProgress(100, `Kept ${carried.nodes.length} previously discovered Snowflake tables (incremental run)`);
+    return carried;
+  }
+
+  if (!hasSnowflakeCredentials()) {
+    return skip("Snowflake credentials not configured");
+  }
+
+  context.reportProgress(METADATA_END_PCT + 3, "Connecting to Snowflake to fetch schemas...");
+
+  const config = getSnowflakeConfig();
+
+  // Step 1: Connect and get available schemas
+  let availableSchemas: string[];
+  try {
+    await connect(config);
+    const allSchemas = await getSchemas(config.database);
+
+    // Filter out system and dev/test schemas
+    availableSchemas = allSchemas.filter((schema) => {
+      const upper = schema.toUpperCase();
+      if (upper === "INFORMATION_SCHEMA" || upper === "PUBLIC") return false;
+      if (upper.includes("_DEV") || upper.includes("_TEST")) return false;
+      return true;
+    }).sort();
+
+    await disconnect();
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return skip(`Snowflake connection failed: ${msg}`);
+  }
+
+  if (availableSchemas.length === 0) {
+    return skip("No schemas found in Snowflake");
+  }
+
+  context.log(`Found ${availableSchemas.length} schemas in Snowflake`);
+  context.reportProgress(METADATA_END_PCT + 7, `Found ${availableSchemas.length} schemas. Waiting for selection...`);
+
+  // Step 2: Set job to waiting state and wait for user selection
+  setJobWaitingForSchemas(context.jobId, availableSchemas);
+
+  const selectedSchemas = await waitForSchemaSelection(context.jobId);
+
+  if (!selectedSchemas || selectedSchemas.length === 0) {
+    return skip("Schema selection cancelled or timed out");
+  }
+
+  context.log(`User selected ${selectedSchemas.length} schemas: ${selectedSchemas.slice(0, 5).join(", ")}${selectedSchemas.length > 5 ? "..." : ""}`);
+  context.reportProgress(METADATA_END_PCT + 10, `Discovering tables from ${selectedSchemas.length} schemas...`);
+
+  // Step 3: Run discovery with selected schemas
+  const existingNodeIds = new Set(context.nodes.map(n => n.id));
+  const discoveryStart = METADATA_END_PCT + 10;
+
+  const result = await discoverSnowflakeTables(
+    existingNodeIds,
+    [...context.nodes],
+    (progress, message) => {
+      context.reportProgress(discoveryStart + Math.floor(progress * (100 - discoveryStart) / 100), message);
+    },
+    selectedSchemas
+  );
+
+  if (result.skipped) {
+    return skip(`Snowflake discovery skipped: ${result.skipReason}`);
+  }
+
+  for (const error of result.errors) {
+    console.warn("Snowflake discovery error:", error);
+  }
+
+  if (result.nodes.length > 0) {
+    context.log(`Snowflake discovery: Found ${result.stats.totalTablesInSnowflake} tables across ${result.stats.schemasScanned.length} schemas`);
+    context.log(`Snowflake discovery: Added ${result.stats.newTablesAdded} new tables (${result.stats.tablesAlreadyInGraph} already in graph)`);
+  }
+  if (result.stats.edgesCreated > 0) {
+    context.log(`Snowflake discovery: Created ${result.stats.edgesCreated} edges from SQL references`);
+  }
+  if (result.stats.nativeObjectsAdded > 0) {
+    context.log(
+      `Snowflake discovery: Added ${result.stats.nativeObjectsAdded} dynamic tables, streams, tasks and procedures ` +
+        `with ${result.stats.nativeEdgesCreated} edges from their definitions`
+    );
+  }
+  const unresolvedNative = result.stats.unresolvedNativeReferences;
+  if (unresolvedNative.length > 0) {
+    context.log(
+      `Snowflake discovery: ${unresolvedNative.length} tables referenced by native objects are not in the graph (e.g. ${unresolvedNative.slice(0, 5).join(", ")}${unresolvedNative.length > 5 ? "..." : ""})`
+    );
+  }
+
+  context.reportProgress(
+    100,
+    `Discovered ${result.stats.newTablesAdded} tables, ${result.stats.nativeObjectsAdded} native objects, ${result.edges.length} edges from Snowflake`
+  );
+
+  return { nodes: result.nodes, edges: result.edges, citations: [] };
+}
+
+export const snowflakeSourceParser: SourceParser<SnowflakeSourceConfig> = {
+  id: "snowflake",
+  name: "Snowflake metadata & table discovery",
+  progressWeight: 15,
+  configSchema: {
+    snowflakeEnabled: {
+      type: "boolean",
+      description: "Enrich nodes with Snowflake metadata and discover raw tables (needs SNOWFLAKE_* credentials or SNOWFLAKE_METADATA_DUMP)",
+      default: false,
+    },
+  },
+
+  async parse(context) {
+    if (!context.config.snowflakeEnabled) {
+      context.markSkipped();
+      context.reportProgress(100, "Snowflake integration disabled");
+      return { nodes: [], edges: [], citations: [] };
+    }
+
+    const nodeMetadata = await enrichMetadata(context);
+    const result = await discoverTables(context);
+    return Object.keys(nodeMetadata).length > 0 ? { ...result, artifacts: { nodeMetadata } } : result;
+  },
+};
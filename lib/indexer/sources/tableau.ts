@@ -0,0 +1,69 @@
+import { parseTableauWorkbooks } from "../tableauParser";
+import { fingerprintTableau } from "../fingerprint";
+import type { SourceParser } from "../sourceParser";
+
+interface TableauSourceConfig {
+  /** Directory of Tableau workbooks (.twb/.twbx) */
+  tableauPath?: string;
+}
+
+/**
+ * Create Tableau workbook and sheet nodes with exposure edges from the
+ * Snowflake/dbt tables their datasources read.
+ *
+ * Skipped unless a workbooks directory is configured.
+ */
+export const tableauSourceParser: SourceParser<TableauSourceConfig> = {
+  id: "tableau",
+  name: "Parsing Tableau workbooks",
+  progressWeight: 2,
+  configSchema: {
+    tableauPath: {
+      type: "string",
+      description: "Directory of Tableau workbooks (.twb XML or .twbx archives)",
+      env: "TABLEAU_WORKBOOKS_PATH",
+    },
+  },
+  fingerprint: (config) => fingerprintTableau(config.tableauPath),
+
+  async parse(context) {
+    const { tableauPath } = context.config;
+    if (!tableauPath) {
+      context.markSkipped();
+      context.reportProgress(100, "ℹ️ Skipped: Tableau workbooks path not configured");
+      return { nodes: [], edges: [], citations: [] };
+    }
+
+    context.reportProgress(0, "Reading Tableau workbooks...");
+
+    try {
+      const result = parseTableauWorkbooks(tableauPath, context.nodes, (progress, message) => {
+        context.reportProgress(progress, message);
+      });
+
+      const existingNodeIds = new Set(context.nodes.map((n) => n.id));
+      const nodes = result.nodes.filter((n) => !existingNodeIds.has(n.id));
+
+      const { stats } = result;
+      context.log(`📊 Tableau Summary: ${stats.workbooks} workbooks, ${stats.sheets} sheets`);
+      context.log(`   ✅ Linked ${stats.tableEdges} tables to sheets`);
+      if (stats.unresolvedTables.length > 0) {
+        context.log(
+          `   ❌ Unresolved: ${stats.unresolvedTables.length} tables not in the graph (e.g. ${stats.unresolvedTables.slice(0, 5).join(", ")}${stats.unresolvedTables.length > 5 ? "..." : ""})`
+        );
+      }
+      if (stats.publishedDatasources.length > 0) {
+        context.log(`   ℹ️ Published datasources (tables not in the workbook): ${stats.publishedDatasources.slice(0, 5).join(", ")}`);
+      }
+      for (const failed of stats.failedWorkbooks) {
+        context.log(`   ⚠️ Could not read ${failed.file}: ${failed.error}`);
+      }
+
+      return { nodes, edges: result.edges, citations: result.citations };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      context.log(`⚠️ Tableau parsing failed: ${msg}`);
+      return { nodes: [], edges: [], citations: [] };
+    }
+  },
+};
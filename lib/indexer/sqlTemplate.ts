@@ -0,0 +1,297 @@
+/**
+ * Airflow SQL Templates
+ *
+ * Lightweight Jinja rendering for Airflow SQL, so `{{ params.schema }}.orders`
+ * becomes a real table name before table extraction. Values come from:
+ * - the template vars file (default params, Airflow Variables, context overrides)
+ * - `params=` on the DAG and on the task that runs the SQL
+ * - fixed stand-ins for Airflow's runtime context (ds, ts, dag, task, ...)
+ *
+ * Supported: `{{ expr }}` with dotted/indexed lookups, string and number
+ * literals, `~` concatenation, common filters and `.get(key, default)`;
+ * `{% set %}`, the first branch of `{% if %}`, `{% for %}` bodies (once) and
+ * `{# comments #}`. Anything else is left unresolved and reported, and its
+ * placeholder is replaced with UNRESOLVED_PLACEHOLDER.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import * as yaml from "js-yaml";
+
+// Stand-in for expressions that couldn't be rendered; table names containing it are dropped
+export const UNRESOLVED_PLACEHOLDER = "__unresolved__";
+
+// Template vars file format (YAML or JSON)
+export interface TemplateVarsConfig {
+  params?: Record<string, unknown>;      // Defaults for {{ params.x }}
+  variables?: Record<string, unknown>;   // Airflow Variables: {{ var.value.x }}, {{ var.json.x.y }}
+  context?: Record<string, unknown>;     // Other top-level names, overriding the built-in stand-ins
+}
+
+export interface TemplateRenderResult {
+  sql: string;
+  unresolved: string[];
+}
+
+// Airflow's runtime context, fixed so rendered SQL (and node IDs) are stable across indexes
+const BUILTIN_CONTEXT: Record<string, unknown> = {
+  ds: "2024-01-01",
+  ds_nodash: "20240101",
+  ts: "2024-01-01T00:00:00+00:00",
+  ts_nodash: "20240101T000000",
+  execution_date: "2024-01-01T00:00:00+00:00",
+  logical_date: "2024-01-01T00:00:00+00:00",
+  data_interval_start: "2024-01-01T00:00:00+00:00",
+  data_interval_end: "2024-01-02T00:00:00+00:00",
+  prev_ds: "2023-12-31",
+  next_ds: "2024-01-02",
+  yesterday_ds: "2023-12-31",
+  tomorrow_ds: "2024-01-02",
+  run_id: "scheduled__2024-01-01T00:00:00+00:00",
+};
+
+/**
+ * Find the template vars file: the configured path, else template_vars.{yml,yaml,json}
+ * at the root of the Airflow repo.
+ */
+export function findTemplateVarsPath(airflowPath: string, configuredPath?: string): string | null {
+  if (configuredPath) {
+    if (!existsSync(configuredPath)) {
+      throw new Error(`Airflow template vars file not found at ${configuredPath}`);
+    }
+    return configuredPath;
+  }
+
+  const candidates = ["template_vars.yml", "template_vars.yaml", "template_vars.json"].map((f) => join(airflowPath, f));
+  return candidates.find((candidate) => existsSync(candidate)) ?? null;
+}
+
+export function loadTemplateVars(path: string): TemplateVarsConfig {
+  // JSON is valid YAML, so one loader handles both
+  const config = yaml.load(readFileSync(path, "utf-8")) as TemplateVarsConfig | null;
+  return config ?? {};
+}
+
+/**
+ * Build the render context for one task: built-ins, then the vars file,
+ * then DAG params, then task params.
+ */
+export function buildTemplateContext(
+  vars: TemplateVarsConfig,
+  scope: { dagId?: string; taskId?: string; dagParams?: Record<string, string>; taskParams?: Record<string, string> } = {}
+): Record<string, unknown> {
+  return {
+    ...BUILTIN_CONTEXT,
+    ...(scope.dagId ? { dag: { dag_id: scope.dagId }, dag_id: scope.dagId } : {}),
+    ...(scope.taskId ? { task: { task_id: scope.taskId }, task_id: scope.taskId } : {}),
+    ...vars.context,
+    params: { ...vars.params, ...scope.dagParams, ...scope.taskParams },
+    var: { value: vars.variables ?? {}, json: vars.variables ?? {} },
+  };
+}
+
+// ============================================================================
+// Expressions
+// ============================================================================
+
+// Marker for values that couldn't be resolved
+const UNDEFINED = Symbol("undefined");
+type Value = unknown;
+
+function splitTopLevel(expr: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < expr.length; i++) {
+    const ch = expr[i];
+    if (quote) {
+      if (ch === "\\") i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"') quote = ch;
+    else if (ch === "(" || ch === "[") depth++;
+    else if (ch === ")" || ch === "]") depth--;
+    else if (depth === 0 && expr.startsWith(separator, i)) {
+      parts.push(expr.slice(start, i));
+      start = i + separator.length;
+      i += separator.length - 1;
+    }
+  }
+  parts.push(expr.slice(start));
+  return parts.map((p) => p.trim());
+}
+
+function lookup(context: Record<string, unknown>, path: string): Value {
+  // a.b['c'].d -> [a, b, c, d]
+  const segments = path.match(/[A-Za-z_]\w*|\[\s*(['"]).*?\1\s*\]|\[\s*\d+\s*\]/g) ?? [];
+  let current: Value = context;
+  for (const segment of segments) {
+    const key = segment.startsWith("[") ? segment.slice(1, -1).trim().replace(/^['"]|['"]$/g, "") : segment;
+    if (current === null || typeof current !== "object" || !(key in (current as object))) return UNDEFINED;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function evaluatePrimary(expr: string, context: Record<string, unknown>): Value {
+  const trimmed = expr.trim();
+
+  const literal = trimmed.match(/^(['"])([\s\S]*)\1$/);
+  if (literal) return literal[2];
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  if (trimmed === "True" || trimmed === "true") return true;
+  if (trimmed === "False" || trimmed === "false") return false;
+  if (trimmed === "None" || trimmed === "none") return null;
+
+  if (trimmed.startsWith("(") && trimmed.endsWith(")")) {
+    return evaluateExpression(trimmed.slice(1, -1), context);
+  }
+
+  // x.get('key', default)
+  const get = trimmed.match(/^([\w.[\]'"]+)\.get\(([\s\S]*)\)$/);
+  if (get) {
+    const [keyExpr, defaultExpr] = splitTopLevel(get[2], ",");
+    const container = lookup(context, get[1]);
+    const key = evaluatePrimary(keyExpr, context);
+    if (container && typeof container === "object" && typeof key === "string" && key in container) {
+      return (container as Record<string, unknown>)[key];
+    }
+    return defaultExpr !== undefined ? evaluateExpression(defaultExpr, context) : UNDEFINED;
+  }
+
+  if (/^[A-Za-z_][\w.]*(\[[^\]]+\][\w.]*)*$/.test(trimmed)) {
+    return lookup(context, trimmed);
+  }
+
+  return UNDEFINED;
+}
+
+function applyFilter(value: Value, filter: string, context: Record<string, unknown>): Value {
+  const match = filter.match(/^(\w+)\s*(?:\(([\s\S]*)\))?$/);
+  if (!match) return UNDEFINED;
+  const [, name, argText] = match;
+  const args = argText ? splitTopLevel(argText, ",").map((a) => evaluateExpression(a, context)) : [];
+
+  switch (name) {
+    case "default":
+    case "d":
+      return value === UNDEFINED || value === null ? args[0] ?? "" : value;
+    case "upper":
+      return value === UNDEFINED ? value : String(value).toUpperCase();
+    case "lower":
+      return value === UNDEFINED ? value : String(value).toLowerCase();
+    case "trim":
+      return value === UNDEFINED ? value : String(value).trim();
+    case "string":
+      return value === UNDEFINED ? value : String(value);
+    case "replace":
+      return value === UNDEFINED ? value : String(value).split(String(args[0])).join(String(args[1] ?? ""));
+    default:
+      return UNDEFINED;
+  }
+}
+
+function evaluateExpression(expr: string, context: Record<string, unknown>): Value {
+  const concatenated = splitTopLevel(expr, "~");
+  if (concatenated.length > 1) {
+    const values = concatenated.map((part) => evaluateExpression(part, context));
+    return values.some((v) => v === UNDEFINED) ? UNDEFINED : values.map((v) => String(v ?? "")).join("");
+  }
+
+  const [primary, ...filters] = splitTopLevel(expr, "|");
+  let value = evaluatePrimary(primary, context);
+  for (const filter of filters) {
+    value = applyFilter(value, filter, context);
+  }
+  return value;
+}
+
+function stringify(value: Value): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Render `{{ }}` expressions and `{% %}` statements in SQL. Unresolved
+ * expressions are listed (once each) and replaced with UNRESOLVED_PLACEHOLDER.
+ */
+export function renderSqlTemplate(sql: string, context: Record<string, unknown>): TemplateRenderResult {
+  if (!sql.includes("{{") && !sql.includes("{%") && !sql.includes("{#")) {
+    return { sql, unresolved: [] };
+  }
+
+  const scope: Record<string, unknown> = { ...context };
+  const unresolved = new Set<string>();
+  // One entry per open if/for/macro block: whether its current branch is emitted
+  const emitting: boolean[] = [];
+  const isEmitting = () => emitting.every(Boolean);
+  let output = "";
+
+  for (const token of sql.split(/(\{\{[\s\S]*?\}\}|\{%[\s\S]*?%\}|\{#[\s\S]*?#\})/)) {
+    if (token.startsWith("{#")) continue;
+
+    if (token.startsWith("{{")) {
+      if (!isEmitting()) continue;
+      const expr = token.slice(2, -2).replace(/^-|-$/g, "").trim();
+      const value = evaluateExpression(expr, scope);
+      if (value === UNDEFINED) {
+        unresolved.add(expr);
+        output += UNRESOLVED_PLACEHOLDER;
+      } else {
+        output += stringify(value);
+      }
+      continue;
+    }
+
+    if (token.startsWith("{%")) {
+      const statement = token.slice(2, -2).replace(/^-|-$/g, "").trim();
+      const [keyword] = statement.split(/\s+/);
+
+      switch (keyword) {
+        case "set": {
+          const assignment = statement.match(/^set\s+(\w+)\s*=\s*([\s\S]+)$/);
+          if (assignment && isEmitting()) {
+            const value = evaluateExpression(assignment[2], scope);
+            if (value !== UNDEFINED) scope[assignment[1]] = value;
+          }
+          break;
+        }
+        case "if":
+          // Conditions aren't evaluated; the first branch stands in for the query
+          emitting.push(true);
+          break;
+        case "elif":
+        case "else":
+          if (emitting.length > 0) emitting[emitting.length - 1] = false;
+          break;
+        case "for":
+          emitting.push(true);
+          break;
+        case "macro":
+        case "call":
+          emitting.push(false);
+          break;
+        case "endif":
+        case "endfor":
+        case "endmacro":
+        case "endcall":
+          emitting.pop();
+          break;
+        default:
+          // raw/endraw, filter blocks, etc.: drop the tag, keep the content
+          break;
+      }
+      continue;
+    }
+
+    if (isEmitting()) output += token;
+  }
+
+  return { sql: output, unresolved: [...unresolved] };
+}
@@ -0,0 +1,100 @@
+/**
+ * Table Reference Resolution
+ *
+ * Shared FQN normalization for table names found in SQL and BI tools, and a
+ * resolver that maps those references onto graph nodes (dbt models and
+ * sources, Airflow tables, discovered Snowflake tables).
+ */
+
+import type { GraphNode } from "../types";
+
+// Defaults for partially qualified names, matching the warehouse the DAGs run against
+const DEFAULT_DATABASE = "prod_rippling_dwh";
+const DEFAULT_SCHEMA = "public";
+
+// Node types that stand for warehouse tables
+const TABLE_NODE_TYPES = new Set<GraphNode["type"]>(["model", "source", "seed", "table", "view"]);
+
+// Normalize table names to FQN format
+export function normalizeFqn(tableName: string): string {
+  const parts = tableName.toLowerCase().split(".");
+
+  // If already 3 parts, return as-is
+  if (parts.length === 3) {
+    return parts.join(".");
+  }
+
+  // If 2 parts (schema.table), assume default database
+  if (parts.length === 2) {
+    return `${DEFAULT_DATABASE}.${parts[0]}.${parts[1]}`;
+  }
+
+  // If 1 part, assume default db.schema
+  return `${DEFAULT_DATABASE}.${DEFAULT_SCHEMA}.${parts[0]}`;
+}
+
+/**
+ * Strip quoting from a table reference: "DB"."SCHEMA"."T", `schema.t`, [dbo].[t].
+ */
+export function cleanTableReference(reference: string): string {
+  return reference
+    .trim()
+    .replace(/["`[\]]/g, "")
+    .replace(/\s*\.\s*/g, ".")
+    .toLowerCase();
+}
+
+/**
+ * Resolves table references to graph nodes: exact FQN first, then
+ * schema.table against node IDs and metadata, then (for bare names) a
+ * unique node with that name.
+ */
+export class TableResolver {
+  private readonly byId = new Map<string, GraphNode>();
+  private readonly bySchemaTable = new Map<string, GraphNode[]>();
+  private readonly byName = new Map<string, GraphNode[]>();
+
+  constructor(nodes: readonly GraphNode[]) {
+    for (const node of nodes) {
+      if (!TABLE_NODE_TYPES.has(node.type)) continue;
+
+      const id = node.id.toLowerCase();
+      this.byId.set(id, node);
+
+      const parts = id.split(".");
+      const keys = new Set<string>();
+      if (parts.length >= 2) keys.add(parts.slice(-2).join("."));
+      if (node.metadata?.schema) keys.add(`${node.metadata.schema.toLowerCase()}.${node.name.toLowerCase()}`);
+      for (const key of keys) {
+        this.bySchemaTable.set(key, [...(this.bySchemaTable.get(key) ?? []), node]);
+      }
+
+      const name = node.name.toLowerCase();
+      this.byName.set(name, [...(this.byName.get(name) ?? []), node]);
+    }
+  }
+
+  resolve(reference: string): GraphNode | null {
+    const cleaned = cleanTableReference(reference);
+    const parts = cleaned.split(".");
+    if (parts.some((p) => !p)) return null;
+
+    const exact = this.byId.get(cleaned) ?? this.byId.get(normalizeFqn(cleaned));
+    if (exact) return exact;
+
+    if (parts.length >= 2) {
+      const candidates = this.bySchemaTable.get(parts.slice(-2).join(".")) ?? [];
+      // With a database, only accept a candidate from that database (or one without a known database)
+      const database = parts.length >= 3 ? parts[parts.length - 3] : undefined;
+      return (
+        candidates.find((n) => !database || n.id.toLowerCase().startsWith(`${database}.`)) ??
+        candidates.find((n) => !database || !n.metadata?.database) ??
+        null
+      );
+    }
+
+    // Bare names are only trusted when unambiguous
+    const named = this.byName.get(cleaned) ?? [];
+    return named.length === 1 ? named[0] : null;
+  }
+}
@@ -0,0 +1,479 @@
+/**
+ * Tableau Workbook Parser
+ *
+ * Parses local Tableau workbooks (.twb XML, or .twbx archives containing one)
+ * to link dashboards to the warehouse:
+ * - datasources: relation tables and custom SQL, qualified by the connection's database/schema
+ * - worksheets: the datasources they query
+ * - dashboards: the worksheets placed on them
+ *
+ * Creates a dashboard node per workbook and per sheet, with exposure edges
+ * Snowflake/dbt table → worksheet → dashboard → workbook.
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync } from "fs";
+import { basename, extname, join, relative } from "path";
+import { inflateRawSync } from "zlib";
+import { v4 as uuid } from "uuid";
+import type { GraphNode, GraphEdge, Citation } from "../types";
+import { parseSql } from "../parsers/sqlParser";
+import { TableResolver } from "./tableResolver";
+
+// ============================================================================
+// .twbx archives
+// ============================================================================
+
+/**
+ * Read the workbook XML out of a .twbx (a zip archive holding the .twb plus
+ * extracts and images). Only stored and deflated entries are supported,
+ * which is all Tableau writes.
+ */
+function readTwbxWorkbook(buffer: Buffer): string {
+  // End of central directory record: scan back over the trailing comment
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("Not a zip archive");
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) break;
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf-8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!name.endsWith(".twb")) continue;
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) return data.toString("utf-8");
+    if (method === 8) return inflateRawSync(data).toString("utf-8");
+    throw new Error(`Unsupported compression method ${method} for ${name}`);
+  }
+
+  throw new Error("No .twb workbook found in archive");
+}
+
+// ============================================================================
+// Workbook XML
+// ============================================================================
+
+interface XmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+  line: number;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Build an element tree from workbook XML. Tableau writes plain, well-formed
+ * XML, so tags, attributes and text are all we need (no namespaces or DTDs).
+ */
+function parseXml(source: string): XmlElement {
+  const root: XmlElement = { tag: "#document", attrs: {}, children: [], text: "", line: 1 };
+  const stack = [root];
+  const tagPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:'[^']*'|"[^"]*"))*)\s*(\/?)>/g;
+  const attrPattern = /([^\s=]+)\s*=\s*(?:'([^']*)'|"([^"]*)")/g;
+
+  let line = 1;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(source)) !== null) {
+    const between = source.slice(lastIndex, match.index);
+    stack[stack.length - 1].text += decodeEntities(between);
+    line += (between.match(/\n/g) ?? []).length;
+    const tagLine = line;
+    line += (match[0].match(/\n/g) ?? []).length;
+    lastIndex = tagPattern.lastIndex;
+
+    const [, cdata, closing, tag, attrSource, selfClosing] = match;
+    if (cdata !== undefined) {
+      stack[stack.length - 1].text += cdata;
+    } else if (!tag) {
+      continue; // Comment, declaration or doctype
+    } else if (closing) {
+      if (stack.length > 1) stack.pop();
+    } else {
+      const attrs: Record<string, string> = {};
+      for (const attr of attrSource.matchAll(attrPattern)) {
+        attrs[attr[1]] = decodeEntities(attr[2] ?? attr[3]);
+      }
+      const element: XmlElement = { tag, attrs, children: [], text: "", line: tagLine };
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+// Newer workbooks wrap tags in feature-flag prefixes, e.g. `_.fcp.ObjectModelEncapsulateLegacy.true...relation`
+function tagName(element: XmlElement): string {
+  const dots = element.tag.lastIndexOf(".");
+  return dots < 0 ? element.tag : element.tag.slice(dots + 1);
+}
+
+function childrenNamed(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((c) => tagName(c) === name);
+}
+
+function descendantsNamed(element: XmlElement, name: string, results: XmlElement[] = []): XmlElement[] {
+  for (const c of element.children) {
+    if (tagName(c) === name) results.push(c);
+    descendantsNamed(c, name, results);
+  }
+  return results;
+}
+
+// ============================================================================
+// Workbook model
+// ============================================================================
+
+export interface TableauDatasource {
+  name: string;                 // Internal name, e.g. "federated.0abc123"
+  caption: string;
+  tables: string[];             // Qualified table references (quoting stripped)
+  customSql: string[];
+  published: boolean;           // Published datasources live on the server, not in the workbook
+}
+
+export interface TableauSheet {
+  name: string;
+  kind: "worksheet" | "dashboard";
+  line: number;
+  datasources: string[];        // Worksheets: datasource names queried
+  sheets: string[];             // Dashboards: worksheets placed on them
+}
+
+export interface TableauWorkbook {
+  name: string;
+  filePath: string;
+  datasources: TableauDatasource[];
+  sheets: TableauSheet[];
+}
+
+// "[PROD].[MARTS].[MART_B]" -> ["PROD", "MARTS", "MART_B"]
+function splitTableReference(reference: string): string[] {
+  return reference
+    .split(/\]\s*\.\s*\[|\.(?![^[]*\])/)
+    .map((part) => part.replace(/^\[|\]$/g, "").replace(/^"|"$/g, "").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Fill in the connection's database/schema for partially qualified names.
+ */
+function qualifyTable(parts: string[], connection?: XmlElement): string {
+  const database = connection?.attrs.dbname;
+  const schema = connection?.attrs.schema;
+  if (parts.length === 1 && schema) parts = [schema, ...parts];
+  if (parts.length === 2 && database) parts = [database, ...parts];
+  return parts.join(".");
+}
+
+function readDatasource(element: XmlElement): TableauDatasource {
+  const datasource: TableauDatasource = {
+    name: element.attrs.name,
+    caption: element.attrs.caption ?? element.attrs.name,
+    tables: [],
+    customSql: [],
+    published: false,
+  };
+
+  const connection = childrenNamed(element, "connection")[0];
+  if (!connection) return datasource;
+  if (connection.attrs.class === "sqlproxy") datasource.published = true;
+
+  // Federated connections name their underlying connections; relations point at them
+  const namedConnections = new Map<string, XmlElement>();
+  for (const named of descendantsNamed(connection, "named-connection")) {
+    const inner = childrenNamed(named, "connection")[0];
+    if (inner) namedConnections.set(named.attrs.name, inner);
+  }
+
+  // Relations sit directly under the connection or under the object model's tables
+  for (const relation of descendantsNamed(element, "relation")) {
+    const relationConnection = namedConnections.get(relation.attrs.connection) ?? connection;
+    if (relation.attrs.type === "table" && relation.attrs.table) {
+      const table = qualifyTable(splitTableReference(relation.attrs.table), relationConnection);
+      if (!datasource.tables.includes(table)) datasource.tables.push(table);
+    } else if (relation.attrs.type === "text" && relation.text.trim()) {
+      datasource.customSql.push(relation.text.trim());
+      // Custom SQL may leave tables unqualified; qualify them like relations
+      const sql = relation.text.replace(/<\[Parameters\]\.\[[^\]]*\]>/g, "NULL");
+      for (const table of parseSql(sql).sourceTables) {
+        const qualified = qualifyTable(splitTableReference(table), relationConnection);
+        if (!datasource.tables.includes(qualified)) datasource.tables.push(qualified);
+      }
+    }
+  }
+
+  return datasource;
+}
+
+export function parseTableauWorkbook(xml: string, filePath: string): TableauWorkbook {
+  const root = parseXml(xml);
+  const workbook = childrenNamed(root, "workbook")[0];
+  if (!workbook) {
+    throw new Error("Missing <workbook> root element");
+  }
+
+  const datasources = childrenNamed(workbook, "datasources")
+    .flatMap((d) => childrenNamed(d, "datasource"))
+    .filter((d) => d.attrs.name && d.attrs.name !== "Parameters")
+    .map(readDatasource);
+  const datasourceNames = new Set(datasources.map((d) => d.name));
+
+  const worksheets: TableauSheet[] = childrenNamed(workbook, "worksheets")
+    .flatMap((w) => childrenNamed(w, "worksheet"))
+    .filter((w) => w.attrs.name)
+    .map((w) => ({
+      name: w.attrs.name,
+      kind: "worksheet",
+      line: w.line,
+      datasources: [...new Set(
+        descendantsNamed(w, "datasource").map((d) => d.attrs.name).filter((name) => datasourceNames.has(name))
+      )],
+      sheets: [],
+    }));
+  const worksheetNames = new Set(worksheets.map((w) => w.name));
+
+  const dashboards: TableauSheet[] = childrenNamed(workbook, "dashboards")
+    .flatMap((d) => childrenNamed(d, "dashboard"))
+    .filter((d) => d.attrs.name)
+    .map((d) => ({
+      name: d.attrs.name,
+      kind: "dashboard",
+      line: d.line,
+      datasources: [],
+      sheets: [...new Set(
+        descendantsNamed(d, "zone").map((z) => z.attrs.name).filter((name) => worksheetNames.has(name))
+      )],
+    }));
+
+  return {
+    name: basename(filePath, extname(filePath)),
+    filePath,
+    datasources,
+    sheets: [...worksheets, ...dashboards],
+  };
+}
+
+// ============================================================================
+// Main Parser Function
+// ============================================================================
+
+export interface TableauParseResult {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  citations: Citation[];
+  stats: {
+    workbooks: number;
+    sheets: number;
+    tableEdges: number;
+    unresolvedTables: string[];
+    publishedDatasources: string[];
+    failedWorkbooks: Array<{ file: string; error: string }>;
+  };
+}
+
+function findWorkbookFiles(dir: string): string[] {
+  const results: string[] = [];
+  if (!existsSync(dir)) return results;
+
+  for (const entry of readdirSync(dir).sort()) {
+    if (entry.startsWith(".")) continue;
+    const fullPath = join(dir, entry);
+    if (statSync(fullPath).isDirectory()) {
+      results.push(...findWorkbookFiles(fullPath));
+    } else if (entry.endsWith(".twb") || entry.endsWith(".twbx")) {
+      results.push(fullPath);
+    }
+  }
+
+  return results;
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().trim().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+}
+
+/**
+ * Parse every workbook under a directory and link sheets to the tables
+ * already in the graph.
+ */
+export function parseTableauWorkbooks(
+  workbooksPath: string,
+  existingNodes: readonly GraphNode[],
+  onProgress?: (percent: number, message: string) => void
+): TableauParseResult {
+  const result: TableauParseResult = {
+    nodes: [],
+    edges: [],
+    citations: [],
+    stats: {
+      workbooks: 0,
+      sheets: 0,
+      tableEdges: 0,
+      unresolvedTables: [],
+      publishedDatasources: [],
+      failedWorkbooks: [],
+    },
+  };
+
+  if (!existsSync(workbooksPath)) {
+    throw new Error(`Tableau workbooks directory not found at ${workbooksPath}`);
+  }
+
+  const files = findWorkbookFiles(workbooksPath);
+  onProgress?.(0, `Found ${files.length} Tableau workbooks`);
+
+  const resolver = new TableResolver(existingNodes);
+  const usedWorkbookSlugs = new Set<string>();
+  const createdEdges = new Set<string>();
+  const addEdge = (from: string, to: string, inferredFrom: string): boolean => {
+    const key = `${from}|${to}`;
+    if (createdEdges.has(key)) return false;
+    createdEdges.add(key);
+    result.edges.push({ id: uuid(), from, to, type: "exposure", metadata: { inferredFrom } });
+    return true;
+  };
+
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    const relPath = relative(workbooksPath, file);
+
+    let workbook: TableauWorkbook;
+    try {
+      const xml = file.endsWith(".twbx") ? readTwbxWorkbook(readFileSync(file)) : readFileSync(file, "utf-8");
+      workbook = parseTableauWorkbook(xml, relPath);
+    } catch (error) {
+      result.stats.failedWorkbooks.push({ file: relPath, error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    // Slug the path rather than the name so same-named workbooks in different
+    // folders stay separate (top-level workbooks slug to just their name).
+    // foo.twb next to foo.twbx keeps the extension so neither is dropped.
+    let workbookSlug = slugify(relPath.slice(0, relPath.length - extname(relPath).length));
+    if (usedWorkbookSlugs.has(workbookSlug)) {
+      console.warn(`Tableau workbook ${relPath} clashes with another workbook of the same name, keying it by its extension`);
+      workbookSlug = slugify(relPath);
+    }
+    usedWorkbookSlugs.add(workbookSlug);
+    const workbookId = `tableau.workbook.${workbookSlug}`;
+    result.nodes.push({
+      id: workbookId,
+      name: workbook.name,
+      type: "external",
+      subtype: "dashboard",
+      repo: "tableau",
+      metadata: {
+        description: `Tableau workbook with ${workbook.sheets.length} sheets on ${workbook.datasources.map((d) => d.caption).join(", ") || "no datasources"}`,
+        filePath: relPath,
+        tags: ["tableau", "workbook"],
+      },
+      semanticLayer: "external",
+    });
+    result.citations.push({ id: uuid(), nodeId: workbookId, filePath: file });
+    result.stats.workbooks++;
+
+    // Datasource name → graph nodes for the tables it reads
+    const datasourceTables = new Map<string, GraphNode[]>();
+    for (const datasource of workbook.datasources) {
+      if (datasource.published && datasource.tables.length === 0) {
+        result.stats.publishedDatasources.push(`${workbook.name}: ${datasource.caption}`);
+      }
+      const tables: GraphNode[] = [];
+      for (const table of datasource.tables) {
+        const node = resolver.resolve(table);
+        if (node) {
+          if (!tables.includes(node)) tables.push(node);
+        } else if (!result.stats.unresolvedTables.includes(table)) {
+          result.stats.unresolvedTables.push(table);
+        }
+      }
+      datasourceTables.set(datasource.name, tables);
+    }
+
+    const sheetId = (name: string) => `tableau.sheet.${workbookSlug}.${slugify(name)}`;
+    const onDashboard = new Set(workbook.sheets.flatMap((s) => s.sheets));
+    const usedDatasources = new Set(workbook.sheets.flatMap((s) => s.datasources));
+
+    for (const sheet of workbook.sheets) {
+      const id = sheetId(sheet.name);
+      result.nodes.push({
+        id,
+        name: `${workbook.name}: ${sheet.name}`,
+        type: "external",
+        subtype: "dashboard",
+        repo: "tableau",
+        metadata: {
+          description: sheet.kind === "dashboard"
+            ? `Tableau dashboard showing ${sheet.sheets.join(", ") || "no worksheets"}`
+            : `Tableau worksheet on ${sheet.datasources.map((name) => workbook.datasources.find((d) => d.name === name)?.caption ?? name).join(", ") || "no datasources"}`,
+          filePath: relPath,
+          lineStart: sheet.line,
+          tags: ["tableau", sheet.kind],
+        },
+        semanticLayer: "external",
+      });
+      result.citations.push({ id: uuid(), nodeId: id, filePath: file, startLine: sheet.line });
+      result.stats.sheets++;
+
+      for (const datasource of sheet.datasources) {
+        for (const table of datasourceTables.get(datasource) ?? []) {
+          if (addEdge(table.id, id, "tableau-datasource")) result.stats.tableEdges++;
+        }
+      }
+      for (const worksheet of sheet.sheets) {
+        addEdge(sheetId(worksheet), id, "tableau-dashboard");
+      }
+      // Sheets roll up to the workbook unless a dashboard already shows them
+      if (!onDashboard.has(sheet.name)) {
+        addEdge(id, workbookId, "tableau-workbook");
+      }
+    }
+
+    // Datasources no sheet uses still feed the workbook
+    for (const [datasource, tables] of datasourceTables) {
+      if (usedDatasources.has(datasource)) continue;
+      for (const table of tables) {
+        if (addEdge(table.id, workbookId, "tableau-datasource")) result.stats.tableEdges++;
+      }
+    }
+
+    onProgress?.(Math.round(((i + 1) / files.length) * 100), `Parsed ${i + 1}/${files.length} workbooks`);
+  }
+
+  onProgress?.(100, `Parsed ${result.stats.workbooks} Tableau workbooks with ${result.stats.sheets} sheets`);
+
+  return result;
+}
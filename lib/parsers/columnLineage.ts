@@ -0,0 +1,396 @@
+/**
+ * Column-Level Lineage
+ *
+ * Maps each output column of a statement to the physical table columns it is
+ * computed from. References are resolved through CTEs, subqueries, joins and
+ * UNIONs, and `*` (including `t.*` and `* EXCLUDE (...)`) is expanded from the
+ * upstream columns the caller knows about. Stars over tables with unknown
+ * columns can't be listed, but columns selected through them later still
+ * resolve to the table.
+ *
+ * Supported statements: SELECT, CREATE TABLE/VIEW ... AS SELECT and
+ * INSERT ... SELECT. Only the SELECT list contributes lineage; columns used in
+ * WHERE/JOIN/GROUP BY filter rows but don't feed values.
+ */
+
+import { Parser } from "node-sql-parser";
+import type { ColumnTransform } from "../types";
+
+const parser = new Parser();
+
+export interface ColumnSource {
+  /** Table as written in the SQL, lowercased (e.g. analytics.core.orders) */
+  table: string;
+  column: string;
+}
+
+export interface ColumnLineageEntry {
+  column: string;
+  sources: ColumnSource[];
+  transform: ColumnTransform;
+}
+
+export interface ColumnLineageResult {
+  columns: ColumnLineageEntry[];
+  /** Tables whose `*` couldn't be expanded because their columns are unknown */
+  unexpandedStars: string[];
+}
+
+/** Known columns of a physical table (used to expand `*`), or undefined when they aren't known */
+export type ColumnCatalog = (table: string) => string[] | undefined;
+
+type ResolvedColumn = Pick<ColumnLineageEntry, "sources" | "transform">;
+
+// A relation in scope: a physical table, CTE or subquery
+interface Relation {
+  /** Output columns, when they can be listed (unnamed expressions have an empty name) */
+  columns: ColumnLineageEntry[];
+  /** Whether `columns` lists every column, so `*` can be expanded */
+  complete: boolean;
+  /** Resolve a column the list doesn't have (physical tables, unexpanded stars) */
+  fallback?: (column: string) => ResolvedColumn | null;
+  /** Physical tables: the table name */
+  table?: string;
+}
+
+interface Scope {
+  ctes: Map<string, Relation>;
+  catalog: ColumnCatalog;
+  unexpandedStars: Set<string>;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AstNode = any;
+
+function physicalTableName(item: AstNode): string {
+  return [item.db, item.schema, item.table].filter(Boolean).join(".").toLowerCase();
+}
+
+function physicalRelation(table: string, scope: Scope): Relation {
+  const known = scope.catalog(table);
+  return {
+    columns: (known ?? []).map((name) => ({
+      column: name.toLowerCase(),
+      sources: [{ table, column: name.toLowerCase() }],
+      transform: "direct",
+    })),
+    complete: !!known && known.length > 0,
+    // Known columns may come from partial docs, so any column named on the table resolves to it
+    fallback: (column) => ({ sources: [{ table, column }], transform: "direct" }),
+    table,
+  };
+}
+
+function findColumn(relation: Relation, column: string): ResolvedColumn | null {
+  const match = relation.columns.find((c) => c.column === column);
+  if (match) return match;
+  return relation.fallback ? relation.fallback(column) : null;
+}
+
+// Column name of a column_ref (plain string, or { expr: { value } } for quoted names)
+function columnName(ref: AstNode): string {
+  const column = typeof ref.column === "string" ? ref.column : ref.column?.expr?.value;
+  return String(column ?? "").toLowerCase();
+}
+
+/**
+ * Resolve a column reference against the FROM clause's relations
+ */
+function resolveReference(
+  qualifier: string | undefined,
+  column: string,
+  relations: Map<string, Relation>
+): ResolvedColumn | null {
+  if (qualifier) {
+    const relation = relations.get(qualifier.toLowerCase());
+    return relation ? findColumn(relation, column) : null;
+  }
+
+  // Unqualified: the relation that lists the column, else the only one that might have it
+  // (preferring one whose columns aren't all known)
+  const all = [...relations.values()];
+  for (const relation of all) {
+    const match = relation.columns.find((c) => c.column === column);
+    if (match) return match;
+  }
+  const open = all.filter((r) => r.fallback);
+  const unlisted = open.filter((r) => !r.complete);
+  if (unlisted.length === 1) return unlisted[0].fallback!(column);
+  return open.length === 1 ? open[0].fallback!(column) : null;
+}
+
+// A bare column reference (optionally cast), resolved with its own transform
+function resolveColumnExpression(expr: AstNode, relations: Map<string, Relation>): ResolvedColumn | null {
+  const inner = expr.type === "cast" ? expr.expr : expr;
+  if (inner?.type === "double_quote_string") {
+    return resolveReference(undefined, String(inner.value).toLowerCase(), relations);
+  }
+  if (inner?.type !== "column_ref") return null;
+  // Semi-structured paths (alias.value:field) put the alias in `schema`
+  const isPath = Array.isArray(inner.notations) && inner.notations.includes(":");
+  const qualifier = isPath ? inner.schema : inner.table;
+  const name = isPath ? String(inner.table).toLowerCase() : columnName(inner);
+  const resolved = resolveReference(qualifier || undefined, name, relations);
+  // Extracting a path from a VARIANT is a computation
+  return resolved && isPath ? { ...resolved, transform: "derived" } : resolved;
+}
+
+/**
+ * Collect the sources of every column an expression reads
+ */
+function expressionSources(expr: AstNode, relations: Map<string, Relation>, scope: Scope, out: ColumnSource[]): void {
+  if (!expr || typeof expr !== "object") return;
+
+  if (Array.isArray(expr)) {
+    for (const item of expr) expressionSources(item, relations, scope, out);
+    return;
+  }
+
+  // Snowflake double quotes are identifiers, but the parser reads them as strings
+  if (expr.type === "column_ref" || expr.type === "double_quote_string") {
+    if (expr.type === "column_ref" && columnName(expr) === "*") return;
+    out.push(...(resolveColumnExpression(expr, relations)?.sources ?? []));
+    return;
+  }
+
+  // Scalar subquery: everything it selects feeds the value
+  if (expr.ast) {
+    const relation = resolveQuery(expr.ast, scope);
+    for (const column of relation.columns) out.push(...column.sources);
+    return;
+  }
+
+  for (const [key, value] of Object.entries(expr)) {
+    // Window partitioning/ordering doesn't feed values
+    if (key === "over") continue;
+    if (value && typeof value === "object") expressionSources(value, relations, scope, out);
+  }
+}
+
+function dedupeSources(sources: ColumnSource[]): ColumnSource[] {
+  const seen = new Set<string>();
+  return sources.filter((s) => {
+    const key = `${s.table}.${s.column}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Relations named in a SELECT's FROM clause (joins included), keyed by alias
+ */
+function fromRelations(select: AstNode, scope: Scope): Map<string, Relation> {
+  const relations = new Map<string, Relation>();
+  for (const item of select.from ?? []) {
+    let relation: Relation;
+    let name: string;
+
+    if (item.expr?.ast) {
+      relation = resolveQuery(item.expr.ast, scope);
+      name = item.as ?? "";
+    } else if (item.table) {
+      const table = physicalTableName(item);
+      const cte = !item.db && !item.schema ? scope.ctes.get(String(item.table).toLowerCase()) : undefined;
+      relation = cte ?? physicalRelation(table, scope);
+      name = item.as ?? item.table;
+    } else {
+      // Table functions (FLATTEN, ...) and VALUES: nothing to trace through
+      relation = { columns: [], complete: true };
+      name = item.as ?? "";
+    }
+
+    relations.set(String(name).toLowerCase(), relation);
+  }
+  return relations;
+}
+
+/**
+ * Expand `*` or `alias.*`, skipping EXCLUDE columns
+ */
+function expandStar(
+  ref: AstNode,
+  relations: Map<string, Relation>,
+  scope: Scope,
+  columns: ColumnLineageEntry[],
+  fallbacks: Array<(column: string) => ResolvedColumn | null>
+): void {
+  const excluded = new Set<string>();
+  const suffixArgs = ref.suffix?.args?.value ?? [];
+  for (const arg of Array.isArray(suffixArgs) ? suffixArgs : [suffixArgs]) {
+    if (arg?.type === "column_ref") excluded.add(columnName(arg));
+  }
+
+  const targets = ref.table
+    ? [[String(ref.table).toLowerCase(), relations.get(String(ref.table).toLowerCase())] as const]
+    : [...relations.entries()];
+
+  for (const [name, relation] of targets) {
+    if (!relation) continue;
+    for (const column of relation.columns) {
+      if (column.column && !excluded.has(column.column)) {
+        columns.push({ ...column });
+      }
+    }
+    if (!relation.complete && relation.fallback) {
+      scope.unexpandedStars.add(relation.table ?? name);
+      const fallback = relation.fallback;
+      fallbacks.push((column) => (excluded.has(column) ? null : fallback(column)));
+    }
+  }
+}
+
+function resolveSelect(select: AstNode, outer: Scope): Relation {
+  const scope: Scope = { ...outer, ctes: new Map(outer.ctes) };
+  for (const cte of select.with ?? []) {
+    const name = String(cte.name?.value ?? cte.name ?? "").toLowerCase();
+    const query = cte.stmt?.ast ?? cte.stmt;
+    if (!name || !query) continue;
+    const relation = resolveQuery(query, scope);
+    // WITH cte (a, b) AS (...) renames the columns by position
+    const renamed: AstNode[] = cte.columns ?? [];
+    renamed.forEach((col, i) => {
+      if (relation.columns[i]) relation.columns[i].column = columnName(col) || String(col).toLowerCase();
+    });
+    scope.ctes.set(name, relation);
+  }
+
+  const relations = fromRelations(select, scope);
+  const columns: ColumnLineageEntry[] = [];
+  const fallbacks: Array<(column: string) => ResolvedColumn | null> = [];
+
+  for (const item of select.columns ?? []) {
+    const expr = item.expr;
+    if (!expr) continue;
+
+    if (expr.type === "column_ref" && columnName(expr) === "*") {
+      expandStar(expr, relations, scope, columns, fallbacks);
+      continue;
+    }
+
+    // Casts carry the alias on the expression (col::type AS x)
+    const alias: string | undefined = item.as ?? expr.as;
+    const inner = expr.type === "cast" ? expr.expr : expr;
+    const name =
+      alias ??
+      (inner?.type === "column_ref" && !(inner.notations ?? []).includes(":") ? columnName(inner) : undefined) ??
+      (inner?.type === "double_quote_string" ? String(inner.value) : undefined) ??
+      // Unnamed expressions get generated names, so only their position matters (INSERT, UNION)
+      "";
+
+    const column = resolveColumnExpression(expr, relations);
+    if (column) {
+      columns.push({ column: String(name).toLowerCase(), sources: column.sources, transform: column.transform });
+      continue;
+    }
+
+    const sources: ColumnSource[] = [];
+    expressionSources(expr, relations, scope, sources);
+    columns.push({ column: String(name).toLowerCase(), sources: dedupeSources(sources), transform: "derived" });
+  }
+
+  return {
+    columns,
+    complete: fallbacks.length === 0,
+    fallback:
+      fallbacks.length > 0
+        ? (column) => {
+            for (const fallback of fallbacks) {
+              const resolved = fallback(column);
+              if (resolved && resolved.sources.length > 0) return resolved;
+            }
+            return null;
+          }
+        : undefined,
+  };
+}
+
+/**
+ * Resolve a SELECT, including UNION branches (matched by position)
+ */
+function resolveQuery(query: AstNode, scope: Scope): Relation {
+  const relation = resolveSelect(query, scope);
+  let next = query._next;
+  while (next) {
+    const branch = resolveSelect(next, scope);
+    relation.columns.forEach((column, i) => {
+      const other = branch.columns[i];
+      if (!other) return;
+      column.sources = dedupeSources([...column.sources, ...other.sources]);
+      if (other.transform === "derived") column.transform = "derived";
+    });
+    next = next._next;
+  }
+  return relation;
+}
+
+/**
+ * The query a statement's columns come from, and the column names it writes to
+ */
+function statementQuery(stmt: AstNode): { query: AstNode; targetColumns?: string[] } | null {
+  if (stmt.type === "select") return { query: stmt };
+  if (stmt.type === "create") {
+    const query = stmt.query_expr ?? stmt.select ?? stmt.as;
+    return query && typeof query === "object" ? { query: query.ast ?? query } : null;
+  }
+  if (stmt.type === "insert" && stmt.values?.type === "select") {
+    const targetColumns = Array.isArray(stmt.columns)
+      ? stmt.columns.map((c: AstNode) => (typeof c === "string" ? c : columnName(c)).toLowerCase())
+      : undefined;
+    return { query: stmt.values, targetColumns };
+  }
+  return null;
+}
+
+// The query of a CREATE ... AS, for statements the parser rejects as a whole
+function createStatementQuery(sql: string): string | null {
+  const match = /^\s*CREATE\b[\s\S]*?\bAS\s*\(?\s*(?=SELECT\b|WITH\b)/i.exec(sql);
+  if (!match) return null;
+  const query = sql.slice(match[0].length);
+  // AS ( SELECT ... ): drop the closing parenthesis
+  return match[0].trimEnd().endsWith("(") ? query.replace(/\)\s*;?\s*$/, "") : query;
+}
+
+/**
+ * Column lineage of the last statement in the SQL that produces rows.
+ * Returns null when the SQL can't be parsed.
+ *
+ * @param sql - Plain SQL (render any templating first)
+ * @param catalog - Known columns of upstream tables, used to expand `*`
+ */
+export function analyzeColumnLineage(sql: string, catalog: ColumnCatalog = () => undefined): ColumnLineageResult | null {
+  let statements: AstNode[] | null = null;
+  for (const candidate of [sql, createStatementQuery(sql)]) {
+    if (!candidate) continue;
+    try {
+      const ast = parser.astify(candidate, { database: "Snowflake" });
+      statements = Array.isArray(ast) ? ast : [ast];
+      break;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  if (!statements) return null;
+
+  const scope: Scope = { ctes: new Map(), catalog, unexpandedStars: new Set() };
+  let result: ColumnLineageEntry[] | null = null;
+
+  for (const stmt of statements) {
+    const target = stmt ? statementQuery(stmt) : null;
+    if (!target) continue;
+    const relation = resolveQuery(target.query, scope);
+    const columns = relation.columns
+      .map((column, i) => ({ ...column, column: target.targetColumns?.[i] ?? column.column }))
+      .filter((column) => column.column);
+
+    // Duplicate names can't be materialized; keep the first
+    const byName = new Map<string, ColumnLineageEntry>();
+    for (const column of columns) {
+      if (!byName.has(column.column)) byName.set(column.column, column);
+    }
+    result = [...byName.values()];
+  }
+
+  if (!result) return null;
+  return { columns: result, unexpandedStars: [...scope.unexpandedStars] };
+}
@@ -223,64 +223,3 @@ function extractTablesRegex(sql: string): SqlParseResult {
     columns: [],
   };
 }
-
-/**
- * Extract column-level lineage from SQL
- * Returns mapping of output columns to their source columns
- */
-export function extractColumnLineage(
-  sql: string
-): Map<string, { sourceTable: string; sourceColumn: string }[]> {
-  const lineage = new Map<string, { sourceTable: string; sourceColumn: string }[]>();
-
-  try {
-    const ast = parser.astify(sql, { database: "Snowflake" });
-    const stmt = Array.isArray(ast) ? ast[0] : ast;
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if ((stmt as any).type === "select" && (stmt as any).columns) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      for (const col of (stmt as any).columns) {
-        const outputName = col.as || (col.expr?.column as string) || "*";
-        const sources: { sourceTable: string; sourceColumn: string }[] = [];
-
-        // Extract source columns from expression
-        extractColumnSources(col.expr, sources);
-
-        if (sources.length > 0) {
-          lineage.set(outputName, sources);
-        }
-      }
-    }
-  } catch {
-    // Column lineage extraction failed, return empty map
-  }
-
-  return lineage;
-}
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function extractColumnSources(
-  expr: any,
-  sources: { sourceTable: string; sourceColumn: string }[]
-): void {
-  if (!expr || typeof expr !== "object") return;
-
-  if (expr.type === "column_ref") {
-    sources.push({
-      sourceTable: expr.table || "",
-      sourceColumn: expr.column || "",
-    });
-  }
-
-  // Recurse into function arguments, binary expressions, etc.
-  if (expr.args) {
-    for (const arg of Array.isArray(expr.args) ? expr.args : [expr.args]) {
-      extractColumnSources(arg, sources);
-    }
-  }
-  if (expr.left) extractColumnSources(expr.left, sources);
-  if (expr.right) extractColumnSources(expr.right, sources);
-  if (expr.expr) extractColumnSources(expr.expr, sources);
-}
-
@@ -1,4 +1,6 @@
 import snowflake from "snowflake-sdk";
+import type { GovernanceTag, GovernancePolicy } from "../types";
+import { nativeObjectsFromRows, type NativeObject, type NativeObjectKind } from "./nativeObjects";
 
 export interface SnowflakeConfig {
   account: string;
@@ -26,6 +28,15 @@ export interface TableMetadata {
   ddl?: string;
 }
 
+export interface TableGovernance {
+  /** Tags set on the table/view itself */
+  tags: GovernanceTag[];
+  /** Tags by column name, including classification results */
+  columnTags: Map<string, GovernanceTag[]>;
+  /** Row access policies, plus masking policies with the column they mask */
+  policies: GovernancePolicy[];
+}
+
 let connection: snowflake.Connection | null = null;
 
 /**
@@ -346,6 +357,134 @@ export async function batchGetMetadata(
   return results;
 }
 
+/**
+ * Batch fetch tags, masking/row-access policies and classification results
+ * for multiple tables. Classification shows up as the system
+ * SNOWFLAKE.CORE.SEMANTIC_CATEGORY / PRIVACY_CATEGORY column tags.
+ *
+ * Reads SNOWFLAKE.ACCOUNT_USAGE, so the role needs IMPORTED PRIVILEGES on
+ * the SNOWFLAKE database; those views lag by up to two hours.
+ */
+export async function batchGetGovernance(
+  tables: Array<{ database: string; schema: string; table: string }>
+): Promise<Map<string, TableGovernance>> {
+  const results = new Map<string, TableGovernance>();
+  const governanceFor = (database: string, schema: string, table: string): TableGovernance => {
+    const fqn = `${database}.${schema}.${table}`.toLowerCase();
+    if (!results.has(fqn)) {
+      results.set(fqn, { tags: [], columnTags: new Map(), policies: [] });
+    }
+    return results.get(fqn)!;
+  };
+
+  // Batch by database/schema for efficiency
+  const grouped = new Map<string, Array<{ database: string; schema: string; table: string }>>();
+  for (const t of tables) {
+    const key = `${t.database}.${t.schema}`;
+    if (!grouped.has(key)) {
+      grouped.set(key, []);
+    }
+    grouped.get(key)!.push(t);
+  }
+
+  for (const [, batch] of grouped) {
+    const { database, schema } = batch[0];
+    const tableNamesStr = batch.map((t) => `'${t.table}'`).join(",");
+
+    const tagRows = await executeQuery<{
+      TAG_DATABASE: string;
+      TAG_SCHEMA: string;
+      TAG_NAME: string;
+      TAG_VALUE: string | null;
+      OBJECT_NAME: string;
+      COLUMN_NAME: string | null;
+      DOMAIN: string;
+    }>(
+      `SELECT TAG_DATABASE, TAG_SCHEMA, TAG_NAME, TAG_VALUE, OBJECT_NAME, COLUMN_NAME, DOMAIN
+       FROM SNOWFLAKE.ACCOUNT_USAGE.TAG_REFERENCES
+       WHERE OBJECT_DATABASE = '${database}' AND OBJECT_SCHEMA = '${schema}'
+         AND OBJECT_NAME IN (${tableNamesStr})
+         AND DOMAIN IN ('TABLE', 'COLUMN')
+         AND OBJECT_DELETED IS NULL`
+    );
+
+    for (const row of tagRows) {
+      const governance = governanceFor(database, schema, row.OBJECT_NAME);
+      const tag: GovernanceTag = {
+        name: `${row.TAG_DATABASE}.${row.TAG_SCHEMA}.${row.TAG_NAME}`,
+        value: row.TAG_VALUE ?? "",
+      };
+      if (row.DOMAIN === "COLUMN" && row.COLUMN_NAME) {
+        if (!governance.columnTags.has(row.COLUMN_NAME)) {
+          governance.columnTags.set(row.COLUMN_NAME, []);
+        }
+        governance.columnTags.get(row.COLUMN_NAME)!.push(tag);
+      } else {
+        governance.tags.push(tag);
+      }
+    }
+
+    const policyRows = await executeQuery<{
+      POLICY_DB: string;
+      POLICY_SCHEMA: string;
+      POLICY_NAME: string;
+      POLICY_KIND: string;
+      REF_ENTITY_NAME: string;
+      REF_COLUMN_NAME: string | null;
+    }>(
+      `SELECT POLICY_DB, POLICY_SCHEMA, POLICY_NAME, POLICY_KIND, REF_ENTITY_NAME, REF_COLUMN_NAME
+       FROM SNOWFLAKE.ACCOUNT_USAGE.POLICY_REFERENCES
+       WHERE REF_DATABASE_NAME = '${database}' AND REF_SCHEMA_NAME = '${schema}'
+         AND REF_ENTITY_NAME IN (${tableNamesStr})`
+    );
+
+    for (const row of policyRows) {
+      governanceFor(database, schema, row.REF_ENTITY_NAME).policies.push({
+        name: `${row.POLICY_DB}.${row.POLICY_SCHEMA}.${row.POLICY_NAME}`,
+        kind: row.POLICY_KIND,
+        column: row.REF_COLUMN_NAME || undefined,
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Get dynamic tables, streams, tasks and stored procedures in a database.
+ * Each kind is queried separately so one failing (e.g. dynamic tables not
+ * enabled on the account) doesn't hide the others.
+ */
+export async function getNativeObjects(
+  database: string
+): Promise<{ objects: NativeObject[]; errors: string[] }> {
+  const queries: Array<{ kind: NativeObjectKind; sql: string }> = [
+    { kind: "DYNAMIC TABLE", sql: `SHOW DYNAMIC TABLES IN DATABASE "${database}"` },
+    { kind: "STREAM", sql: `SHOW STREAMS IN DATABASE "${database}"` },
+    { kind: "TASK", sql: `SHOW TASKS IN DATABASE "${database}"` },
+    {
+      kind: "PROCEDURE",
+      sql: `SELECT PROCEDURE_CATALOG, PROCEDURE_SCHEMA, PROCEDURE_NAME, ARGUMENT_SIGNATURE,
+              PROCEDURE_LANGUAGE, PROCEDURE_DEFINITION, COMMENT
+            FROM "${database}".INFORMATION_SCHEMA.PROCEDURES
+            WHERE PROCEDURE_SCHEMA != 'INFORMATION_SCHEMA'`,
+    },
+  ];
+
+  const objects: NativeObject[] = [];
+  const errors: string[] = [];
+  for (const { kind, sql } of queries) {
+    try {
+      objects.push(...nativeObjectsFromRows(kind, await executeQuery(sql)));
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      errors.push(`Failed to list ${kind.toLowerCase()} objects: ${msg}`);
+    }
+  }
+
+  return { objects, errors };
+}
+
 /**
  * Disconnect from Snowflake
  */
@@ -0,0 +1,88 @@
+// ============================================================================
+// Source Detection - Use the INFORMATION_SCHEMA dump when configured, the
+// live connection otherwise
+// ============================================================================
+
+import * as liveClient from "./client";
+import * as offlineClient from "./offline";
+import type { SnowflakeConfig } from "./client";
+
+export type {
+  SnowflakeConfig,
+  ColumnMetadata,
+  TableMetadata,
+  TableInfo,
+  TableGovernance,
+} from "./client";
+export type { NativeObject, NativeObjectKind } from "./nativeObjects";
+
+/**
+ * Whether SNOWFLAKE_METADATA_DUMP replaces the live connection
+ */
+export function isOfflineMode(): boolean {
+  return !!offlineClient.getDumpPath();
+}
+
+function getClient(): typeof liveClient | typeof offlineClient {
+  return isOfflineMode() ? offlineClient : liveClient;
+}
+
+// ============================================================================
+// Exported Functions - delegate to the selected source
+// ============================================================================
+
+export async function connect(config: SnowflakeConfig): Promise<void> {
+  await getClient().connect(config);
+}
+
+export function executeQuery<T = Record<string, unknown>>(sql: string): Promise<T[]> {
+  return getClient().executeQuery<T>(sql);
+}
+
+export function getSchemas(database: string) {
+  return getClient().getSchemas(database);
+}
+
+export function getTables(database: string, schema: string) {
+  return getClient().getTables(database, schema);
+}
+
+export function getAllTables(database: string, excludePatterns?: string[]) {
+  return getClient().getAllTables(database, excludePatterns);
+}
+
+export function getColumns(database: string, schema: string, table: string) {
+  return getClient().getColumns(database, schema, table);
+}
+
+export function getDDL(database: string, schema: string, table: string, objectType?: "TABLE" | "VIEW") {
+  return getClient().getDDL(database, schema, table, objectType);
+}
+
+export function getViewDefinition(database: string, schema: string, view: string) {
+  return getClient().getViewDefinition(database, schema, view);
+}
+
+export function getTableMetadata(database: string, schema: string, table: string) {
+  return getClient().getTableMetadata(database, schema, table);
+}
+
+export function batchGetMetadata(tables: Array<{ database: string; schema: string; table: string }>) {
+  return getClient().batchGetMetadata(tables);
+}
+
+export function batchGetGovernance(tables: Array<{ database: string; schema: string; table: string }>) {
+  return getClient().batchGetGovernance(tables);
+}
+
+export function getNativeObjects(database: string) {
+  return getClient().getNativeObjects(database);
+}
+
+export function disconnect(): Promise<void> {
+  return getClient().disconnect();
+}
+
+export function isConnected(): boolean {
+  return getClient().isConnected();
+}
@@ -0,0 +1,97 @@
+/**
+ * Snowflake-native transformation objects: dynamic tables, streams, tasks and
+ * stored procedures. Shared by the live client (SHOW output and
+ * INFORMATION_SCHEMA.PROCEDURES) and the offline dump, which store the same
+ * rows with upper-cased column names.
+ */
+
+export type NativeObjectKind = "DYNAMIC TABLE" | "STREAM" | "TASK" | "PROCEDURE";
+
+export interface NativeObject {
+  kind: NativeObjectKind;
+  database: string;
+  schema: string;
+  name: string;
+  /** Dynamic table CREATE statement, task SQL, or procedure body */
+  definition?: string;
+  /** Streams: the DB.SCHEMA.TABLE they track */
+  sourceTable?: string;
+  /** Task schedule, or a dynamic table's target lag */
+  schedule?: string;
+  /** Tasks: the DB.SCHEMA.TASK names they run after */
+  predecessors?: string[];
+  /** Suspended task, or a dynamic table whose refreshes are suspended */
+  suspended?: boolean;
+  comment?: string;
+  /** Procedures: SQL, JAVASCRIPT, PYTHON, ... */
+  language?: string;
+  /** Procedures: argument signature, e.g. (START_DATE DATE) */
+  signature?: string;
+}
+
+export type NativeObjectRow = Record<string, unknown>;
+
+// SHOW output comes back with lower-case column names; the dump upper-cases them
+function field(row: NativeObjectRow, name: string): string | undefined {
+  const value = row[name] ?? row[name.toLowerCase()];
+  return value === null || value === undefined || value === "" ? undefined : String(value);
+}
+
+// SHOW TASKS lists predecessors as a JSON array (older accounts: comma-separated)
+function parsePredecessors(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  let names: unknown;
+  try {
+    names = JSON.parse(value);
+  } catch {
+    names = value.split(",");
+  }
+  const list = (Array.isArray(names) ? names : [names])
+    .map((name) => String(name).replace(/"/g, "").trim())
+    .filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
+
+/**
+ * Map SHOW DYNAMIC TABLES / SHOW STREAMS / SHOW TASKS rows, or
+ * INFORMATION_SCHEMA.PROCEDURES rows, to native objects
+ */
+export function nativeObjectsFromRows(kind: NativeObjectKind, rows: NativeObjectRow[]): NativeObject[] {
+  return rows
+    .map((row): NativeObject => {
+      if (kind === "PROCEDURE") {
+        return {
+          kind,
+          database: field(row, "PROCEDURE_CATALOG") ?? "",
+          schema: field(row, "PROCEDURE_SCHEMA") ?? "",
+          name: field(row, "PROCEDURE_NAME") ?? "",
+          definition: field(row, "PROCEDURE_DEFINITION"),
+          language: field(row, "PROCEDURE_LANGUAGE"),
+          signature: field(row, "ARGUMENT_SIGNATURE"),
+          comment: field(row, "COMMENT"),
+        };
+      }
+
+      const object: NativeObject = {
+        kind,
+        database: field(row, "DATABASE_NAME") ?? "",
+        schema: field(row, "SCHEMA_NAME") ?? "",
+        name: field(row, "NAME") ?? "",
+        comment: field(row, "COMMENT"),
+      };
+      if (kind === "DYNAMIC TABLE") {
+        object.definition = field(row, "TEXT");
+        object.schedule = field(row, "TARGET_LAG");
+        object.suspended = field(row, "SCHEDULING_STATE")?.toUpperCase() === "SUSPENDED";
+      } else if (kind === "STREAM") {
+        object.sourceTable = field(row, "TABLE_NAME");
+      } else {
+        object.definition = field(row, "DEFINITION");
+        object.schedule = field(row, "SCHEDULE");
+        object.predecessors = parsePredecessors(field(row, "PREDECESSORS"));
+        object.suspended = field(row, "STATE")?.toLowerCase() === "suspended";
+      }
+      return object;
+    })
+    .filter((object) => object.name && object.schema);
+}
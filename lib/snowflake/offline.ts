@@ -0,0 +1,358 @@
+/**
+ * Offline Snowflake stand-in.
+ *
+ * Answers the same calls as the live client (lib/snowflake/client) from a dump
+ * of INFORMATION_SCHEMA instead of a connection, so the Snowflake stages run
+ * in CI and without SSO. Point SNOWFLAKE_METADATA_DUMP at either:
+ * - a JSON file: { schemata, tables, columns, views, tagReferences?, policyReferences?,
+ *   dynamicTables?, streams?, tasks?, procedures? }, each an array of rows as
+ *   INFORMATION_SCHEMA (or SHOW, for dynamic tables, streams and tasks) returns them
+ * - a directory of CSV exports with header rows: tables.csv, columns.csv, and
+ *   optionally schemata.csv, views.csv, tag_references.csv, policy_references.csv,
+ *   dynamic_tables.csv, streams.csv, tasks.csv, procedures.csv
+ *
+ * scripts/dump-snowflake-metadata.ts generates the JSON form from a live account.
+ */
+
+import { existsSync, readFileSync, statSync } from "fs";
+import { join } from "path";
+import { parseCsv } from "../parsers/csvParser";
+import { nativeObjectsFromRows, type NativeObject } from "./nativeObjects";
+import type {
+  ColumnMetadata,
+  TableMetadata,
+  TableInfo,
+  TableGovernance,
+} from "./client";
+
+type DumpRow = Record<string, string | null>;
+
+export interface MetadataDump {
+  schemata: DumpRow[];
+  tables: DumpRow[];
+  columns: DumpRow[];
+  views: DumpRow[];
+  tagReferences: DumpRow[];
+  policyReferences: DumpRow[];
+  dynamicTables: DumpRow[];
+  streams: DumpRow[];
+  tasks: DumpRow[];
+  procedures: DumpRow[];
+}
+
+// JSON keys and the CSV file each section is read from
+const DUMP_SECTIONS: Array<{ key: keyof MetadataDump; file: string }> = [
+  { key: "schemata", file: "schemata.csv" },
+  { key: "tables", file: "tables.csv" },
+  { key: "columns", file: "columns.csv" },
+  { key: "views", file: "views.csv" },
+  { key: "tagReferences", file: "tag_references.csv" },
+  { key: "policyReferences", file: "policy_references.csv" },
+  { key: "dynamicTables", file: "dynamic_tables.csv" },
+  { key: "streams", file: "streams.csv" },
+  { key: "tasks", file: "tasks.csv" },
+  { key: "procedures", file: "procedures.csv" },
+];
+
+let dump: MetadataDump | null = null;
+
+/**
+ * Path to the INFORMATION_SCHEMA dump, if offline mode is configured
+ */
+export function getDumpPath(): string | undefined {
+  return process.env.SNOWFLAKE_METADATA_DUMP || undefined;
+}
+
+// Upper-case keys and stringify values so JSON and CSV dumps read alike
+function normalizeRows(rows: unknown, section: string): DumpRow[] {
+  if (rows === undefined) return [];
+  if (!Array.isArray(rows)) {
+    throw new Error(`Expected "${section}" to be an array of rows`);
+  }
+  return rows.map((row: Record<string, unknown>) => {
+    const normalized: DumpRow = {};
+    for (const [key, value] of Object.entries(row)) {
+      normalized[key.toUpperCase()] = value === null || value === undefined || value === "" ? null : String(value);
+    }
+    return normalized;
+  });
+}
+
+/**
+ * Read a JSON dump file or a directory of CSV exports
+ */
+export function loadMetadataDump(path: string): MetadataDump {
+  const loaded = {} as MetadataDump;
+
+  if (statSync(path).isDirectory()) {
+    for (const { key, file } of DUMP_SECTIONS) {
+      const filePath = join(path, file);
+      loaded[key] = existsSync(filePath)
+        ? normalizeRows(parseCsv(readFileSync(filePath, "utf-8").replace(/^\uFEFF/, "")), file)
+        : [];
+    }
+    if (!existsSync(join(path, "tables.csv"))) {
+      throw new Error(`No tables.csv in ${path}`);
+    }
+  } else {
+    const parsed = JSON.parse(readFileSync(path, "utf-8"));
+    for (const { key } of DUMP_SECTIONS) {
+      loaded[key] = normalizeRows(parsed[key], key);
+    }
+  }
+
+  return loaded;
+}
+
+function requireDump(): MetadataDump {
+  if (!dump) {
+    throw new Error("Not connected to Snowflake");
+  }
+  return dump;
+}
+
+const sameName = (a: string | null, b: string) => (a ?? "").toUpperCase() === b.toUpperCase();
+
+// Rows without a catalog column match any database
+const inDatabase = (catalog: string | null, database: string) => catalog === null || sameName(catalog, database);
+
+/**
+ * Load the dump (the offline equivalent of connecting)
+ */
+export async function connect(): Promise<null> {
+  if (dump) {
+    return null;
+  }
+
+  const path = getDumpPath();
+  if (!path || !existsSync(path)) {
+    throw new Error(`Snowflake metadata dump not found at ${path ?? "(SNOWFLAKE_METADATA_DUMP not set)"}`);
+  }
+
+  dump = loadMetadataDump(path);
+  return null;
+}
+
+/**
+ * Arbitrary SQL needs a live connection
+ */
+export async function executeQuery<T = Record<string, unknown>>(
+  sql: string
+): Promise<T[]> {
+  throw new Error(`Query not supported by the offline Snowflake metadata dump: ${sql.trim().slice(0, 60)}`);
+}
+
+/**
+ * Get list of schemas in a database
+ */
+export async function getSchemas(database: string): Promise<string[]> {
+  const { schemata, tables } = requireDump();
+  const names = schemata.length > 0
+    ? schemata.filter((r) => inDatabase(r.CATALOG_NAME, database)).map((r) => r.SCHEMA_NAME)
+    : tables.filter((r) => inDatabase(r.TABLE_CATALOG, database)).map((r) => r.TABLE_SCHEMA);
+  return [...new Set(names.filter((name): name is string => !!name))];
+}
+
+/**
+ * Get list of tables/views in a schema
+ */
+export async function getTables(
+  database: string,
+  schema: string
+): Promise<{ name: string; type: string }[]> {
+  return requireDump()
+    .tables.filter((r) => inDatabase(r.TABLE_CATALOG, database) && sameName(r.TABLE_SCHEMA, schema))
+    .map((r) => ({ name: r.TABLE_NAME ?? "", type: r.TABLE_TYPE ?? "BASE TABLE" }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get all tables and views from a database, excluding dev/test schemas
+ */
+export async function getAllTables(
+  database: string,
+  excludePatterns: string[] = ["_DEV", "_TEST"]
+): Promise<TableInfo[]> {
+  return requireDump()
+    .tables.filter((r) => {
+      const schema = r.TABLE_SCHEMA ?? "";
+      if (!inDatabase(r.TABLE_CATALOG, database) || schema === "INFORMATION_SCHEMA") return false;
+      return !excludePatterns.some((p) => schema.includes(p));
+    })
+    .map((r) => ({
+      database: r.TABLE_CATALOG ?? database,
+      schema: r.TABLE_SCHEMA ?? "",
+      name: r.TABLE_NAME ?? "",
+      type: (r.TABLE_TYPE ?? "BASE TABLE") as TableInfo["type"],
+    }))
+    .sort((a, b) => a.schema.localeCompare(b.schema) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Get column metadata for a table
+ */
+export async function getColumns(
+  database: string,
+  schema: string,
+  table: string
+): Promise<ColumnMetadata[]> {
+  return requireDump()
+    .columns.filter(
+      (r) => inDatabase(r.TABLE_CATALOG, database) && sameName(r.TABLE_SCHEMA, schema) && sameName(r.TABLE_NAME, table)
+    )
+    .sort((a, b) => Number(a.ORDINAL_POSITION ?? 0) - Number(b.ORDINAL_POSITION ?? 0))
+    .map((r) => ({
+      name: r.COLUMN_NAME ?? "",
+      type: r.DATA_TYPE ?? "",
+      nullable: r.IS_NULLABLE === "YES",
+      comment: r.COMMENT || undefined,
+    }));
+}
+
+/**
+ * DDL isn't part of INFORMATION_SCHEMA, so the dump has none
+ */
+export async function getDDL(): Promise<string | null> {
+  return null;
+}
+
+/**
+ * Get view definition
+ */
+export async function getViewDefinition(
+  database: string,
+  schema: string,
+  view: string
+): Promise<string | null> {
+  const row = requireDump().views.find(
+    (r) => inDatabase(r.TABLE_CATALOG, database) && sameName(r.TABLE_SCHEMA, schema) && sameName(r.TABLE_NAME, view)
+  );
+  return row?.VIEW_DEFINITION || null;
+}
+
+/**
+ * Get full metadata for a table including columns and view definition
+ */
+export async function getTableMetadata(
+  database: string,
+  schema: string,
+  table: string
+): Promise<TableMetadata | null> {
+  const tableRow = requireDump().tables.find(
+    (r) => inDatabase(r.TABLE_CATALOG, database) && sameName(r.TABLE_SCHEMA, schema) && sameName(r.TABLE_NAME, table)
+  );
+  if (!tableRow) {
+    return null;
+  }
+
+  const type = (tableRow.TABLE_TYPE ?? "BASE TABLE") as TableMetadata["type"];
+  const ddl = type === "VIEW" ? await getViewDefinition(database, schema, table) : null;
+
+  return {
+    database,
+    schema,
+    name: tableRow.TABLE_NAME ?? table,
+    type,
+    columns: await getColumns(database, schema, table),
+    comment: tableRow.COMMENT || undefined,
+    ddl: ddl || undefined,
+  };
+}
+
+/**
+ * Batch fetch metadata for multiple tables
+ */
+export async function batchGetMetadata(
+  tables: Array<{ database: string; schema: string; table: string }>
+): Promise<Map<string, TableMetadata>> {
+  const results = new Map<string, TableMetadata>();
+
+  for (const { database, schema, table } of tables) {
+    const metadata = await getTableMetadata(database, schema, table);
+    if (metadata) {
+      // The live client doesn't fetch definitions in batches either
+      results.set(`${database}.${schema}.${metadata.name}`.toLowerCase(), { ...metadata, ddl: undefined });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Batch fetch tags and policies from the dump's TAG_REFERENCES and
+ * POLICY_REFERENCES rows (empty when the dump has none)
+ */
+export async function batchGetGovernance(
+  tables: Array<{ database: string; schema: string; table: string }>
+): Promise<Map<string, TableGovernance>> {
+  const { tagReferences, policyReferences } = requireDump();
+  const results = new Map<string, TableGovernance>();
+
+  for (const { database, schema, table } of tables) {
+    const governance: TableGovernance = { tags: [], columnTags: new Map(), policies: [] };
+
+    for (const row of tagReferences) {
+      if (!sameName(row.OBJECT_DATABASE, database) || !sameName(row.OBJECT_SCHEMA, schema)) continue;
+      if (!sameName(row.OBJECT_NAME, table) || row.OBJECT_DELETED) continue;
+
+      const tag = { name: `${row.TAG_DATABASE}.${row.TAG_SCHEMA}.${row.TAG_NAME}`, value: row.TAG_VALUE ?? "" };
+      if (row.DOMAIN === "COLUMN" && row.COLUMN_NAME) {
+        if (!governance.columnTags.has(row.COLUMN_NAME)) {
+          governance.columnTags.set(row.COLUMN_NAME, []);
+        }
+        governance.columnTags.get(row.COLUMN_NAME)!.push(tag);
+      } else if (row.DOMAIN === "TABLE") {
+        governance.tags.push(tag);
+      }
+    }
+
+    for (const row of policyReferences) {
+      if (!sameName(row.REF_DATABASE_NAME, database) || !sameName(row.REF_SCHEMA_NAME, schema)) continue;
+      if (!sameName(row.REF_ENTITY_NAME, table)) continue;
+
+      governance.policies.push({
+        name: `${row.POLICY_DB}.${row.POLICY_SCHEMA}.${row.POLICY_NAME}`,
+        kind: row.POLICY_KIND ?? "",
+        column: row.REF_COLUMN_NAME || undefined,
+      });
+    }
+
+    if (governance.tags.length > 0 || governance.columnTags.size > 0 || governance.policies.length > 0) {
+      results.set(`${database}.${schema}.${table}`.toLowerCase(), governance);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Get dynamic tables, streams, tasks and stored procedures in a database
+ */
+export async function getNativeObjects(
+  database: string
+): Promise<{ objects: NativeObject[]; errors: string[] }> {
+  const { dynamicTables, streams, tasks, procedures } = requireDump();
+  const objects = [
+    ...nativeObjectsFromRows("DYNAMIC TABLE", dynamicTables),
+    ...nativeObjectsFromRows("STREAM", streams),
+    ...nativeObjectsFromRows("TASK", tasks),
+    ...nativeObjectsFromRows("PROCEDURE", procedures),
+  ].filter((object) => !object.database || sameName(object.database, database));
+
+  return { objects, errors: [] };
+}
+
+/**
+ * Drop the loaded dump (the offline equivalent of disconnecting)
+ */
+export function disconnect(): Promise<void> {
+  dump = null;
+  return Promise.resolve();
+}
+
+/**
+ * Check if the dump is loaded
+ */
+export function isConnected(): boolean {
+  return dump !== null;
+}
@@ -1,12 +1,22 @@
 // Node types
-export type NodeType = "table" | "view" | "model" | "source" | "seed" | "external";
+export type NodeType = "table" | "view" | "model" | "source" | "seed" | "external" | "semantic_model" | "metric" | "saved_query" | "dag";
 export type NodeSubtype = 
   | "dbt_model" 
   | "dbt_source" 
   | "dbt_seed" 
+  // dbt semantic layer (MetricFlow)
+  | "dbt_semantic_model"
+  | "dbt_metric"
+  | "dbt_saved_query"
   | "airflow_table" 
+  | "airflow_dag"
   | "snowflake_native" 
   | "snowflake_raw"  // Raw Snowflake tables discovered via Snowflake integration
+  // Snowflake-native transformations (dynamic tables and streams are tables; tasks and procedures are DAGs)
+  | "snowflake_dynamic_table"
+  | "snowflake_stream"
+  | "snowflake_task"
+  | "snowflake_procedure"
   | "external_feed"
   // External system subtypes (from dbt exposures and external config)
   | "dashboard"
@@ -23,7 +33,16 @@ export type NodeSubtype =
   | "marketing"
   // Census types
   | "census_sync"
-  | "census_destination";
+  | "census_destination"
+  // Hightouch types
+  | "hightouch_sync"
+  | "hightouch_destination"
+  // Looker types (dashboards use "dashboard")
+  | "looker_view"
+  | "looker_explore"
+  | "looker_look"
+  // Users seen reading/writing tables in Snowflake query history
+  | "query_consumer";
 
 // Semantic layer classification
 export type SemanticLayer = "source" | "staging" | "intermediate" | "mart" | "report" | "transform" | "external";
@@ -38,6 +57,8 @@ export interface GraphNode {
   metadata?: NodeMetadata;
   // Raw SQL content (for dbt models, stored in DB for Vercel deployment)
   sqlContent?: string;
+  // dbt-compiled SQL (Jinja rendered), when the project has been compiled
+  compiledSql?: string;
   // Pre-computed layout positions (from dagre)
   layoutX?: number;
   layoutY?: number;
@@ -60,8 +81,13 @@ export interface NodeMetadata {
   lineStart?: number;
   lineEnd?: number;
   // Snowflake-specific metadata
-  snowflakeType?: string;  // TABLE or VIEW
+  snowflakeType?: string;  // TABLE or VIEW (or DYNAMIC TABLE, STREAM, TASK, PROCEDURE)
   snowflakeSchema?: string;
+  // Snowflake governance (TAG_REFERENCES / POLICY_REFERENCES)
+  snowflakeTags?: GovernanceTag[];  // Object-level tags; column tags live on the column
+  policies?: GovernancePolicy[];    // Row access policies and column masking policies
+  containsPii?: boolean;            // Any column (or the object itself) classified or tagged as PII
+  piiColumns?: string[];
   // Census sync metadata
   censusSyncId?: number;
   sourceQuery?: string;
@@ -70,16 +96,133 @@ export interface NodeMetadata {
   destinationObject?: string;
   connectionType?: string;
   objectType?: string;
+  fieldMappings?: FieldMapping[];  // Source column → destination field (column mappings only)
+  // Hightouch sync metadata (sourceQuery, operation, destination fields shared with Census)
+  hightouchSyncId?: string;
+  // Fivetran connector metadata
+  fivetranConnectorId?: string;
+  connectorService?: string;
+  syncFrequencyMinutes?: number;  // Unset for manually triggered connectors
+  paused?: boolean;
+  lastSyncAt?: string;
+  landedTables?: string[];        // database.schema.table (database omitted when the export doesn't name it)
+  // Looker explore/look metadata
+  lookerModel?: string;
+  // Observed usage from Snowflake query history
+  observedReadCount?: number;
+  lastReadAt?: string;
+  unused?: boolean;               // No reads within the configured window
+  observedRoles?: string[];       // Query consumers: roles the user ran queries as
+  // dbt semantic layer (semantic models, metrics, saved queries)
+  label?: string;
+  entities?: SemanticEntity[];
+  dimensions?: SemanticDimension[];
+  measures?: SemanticMeasure[];   // Semantic models: defined measures; metrics: input measures
+  metricType?: string;            // simple | ratio | cumulative | derived | conversion
+  metricExpression?: string;      // Derived metrics' expression
+  metricFilter?: string;
+  metrics?: string[];             // Metric names used by derived metrics and saved queries
+  groupBy?: string[];             // Saved queries
+  // Airflow orchestration: tasks for DAG nodes; DAGs that write a table for table nodes
+  owner?: string;
+  tasks?: AirflowTaskInfo[];
+  dagIds?: string[];
+  // dbt data tests targeting this node (from the manifest)
+  tests?: DataTest[];
+  // Table stats (from dbt catalog.json)
+  rowCount?: number;
+  bytes?: number;
+  statsUpdatedAt?: string;        // When the table was last modified, per the catalog
+  // dbt run results (from run_results.json)
+  lastRunStatus?: DbtRunStatus;
+  lastRunExecutionTime?: number;  // Seconds
+  lastRunRowsAffected?: number;
+  lastRunAt?: string;             // When the last run completed (ISO timestamp)
+  recentRuns?: DbtRunInfo[];      // Newest first
+}
+
+// Reverse ETL sync field mapping
+export interface FieldMapping {
+  sourceColumn: string;
+  destinationField: string;
+}
+
+// Node statuses dbt writes to run_results.json (pass/fail/warn come from tests and seeds)
+export type DbtRunStatus = "success" | "error" | "skipped" | "pass" | "fail" | "warn" | "runtime error";
+
+export interface DbtRunInfo {
+  status: DbtRunStatus;
+  executionTime: number;  // Seconds
+  rowsAffected?: number;
+  completedAt: string;
+  invocationId?: string;
+  message?: string;
+}
+
+export interface SemanticEntity {
+  name: string;
+  type: string;              // primary | unique | foreign | natural
+  expr?: string;
+  description?: string;
+}
+
+export interface SemanticDimension {
+  name: string;
+  type: string;              // categorical | time
+  expr?: string;
+  timeGranularity?: string;
+  description?: string;
+}
+
+export interface SemanticMeasure {
+  name: string;
+  agg?: string;              // sum, count_distinct, ... (unknown for measures not found in a semantic model)
+  expr?: string;
+  description?: string;
+}
+
+export interface AirflowTaskInfo {
+  taskId: string;
+  operator: string;
+  upstreamTasks: string[];
+  sqlPaths?: string[];       // SQL files the task runs, relative to the Airflow repo
+  writes?: string[];         // Table node IDs the task's SQL creates or loads
+  reads?: string[];          // Table node IDs the task's SQL selects from
+  dbtCommands?: string[];    // dbt invocations, e.g. "dbt run --select tag:growth"
+  lineStart?: number;
+}
+
+export interface DataTest {
+  name: string;              // Test node name, e.g. not_null_orders_id
+  type: string;              // Generic test name (unique, not_null, relationships, ...) or "singular"
+  column?: string;
+  severity?: "error" | "warn";
+  references?: string;       // relationships: node ID the column points at
+  referencedColumn?: string; // relationships: column on the referenced node
 }
 
 export interface ColumnInfo {
   name: string;
   type: string;
   description?: string;
+  tags?: GovernanceTag[];
+  maskingPolicy?: string;
+  pii?: boolean;
+}
+
+export interface GovernanceTag {
+  name: string;   // database.schema.tag, e.g. SNOWFLAKE.CORE.SEMANTIC_CATEGORY
+  value: string;
+}
+
+export interface GovernancePolicy {
+  name: string;   // database.schema.policy
+  kind: string;   // MASKING_POLICY, ROW_ACCESS_POLICY, ...
+  column?: string;
 }
 
 // Edge types
-export type EdgeType = "ref" | "source" | "sql_dependency" | "dag_edge" | "materialization" | "exposure" | "inferred_exposure" | "reverse_etl";
+export type EdgeType = "ref" | "source" | "sql_dependency" | "dag_edge" | "materialization" | "exposure" | "inferred_exposure" | "reverse_etl" | "foreign_key" | "semantic_model" | "metric_input" | "orchestrates" | "ingestion" | "observed";
 
 export interface GraphEdge {
   id: string;
@@ -93,11 +236,65 @@ export interface EdgeMetadata {
   sqlSnippet?: string;
   transformationType?: string;
   inferredFrom?: string;  // How the edge was discovered (e.g., "sql-scan")
+  // Foreign key from a dbt relationships test (referenced node -> tested node)
+  foreignKey?: { column: string; referencedColumn?: string };
+  // Airflow tasks that write the target table (orchestrates edges)
+  taskIds?: string[];
   // Census reverse ETL metadata
   censusSyncId?: number;
   censusSyncLabel?: string;
   destinationType?: string;
   destinationObject?: string;
+  // Hightouch reverse ETL metadata
+  hightouchSyncId?: string;
+  hightouchSyncLabel?: string;
+  // Cross-repo linker match score, 0-1 (materialization edges)
+  linkConfidence?: number;
+  // Fivetran connector that lands the target table (ingestion edges)
+  fivetranConnectorId?: string;
+  // Observed in Snowflake query history (observed edges)
+  observedAccess?: "read" | "write";
+  queryCount?: number;
+  lastSeenAt?: string;
+  users?: string[];
+  roles?: string[];
+}
+
+// Column-level lineage: a column of one node feeding a column of another.
+// direct: passed through (possibly renamed or cast); derived: computed by an expression
+export type ColumnTransform = "direct" | "derived";
+
+export interface ColumnEdge {
+  fromNode: string;
+  fromColumn: string;
+  toNode: string;
+  toColumn: string;
+  transform: ColumnTransform;
+}
+
+// Column trace: every column a column reads from (upstream) or feeds (downstream)
+export type ColumnTraceDirection = "upstream" | "downstream" | "both";
+
+export interface ColumnTraceHop {
+  nodeId: string;
+  column: string;
+  depth: number;  // Hops from the traced column: negative upstream, positive downstream
+}
+
+export interface ColumnTrace {
+  nodeId: string;
+  column: string;
+  direction: ColumnTraceDirection;
+  depth: number;
+  hops: ColumnTraceHop[];
+  edges: ColumnEdge[];
+  truncated: boolean;  // The depth limit stopped the walk before it ran out of edges
+}
+
+// /api/column-trace: the trace plus the nodes it crosses and the graph edges between them
+export interface ColumnTraceResponse extends ColumnTrace {
+  nodes: GraphNode[];
+  graphEdges: GraphEdge[];
 }
 
 // Group types
@@ -141,8 +338,94 @@ export interface Explanation {
   modelUsed: string;
 }
 
+// Cross-repo linker conflicts and their human resolutions
+export type ConflictType = "duplicate_name" | "schema_mismatch" | "type_mismatch" | "low_confidence" | "ambiguous_match";
+
+export interface Conflict {
+  type: ConflictType;
+  nodeIds: string[];
+  message: string;
+  confidence?: number;  // Best match score, for conflicts from scored cross-repo matches
+}
+
+// merge: fold the other nodes into targetId; keep_separate: never link the
+// nodes; link: add an edgeType edge from → to
+export type ConflictResolutionAction = "merge" | "keep_separate" | "link";
+
+// Edge types a link resolution can add
+export const LINK_EDGE_TYPES: EdgeType[] = ["materialization", "sql_dependency", "ref", "source", "exposure", "ingestion"];
+
+export interface ConflictResolution {
+  conflictId: string;
+  action: ConflictResolutionAction;
+  nodeIds: string[];    // The conflict's nodes, so the resolution applies even if it isn't detected again
+  targetId?: string;
+  from?: string;
+  to?: string;
+  edgeType?: EdgeType;
+  note?: string;
+  resolvedAt?: string;
+}
+
+// A conflict from the last index, with its resolution once reviewed
+export interface ConflictInfo extends Conflict {
+  id: string;
+  detectedAt: string;
+  resolution?: ConflictResolution;
+}
+
+// Graph snapshot/diff types
+export interface GraphSnapshotInfo {
+  jobId: string;
+  version: number;
+  nodeCount: number;
+  edgeCount: number;
+  createdAt: string;
+}
+
+export type DiffStatus = "added" | "removed" | "modified";
+
+export interface MetadataChange {
+  key: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface NodeChange {
+  id: string;
+  name: string;
+  type: NodeType;
+  changedFields: string[];  // Top-level fields that differ (name, type, subtype, repo, metadata, sqlContent, compiledSql)
+  metadataChanges: MetadataChange[];
+  sqlChange?: { before?: string; after?: string };
+  compiledSqlChange?: { before?: string; after?: string };
+}
+
+export interface EdgeChange {
+  key: string;  // from|to|type - edge IDs are regenerated on every parse
+  from: string;
+  to: string;
+  type: EdgeType;
+  metadataChanges: MetadataChange[];
+}
+
+export interface GraphDiff {
+  from: GraphSnapshotInfo;
+  to: GraphSnapshotInfo;
+  nodes: {
+    added: GraphNode[];
+    removed: GraphNode[];
+    modified: NodeChange[];
+  };
+  edges: {
+    added: GraphEdge[];
+    removed: GraphEdge[];
+    modified: EdgeChange[];
+  };
+}
+
 // Job/Progress types
-export type JobStatus = "pending" | "running" | "completed" | "failed";
+export type JobStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
 
 export interface JobState {
   id: string;
@@ -155,21 +438,27 @@ export interface JobState {
   updatedAt: string;
 }
 
-export const INDEXING_STAGES = [
-  { id: "dbt_compile", name: "Compiling dbt project", startPct: 0, endPct: 10 },
-  { id: "parse_manifest", name: "Parsing dbt manifest", startPct: 10, endPct: 25 },
-  { id: "parse_airflow", name: "Parsing Airflow DAGs", startPct: 25, endPct: 40 },
-  { id: "parse_sql", name: "Extracting SQL dependencies", startPct: 40, endPct: 48 },
-  { id: "parse_externals", name: "Discovering external consumers", startPct: 48, endPct: 53 },
-  { id: "snowflake_metadata", name: "Fetching Snowflake metadata", startPct: 53, endPct: 58 },
-  { id: "snowflake_discovery", name: "Discovering Snowflake tables", startPct: 58, endPct: 68 },
+export interface IndexingStage {
+  id: string;
+  name: string;
+  startPct: number;
+  endPct: number;
+}
+
+// Source parser stages share 0..SOURCE_STAGES_END_PCT of overall progress,
+// split by each parser's progress weight (see lib/indexer/sourceParser.ts)
+export const SOURCE_STAGES_END_PCT = 68;
+
+// Stages that always run after the source parsers
+export const CORE_INDEXING_STAGES = [
   { id: "cross_repo_link", name: "Linking & layout", startPct: 68, endPct: 78 },
   { id: "ai_grouping", name: "Semantic classification & layer naming", startPct: 78, endPct: 90 },
   { id: "ai_flows", name: "AI: Proposing flows", startPct: 90, endPct: 95 },
   { id: "precompute_explanations", name: "Pre-computing explanations", startPct: 95, endPct: 100 },
 ] as const;
 
-export type IndexingStageId = typeof INDEXING_STAGES[number]["id"];
+// A core stage ID or the ID of a registered source parser
+export type IndexingStageId = string;
 
 // Full graph artifact
 export interface GraphArtifact {
@@ -0,0 +1,161 @@
+/**
+ * Dump Snowflake INFORMATION_SCHEMA (plus SHOW DYNAMIC TABLES/STREAMS/TASKS)
+ * to JSON for the offline Snowflake stand-in
+ * (lib/snowflake/offline), so CI and laptops without SSO can run the Snowflake
+ * metadata and discovery stages.
+ *
+ * Usage:
+ *   npx tsx scripts/dump-snowflake-metadata.ts [options]
+ *
+ * Options:
+ *   --out=PATH             Output file (default: data/snowflake-metadata.json)
+ *   --database=NAME        Database to dump (default: SNOWFLAKE_DATABASE)
+ *   --schemas=A,B          Only dump these schemas (default: all)
+ *   --with-governance      Also dump TAG_REFERENCES and POLICY_REFERENCES
+ *                          (needs IMPORTED PRIVILEGES on the SNOWFLAKE database)
+ *
+ * Environment variables:
+ *   SNOWFLAKE_*                 Live Snowflake connection (see README)
+ *
+ * Then index against the dump with SNOWFLAKE_METADATA_DUMP=<out>.
+ */
+
+// Load environment variables from .env.local (like Next.js does)
+import { loadEnvConfig } from "@next/env";
+loadEnvConfig(process.cwd());
+
+import { writeFileSync, mkdirSync } from "fs";
+import { dirname, join } from "path";
+import { connect, disconnect, executeQuery } from "../lib/snowflake/client";
+import { getSnowflakeConfig } from "../lib/indexer/snowflakeMetadata";
+
+interface CliOptions {
+  out: string;
+  database?: string;
+  schemas: string[];
+  withGovernance: boolean;
+}
+
+function parseArgs(): CliOptions {
+  const args = process.argv.slice(2);
+  const value = (name: string) => args.find(a => a.startsWith(`--${name}=`))?.split("=").slice(1).join("=");
+
+  return {
+    out: value("out") || join(process.cwd(), "data/snowflake-metadata.json"),
+    database: value("database"),
+    schemas: (value("schemas") ?? "").split(",").map(s => s.trim().toUpperCase()).filter(Boolean),
+    withGovernance: args.includes("--with-governance"),
+  };
+}
+
+async function main() {
+  const options = parseArgs();
+  const config = getSnowflakeConfig();
+  const database = (options.database || config.database).toUpperCase();
+
+  if (!config.account || !config.username) {
+    console.error("❌ SNOWFLAKE_ACCOUNT and RIPPLING_ACCOUNT_EMAIL must be set to dump metadata");
+    process.exit(1);
+  }
+
+  const schemaList = options.schemas.map(s => `'${s}'`).join(",");
+  const inSchemas = (column: string) => (options.schemas.length > 0 ? `AND ${column} IN (${schemaList})` : "");
+
+  console.log(`🔌 Connecting to Snowflake (${database})...`);
+  await connect({ ...config, database });
+
+  try {
+    console.log("📋 Reading INFORMATION_SCHEMA...");
+    const schemata = await executeQuery(
+      `SELECT CATALOG_NAME, SCHEMA_NAME
+       FROM "${database}".INFORMATION_SCHEMA.SCHEMATA
+       WHERE SCHEMA_NAME != 'INFORMATION_SCHEMA' ${inSchemas("SCHEMA_NAME")}
+       ORDER BY SCHEMA_NAME`
+    );
+    const tables = await executeQuery(
+      `SELECT TABLE_CATALOG, TABLE_SCHEMA, TABLE_NAME, TABLE_TYPE, COMMENT
+       FROM "${database}".INFORMATION_SCHEMA.TABLES
+       WHERE TABLE_SCHEMA != 'INFORMATION_SCHEMA' ${inSchemas("TABLE_SCHEMA")}
+       ORDER BY TABLE_SCHEMA, TABLE_NAME`
+    );
+    const columns = await executeQuery(
+      `SELECT TABLE_CATALOG, TABLE_SCHEMA, TABLE_NAME, COLUMN_NAME, ORDINAL_POSITION, DATA_TYPE, IS_NULLABLE, COMMENT
+       FROM "${database}".INFORMATION_SCHEMA.COLUMNS
+       WHERE TABLE_SCHEMA != 'INFORMATION_SCHEMA' ${inSchemas("TABLE_SCHEMA")}
+       ORDER BY TABLE_SCHEMA, TABLE_NAME, ORDINAL_POSITION`
+    );
+    const views = await executeQuery(
+      `SELECT TABLE_CATALOG, TABLE_SCHEMA, TABLE_NAME, VIEW_DEFINITION
+       FROM "${database}".INFORMATION_SCHEMA.VIEWS
+       WHERE TABLE_SCHEMA != 'INFORMATION_SCHEMA' ${inSchemas("TABLE_SCHEMA")}
+       ORDER BY TABLE_SCHEMA, TABLE_NAME`
+    );
+
+    // SHOW has no WHERE clause, so filter schemas here; accounts without
+    // dynamic tables (or the privileges to see tasks) just get none
+    const show = async (objects: string) => {
+      try {
+        const rows = await executeQuery<Record<string, unknown>>(`SHOW ${objects} IN DATABASE "${database}"`);
+        return options.schemas.length > 0
+          ? rows.filter(r => options.schemas.includes(String(r.schema_name).toUpperCase()))
+          : rows;
+      } catch (error) {
+        console.warn(`⚠️  SHOW ${objects} failed:`, error instanceof Error ? error.message : error);
+        return [];
+      }
+    };
+    console.log("⚙️  Reading dynamic tables, streams, tasks and procedures...");
+    const dynamicTables = await show("DYNAMIC TABLES");
+    const streams = await show("STREAMS");
+    const tasks = await show("TASKS");
+    const procedures = await executeQuery(
+      `SELECT PROCEDURE_CATALOG, PROCEDURE_SCHEMA, PROCEDURE_NAME, ARGUMENT_SIGNATURE, PROCEDURE_LANGUAGE, PROCEDURE_DEFINITION, COMMENT
+       FROM "${database}".INFORMATION_SCHEMA.PROCEDURES
+       WHERE PROCEDURE_SCHEMA != 'INFORMATION_SCHEMA' ${inSchemas("PROCEDURE_SCHEMA")}
+       ORDER BY PROCEDURE_SCHEMA, PROCEDURE_NAME`
+    );
+
+    let tagReferences: Record<string, unknown>[] = [];
+    let policyReferences: Record<string, unknown>[] = [];
+    if (options.withGovernance) {
+      console.log("🏷️  Reading tag and policy references...");
+      tagReferences = await executeQuery(
+        `SELECT TAG_DATABASE, TAG_SCHEMA, TAG_NAME, TAG_VALUE, OBJECT_DATABASE, OBJECT_SCHEMA, OBJECT_NAME, COLUMN_NAME, DOMAIN
+         FROM SNOWFLAKE.ACCOUNT_USAGE.TAG_REFERENCES
+         WHERE OBJECT_DATABASE = '${database}' AND DOMAIN IN ('TABLE', 'COLUMN') AND OBJECT_DELETED IS NULL
+         ${inSchemas("OBJECT_SCHEMA")}`
+      );
+      policyReferences = await executeQuery(
+        `SELECT POLICY_DB, POLICY_SCHEMA, POLICY_NAME, POLICY_KIND, REF_DATABASE_NAME, REF_SCHEMA_NAME, REF_ENTITY_NAME, REF_COLUMN_NAME
+         FROM SNOWFLAKE.ACCOUNT_USAGE.POLICY_REFERENCES
+         WHERE REF_DATABASE_NAME = '${database}'
+         ${inSchemas("REF_SCHEMA_NAME")}`
+      );
+    }
+
+    mkdirSync(dirname(options.out), { recursive: true });
+    writeFileSync(
+      options.out,
+      JSON.stringify(
+        { schemata, tables, columns, views, dynamicTables, streams, tasks, procedures, tagReferences, policyReferences },
+        null,
+        2
+      )
+    );
+
+    console.log(`✅ Wrote ${tables.length} tables, ${columns.length} columns, ${views.length} views to ${options.out}`);
+    console.log(
+      `   ${dynamicTables.length} dynamic tables, ${streams.length} streams, ${tasks.length} tasks, ${procedures.length} procedures`
+    );
+    if (options.withGovernance) {
+      console.log(`   ${tagReferences.length} tag references, ${policyReferences.length} policy references`);
+    }
+  } finally {
+    await disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Dump failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -69,6 +69,36 @@ interface DbEdge {
   metadata: string | null;
 }
 
+interface DbColumnEdge {
+  id: string;
+  from_node: string;
+  from_column: string;
+  to_node: string;
+  to_column: string;
+  transform: string;
+}
+
+interface DbConflict {
+  id: string;
+  type: string;
+  node_ids: string;
+  message: string;
+  confidence: number | null;
+  detected_at: string;
+}
+
+interface DbConflictResolution {
+  conflict_id: string;
+  action: string;
+  node_ids: string;
+  target_id: string | null;
+  from_node: string | null;
+  to_node: string | null;
+  edge_type: string | null;
+  note: string | null;
+  resolved_at: string;
+}
+
 interface DbGroup {
   id: string;
   name: string;
@@ -127,6 +157,9 @@ interface DbAnchorCandidate {
 interface ExportedData {
   nodes: DbNode[];
   edges: DbEdge[];
+  columnEdges: DbColumnEdge[];
+  conflicts: DbConflict[];
+  conflictResolutions: DbConflictResolution[];
   groups: DbGroup[];
   flows: DbFlow[];
   explanations: DbExplanation[];
@@ -371,6 +404,12 @@ function dbNodeToGraphNode(dbNode: DbNode): GraphNode {
   };
 }
 
+// Tables added after a database was built are missing until the next index,
+// so read them as empty rather than failing the export
+function tableExists(db: Database.Database, table: string): boolean {
+  return !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table);
+}
+
 async function main() {
   console.log("📦 Exporting graph data to JSON...");
   console.log(`   Source: ${DB_PATH}`);
@@ -395,6 +434,19 @@ async function main() {
   const edges = db.prepare("SELECT * FROM edges").all() as DbEdge[];
   console.log(`   Edges: ${edges.length}`);
 
+  const columnEdges = tableExists(db, "column_edges")
+    ? (db.prepare("SELECT * FROM column_edges").all() as DbColumnEdge[])
+    : [];
+  console.log(`   Column Edges: ${columnEdges.length}`);
+
+  const conflicts = tableExists(db, "conflicts")
+    ? (db.prepare("SELECT * FROM conflicts").all() as DbConflict[])
+    : [];
+  const conflictResolutions = tableExists(db, "conflict_resolutions")
+    ? (db.prepare("SELECT * FROM conflict_resolutions").all() as DbConflictResolution[])
+    : [];
+  console.log(`   Conflicts: ${conflicts.length} (${conflictResolutions.length} resolutions)`);
+
   const groups = db.prepare("SELECT * FROM groups").all() as DbGroup[];
   console.log(`   Groups: ${groups.length}`);
 
@@ -464,6 +516,9 @@ async function main() {
   const exportData: ExportedData = {
     nodes,
     edges,
+    columnEdges,
+    conflicts,
+    conflictResolutions,
     groups,
     flows,
     explanations,
@@ -0,0 +1,550 @@
+/**
+ * Headless CLI for indexing and querying the pipeline graph without the
+ * Next.js server (for CI jobs and cron boxes).
+ *
+ * Usage:
+ *   npx tsx scripts/pipeline-explorer.ts <command> [options]
+ *
+ * Commands:
+ *   index                        Build the graph (same as "Build Graph" in the UI)
+ *     --dbt-path PATH            dbt project (default: RIPPLING_DBT_PATH)
+ *     --dbt-artifacts-path PATH  Directory of catalog.json/run_results*.json (default: <dbt-path>/target)
+ *     --airflow-path PATH        Airflow DAGs repo (default: AIRFLOW_DAGS_PATH)
+ *     --snowflake                Enable Snowflake metadata enrichment and table discovery
+ *     --schemas A,B              Snowflake schemas to discover (default: skip discovery)
+ *     --census-config PATH       Census sync configuration JSON
+ *     --hightouch-config PATH    Hightouch export JSON (syncs, models, destinations)
+ *     --fivetran-config PATH     Fivetran connectors export JSON
+ *     --lookml-path PATH         LookML project repo
+ *     --tableau-path PATH        Directory of Tableau workbooks (.twb/.twbx)
+ *     --query-history PATH       Snowflake ACCESS_HISTORY/QUERY_HISTORY export (CSV or JSON)
+ *     --linker-config PATH       Cross-repo linker aliases and confidence threshold (YAML/JSON)
+ *     --incremental              Only re-parse inputs that changed since the last index
+ *     --source ID.KEY=VALUE      Per-parser config override (repeatable)
+ *   lineage <node>               Upstream/downstream lineage of a node
+ *     --up N                     Hops upstream (default: 3)
+ *     --down N                   Hops downstream (default: 2)
+ *     --flow ID                  Restrict to a flow's members
+ *   search <query>               Full-text node search
+ *     --limit N                  Max results (default: 50)
+ *   impact <node>                Everything downstream of a node
+ *     --depth N                  Max hops downstream (default: unlimited)
+ *
+ * Options:
+ *   --format json|table          Output format (default: table)
+ *
+ * <node> is a node ID or an exact (case-insensitive) node name.
+ *
+ * Environment variables:
+ *   DATABASE_PATH                Path to SQLite database (default: data/pipeline.db)
+ *   RIPPLING_DBT_PATH            Default dbt project path
+ *   RIPPLING_DBT_ARTIFACTS_PATH  Default dbt artifacts directory
+ *   AIRFLOW_DAGS_PATH            Default Airflow DAGs path
+ *   OPENAI_API_KEY               Enables AI layer naming, flows and explanations
+ */
+
+// Load environment variables from .env.local (like Next.js does)
+import { loadEnvConfig } from "@next/env";
+loadEnvConfig(process.cwd());
+
+import { v4 as uuid } from "uuid";
+import {
+  getDb,
+  createJob,
+  getJob,
+  getNodes,
+  getEdges,
+  getFlows,
+  getNodeById,
+  searchNodes,
+  submitSchemaSelection,
+  type DbNode,
+  type DbEdge,
+} from "../lib/db";
+import { Indexer, type IndexerConfig } from "../lib/indexer";
+import { computeVisibility, type VisibleNode } from "../lib/graph/visibility";
+import type { GraphNode, GraphEdge, GraphFlow } from "../lib/types";
+
+// ============================================================================
+// Argument parsing
+// ============================================================================
+
+type OutputFormat = "json" | "table";
+
+interface ParsedArgs {
+  command: string | undefined;
+  positionals: string[];
+  flags: Map<string, string[]>;  // --name value / --name=value; bare flags map to "true"
+}
+
+const BOOLEAN_FLAGS = new Set(["snowflake", "incremental", "help"]);
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags = new Map<string, string[]>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    let name = arg.slice(2);
+    let value: string;
+    const eq = name.indexOf("=");
+    if (eq >= 0) {
+      value = name.slice(eq + 1);
+      name = name.slice(0, eq);
+    } else if (BOOLEAN_FLAGS.has(name) || i + 1 >= argv.length || argv[i + 1].startsWith("--")) {
+      value = "true";
+    } else {
+      value = argv[++i];
+    }
+
+    if (!flags.has(name)) flags.set(name, []);
+    flags.get(name)!.push(value);
+  }
+
+  return { command: positionals.shift(), positionals, flags };
+}
+
+function getFlag(args: ParsedArgs, name: string): string | undefined {
+  return args.flags.get(name)?.at(-1);
+}
+
+function getNumberFlag(args: ParsedArgs, name: string, defaultValue: number): number {
+  const value = getFlag(args, name);
+  if (value === undefined) return defaultValue;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+function getFormat(args: ParsedArgs): OutputFormat {
+  const format = getFlag(args, "format") ?? "table";
+  if (format !== "json" && format !== "table") {
+    throw new Error(`--format must be json or table, got "${format}"`);
+  }
+  return format;
+}
+
+function expandHome(path: string): string {
+  return path.startsWith("~") ? path.replace("~", process.env.HOME || "") : path;
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+type TableRow = Record<string, string | number | null | undefined>;
+
+function printTable(rows: TableRow[], columns: string[]): void {
+  if (rows.length === 0) {
+    console.log("(no results)");
+    return;
+  }
+
+  const cell = (row: TableRow, column: string) => String(row[column] ?? "");
+  const widths = columns.map((column) =>
+    Math.max(column.length, ...rows.map((row) => cell(row, column).length))
+  );
+
+  const line = (values: string[]) => values.map((v, i) => v.padEnd(widths[i])).join("  ").trimEnd();
+  console.log(line(columns.map((c) => c.toUpperCase())));
+  console.log(line(widths.map((w) => "-".repeat(w))));
+  for (const row of rows) {
+    console.log(line(columns.map((column) => cell(row, column))));
+  }
+}
+
+function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+// ============================================================================
+// Graph loading
+// ============================================================================
+
+function toGraphNode(n: DbNode): GraphNode {
+  return {
+    id: n.id,
+    name: n.name,
+    type: n.type as GraphNode["type"],
+    subtype: (n.subtype as GraphNode["subtype"]) || undefined,
+    groupId: n.group_id || undefined,
+    repo: n.repo || undefined,
+    metadata: n.metadata ? JSON.parse(n.metadata) : undefined,
+    layoutLayer: n.layout_layer ?? undefined,
+  };
+}
+
+function toGraphEdge(e: DbEdge): GraphEdge {
+  return {
+    id: e.id,
+    from: e.from_node,
+    to: e.to_node,
+    type: e.type as GraphEdge["type"],
+    metadata: e.metadata ? JSON.parse(e.metadata) : undefined,
+  };
+}
+
+function loadGraph(): { nodes: GraphNode[]; edges: GraphEdge[]; flows: GraphFlow[] } {
+  const nodes = getNodes().map(toGraphNode);
+  if (nodes.length === 0) {
+    throw new Error("The graph is empty. Run the index command first.");
+  }
+
+  const flows: GraphFlow[] = getFlows().map((f) => ({
+    id: f.id,
+    name: f.name,
+    description: f.description || undefined,
+    anchorNodes: f.anchor_nodes ? JSON.parse(f.anchor_nodes) : [],
+    memberNodes: f.member_nodes ? JSON.parse(f.member_nodes) : [],
+    userDefined: f.user_defined === 1,
+    inferenceReason: f.inference_reason || undefined,
+  }));
+
+  return { nodes, edges: getEdges().map(toGraphEdge), flows };
+}
+
+/**
+ * Resolve a node by ID, falling back to an exact case-insensitive name match.
+ */
+function resolveNode(ref: string | undefined, nodes: GraphNode[]): GraphNode {
+  if (!ref) {
+    throw new Error("Missing <node> argument");
+  }
+
+  const byId = getNodeById(ref);
+  if (byId) return toGraphNode(byId);
+
+  const matches = nodes.filter((n) => n.name.toLowerCase() === ref.toLowerCase());
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) {
+    throw new Error(`"${ref}" matches ${matches.length} nodes, use an ID: ${matches.map((n) => n.id).join(", ")}`);
+  }
+  throw new Error(`Node not found: ${ref}`);
+}
+
+function describeNode(node: VisibleNode): TableRow {
+  return {
+    layer: node.relativeLayer,
+    direction: node.visibilityReason.type,
+    id: node.id,
+    name: node.name,
+    type: node.subtype ? `${node.type}/${node.subtype}` : node.type,
+  };
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+function buildIndexerConfig(args: ParsedArgs): IndexerConfig {
+  const config: IndexerConfig = {
+    dbtPath: expandHome(getFlag(args, "dbt-path") || process.env.RIPPLING_DBT_PATH || "~/Documents/GitHub/rippling-dbt"),
+    airflowPath: expandHome(getFlag(args, "airflow-path") || process.env.AIRFLOW_DAGS_PATH || "~/Documents/GitHub/airflow-dags"),
+    snowflakeEnabled: getFlag(args, "snowflake") === "true",
+    incremental: getFlag(args, "incremental") === "true",
+  };
+
+  const dbtArtifactsPath = getFlag(args, "dbt-artifacts-path");
+  if (dbtArtifactsPath) {
+    config.sources = { ...config.sources, dbt: { dbtArtifactsPath: expandHome(dbtArtifactsPath) } };
+  }
+
+  const censusConfig = getFlag(args, "census-config");
+  if (censusConfig) {
+    config.censusConfig = expandHome(censusConfig);
+  }
+
+  const hightouchConfig = getFlag(args, "hightouch-config");
+  if (hightouchConfig) {
+    config.hightouchConfig = expandHome(hightouchConfig);
+  }
+
+  const fivetranConfig = getFlag(args, "fivetran-config");
+  if (fivetranConfig) {
+    config.fivetranConfig = expandHome(fivetranConfig);
+  }
+
+  const lookmlPath = getFlag(args, "lookml-path");
+  if (lookmlPath) {
+    config.lookmlPath = expandHome(lookmlPath);
+  }
+
+  const tableauPath = getFlag(args, "tableau-path");
+  if (tableauPath) {
+    config.tableauPath = expandHome(tableauPath);
+  }
+
+  const queryHistoryPath = getFlag(args, "query-history");
+  if (queryHistoryPath) {
+    config.queryHistoryPath = expandHome(queryHistoryPath);
+  }
+
+  const linkerConfig = getFlag(args, "linker-config");
+  if (linkerConfig) {
+    config.linkerConfig = expandHome(linkerConfig);
+  }
+
+  // --source dbt.dbtPath=/path sets config.sources.dbt.dbtPath
+  for (const override of args.flags.get("source") ?? []) {
+    const match = override.match(/^([^.=]+)\.([^=]+)=(.*)$/);
+    if (!match) {
+      throw new Error(`--source must look like ID.KEY=VALUE, got "${override}"`);
+    }
+    const [, parserId, key, rawValue] = match;
+    let value: unknown = rawValue;
+    try {
+      value = JSON.parse(rawValue);
+    } catch {
+      // Plain strings don't need quoting
+    }
+    config.sources = config.sources ?? {};
+    config.sources[parserId] = { ...config.sources[parserId], [key]: value };
+  }
+
+  return config;
+}
+
+async function runIndex(args: ParsedArgs, format: OutputFormat): Promise<number> {
+  const config = buildIndexerConfig(args);
+  const schemas = getFlag(args, "schemas")?.split(",").map((s) => s.trim()).filter(Boolean) ?? [];
+
+  // Keep stdout parseable: indexer progress goes to stderr in JSON mode
+  if (format === "json") {
+    console.log = console.error;
+  }
+
+  getDb();
+  const jobId = uuid();
+  createJob(jobId);
+
+  // There's no UI to pick schemas, so answer the discovery prompt from --schemas
+  const schemaPoller = setInterval(() => {
+    const job = getJob(jobId);
+    if (job?.status === "waiting_for_input" && job.waiting_for === "schema_selection") {
+      console.error(schemas.length > 0
+        ? `Selecting Snowflake schemas: ${schemas.join(", ")}`
+        : "No --schemas given, skipping Snowflake table discovery");
+      submitSchemaSelection(jobId, schemas);
+    }
+  }, 500);
+
+  try {
+    await new Indexer(jobId, config).run();
+  } catch {
+    // The indexer records the error on the job
+  } finally {
+    clearInterval(schemaPoller);
+  }
+
+  const job = getJob(jobId)!;
+  const summary = { jobId, status: job.status, message: job.message, error: job.error };
+  if (format === "json") {
+    process.stdout.write(JSON.stringify(summary, null, 2) + "\n");
+  } else {
+    printTable([summary], ["jobId", "status", "message", "error"]);
+  }
+
+  return job.status === "completed" ? 0 : 1;
+}
+
+function runLineage(args: ParsedArgs, format: OutputFormat): number {
+  const { nodes, edges, flows } = loadGraph();
+  const anchor = resolveNode(args.positionals[0], nodes);
+  const upstreamDepth = getNumberFlag(args, "up", 3);
+  const downstreamDepth = getNumberFlag(args, "down", 2);
+
+  const result = computeVisibility(
+    {
+      anchor: anchor.id,
+      focus: null,
+      flow: getFlag(args, "flow") ?? null,
+      upstreamDepth,
+      downstreamDepth,
+      showOrphans: false,
+    },
+    nodes,
+    edges,
+    flows
+  );
+
+  const visibleNodes = [...result.visibleNodes].sort(
+    (a, b) => a.relativeLayer - b.relativeLayer || a.name.localeCompare(b.name)
+  );
+
+  if (format === "json") {
+    printJson({
+      anchor: { id: anchor.id, name: anchor.name, type: anchor.type },
+      upstreamDepth,
+      downstreamDepth,
+      nodes: visibleNodes.map((n) => ({
+        id: n.id,
+        name: n.name,
+        type: n.type,
+        subtype: n.subtype,
+        relativeLayer: n.relativeLayer,
+        visibilityReason: n.visibilityReason,
+      })),
+      edges: result.visibleEdges.map((e) => ({ from: e.from, to: e.to, type: e.type })),
+    });
+  } else {
+    printTable(visibleNodes.map(describeNode), ["layer", "direction", "id", "name", "type"]);
+    console.log(`\n${visibleNodes.length} nodes, ${result.visibleEdges.length} edges`);
+  }
+
+  return 0;
+}
+
+function runSearch(args: ParsedArgs, format: OutputFormat): number {
+  const query = args.positionals.join(" ").trim();
+  if (query.length < 2) {
+    throw new Error("Search query must be at least 2 characters");
+  }
+  const limit = getNumberFlag(args, "limit", 50);
+
+  // FTS doesn't tokenize external node names well, so also match them by substring
+  const results = searchNodes(`${query}*`, limit);
+  const seen = new Set(results.map((n) => n.id));
+  const queryLower = query.toLowerCase();
+  for (const node of getNodes()) {
+    if (results.length >= limit) break;
+    if (node.type !== "external" || seen.has(node.id)) continue;
+    if (node.name.toLowerCase().includes(queryLower) || node.id.toLowerCase().includes(queryLower)) {
+      results.push(node);
+      seen.add(node.id);
+    }
+  }
+
+  const nodes = results.map(toGraphNode);
+  if (format === "json") {
+    printJson({ query, total: nodes.length, nodes });
+  } else {
+    printTable(
+      nodes.map((n) => ({
+        id: n.id,
+        name: n.name,
+        type: n.subtype ? `${n.type}/${n.subtype}` : n.type,
+        repo: n.repo,
+      })),
+      ["id", "name", "type", "repo"]
+    );
+  }
+
+  return 0;
+}
+
+function runImpact(args: ParsedArgs, format: OutputFormat): number {
+  const { nodes, edges, flows } = loadGraph();
+  const node = resolveNode(args.positionals[0], nodes);
+  const depth = getNumberFlag(args, "depth", Infinity);
+
+  const result = computeVisibility(
+    {
+      anchor: node.id,
+      focus: null,
+      flow: null,
+      upstreamDepth: 0,
+      downstreamDepth: depth,
+      showOrphans: false,
+    },
+    nodes,
+    edges,
+    flows
+  );
+
+  const impacted = result.visibleNodes
+    .filter((n) => n.id !== node.id)
+    .sort((a, b) => a.relativeLayer - b.relativeLayer || a.name.localeCompare(b.name));
+
+  const byType: Record<string, number> = {};
+  for (const n of impacted) {
+    const key = n.subtype ?? n.type;
+    byType[key] = (byType[key] || 0) + 1;
+  }
+  const externals = impacted.filter((n) => n.type === "external");
+
+  if (format === "json") {
+    printJson({
+      node: { id: node.id, name: node.name, type: node.type },
+      depth: Number.isFinite(depth) ? depth : null,
+      total: impacted.length,
+      byType,
+      externals: externals.map((n) => ({ id: n.id, name: n.name, subtype: n.subtype })),
+      nodes: impacted.map((n) => ({
+        id: n.id,
+        name: n.name,
+        type: n.type,
+        subtype: n.subtype,
+        hops: n.relativeLayer,
+      })),
+    });
+  } else {
+    printTable(
+      impacted.map((n) => ({ ...describeNode(n), hops: n.relativeLayer })),
+      ["hops", "id", "name", "type"]
+    );
+    const typeSummary = Object.entries(byType)
+      .sort((a, b) => b[1] - a[1])
+      .map(([type, count]) => `${type}: ${count}`)
+      .join(", ");
+    console.log(`\n${impacted.length} downstream nodes${typeSummary ? ` (${typeSummary})` : ""}`);
+    if (externals.length > 0) {
+      console.log(`External consumers: ${externals.map((n) => n.name).join(", ")}`);
+    }
+  }
+
+  return 0;
+}
+
+const USAGE = `Usage: npx tsx scripts/pipeline-explorer.ts <command> [options]
+
+Commands:
+  index [--dbt-path PATH] [--dbt-artifacts-path PATH] [--airflow-path PATH]
+        [--snowflake] [--schemas A,B] [--census-config PATH] [--hightouch-config PATH]
+        [--fivetran-config PATH] [--lookml-path PATH] [--tableau-path PATH]
+        [--query-history PATH] [--linker-config PATH] [--incremental]
+        [--source ID.KEY=VALUE]
+  lineage <node> [--up N] [--down N] [--flow ID]
+  search <query> [--limit N]
+  impact <node> [--depth N]
+
+Options:
+  --format json|table   Output format (default: table)`;
+
+async function main(): Promise<number> {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args.command || getFlag(args, "help") === "true") {
+    console.log(USAGE);
+    return args.command ? 0 : 1;
+  }
+
+  const format = getFormat(args);
+
+  switch (args.command) {
+    case "index":
+      return runIndex(args, format);
+    case "lineage":
+      return runLineage(args, format);
+    case "search":
+      return runSearch(args, format);
+    case "impact":
+      return runImpact(args, format);
+    default:
+      throw new Error(`Unknown command: ${args.command}\n\n${USAGE}`);
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  });